@@ -1,9 +1,7 @@
 import React, { useState, useEffect, useRef, Suspense, lazy } from 'react';
 // @ts-ignore
-import JSZip from 'jszip';
-// @ts-ignore
 import { jwtDecode } from 'jwt-decode';
-import { User, Event, MediaItem, UserRole, TierLevel, Language, TranslateFn, TIER_CONFIG, getTierConfigForUser, getTierConfig } from './types';
+import { User, Event, MediaItem, LikeResult, UserRole, TierLevel, Language, TranslateFn, TIER_CONFIG, getTierConfigForUser, getTierConfig } from './types';
 import { api } from './services/api';
 import { TRANSLATIONS } from './constants';
 
@@ -18,6 +16,7 @@ const ContactModal = lazy(() => import('./components/ContactModal').then(module
 const GuestLoginModal = lazy(() => import('./components/GuestLoginModal').then(module => ({ default: module.GuestLoginModal })));
 const StudioSettingsModal = lazy(() => import('./components/StudioSettingsModal').then(module => ({ default: module.StudioSettingsModal })));
 const MediaReviewModal = lazy(() => import('./components/MediaReviewModal').then(module => ({ default: module.MediaReviewModal })));
+const CollageModal = lazy(() => import('./components/CollageModal').then(module => ({ default: module.CollageModal })));
 const LiveSlideshow = lazy(() => import('./components/LiveSlideshow').then(module => ({ default: module.LiveSlideshow })));
 const PWAInstallPrompt = lazy(() => import('./components/PWAInstallPrompt').then(module => ({ default: module.PWAInstallPrompt })));
 const OfflineBanner = lazy(() => import('./components/OfflineBanner').then(module => ({ default: module.OfflineBanner })));
@@ -26,10 +25,10 @@ const ReloadPrompt = lazy(() => import('./components/ReloadPrompt').then(module
 const SupportChat = lazy(() => import('./components/SupportChat').then(module => ({ default: module.SupportChat })));
 
 // Keep lightweight utilities as direct imports
-import { applyWatermark, processImage } from './utils/imageProcessing';
+import { processImage } from './utils/imageProcessing';
 import { clearDeviceFingerprint } from './utils/deviceFingerprint';
 import { socketService } from './services/socketService';
-import { validateGuestName, sanitizeInput, validateEmail, validatePassword, validateEventTitle, validateEventDescription } from './utils/validation';
+import { validateGuestName, sanitizeInput, validateEmail, validatePassword, validateEventTitle, validateEventDescription, isConvertedImage, CONVERTED_IMAGE_EXTENSIONS } from './utils/validation';
 import { clearAllCaches } from './utils/cacheManager';
 
 // @ts-ignore
@@ -85,6 +84,8 @@ export default function App() {
   const [previewMedia, setPreviewMedia] = useState<{ type: 'image' | 'video', src: string, file?: File } | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // Shots for a collage being made in the camera flow - null when not making one
+  const [collageShots, setCollageShots] = useState<File[] | null>(null);
 
   const [adminStatus, setAdminStatus] = useState<{ adminId: string, online: boolean, lastSeen: number }[]>([]);
   const [showSupportChat, setShowSupportChat] = useState(false);
@@ -198,14 +199,14 @@ export default function App() {
       }));
     };
 
-    const handleMediaProcessed = (data: { id: string, previewUrl: string, url?: string }) => {
+    const handleMediaProcessed = (data: Partial<MediaItem> & { id: string }) => {
       console.log('Media processed event received:', data);
       setEvents(prev => prev.map(event => {
         if (event.media.some(m => m.id === data.id)) {
           return {
             ...event,
             media: event.media.map(m =>
-              m.id === data.id ? { ...m, isProcessing: false, previewUrl: data.previewUrl, url: data.url || m.url } : m
+              m.id === data.id ? { ...m, ...data, isProcessing: false } : m
             )
           };
         }
@@ -482,7 +483,7 @@ export default function App() {
 
   const handleCreateEvent = async (data: any) => {
     if (!currentUser) return;
-    const { title, date, theme, description, pin, adminOptions } = data;
+    const { title, date, theme, description, pin, keepLocation, adminOptions } = data;
 
     // Validate input
     if (!validateEventTitle(title)) {
@@ -527,6 +528,7 @@ export default function App() {
       media: [],
       expiresAt,
       pin: pin,
+      keepLocation: !!keepLocation,
       views: 0,
       downloads: 0
     };
@@ -553,15 +555,16 @@ export default function App() {
     alert(t('coverSet'));
   };
 
-  const handleLikeMedia = async (item: MediaItem) => {
-    if (!currentEventId) return;
+  // Toggles - a second like from the same user or guest takes it back
+  const handleLikeMedia = async (item: MediaItem): Promise<LikeResult> => {
+    const result = await api.likeMedia(item);
     setEvents(prev => prev.map(e => {
-      if (e.id === currentEventId) {
-        return { ...e, media: e.media.map(m => m.id === item.id ? { ...m, likes: (m.likes || 0) + 1 } : m) };
+      if (e.id === item.eventId) {
+        return { ...e, media: e.media.map(m => m.id === item.id ? { ...m, likes: result.likes, likedByMe: result.liked } : m) };
       }
       return e;
     }));
-    await api.likeMedia(item.id);
+    return result;
   };
 
   const handleDeleteEvent = async (id: string) => {
@@ -613,6 +616,11 @@ export default function App() {
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || !e.target.files[0] || !activeEvent) return;
     const file = e.target.files[0];
+    if (collageShots) {
+      if (file.type.startsWith('image/') && !isConvertedImage(file)) setCollageShots(prev => [...(prev || []), file]);
+      e.target.value = '';
+      return;
+    }
     const type = file.type.startsWith('video') ? 'video' : 'image';
     const url = URL.createObjectURL(file);
     setPreviewMedia({ type, src: url, file });
@@ -650,7 +658,8 @@ export default function App() {
       }
 
       let finalCaption = userCaption;
-      if (!finalCaption && type === 'image') {
+      // HEIC/RAW files can't be decoded in most browsers - they are converted on the server
+      if (!finalCaption && type === 'image' && !(file && isConvertedImage(file))) {
         finalCaption = await api.generateImageCaption(src);
       }
       const config = currentUser ? getTierConfigForUser(currentUser) : TIER_CONFIG[TierLevel.FREE];
@@ -659,21 +668,9 @@ export default function App() {
       const shouldWatermark = applyWatermarkState && canWatermark;
       let uploadFile = file;
 
-      if ((shouldWatermark && type === 'image' && currentUser) || (!file && type === 'image')) {
-        let source = src;
-        if (shouldWatermark && currentUser) {
-          source = await applyWatermark(
-            src,
-            canUseBranding ? (currentUser.studioName || null) : null,
-            canUseBranding ? (currentUser.logoUrl || null) : null,
-            canUseBranding ? currentUser.watermarkOpacity : undefined,
-            canUseBranding ? currentUser.watermarkSize : undefined,
-            canUseBranding ? currentUser.watermarkPosition : undefined,
-            canUseBranding ? currentUser.watermarkOffsetX : undefined,
-            canUseBranding ? currentUser.watermarkOffsetY : undefined
-          );
-        }
-        const res = await fetch(source);
+      // Watermarks are rendered server-side from the host's studio settings
+      if (!file && type === 'image') {
+        const res = await fetch(src);
         const blob = await res.blob();
         uploadFile = new File([blob], "capture.jpg", { type: "image/jpeg" });
       }
@@ -706,7 +703,7 @@ export default function App() {
       }
 
       const metadata: Partial<MediaItem> = {
-        id: `media-${Date.now()}`,
+        id: crypto.randomUUID(),
         type,
         caption: finalCaption,
         uploadedAt: new Date().toISOString(),
@@ -738,6 +735,8 @@ export default function App() {
       // Handle Storage Limit Error specifically
       if (e.message === 'Storage limit exceeded' || (e.response && e.response.status === 413)) {
         alert(t('storageLimit'));
+      } else if (e.message === 'Duplicate upload') {
+        alert(t('duplicateUpload'));
       } else {
         alert("Upload failed. Please try again.");
       }
@@ -747,47 +746,17 @@ export default function App() {
     }
   };
 
-  const downloadEventZip = async (targetEvent: Event) => {
+  const downloadEventZip = async (targetEvent: Event, mediaIds?: string[], source?: 'highlights') => {
     if (!targetEvent || targetEvent.media.length === 0) return;
     setDownloadingZip(true);
     try {
-      const zip = new JSZip();
-      const folder = zip.folder(targetEvent.title.replace(/[^a-z0-9]/gi, '_'));
-      const eventHost = allUsers.find(u => u.id === targetEvent.hostId);
-      const isFreeTier = !eventHost || eventHost.tier === TierLevel.FREE;
-      const fetchFile = async (url: string) => {
-        const fetchUrl = url.startsWith('http') || url.startsWith('data:') ? url : `${(env.VITE_API_URL || '')}${url}`;
-        const res = await fetch(fetchUrl);
-        return res.blob();
-      };
-      const blobToBase64 = (blob: Blob): Promise<string> => new Promise(resolve => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(blob);
-      });
-      for (const item of targetEvent.media) {
-        const filename = `${item.id}.${item.type === 'video' ? 'mp4' : 'jpg'}`;
-        if (!item.url) continue;
-        let blob = await fetchFile(item.url);
-        if (isFreeTier && item.type === 'image') {
-          try {
-            const base64 = await blobToBase64(blob);
-            const watermarkedDataUrl = await applyWatermark(base64, "SnapifY", null, 0.5, 30, 'center', 0, 0);
-            const cleanData = watermarkedDataUrl.split(',')[1];
-            if (folder) folder.file(filename, cleanData, { base64: true });
-            continue;
-          } catch (e) { console.warn("Failed to watermark image for zip", e); }
-        }
-        if (folder) folder.file(filename, blob);
-      }
-      const content = await zip.generateAsync({ type: "blob" });
+      // The server streams the archive (and watermarks free tier images), so let the browser save it directly
       const link = document.createElement('a');
-      link.href = URL.createObjectURL(content);
-      link.download = `${targetEvent.title.replace(/[^a-z0-9]/gi, '_')}_memories.zip`;
+      link.href = await api.getEventExportUrl(targetEvent.id, { ids: mediaIds, source });
+      link.download = `${targetEvent.title.replace(/[^a-z0-9]/gi, '_')}_${source || 'memories'}.zip`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      await api.updateEvent({ ...targetEvent, downloads: (targetEvent.downloads || 0) + 1 });
       setEvents(prev => prev.map(e => e.id === targetEvent.id ? { ...e, downloads: (e.downloads || 0) + 1 } : e));
     } catch (err) {
       alert(t('zipError'));
@@ -950,6 +919,7 @@ export default function App() {
                     onNewEvent={() => setShowCreateModal(true)}
                     onSelectEvent={(id) => { setCurrentEventId(id); setView('event'); }}
                     onRequestUpgrade={() => setShowContactModal(true)}
+                    language={language}
                     t={t}
                   />
                 </Suspense>
@@ -968,11 +938,14 @@ export default function App() {
                     downloadingZip={downloadingZip}
                     applyWatermark={applyWatermarkState}
                     setApplyWatermark={setApplyWatermarkState}
-                    onDownloadAll={(media) => downloadEventZip({ ...activeEvent, media: media || activeEvent.media })}
+                    onDownloadAll={(media) => downloadEventZip(activeEvent, media && media.length < activeEvent.media.length ? media.map(m => m.id) : undefined)}
+                    onDownloadHighlights={() => downloadEventZip(activeEvent, undefined, 'highlights')}
                     onSetCover={handleSetCoverImage}
                     onUpload={initiateMediaAction}
                     onLike={handleLikeMedia}
+                    onUpdateEvent={handleUpdateEvent}
                     onOpenLiveSlideshow={() => setView('live')}
+                    language={language}
                     t={t}
                   />
                 </Suspense>
@@ -996,7 +969,7 @@ export default function App() {
 
       <PWAInstallPrompt t={t} />
 
-      <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" onChange={handleFileUpload} />
+      <input type="file" ref={fileInputRef} className="hidden" accept={`image/*,video/*,${CONVERTED_IMAGE_EXTENSIONS.join(',')}`} onChange={handleFileUpload} />
       <input key="camera-input-v2" type="file" ref={cameraInputRef} className="hidden" accept="image/*" capture="environment" onChange={handleFileUpload} />
 
       {previewMedia && (
@@ -1016,6 +989,30 @@ export default function App() {
             isRegistered={!!currentUser}
             t={t}
             file={previewMedia.file}
+            onMakeCollage={previewMedia.file && !isConvertedImage(previewMedia.file) ? () => {
+              setCollageShots([previewMedia.file!]);
+              setPreviewMedia(null);
+              if (cameraInputRef.current) cameraInputRef.current.value = '';
+              if (fileInputRef.current) fileInputRef.current.value = '';
+            } : undefined}
+          />
+        </Suspense>
+      )}
+
+      {collageShots && activeEvent && (
+        <Suspense fallback={null}>
+          <CollageModal
+            eventId={activeEvent.id}
+            eventTitle={activeEvent.title}
+            language={language}
+            photos={collageShots}
+            onAddPhoto={() => cameraInputRef.current?.click()}
+            onUse={(collage) => {
+              setCollageShots(null);
+              setPreviewMedia({ type: 'image', src: URL.createObjectURL(collage), file: collage });
+            }}
+            onClose={() => setCollageShots(null)}
+            t={t}
           />
         </Suspense>
       )}
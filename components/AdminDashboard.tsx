@@ -8,7 +8,7 @@ import {
   Tooltip, 
   ResponsiveContainer 
 } from 'recharts';
-import { User, UserRole, TierLevel, Event, TranslateFn, MediaItem, TIER_CONFIG } from '../types';
+import { User, UserRole, TierLevel, Event, TranslateFn, MediaItem, TIER_CONFIG, UploadJob } from '../types';
 import { Trash2, HardDrive, Zap, Calendar, Image as ImageIcon, X, Clock, Eye, Plus, Edit, Save, Camera, Briefcase, AlertTriangle, ZoomIn, Download, Lock, ArrowLeft, LogOut, Mail, Building, ShieldAlert, Users, LayoutGrid, Settings, Crown, Star, RefreshCw, Bell, Check, MessageCircle, Send } from 'lucide-react';
 import { api } from '../services/api';
 import { useRegisterSW } from 'virtual:pwa-register/react';
@@ -77,6 +77,10 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   } | null>(null);
   const [storageLoading, setStorageLoading] = useState(false);
 
+  // Upload Jobs State
+  const [uploadJobs, setUploadJobs] = useState<UploadJob[] | null>(null);
+  const [uploadJobsLoading, setUploadJobsLoading] = useState(false);
+
   // Notifications State
   const [notifications, setNotifications] = useState<any[]>([]);
   const [showNotifications, setShowNotifications] = useState(false);
@@ -129,6 +133,35 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   }, [activeTab, systemStorage]);
 
+  // Fetch unfinished upload jobs when System tab is active
+  const fetchUploadJobs = async () => {
+    setUploadJobsLoading(true);
+    try {
+      setUploadJobs(await api.getUploadJobs());
+    } catch (error) {
+      console.error('Failed to fetch upload jobs:', error);
+    } finally {
+      setUploadJobsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeTab === 'system' && !uploadJobs) {
+      fetchUploadJobs();
+    }
+  }, [activeTab, uploadJobs]);
+
+  const handleUploadJobAction = async (job: UploadJob, action: 'retry' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel processing of "${job.originalName}"? The uploaded file will be deleted.`)) return;
+    try {
+      if (action === 'retry') await api.retryUploadJob(job.id);
+      else await api.cancelUploadJob(job.id);
+      await fetchUploadJobs();
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : 'Upload job action failed'}`);
+    }
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -864,6 +897,63 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                           )}
                       </div>
 
+                      {/* Upload Jobs Card */}
+                      <div className="border border-slate-200 rounded-2xl p-6 bg-slate-50/50">
+                          <div className="flex items-center justify-between mb-4">
+                              <h4 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                                  <Clock size={18} /> Upload Jobs
+                              </h4>
+                              <button
+                                  onClick={fetchUploadJobs}
+                                  className="p-2 text-slate-500 hover:text-slate-900 hover:bg-white rounded-lg transition-colors"
+                                  title="Refresh"
+                              >
+                                  <RefreshCw size={16} className={uploadJobsLoading ? 'animate-spin' : ''} />
+                              </button>
+                          </div>
+                          {uploadJobs && uploadJobs.length > 0 ? (
+                              <div className="space-y-2">
+                                  {uploadJobs.map(job => (
+                                      <div key={job.id} className="bg-white p-4 rounded-xl border border-slate-200 flex items-center justify-between gap-4">
+                                          <div className="min-w-0">
+                                              <div className="font-bold text-slate-900 truncate">{job.originalName}</div>
+                                              <div className="text-xs text-slate-500 mt-1">
+                                                  <span className={`font-bold uppercase mr-2 ${job.status === 'failed' || job.isStuck ? 'text-red-600' : job.status === 'cancelled' ? 'text-slate-400' : 'text-amber-600'}`}>
+                                                      {job.isStuck ? 'stuck' : job.status}
+                                                  </span>
+                                                  Attempt {job.attempts}/{job.maxAttempts} · {(job.fileSize / (1024 * 1024)).toFixed(1)} MB · {new Date(job.updatedAt).toLocaleString()}
+                                              </div>
+                                              {job.lastError && <div className="text-xs text-red-600 mt-1 truncate">{job.lastError}</div>}
+                                          </div>
+                                          <div className="flex gap-2 shrink-0">
+                                              {(job.status === 'failed' || job.status === 'cancelled') && (
+                                                  <button
+                                                      onClick={() => handleUploadJobAction(job, 'retry')}
+                                                      className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-bold rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-1"
+                                                  >
+                                                      <RefreshCw size={14} /> Retry
+                                                  </button>
+                                              )}
+                                              {job.status !== 'cancelled' && !job.isRunning && (
+                                                  <button
+                                                      onClick={() => handleUploadJobAction(job, 'cancel')}
+                                                      className="px-3 py-1.5 bg-slate-100 text-slate-700 text-xs font-bold rounded-lg hover:bg-slate-200 transition-colors flex items-center gap-1"
+                                                  >
+                                                      <X size={14} /> Cancel
+                                                  </button>
+                                              )}
+                                          </div>
+                                      </div>
+                                  ))}
+                              </div>
+                          ) : (
+                              <div className="text-center py-8 text-slate-500">
+                                  <Check size={48} className="mx-auto mb-4 text-slate-300" />
+                                  <p>{uploadJobsLoading ? 'Loading upload jobs...' : 'No pending or failed upload jobs'}</p>
+                              </div>
+                          )}
+                      </div>
+
                       {/* System Lab Card */}
                       <div className="border border-red-200 rounded-2xl p-6 bg-red-50/30">
                           <div className="flex items-center gap-3 mb-6">
@@ -17,8 +17,8 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
     if (file) {
       setIsProcessing(true);
       try {
-        // Process image without EXIF correction (preview modal handles orientation)
-        const processedImage = await processImage(file, 1920, 1080, false);
+        // Orientation is normalized by the server on upload
+        const processedImage = await processImage(file, 1920, 1080);
         onCapture(processedImage);
       } catch (error) {
         console.error('Error processing image:', error);
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, LayoutGrid, Camera, Download, Upload, Loader2 } from 'lucide-react';
+import { CollageTemplate, Language, MediaItem, PrintSize, TranslateFn } from '../types';
+import { COLLAGE_TEMPLATES, MAX_COLLAGE_PHOTOS } from '../constants';
+import { api } from '../services/api';
+
+interface CollageModalProps {
+  eventId: string;
+  eventTitle: string;
+  language: Language;
+  // Either shots straight from the camera or photos picked in the gallery, in frame order
+  photos?: File[];
+  media?: MediaItem[];
+  onAddPhoto?: () => void; // opens the camera for another shot
+  onUse?: (collage: File) => void; // hands the collage on to be uploaded
+  onClose: () => void;
+  t: TranslateFn;
+}
+
+const NO_PHOTOS: File[] = [];
+const NO_MEDIA: MediaItem[] = [];
+
+export const CollageModal: React.FC<CollageModalProps> = ({ eventId, eventTitle, language, photos = NO_PHOTOS, media = NO_MEDIA, onAddPhoto, onUse, onClose, t }) => {
+  const count = photos.length || media.length;
+  const fits = COLLAGE_TEMPLATES.filter(template => template.photos <= count);
+  const [templateId, setTemplateId] = useState<CollageTemplate>((fits[0] || COLLAGE_TEMPLATES[0]).id);
+  const template = COLLAGE_TEMPLATES.find(item => item.id === templateId)!;
+  const [size, setSize] = useState<PrintSize>(template.sizes[0]);
+  const [collage, setCollage] = useState<Blob | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Camera shots are only in memory, so they're shown through object URLs
+  const shotUrls = useMemo(() => photos.map(photo => URL.createObjectURL(photo)), [photos]);
+  useEffect(() => () => shotUrls.forEach(url => URL.revokeObjectURL(url)), [shotUrls]);
+  const thumbnails = photos.length > 0 ? shotUrls : media.map(item => item.previewUrl || item.url);
+
+  const collageUrl = useMemo(() => collage ? URL.createObjectURL(collage) : null, [collage]);
+  useEffect(() => () => { if (collageUrl) URL.revokeObjectURL(collageUrl); }, [collageUrl]);
+
+  // A new shot, layout or size makes the last collage stale
+  useEffect(() => { setCollage(null); }, [photos, media, templateId, size]);
+
+  const pickTemplate = (id: CollageTemplate) => {
+    setTemplateId(id);
+    setSize(COLLAGE_TEMPLATES.find(item => item.id === id)!.sizes[0]);
+  };
+
+  const create = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setCollage(await api.createCollage(eventId, {
+        template: templateId,
+        size,
+        photos: photos.length > 0 ? photos.slice(0, template.photos) : undefined,
+        mediaIds: photos.length > 0 ? undefined : media.slice(0, template.photos).map(item => item.id),
+        lang: language
+      }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const fileName = `${(eventTitle || 'event').replace(/[^a-z0-9]/gi, '_')}_${templateId}.jpg`;
+
+  const download = () => {
+    if (!collageUrl) return;
+    const link = document.createElement('a');
+    link.href = collageUrl;
+    link.download = fileName;
+    link.click();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><LayoutGrid size={20} className="text-indigo-500" /> {t('collage')}</h3>
+          <button onClick={onClose} className="p-2 bg-white rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-sm text-slate-500">{t('collageDesc')}</p>
+
+          <div className="flex gap-2 overflow-x-auto">
+            {thumbnails.map((url, i) => (
+              <img key={url} src={url} alt="" className={`w-16 h-16 rounded-lg object-cover shrink-0 ${i < template.photos ? '' : 'opacity-40'}`} />
+            ))}
+            {onAddPhoto && count < MAX_COLLAGE_PHOTOS && (
+              <button onClick={onAddPhoto} className="w-16 h-16 rounded-lg border border-dashed border-slate-300 flex flex-col items-center justify-center gap-1 text-slate-400 hover:bg-slate-50 shrink-0" title={t('collageAddPhoto')}>
+                <Camera size={18} />
+                <span className="text-[10px] font-bold">{count}/{MAX_COLLAGE_PHOTOS}</span>
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {COLLAGE_TEMPLATES.map(item => (
+              <button
+                key={item.id}
+                onClick={() => pickTemplate(item.id)}
+                disabled={item.photos > count}
+                className={`p-3 rounded-xl border text-left transition-colors disabled:opacity-40 ${item.id === templateId ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}
+              >
+                <span className="block text-sm font-bold text-slate-800">{t(item.labelKey)}</span>
+                {item.photos > count && (
+                  <span className="block text-xs text-slate-500">{t('collageNeedsPhotos').replace('{count}', item.photos.toString())}</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {template.sizes.length > 1 && (
+            <div className="flex bg-slate-100 rounded-xl p-1">
+              {template.sizes.map(item => (
+                <button
+                  key={item}
+                  onClick={() => setSize(item)}
+                  className={`flex-1 py-2 text-sm font-bold rounded-lg transition-colors ${item === size ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {item.replace('x', '×')}″
+                </button>
+              ))}
+            </div>
+          )}
+
+          {collageUrl && <img src={collageUrl} alt={t('collage')} className="w-full max-h-80 object-contain rounded-xl bg-slate-100" />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {collage ? (
+            <div className="flex gap-3">
+              <button onClick={download} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-xl">
+                <Download size={16} /> {t('downloadCollage')}
+              </button>
+              {onUse && (
+                <button onClick={() => onUse(new File([collage], fileName, { type: 'image/jpeg' }))} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl">
+                  <Upload size={16} /> {t('useCollage')}
+                </button>
+              )}
+            </div>
+          ) : (
+            <button onClick={create} disabled={isCreating || template.photos > count} className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 rounded-xl disabled:opacity-50">
+              {isCreating ? <Loader2 size={16} className="animate-spin" /> : <LayoutGrid size={16} />}
+              {isCreating ? t('creatingCollage') : t('createCollage')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
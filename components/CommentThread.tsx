@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Send, CornerDownRight, Pencil, Trash2, X } from 'lucide-react';
+import { Comment, MediaItem, TranslateFn } from '../types';
+import { api } from '../services/api';
+
+interface CommentThreadProps {
+  media: MediaItem;
+  // Hosts and admins may delete anyone's comment
+  canModerate: boolean;
+  guestName: string;
+  onAdded: (comment: Comment) => void;
+  onUpdated: (comment: Comment) => void;
+  onDeleted: (mediaId: string, ids: string[]) => void;
+  t: TranslateFn;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The comment text with its @mentions highlighted
+const renderText = (comment: Comment) => {
+  if (!comment.mentions?.length) return comment.text;
+  const pattern = new RegExp(`(${comment.mentions.map(name => `@${escapeRegExp(name)}`).join('|')})`, 'gi');
+  return comment.text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <span key={index} className="text-indigo-300 font-semibold">{part}</span> : part
+  );
+};
+
+export const CommentThread: React.FC<CommentThreadProps> = ({ media, canModerate, guestName, onAdded, onUpdated, onDeleted, t }) => {
+  const [text, setText] = useState('');
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<Comment | null>(null);
+  const [editText, setEditText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Top-level comments, each followed by its replies (both oldest first)
+  const threads = useMemo(() => {
+    const comments = media.comments || [];
+    return comments
+      .filter(comment => !comment.parentId)
+      .map(comment => ({ comment, replies: comments.filter(reply => reply.parentId === comment.id) }));
+  }, [media.comments]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    run(async () => {
+      const comment = await api.addComment({
+        mediaId: media.id,
+        eventId: media.eventId,
+        text,
+        parentId: replyTo?.id,
+        senderName: guestName
+      });
+      onAdded(comment);
+      setText('');
+      setReplyTo(null);
+    });
+  };
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editText.trim()) return;
+    run(async () => {
+      onUpdated(await api.updateComment(editing, editText));
+      setEditing(null);
+    });
+  };
+
+  const handleDelete = (comment: Comment) => run(async () => {
+    const { ids } = await api.deleteComment(comment);
+    onDeleted(comment.mediaId, ids);
+  });
+
+  const startReply = (comment: Comment) => {
+    setReplyTo(comment);
+    setText(prev => prev.startsWith(`@${comment.senderName} `) ? prev : `@${comment.senderName} ${prev}`);
+  };
+
+  const renderComment = (comment: Comment, isReply: boolean) => (
+    <div key={comment.id} className={`group text-sm ${isReply ? 'ml-5 flex gap-1' : ''}`}>
+      {isReply && <CornerDownRight size={12} className="text-white/30 mt-1 shrink-0" />}
+      <div className="flex-1 min-w-0">
+        {editing?.id === comment.id ? (
+          <form onSubmit={handleSaveEdit} className="flex gap-2">
+            <input
+              type="text"
+              value={editText}
+              onChange={e => setEditText(e.target.value)}
+              autoFocus
+              className="flex-1 bg-black/20 text-white text-sm rounded-lg px-2 py-1 border border-white/20 focus:outline-none focus:border-white/50"
+            />
+            <button type="submit" className="text-xs font-bold text-white hover:text-indigo-300">{t('saveComment')}</button>
+            <button type="button" onClick={() => setEditing(null)} className="text-xs text-white/50 hover:text-white">{t('cancel')}</button>
+          </form>
+        ) : (
+          <>
+            <span className="font-bold text-white mr-2">{comment.senderName}:</span>
+            <span className="text-white/80 break-words">{renderText(comment)}</span>
+            {comment.editedAt && <span className="text-white/30 text-xs ml-1">({t('edited')})</span>}
+            <span className="ml-2 inline-flex gap-2 text-xs text-white/40 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button type="button" onClick={() => startReply(comment)} className="hover:text-white">{t('reply')}</button>
+              {comment.isMine && (
+                <button type="button" onClick={() => { setEditing(comment); setEditText(comment.text); }} className="hover:text-white" title={t('editComment')}>
+                  <Pencil size={12} />
+                </button>
+              )}
+              {(comment.isMine || canModerate) && (
+                <button type="button" onClick={() => handleDelete(comment)} className="hover:text-red-400" title={t('deleteComment')}>
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-lg mx-auto bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/10">
+      <div className="max-h-40 overflow-y-auto space-y-2 mb-3 custom-scrollbar">
+        {threads.length ? (
+          threads.map(({ comment, replies }) => (
+            <div key={comment.id} className="space-y-1">
+              {renderComment(comment, false)}
+              {replies.map(reply => renderComment(reply, true))}
+            </div>
+          ))
+        ) : (
+          <p className="text-white/40 text-xs text-center italic">{t('noComments')}</p>
+        )}
+      </div>
+      {error && <p className="text-red-300 text-xs mb-2">{error}</p>}
+      {replyTo && (
+        <div className="flex items-center justify-between text-xs text-white/50 mb-1">
+          <span>{t('replyingTo')} <span className="font-bold text-white/80">{replyTo.senderName}</span></span>
+          <button type="button" onClick={() => setReplyTo(null)} className="hover:text-white"><X size={12} /></button>
+        </div>
+      )}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={t('addComment')}
+          maxLength={1000}
+          className="flex-1 bg-black/20 text-white text-sm rounded-lg px-3 py-2 border border-white/20 focus:outline-none focus:border-white/50 placeholder:text-white/30"
+        />
+        <button type="submit" className="p-2 bg-white/20 rounded-lg hover:bg-white/30 text-white transition-colors">
+          <Send size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
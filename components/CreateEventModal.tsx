@@ -14,6 +14,7 @@ interface CreateEventModalProps {
       theme: string, 
       description: string, 
       pin: string,
+      keepLocation: boolean,
       adminOptions?: { expiryType: string, durationValue: number, durationUnit: string } 
   }) => void;
   t: TranslateFn;
@@ -31,6 +32,7 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ currentUser,
   const [theme, setTheme] = useState<string>('Birthday');
   const [description, setDescription] = useState('');
   const [pin, setPin] = useState('');
+  const [keepLocation, setKeepLocation] = useState(false);
   const [isGeneratingDesc, setIsGeneratingDesc] = useState(false);
 
   const [adminExpirationType, setAdminExpirationType] = useState<string>('30d');
@@ -108,6 +110,7 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ currentUser,
         theme,
         description: description || `Join us for a amazing ${theme.toLowerCase()}!`,
         pin,
+        keepLocation,
         adminOptions: currentUser.role === UserRole.ADMIN ? {
             expiryType: adminExpirationType,
             durationValue: adminDurationValue,
@@ -260,6 +263,26 @@ export const CreateEventModal: React.FC<CreateEventModalProps> = ({ currentUser,
              />
           </div>
 
+          <div>
+            <div className="flex justify-between items-center mb-1">
+                <label className="block text-sm font-bold text-slate-700 flex items-center gap-2">
+                    <MapPin size={16} className="text-slate-400"/> {t('keepPhotoLocations')}
+                </label>
+                <label className="flex items-center cursor-pointer">
+                    <div className={`w-10 h-5 rounded-full p-1 transition-colors ${keepLocation ? 'bg-indigo-600' : 'bg-slate-300'}`}>
+                          <div className={`w-3 h-3 bg-white rounded-full shadow-md transform transition-transform ${keepLocation ? 'translate-x-5' : ''}`} />
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={keepLocation}
+                      onChange={(e) => setKeepLocation(e.target.checked)}
+                      className="hidden"
+                    />
+                </label>
+            </div>
+            <p className="text-xs text-slate-500">{t(keepLocation ? 'keepPhotoLocationsOn' : 'keepPhotoLocationsOff')}</p>
+          </div>
+
           <div>
             <div className="flex justify-between items-center mb-2">
                 <label className="block text-sm font-bold text-slate-700">{t('eventDate')}</label>
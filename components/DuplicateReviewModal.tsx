@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, Loader2, Layers } from 'lucide-react';
+import { MediaItem, TranslateFn } from '../types';
+import { api } from '../services/api';
+
+interface DuplicateReviewModalProps {
+  media: MediaItem[];
+  onClose: () => void;
+  // keepId stays in the gallery with the removed items' likes added to it
+  onMerged: (keepId: string, removedIds: string[]) => void;
+  onDismissed: (mediaIds: string[]) => void;
+  t: TranslateFn;
+}
+
+interface DuplicateGroup {
+  id: string;
+  items: MediaItem[];
+}
+
+// Uploads flagged as near-duplicates, grouped with the earlier upload they look like
+const getDuplicateGroups = (media: MediaItem[]): DuplicateGroup[] => {
+  const groups = new Map<string, MediaItem[]>();
+  for (const item of media) {
+    if (!item.duplicateOf) continue;
+    if (!groups.has(item.duplicateOf)) {
+      const original = media.find(m => m.id === item.duplicateOf);
+      groups.set(item.duplicateOf, original ? [original] : []);
+    }
+    groups.get(item.duplicateOf)!.push(item);
+  }
+  return Array.from(groups, ([id, items]) => ({ id, items })).filter(group => group.items.length > 1);
+};
+
+export const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ media, onClose, onMerged, onDismissed, t }) => {
+  const groups = useMemo(() => getDuplicateGroups(media), [media]);
+  // The item to keep per group - the earliest upload unless the host picks another
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+
+  const getKeepId = (group: DuplicateGroup) => keepers[group.id] || group.items[0].id;
+
+  const merge = async (targets: DuplicateGroup[]) => {
+    const request = targets.map(group => ({ keepId: getKeepId(group), mediaIds: group.items.map(item => item.id) }));
+    const copies = request.reduce((sum, group) => sum + group.mediaIds.length - 1, 0);
+    if (!confirm(t('confirmMergeDuplicates').replace('{count}', copies.toString()))) return;
+
+    setBusyGroup(targets.length === 1 ? targets[0].id : 'all');
+    try {
+      await api.mergeDuplicates(request);
+      for (const { keepId, mediaIds } of request) onMerged(keepId, mediaIds.filter(id => id !== keepId));
+    } catch (error) {
+      console.error('Failed to merge duplicates:', error);
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  const dismiss = async (group: DuplicateGroup) => {
+    const mediaIds = group.items.filter(item => item.duplicateOf).map(item => item.id);
+    setBusyGroup(group.id);
+    try {
+      await api.dismissDuplicates(mediaIds);
+      onDismissed(mediaIds);
+    } catch (error) {
+      console.error('Failed to dismiss duplicates:', error);
+    } finally {
+      setBusyGroup(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Layers size={20} className="text-indigo-500" /> {t('reviewDuplicates')}</h3>
+          <button onClick={onClose} className="p-2 bg-white rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {groups.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">{t('noDuplicates')}</p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-500">{t('duplicatesDesc')}</p>
+              {groups.map(group => (
+                <div key={group.id} className="border border-slate-100 rounded-2xl p-4">
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 mb-4">
+                    {group.items.map(item => {
+                      const isKept = getKeepId(group) === item.id;
+                      return (
+                        <button
+                          key={item.id}
+                          onClick={() => setKeepers(prev => ({ ...prev, [group.id]: item.id }))}
+                          className={`relative aspect-square rounded-xl overflow-hidden bg-slate-100 ring-offset-2 transition-all ${isKept ? 'ring-4 ring-indigo-500' : 'opacity-60 hover:opacity-100'}`}
+                        >
+                          <img src={item.previewUrl || item.url} alt={item.caption || ''} className="w-full h-full object-cover" loading="lazy" />
+                          {isKept && (
+                            <span className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-600 text-white text-[10px] font-bold"><Check size={12} /> {t('keepThis')}</span>
+                          )}
+                          <span className="absolute bottom-0 inset-x-0 px-2 py-1 bg-black/50 text-white text-[10px] text-left truncate">
+                            {item.uploaderName}{item.width && item.height ? ` · ${item.width}×${item.height}` : ''}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <button onClick={() => dismiss(group)} disabled={!!busyGroup} className="px-4 py-2 text-sm font-bold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-xl disabled:opacity-50">
+                      {t('notDuplicates')}
+                    </button>
+                    <button onClick={() => merge([group])} disabled={!!busyGroup} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 rounded-xl disabled:opacity-50">
+                      {busyGroup === group.id && <Loader2 size={16} className="animate-spin" />}
+                      {t('mergeDuplicates')}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {groups.length > 1 && (
+          <div className="p-4 border-t border-slate-100 flex justify-end">
+            <button onClick={() => merge(groups)} disabled={!!busyGroup} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-red-600 hover:bg-red-700 rounded-xl disabled:opacity-50">
+              {busyGroup === 'all' && <Loader2 size={16} className="animate-spin" />}
+              {t('mergeAllDuplicates').replace('{count}', groups.length.toString())}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
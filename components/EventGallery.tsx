@@ -1,36 +1,25 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo, memo } from 'react';
 import { VirtuosoGrid } from 'react-virtuoso';
-import { ShieldCheck, Download, Calendar, LayoutGrid, Camera, Video, Star, Share2, Upload, CheckCircle, Link as LinkIcon, Play, Heart, X, Pause, BookOpen, Send, Lock, Search, ScanFace, Loader2, Trash2, CheckSquare, Square, ChevronLeft, ChevronRight, MessageSquare, Globe, AlertTriangle, Plus, ImagePlus, MapPin } from 'lucide-react';
+import { ShieldCheck, Download, Calendar, LayoutGrid, Camera, Video, Star, Share2, Upload, CheckCircle, Link as LinkIcon, Play, Heart, X, Pause, BookOpen, Send, Lock, Search, ScanFace, Loader2, Trash2, CheckSquare, Square, ChevronLeft, ChevronRight, MessageSquare, Globe, AlertTriangle, Plus, ImagePlus, MapPin, Stamp, CalendarClock, FileDown, Layers, Users, Sparkles, Film } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
-import { Event, User, UserRole, MediaItem, TranslateFn, TierLevel, GuestbookEntry, Comment, Vendor } from '../types';
+import { Event, User, UserRole, MediaItem, LikeResult, MediaLike, TranslateFn, Language, TierLevel, GuestbookEntry, Comment, Vendor, getTierConfigForUser } from '../types';
 import { api } from '../services/api';
+import { REACTIONS, MAX_COLLAGE_PHOTOS } from '../constants';
 import { socketService } from '../services/socketService';
 import { isMobileDevice } from '../utils/deviceDetection';
+import { formatDuration } from '../utils/formatters';
+import { getCaptureTime, groupByCaptureDay, sortByCaptureTime } from '../utils/mediaTimeline';
 import { ShareModal } from './ShareModal';
+import { DuplicateReviewModal } from './DuplicateReviewModal';
+import { HighlightVideoModal } from './HighlightVideoModal';
+import { CollageModal } from './CollageModal';
+import { CommentThread } from './CommentThread';
+import { GuestbookPanel } from './GuestbookPanel';
+import { PeoplePanel } from './PeoplePanel';
+import { StreamingVideo } from './StreamingVideo';
+import { ResponsiveImage } from './ResponsiveImage';
 import { VendorAdCard } from './VendorAdCard';
 
-// Helper function to get CSS transform for EXIF orientation
-const getOrientationTransform = (orientation: number | undefined): string => {
-    if (!orientation || orientation === 1) return '';
-
-    switch (orientation) {
-        case 2: return 'scaleX(-1)'; // Mirror horizontal
-        case 3: return 'rotate(180deg)'; // Rotate 180
-        case 4: return 'scaleY(-1)'; // Mirror vertical
-        case 5: return 'scaleX(-1) rotate(90deg)'; // Mirror horizontal and rotate 90 CW
-        case 6: return 'rotate(90deg)'; // Rotate 90 CW
-        case 7: return 'scaleX(-1) rotate(-90deg)'; // Mirror horizontal and rotate 90 CCW
-        case 8: return 'rotate(-90deg)'; // Rotate 90 CCW
-        default: return '';
-    }
-};
-
-declare global {
-    interface Window {
-        faceapi: any;
-    }
-}
-
 // Internal Component for Video Item handling intersection
 const VideoGridItem: React.FC<{ item: MediaItem; onClick: () => void }> = memo(({ item, onClick }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
@@ -89,11 +78,13 @@ const VideoGridItem: React.FC<{ item: MediaItem; onClick: () => void }> = memo((
             <video
                 ref={videoRef}
                 src={item.previewUrl || item.url}
+                poster={item.posterUrl || undefined}
                 className="w-full h-auto object-cover rounded-lg pointer-events-none bg-black min-h-[150px]"
+                style={item.width && item.height ? { aspectRatio: `${item.width} / ${item.height}` } : undefined}
                 muted
                 playsInline
                 loop
-                preload="metadata"
+                preload={item.posterUrl ? 'none' : 'metadata'}
             />
 
             {/* Play Icon Overlay */}
@@ -111,10 +102,22 @@ const VideoGridItem: React.FC<{ item: MediaItem; onClick: () => void }> = memo((
             <div className="absolute top-2 right-2 bg-black/60 p-1.5 rounded-md pointer-events-none z-10 backdrop-blur-md">
                 <Video className="text-white" size={12} />
             </div>
+
+            {item.duration ? (
+                <div className="absolute bottom-2 right-2 bg-black/60 px-1.5 py-0.5 rounded-md pointer-events-none z-10 backdrop-blur-md text-white text-[10px] font-bold tabular-nums">
+                    {formatDuration(item.duration)}
+                </div>
+            ) : null}
         </div>
     );
 });
 
+type GridItem =
+    | MediaItem
+    | { type: 'ad', vendor: Vendor }
+    | { type: 'add-memory' }
+    | { type: 'day-header', label: string, count: number };
+
 interface EventGalleryProps {
     event: Event;
     currentUser: User | null;
@@ -126,10 +129,13 @@ interface EventGalleryProps {
     applyWatermark: boolean;
     setApplyWatermark: (val: boolean) => void;
     onDownloadAll: (media?: MediaItem[]) => void;
+    onDownloadHighlights: () => void;
     onSetCover: (item: MediaItem) => void;
     onUpload: (type: 'camera' | 'upload') => void;
-    onLike: (item: MediaItem) => void;
+    onLike: (item: MediaItem) => Promise<LikeResult>;
+    onUpdateEvent: (event: Event) => Promise<void>;
     onOpenLiveSlideshow: () => void;
+    language: Language;
     t: TranslateFn;
 }
 
@@ -144,14 +150,22 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     applyWatermark,
     setApplyWatermark,
     onDownloadAll,
+    onDownloadHighlights,
     onSetCover,
     onUpload,
     onLike,
+    onUpdateEvent,
     onOpenLiveSlideshow,
+    language,
     t
 }) => {
     // State
     const [localMedia, setLocalMedia] = useState<MediaItem[]>(event.media);
+    // Large events arrive with their first media page - the rest loads while scrolling
+    const [mediaCursor, setMediaCursor] = useState<string | null>(event.mediaCursor ?? null);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const isPaginated = useRef(!!event.mediaCursor);
+    const pagedMediaIds = useRef<Set<string>>(new Set());
     const [localGuestbook, setLocalGuestbook] = useState<GuestbookEntry[]>(event.guestbook || []);
 
     const [linkCopied, setLinkCopied] = useState(false);
@@ -167,24 +181,64 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     const [isSnapping, setIsSnapping] = useState(false); // Prevent transition during index reset
     const touchStartRef = useRef<number | null>(null);
 
-    // Comments State
-    const [commentText, setCommentText] = useState('');
+    // Adds or replaces a comment. Broadcasts don't know who wrote it, so isMine is kept from our own copy.
+    const mergeComment = (comment: Comment) => {
+        setLocalMedia(prev => prev.map(m => {
+            if (m.id !== comment.mediaId) return m;
+            const comments = m.comments || [];
+            const existing = comments.find(c => c.id === comment.id);
+            if (!existing) return { ...m, comments: [...comments, comment] };
+            const merged = { ...comment, isMine: existing.isMine || comment.isMine };
+            return { ...m, comments: comments.map(c => c.id === comment.id ? merged : c) };
+        }));
+    };
+
+    const removeComments = (mediaId: string, ids: string[]) => {
+        setLocalMedia(prev => prev.map(m =>
+            m.id === mediaId ? { ...m, comments: (m.comments || []).filter(c => !ids.includes(c.id)) } : m
+        ));
+    };
+
+    // Adds or replaces an entry, newest first. Broadcasts don't know who signed it, so isMine is kept from our own copy.
+    const mergeGuestbookEntry = (entry: GuestbookEntry) => {
+        setLocalGuestbook(prev => {
+            const existing = prev.find(m => m.id === entry.id);
+            if (!existing) return [entry, ...prev].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+            return prev.map(m => m.id === entry.id ? { ...entry, isMine: existing.isMine || entry.isMine } : m);
+        });
+    };
+
+    const removeGuestbookEntry = (id: string) => setLocalGuestbook(prev => prev.filter(m => m.id !== id));
+
+    // Media id whose "who liked this" list is open in the lightbox
+    const [likersFor, setLikersFor] = useState<string | null>(null);
+    const [likers, setLikers] = useState<MediaLike[] | null>(null);
     const [showShareModal, setShowShareModal] = useState(false);
 
-    const [activeTab, setActiveTab] = useState<'gallery' | 'guestbook'>('gallery');
+    const [activeTab, setActiveTab] = useState<'gallery' | 'guestbook' | 'people'>('gallery');
+    const [peopleVersion, setPeopleVersion] = useState(0);
+
 
-    // Guestbook State
-    const [guestbookMessage, setGuestbookMessage] = useState('');
-    const [guestbookName, setGuestbookName] = useState(currentUser?.name || '');
+    // Hosts on tiers that keep originals can download HEIC/RAW uploads as they were uploaded
+    const canDownloadOriginals = (isOwner || currentUser?.role === UserRole.ADMIN) && getTierConfigForUser(currentUser).allowOriginalDownloads;
+
+    const downloadOriginal = async (mediaId: string) => {
+        try {
+            const link = document.createElement('a');
+            link.href = await api.getOriginalDownloadUrl(mediaId);
+            link.click();
+        } catch (err) {
+            console.error('Failed to download original:', err);
+        }
+    };
 
     // PIN State
-    const PIN_STORAGE_KEY = `unlocked_event_${event.id}`;
     const [isPinLocked, setIsPinLocked] = useState(() => {
         // If owner or admin, never lock
         if (isOwner || currentUser?.role === UserRole.ADMIN) return false;
 
-        // Check if already unlocked in this session
-        if (sessionStorage.getItem(PIN_STORAGE_KEY) === 'true') return false;
+        // The server withholds the contents of PIN-protected events until the PIN is entered
+        if (event.isLocked !== undefined) return event.isLocked;
 
         // Check if event actually has a PIN (using new hasPin flag for security)
         // We fall back to event.pin check for admins who receive the full object
@@ -199,8 +253,14 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     const [findMeImage, setFindMeImage] = useState<string | null>(null);
     const [filteredMedia, setFilteredMedia] = useState<MediaItem[] | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
+    // Server-side results for searchQuery, best match first - null until they arrive
+    const [searchResults, setSearchResults] = useState<MediaItem[] | null>(null);
     const [isScanning, setIsScanning] = useState(false);
-    const [modelsLoaded, setModelsLoaded] = useState(false);
+    // Whether this guest keeps their face out of Find Me - null until loaded
+    const [findMeOptedOut, setFindMeOptedOut] = useState<boolean | null>(null);
+
+    // Newest uploads first, or the event's own timeline by capture time
+    const [sortOrder, setSortOrder] = useState<'uploaded' | 'taken'>('uploaded');
 
     // My Uploads Filter State
     const [showMyUploads, setShowMyUploads] = useState(false);
@@ -213,6 +273,16 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     const [isBulkDeleteMode, setIsBulkDeleteMode] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
 
+    // Watermark Re-render State
+    const [isRerendering, setIsRerendering] = useState(false);
+
+    // Near-duplicate review (hosts and admins)
+    const [showDuplicateReview, setShowDuplicateReview] = useState(false);
+    // Media ids for a highlight video, in gallery order - empty for the event's highlights; null when closed
+    const [highlightVideoIds, setHighlightVideoIds] = useState<string[] | null>(null);
+    // Selected photos for a collage, in gallery order - null when closed
+    const [collageMedia, setCollageMedia] = useState<MediaItem[] | null>(null);
+
     // NEW: Vendors State for Ads
     const [vendors, setVendors] = useState<Vendor[]>([]);
 
@@ -239,9 +309,9 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
             });
         });
 
-        socketService.on('media_processed', (data: { id: string, previewUrl: string, url?: string }) => {
+        socketService.on('media_processed', (data: Partial<MediaItem> & { id: string }) => {
             setLocalMedia(prev => prev.map(m =>
-                m.id === data.id ? { ...m, isProcessing: false, previewUrl: data.previewUrl, url: data.url || m.url } : m
+                m.id === data.id ? { ...m, ...data, isProcessing: false } : m
             ));
         });
 
@@ -251,21 +321,23 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
             ));
         });
 
-        socketService.on('new_message', (msg: GuestbookEntry) => {
-            setLocalGuestbook(prev => {
-                if (prev.some(m => m.id === msg.id)) return prev;
-                return [msg, ...prev];
-            });
+        socketService.on('new_reaction', (data: { id: string, reactions: Record<string, number> }) => {
+            setLocalMedia(prev => prev.map(m =>
+                m.id === data.id ? { ...m, reactions: data.reactions } : m
+            ));
         });
 
-        socketService.on('new_comment', (comment: Comment) => {
-            setLocalMedia(prev => prev.map(m => {
-                if (m.id === comment.mediaId) {
-                    return { ...m, comments: [...(m.comments || []), comment] };
-                }
-                return m;
-            }));
-        });
+        socketService.on('new_message', mergeGuestbookEntry);
+        // Pending and hidden entries, sent to hosts only
+        socketService.on('guestbook_updated', mergeGuestbookEntry);
+        socketService.on('guestbook_removed', (data: { id: string }) => removeGuestbookEntry(data.id));
+
+        socketService.on('new_comment', mergeComment);
+        socketService.on('comment_updated', mergeComment);
+        socketService.on('comment_deleted', (data: { mediaId: string, ids: string[] }) => removeComments(data.mediaId, data.ids));
+
+        // Sent to hosts when the event's faces are regrouped
+        socketService.on('people_updated', () => setPeopleVersion(version => version + 1));
 
         setIsMobile(isMobileDevice());
 
@@ -275,8 +347,17 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     }, [event.id]);
 
     useEffect(() => {
-        setLocalMedia(event.media);
-    }, [event.media]);
+        if (!isPaginated.current && event.mediaCursor) {
+            isPaginated.current = true;
+            setMediaCursor(event.mediaCursor);
+        }
+        // Keep the pages scrolled in so far when the event reloads
+        setLocalMedia(prev => {
+            if (!isPaginated.current) return event.media;
+            const reloaded = new Set(event.media.map(item => item.id));
+            return [...event.media, ...prev.filter(item => pagedMediaIds.current.has(item.id) && !reloaded.has(item.id))];
+        });
+    }, [event.media, event.mediaCursor]);
 
     // Ensure admins/owners bypass lock immediately if context changes
     useEffect(() => {
@@ -301,22 +382,9 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
     }, [event.city]);
 
     useEffect(() => {
-        const loadModels = async () => {
-            if (window.faceapi && !modelsLoaded) {
-                try {
-                    await Promise.all([
-                        window.faceapi.nets.ssdMobilenetv1.loadFromUri('https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model'),
-                        window.faceapi.nets.faceLandmark68Net.loadFromUri('https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model'),
-                        window.faceapi.nets.faceRecognitionNet.loadFromUri('https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model')
-                    ]);
-                    setModelsLoaded(true);
-                } catch (e) {
-                    console.error("Failed to load FaceAPI models", e);
-                }
-            }
-        };
-        loadModels();
-    }, []);
+        if (!isFindMeOpen || findMeOptedOut !== null) return;
+        api.getFindMeOptOut(event.id).then(setFindMeOptedOut).catch(() => setFindMeOptedOut(false));
+    }, [isFindMeOpen, findMeOptedOut, event.id]);
 
     const getDisplayMedia = () => {
         let media = filteredMedia || localMedia;
@@ -342,10 +410,72 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
         return media;
     };
 
+    // Next media page, or the first one again when the sort or the My Uploads filter changes
+    const loadMediaPage = useCallback(async (cursor: string | null) => {
+        setIsLoadingMore(true);
+        try {
+            const page = await api.fetchEventMedia(event.id, {
+                cursor,
+                sort: sortOrder,
+                uploaderId: showMyUploads && currentUser ? currentUser.id : undefined
+            });
+            if (!cursor) pagedMediaIds.current.clear();
+            page.media.forEach(item => pagedMediaIds.current.add(item.id));
+            setLocalMedia(prev => {
+                if (!cursor) return page.media;
+                const loaded = new Set(prev.map(item => item.id));
+                return [...prev, ...page.media.filter(item => !loaded.has(item.id))];
+            });
+            setMediaCursor(page.nextCursor);
+        } catch (error) {
+            console.error('Failed to load media page:', error);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    }, [event.id, sortOrder, showMyUploads, currentUser]);
+
+    const mediaQuery = `${sortOrder}|${showMyUploads}`;
+    const loadedMediaQuery = useRef(mediaQuery);
+    useEffect(() => {
+        if (!isPaginated.current || loadedMediaQuery.current === mediaQuery) return;
+        loadedMediaQuery.current = mediaQuery;
+        loadMediaPage(null);
+    }, [mediaQuery, loadMediaPage]);
+
+    const handleEndReached = useCallback(() => {
+        // Search and Find Me results aren't paged
+        if (!mediaCursor || isLoadingMore || searchQuery.trim() || filteredMedia) return;
+        loadMediaPage(mediaCursor);
+    }, [mediaCursor, isLoadingMore, searchQuery, filteredMedia, loadMediaPage]);
+
+    // Search runs on the server (comments and AI tags aren't loaded here), debounced while typing
+    useEffect(() => {
+        const query = searchQuery.trim();
+        setSearchResults(null);
+        if (!query) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            api.searchEventMedia(event.id, query, { limit: 200 })
+                .then(results => { if (!cancelled) setSearchResults(results); })
+                .catch(error => console.error('Media search failed:', error));
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery, event.id]);
+
     // Memoize expensive displayMedia calculation
     const displayMedia = useMemo(() => {
         let media = filteredMedia || localMedia;
 
+        if (searchQuery.trim() && searchResults) {
+            // Local copies carry live likes and comments; a Find Me filter still applies
+            const loaded = new Map(media.map(item => [item.id, item]));
+            media = searchResults.flatMap(item => loaded.get(item.id) || (filteredMedia ? [] : [item]));
+        }
+
         // Filter for Privacy
         if (!isOwner && currentUser?.role !== UserRole.ADMIN) {
             // Show public items OR items owned by the current user
@@ -357,15 +487,16 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
             media = media.filter(item => item.uploaderId === currentUser.id);
         }
 
-        if (searchQuery.trim()) {
+        // Until the server answers, filter what's loaded
+        if (searchQuery.trim() && !searchResults) {
             const q = searchQuery.toLowerCase();
             media = media.filter(item =>
                 (item.caption && item.caption.toLowerCase().includes(q)) ||
                 (item.uploaderName && item.uploaderName.toLowerCase().includes(q))
             );
         }
-        return media;
-    }, [filteredMedia, localMedia, isOwner, currentUser, showMyUploads, searchQuery]);
+        return sortOrder === 'taken' ? sortByCaptureTime(media) : media;
+    }, [filteredMedia, localMedia, isOwner, currentUser, showMyUploads, searchQuery, searchResults, sortOrder]);
 
     // Memoize manageable items check
     const hasManageableItems = useMemo(() => {
@@ -490,69 +621,114 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
         e.preventDefault();
         const isValid = await api.validateEventPin(event.id, pinInput);
         if (isValid) {
+            // Media URLs are only handed out with the access token, so load them now
+            const unlocked = await api.fetchEventById(event.id);
+            if (unlocked.mediaCursor) {
+                isPaginated.current = true;
+                setMediaCursor(unlocked.mediaCursor);
+            }
+            setLocalMedia(unlocked.media);
+            setLocalGuestbook(unlocked.guestbook || []);
+            socketService.joinEvent(event.id);
             setIsPinLocked(false);
-            sessionStorage.setItem(PIN_STORAGE_KEY, 'true');
         } else {
             setPinError(t('invalidPin'));
         }
     };
 
-    const handleGuestbookSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!guestbookMessage.trim() || !guestbookName.trim()) return;
-        const newEntry: GuestbookEntry = { id: crypto.randomUUID(), eventId: event.id, senderName: guestbookName, message: guestbookMessage, createdAt: new Date().toISOString() };
-        await api.addGuestbookEntry(newEntry);
-        setGuestbookMessage('');
+    // Shows the like right away, then takes the server's count
+    const handleLike = useCallback(async (item: MediaItem) => {
+        const applyLike = (liked: boolean, likes: number) => {
+            setLocalMedia(prev => prev.map(m => m.id === item.id ? { ...m, likedByMe: liked, likes } : m));
+        };
+        applyLike(!item.likedByMe, Math.max((item.likes || 0) + (item.likedByMe ? -1 : 1), 0));
+        try {
+            const result = await onLike(item);
+            applyLike(result.liked, result.likes);
+        } catch (error) {
+            console.error('Failed to like media:', error);
+            applyLike(!!item.likedByMe, item.likes || 0);
+        }
+    }, [onLike]);
+
+    const handleReact = async (item: MediaItem, emoji: string) => {
+        try {
+            const { reaction, reactions } = await api.reactToMedia(item, emoji);
+            setLocalMedia(prev => prev.map(m => m.id === item.id ? { ...m, reactions, myReaction: reaction } : m));
+        } catch (error) {
+            console.error('Failed to react to media:', error);
+        }
     };
 
-    const handleAddComment = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!commentText.trim() || lightboxIndex === null) return;
-        const media = displayMedia[lightboxIndex];
-        const name = currentUser ? currentUser.name : (localStorage.getItem('snapify_guest_name') || 'Guest');
-        const newComment: Comment = {
-            id: crypto.randomUUID(),
-            mediaId: media.id,
-            eventId: event.id,
-            senderName: name,
-            text: commentText,
-            createdAt: new Date().toISOString()
-        };
-        await api.addComment(newComment);
-        setCommentText('');
+    const lightboxItem = lightboxIndex !== null ? displayMedia[lightboxIndex] : null;
+
+    // Reloads the open likes list when the count changes (new_like)
+    useEffect(() => {
+        if (!lightboxItem || likersFor !== lightboxItem.id) return;
+        let cancelled = false;
+        api.fetchMediaLikes(lightboxItem)
+            .then(list => { if (!cancelled) setLikers(list); })
+            .catch(error => console.error('Failed to load likes:', error));
+        return () => { cancelled = true; };
+    }, [likersFor, lightboxItem?.id, lightboxItem?.likes]);
+
+    const toggleLikers = (item: MediaItem) => {
+        setLikers(null);
+        setLikersFor(likersFor === item.id ? null : item.id);
     };
 
+    // Faces are matched on the server against those indexed when each photo was uploaded
     const handleFindMeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (!e.target.files || !e.target.files[0] || !window.faceapi) return;
-        const file = e.target.files[0];
-        const url = URL.createObjectURL(file);
-        setFindMeImage(url);
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setFindMeImage(URL.createObjectURL(file));
         setIsScanning(true);
         try {
-            const img = await window.faceapi.fetchImage(url);
-            const selfieDetection = await window.faceapi.detectSingleFace(img).withFaceLandmarks().withFaceDescriptor();
-            if (!selfieDetection) {
+            const matches = await api.findMe(event.id, file);
+            if (!matches) {
                 alert(t('noFaceDetected'));
-                setIsScanning(false);
                 setFindMeImage(null);
                 return;
             }
-            const faceMatcher = new window.faceapi.FaceMatcher(selfieDetection);
-            const matches: MediaItem[] = [];
-            const imagesToCheck = localMedia.filter(m => m.type === 'image');
-            for (const item of imagesToCheck) {
-                try {
-                    const itemImg = await window.faceapi.fetchImage(item.url);
-                    const detections = await window.faceapi.detectAllFaces(itemImg).withFaceLandmarks().withFaceDescriptors();
-                    const hasMatch = detections.some((d: any) => {
-                        const bestMatch = faceMatcher.findBestMatch(d.descriptor);
-                        return bestMatch.label !== 'unknown';
-                    });
-                    if (hasMatch) matches.push(item);
-                } catch (err) { }
-            }
             setFilteredMedia(matches);
-        } catch (err) { alert(t('scanError')); } finally { setIsScanning(false); }
+        } catch (err) {
+            alert(t('scanError'));
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    // A person from the People tab: the gallery narrowed to their photos, like Find Me results
+    const showPerson = (media: MediaItem[]) => {
+        setFindMeImage(null);
+        setSearchQuery('');
+        setFilteredMedia(media);
+        setActiveTab('gallery');
+    };
+
+    const handleFindMeOptOut = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsScanning(true);
+        try {
+            if (await api.optOutOfFindMe(event.id, file)) setFindMeOptedOut(true);
+            else alert(t('noFaceDetected'));
+        } catch (err) {
+            alert(t('scanError'));
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    const handleCancelFindMeOptOut = async () => {
+        try {
+            await api.cancelFindMeOptOut(event.id);
+            setFindMeOptedOut(false);
+        } catch (err) {
+            console.error('Failed to cancel Find Me opt-out:', err);
+        }
     };
 
     const toggleBulkDeleteMode = () => {
@@ -571,6 +747,12 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
         setSelectedMedia(newSelected);
     };
 
+    // Photos in the selection that can go into a collage
+    const selectedPhotos = useMemo(
+        () => displayMedia.filter(item => selectedMedia.has(item.id) && item.type === 'image' && !item.isProcessing),
+        [displayMedia, selectedMedia]
+    );
+
     const selectAllMedia = () => {
         if (selectedMedia.size === displayMedia.length) setSelectedMedia(new Set());
         else setSelectedMedia(new Set(displayMedia.map(item => item.id)));
@@ -591,10 +773,42 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
         } catch (error) { } finally { setIsDeleting(false); }
     };
 
+    const handleRerenderWatermarks = async () => {
+        setIsRerendering(true);
+        try {
+            await api.rerenderWatermarks(event.id);
+            alert(t('rerenderWatermarksQueued'));
+        } catch (error) {
+            console.error('Failed to re-apply watermarks:', error);
+        } finally { setIsRerendering(false); }
+    };
+
+    const duplicateCount = useMemo(() => localMedia.filter(item => item.duplicateOf).length, [localMedia]);
+
+    const handleDuplicatesMerged = useCallback((keepId: string, removedIds: string[]) => {
+        setLocalMedia(prev => {
+            const likes = prev.filter(item => removedIds.includes(item.id)).reduce((sum, item) => sum + (item.likes || 0), 0);
+            return prev
+                .filter(item => !removedIds.includes(item.id))
+                .map(item => item.id === keepId ? { ...item, likes: (item.likes || 0) + likes, duplicateOf: null } : item);
+        });
+    }, []);
+
+    const handleDuplicatesDismissed = useCallback((mediaIds: string[]) => {
+        setLocalMedia(prev => prev.map(item => mediaIds.includes(item.id) ? { ...item, duplicateOf: null } : item));
+    }, []);
+
     // Memoize grid items creation - expensive operation
-    const gridItems = useMemo((): (MediaItem | { type: 'ad', vendor: Vendor } | { type: 'add-memory' })[] => {
-        const items: (MediaItem | { type: 'ad', vendor: Vendor } | { type: 'add-memory' })[] = [];
+    const gridItems = useMemo((): GridItem[] => {
+        const items: GridItem[] = [];
         let adIndex = 0;
+        // Sorted by capture time, each day opens with a full-width header
+        const dayStarts = new Map<MediaItem, { label: string, count: number }>();
+        if (sortOrder === 'taken') {
+            for (const day of groupByCaptureDay(displayMedia)) {
+                dayStarts.set(day.items[0], { label: day.label, count: day.items.length });
+            }
+        }
 
         // Add "Add Memory" card if applicable
         if ((isOwner || currentUser?.role === UserRole.ADMIN || currentUser) && !isBulkDeleteMode && !searchQuery) {
@@ -611,10 +825,13 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                 adIndex++;
             }
 
+            const day = dayStarts.get(item);
+            if (day) items.push({ type: 'day-header', ...day });
+
             items.push(item);
         }
         return items;
-    }, [displayMedia, isOwner, currentUser, isBulkDeleteMode, searchQuery, vendors]);
+    }, [displayMedia, isOwner, currentUser, isBulkDeleteMode, searchQuery, vendors, sortOrder]);
 
     const renderGridItem = useCallback((index: number) => {
         const item = gridItems[index];
@@ -630,6 +847,13 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
             );
         } else if (item.type === 'ad') {
             return <VendorAdCard key={`ad-${index}`} vendor={item.vendor} />;
+        } else if (item.type === 'day-header') {
+            return (
+                <div className="flex items-baseline gap-3 pt-4 pb-1 border-b border-slate-200">
+                    <h3 className="font-bold text-slate-900 capitalize">{item.label}</h3>
+                    <span className="text-xs font-bold text-slate-400">{item.count}</span>
+                </div>
+            );
         } else {
             const mediaItem = item as MediaItem;
             const mediaIndex = displayMedia.indexOf(mediaItem);
@@ -650,11 +874,12 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                     ) : (
                         // Updated Image Grid Item with Fallback
                         <div className="w-full aspect-square bg-slate-200 relative overflow-hidden">
-                            <img
-                                src={mediaItem.previewUrl || mediaItem.url}
+                            <ResponsiveImage
+                                item={mediaItem}
+                                fallbackSrc={mediaItem.previewUrl || mediaItem.url}
+                                sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
                                 alt={mediaItem.caption || 'Photo'}
                                 className="w-full h-full object-cover"
-                                style={{ transform: getOrientationTransform(mediaItem.orientation) }}
                                 onError={(e) => {
                                     console.error('Image failed to load:', mediaItem.previewUrl || mediaItem.url);
                                     // Try fallback to full URL if preview fails
@@ -665,12 +890,6 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                             />
                         </div>
                     )}
-                    {mediaItem.isWatermarked && mediaItem.watermarkText && (
-                        <div className="absolute bottom-2 right-2 pointer-events-none">
-                            <p className="text-white/60 text-[10px] font-bold uppercase tracking-widest drop-shadow-md px-1.5 py-0.5 rounded bg-black/30 backdrop-blur-sm">{mediaItem.watermarkText}</p>
-                        </div>
-                    )}
-
                     {/* UPDATED: Privacy Lock Icon */}
                     {mediaItem.privacy === 'private' && (
                         <div className="absolute top-2 right-2 bg-black/60 text-white p-1 rounded-full shadow-sm backdrop-blur-sm z-10">
@@ -682,16 +901,24 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                         <p className="text-white text-sm font-medium truncate">{mediaItem.caption}</p>
                         <div className="flex justify-between items-end mt-0.5">
                             <p className="text-white/60 text-xs">by {mediaItem.uploaderName}</p>
-                            {mediaItem.comments && mediaItem.comments.length > 0 && (
-                                <div className="flex items-center gap-1 text-white/80 text-xs">
-                                    <MessageSquare size={12} /> {mediaItem.comments.length}
-                                </div>
-                            )}
+                            <div className="flex items-center gap-2">
+                                {REACTIONS.some(emoji => mediaItem.reactions?.[emoji]) && (
+                                    <div className="flex items-center text-xs text-white/80">
+                                        {REACTIONS.filter(emoji => mediaItem.reactions?.[emoji]).map(emoji => <span key={emoji}>{emoji}</span>)}
+                                        <span className="ml-1">{REACTIONS.reduce((sum, emoji) => sum + (mediaItem.reactions?.[emoji] || 0), 0)}</span>
+                                    </div>
+                                )}
+                                {mediaItem.comments && mediaItem.comments.length > 0 && (
+                                    <div className="flex items-center gap-1 text-white/80 text-xs">
+                                        <MessageSquare size={12} /> {mediaItem.comments.length}
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
                     {!isBulkDeleteMode && (
-                        <button onClick={(e) => { e.stopPropagation(); onLike(mediaItem); }} className="absolute bottom-3 right-3 bg-white/90 backdrop-blur-md rounded-full p-2 text-slate-400 shadow-lg hover:text-red-500 hover:scale-110 transition-all flex items-center gap-1 pointer-events-auto z-10">
-                            <Heart size={16} className={mediaItem.likes ? 'fill-red-500 text-red-500' : ''} />
+                        <button onClick={(e) => { e.stopPropagation(); handleLike(mediaItem); }} className="absolute bottom-3 right-3 bg-white/90 backdrop-blur-md rounded-full p-2 text-slate-400 shadow-lg hover:text-red-500 hover:scale-110 transition-all flex items-center gap-1 pointer-events-auto z-10">
+                            <Heart size={16} className={mediaItem.likedByMe ? 'fill-red-500 text-red-500' : ''} />
                             {item.likes ? <span className="text-xs font-bold text-red-500">{mediaItem.likes}</span> : null}
                         </button>
                     )}
@@ -702,7 +929,7 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                 </div>
             );
         }
-    }, [gridItems, displayMedia, isBulkDeleteMode, canManageItem, selectedMedia, onLike, onSetCover, isOwner, currentUser]);
+    }, [gridItems, displayMedia, isBulkDeleteMode, canManageItem, selectedMedia, handleLike, onSetCover, isOwner, currentUser]);
 
     if (isPinLocked) {
         return (
@@ -792,6 +1019,10 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                         <LayoutGrid size={18} /> {t('gallery')}</button>
                     <button onClick={() => setActiveTab('guestbook')} className={`px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 ${activeTab === 'guestbook' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-600 hover:bg-slate-50'}`}>
                         <BookOpen size={18} /> {t('guestbook')}</button>
+                    {(isOwner || currentUser?.role === UserRole.ADMIN) && (
+                        <button onClick={() => setActiveTab('people')} className={`px-6 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-2 ${activeTab === 'people' ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-600 hover:bg-slate-50'}`}>
+                            <Users size={18} /> {t('people')}</button>
+                    )}
                 </div>
             </div>
 
@@ -818,6 +1049,16 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                 </button>
                             )}
 
+                            {localMedia.length > 1 && !isBulkDeleteMode && (
+                                <button
+                                    onClick={() => setSortOrder(sortOrder === 'taken' ? 'uploaded' : 'taken')}
+                                    className={`p-2 rounded-xl transition-colors ${sortOrder === 'taken' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+                                    title={sortOrder === 'taken' ? t('sortByUploaded') : t('sortByTaken')}
+                                >
+                                    <CalendarClock size={20} />
+                                </button>
+                            )}
+
                             {/* Enable Bulk Mode if user has ANY manageable items */}
                             {hasManageableItems && displayMedia.length > 0 && (
                                 <button
@@ -833,6 +1074,16 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                     <button onClick={selectAllMedia} className="px-3 py-2 text-xs font-bold bg-slate-100 rounded-xl hover:bg-slate-200">
                                         {selectedMedia.size === displayMedia.length ? 'Deselect All' : 'Select All'}
                                     </button>
+                                    {selectedMedia.size > 0 && (isOwner || currentUser?.role === UserRole.ADMIN) && (
+                                        <button onClick={() => setHighlightVideoIds(displayMedia.filter(item => selectedMedia.has(item.id)).map(item => item.id))} className="p-2 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-xl transition-colors" title={t('highlightVideo')}>
+                                            <Film size={20} />
+                                        </button>
+                                    )}
+                                    {selectedPhotos.length > 0 && selectedPhotos.length <= MAX_COLLAGE_PHOTOS && (
+                                        <button onClick={() => setCollageMedia(selectedPhotos)} className="p-2 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-xl transition-colors" title={t('collage')}>
+                                            <LayoutGrid size={20} />
+                                        </button>
+                                    )}
                                     {selectedMedia.size > 0 && (
                                         <button onClick={handleBulkDelete} disabled={isDeleting} className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-red-600 hover:bg-red-700 rounded-xl">
                                             {isDeleting ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
@@ -841,7 +1092,7 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                     )}
                                 </>
                             )}
-                            {modelsLoaded && localMedia.length > 0 && !isBulkDeleteMode && (
+                            {localMedia.length > 0 && !isBulkDeleteMode && (
                                 <button onClick={() => setIsFindMeOpen(!isFindMeOpen)} className={`p-2 rounded-xl transition-colors ${isFindMeOpen ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`} title={t('findMe')}><ScanFace size={20} /></button>
                             )}
                             {displayMedia.length > 0 && !isBulkDeleteMode && (
@@ -852,6 +1103,26 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                     {downloadingZip ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
                                 </button>
                             )}
+                            {displayMedia.length > 0 && !isBulkDeleteMode && !filteredMedia && (
+                                <button onClick={onDownloadHighlights} disabled={downloadingZip} className="p-2 text-amber-600 bg-amber-50 hover:bg-amber-100 rounded-xl transition-colors disabled:opacity-50" title={t('downloadHighlights')}>
+                                    <Sparkles size={20} />
+                                </button>
+                            )}
+                            {(isOwner || currentUser?.role === UserRole.ADMIN) && displayMedia.length > 0 && !isBulkDeleteMode && (
+                                <button onClick={() => setHighlightVideoIds([])} className="p-2 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-xl transition-colors" title={t('highlightVideo')}>
+                                    <Film size={20} />
+                                </button>
+                            )}
+                            {isOwner && localMedia.some(item => item.isWatermarked) && !isBulkDeleteMode && (
+                                <button onClick={handleRerenderWatermarks} disabled={isRerendering} className="p-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors disabled:opacity-50" title={t('rerenderWatermarks')}>
+                                    {isRerendering ? <Loader2 size={20} className="animate-spin" /> : <Stamp size={20} />}
+                                </button>
+                            )}
+                            {(isOwner || currentUser?.role === UserRole.ADMIN) && duplicateCount > 0 && !isBulkDeleteMode && (
+                                <button onClick={() => setShowDuplicateReview(true)} className="flex items-center gap-1.5 px-3 py-2 text-sm font-bold text-amber-700 bg-amber-50 hover:bg-amber-100 rounded-xl transition-colors" title={t('reviewDuplicates')}>
+                                    <Layers size={18} /> {duplicateCount}
+                                </button>
+                            )}
                         </div>
                     </div>
 
@@ -880,6 +1151,18 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                     )}
                                 </div>
                             )}
+                            {!isScanning && findMeOptedOut !== null && (
+                                findMeOptedOut ? (
+                                    <p className="text-xs text-slate-500 mt-4">
+                                        {t('findMeOptedOut')} <button onClick={handleCancelFindMeOptOut} className="font-bold text-indigo-600 hover:underline">{t('findMeOptIn')}</button>
+                                    </p>
+                                ) : (
+                                    <label className="text-xs text-slate-500 mt-4 underline cursor-pointer hover:text-slate-700">
+                                        {t('findMeOptOut')}
+                                        <input type="file" accept="image/*" capture="user" className="hidden" onChange={handleFindMeOptOut} />
+                                    </label>
+                                )
+                            )}
                         </div>
                     )}
 
@@ -889,6 +1172,7 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                             style={{ height: '100%' }}
                             data={gridItems}
                             itemContent={(index) => renderGridItem(index)}
+                            endReached={handleEndReached}
                             listClassName="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4"
                             itemClassName=""
                             overscan={5} // Render 5 extra items outside visible area
@@ -899,13 +1183,16 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                         {props.children}
                                     </div>
                                 )),
-                                Item: React.forwardRef<HTMLDivElement, { children?: React.ReactNode }>((props, ref) => (
-                                    <div ref={ref}>
+                                Item: React.forwardRef<HTMLDivElement, { children?: React.ReactNode, 'data-index'?: number }>((props, ref) => (
+                                    <div ref={ref} className={gridItems[props['data-index'] ?? -1]?.type === 'day-header' ? 'col-span-full' : undefined}>
                                         {props.children}
                                     </div>
                                 ))
                             }}
                         />
+                        {isLoadingMore && (
+                            <div className="flex justify-center py-6 text-indigo-600"><Loader2 className="animate-spin" /></div>
+                        )}
                     </div>
 
                     {/* Refined Empty State Logic */}
@@ -938,28 +1225,25 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                         </div>
                     )}
                 </>
+            ) : activeTab === 'people' ? (
+                <PeoplePanel
+                    eventId={event.id}
+                    refreshKey={peopleVersion}
+                    onShowPerson={showPerson}
+                    t={t}
+                />
             ) : (
-                <div className="max-w-2xl mx-auto mb-24">
-                    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 mb-8">
-                        <h3 className="text-lg font-bold text-slate-900 mb-4">{t('signGuestbook')}</h3>
-                        <form onSubmit={handleGuestbookSubmit} className="space-y-4">
-                            <input type="text" value={guestbookName} onChange={(e) => setGuestbookName(e.target.value)} placeholder={t('yourName')} required className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none" />
-                            <textarea value={guestbookMessage} onChange={(e) => setGuestbookMessage(e.target.value)} placeholder={t('leaveMessage')} required className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none h-24 resize-none" />
-                            <button type="submit" className="w-full bg-slate-900 text-white py-3 rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2"><Send size={18} /> {t('signGuestbook')}</button>
-                        </form>
-                    </div>
-                    <div className="space-y-4">
-                        {localGuestbook.map(entry => (
-                            <div key={entry.id} className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm animate-in slide-in-from-top-1">
-                                <div className="flex justify-between items-start mb-2">
-                                    <h4 className="font-bold text-slate-900">{entry.senderName}</h4>
-                                    <span className="text-xs text-slate-400">{new Date(entry.createdAt).toLocaleDateString()}</span>
-                                </div>
-                                <p className="text-slate-600">{entry.message}</p>
-                            </div>
-                        ))}
-                    </div>
-                </div>
+                <GuestbookPanel
+                    eventId={event.id}
+                    entries={localGuestbook}
+                    defaultName={currentUser?.name || ''}
+                    canModerate={isOwner || currentUser?.role === UserRole.ADMIN}
+                    requiresApproval={!!event.guestbookApproval}
+                    onToggleApproval={(guestbookApproval) => onUpdateEvent({ ...event, guestbookApproval })}
+                    onEntryChanged={mergeGuestbookEntry}
+                    onEntryRemoved={removeGuestbookEntry}
+                    t={t}
+                />
             )
             }
 
@@ -1011,6 +1295,9 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                             <div className="flex gap-3">
                                 <button onClick={() => setIsSlideshowPlaying(!isSlideshowPlaying)} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors">{isSlideshowPlaying ? <Pause size={20} /> : <Play size={20} />}</button>
                                 <button onClick={() => { const link = document.createElement('a'); link.href = displayMedia[lightboxIndex].url; link.download = `snapify_${displayMedia[lightboxIndex].id}`; link.click(); }} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"><Download size={20} /></button>
+                                {displayMedia[lightboxIndex].sourceFormat && canDownloadOriginals && (
+                                    <button onClick={() => downloadOriginal(displayMedia[lightboxIndex].id)} title={t('downloadOriginal')} className="flex items-center gap-1.5 px-3 py-2 rounded-full bg-white/10 hover:bg-white/20 text-white text-xs font-bold transition-colors"><FileDown size={18} />{displayMedia[lightboxIndex].sourceFormat!.toUpperCase()}</button>
+                                )}
                                 <button onClick={closeLightbox} className="p-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"><X size={20} /></button>
                             </div>
                         </div>
@@ -1035,8 +1322,8 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                     return (
                                         <div key={`${targetIndex}-${offset}`} className="w-[100vw] h-full flex-shrink-0 flex items-center justify-center p-2 md:p-10">
                                             {item.type === 'video' ? (
-                                                <video
-                                                    src={item.url}
+                                                <StreamingVideo
+                                                    item={item}
                                                     controls
                                                     autoPlay={offset === 0 && isSlideshowPlaying}
                                                     className="max-w-full max-h-full rounded-lg shadow-2xl object-contain bg-black pointer-events-none" // pointer-events-none is KEY here
@@ -1044,11 +1331,11 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                                     muted
                                                 />
                                             ) : (
-                                                <img
-                                                    src={item.previewUrl || item.url}
+                                                <ResponsiveImage
+                                                    item={item}
+                                                    sizes="100vw"
                                                     alt={item.caption}
                                                     className="max-w-full max-h-full object-contain rounded-lg shadow-2xl select-none"
-                                                    style={{ transform: getOrientationTransform(item.orientation) }}
                                                     draggable={false}
                                                 />
                                             )}
@@ -1066,36 +1353,52 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
                                         </div>
                                     )}
                                     <p className="text-white text-lg font-bold drop-shadow-md">{displayMedia[lightboxIndex].caption}</p>
-                                    <p className="text-white/60 text-sm mt-1">{new Date(displayMedia[lightboxIndex].uploadedAt).toLocaleDateString()} • {displayMedia[lightboxIndex].uploaderName}</p>
+                                    <p className="text-white/60 text-sm mt-1">{new Date(getCaptureTime(displayMedia[lightboxIndex])).toLocaleDateString()} • {displayMedia[lightboxIndex].uploaderName}</p>
+                                    <div className="flex flex-wrap items-center justify-center gap-2 mt-3">
+                                        <button onClick={() => handleLike(displayMedia[lightboxIndex])} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors">
+                                            <Heart size={18} className={displayMedia[lightboxIndex].likedByMe ? 'fill-red-500 text-red-500' : ''} />
+                                            <span className="text-sm font-bold">{displayMedia[lightboxIndex].likes || 0}</span>
+                                        </button>
+                                        {REACTIONS.map(emoji => (
+                                            <button
+                                                key={emoji}
+                                                onClick={() => handleReact(displayMedia[lightboxIndex], emoji)}
+                                                className={`flex items-center gap-1 px-3 py-2 rounded-full text-white transition-colors ${displayMedia[lightboxIndex].myReaction === emoji ? 'bg-white/30 ring-1 ring-white/60' : 'bg-white/10 hover:bg-white/20'}`}
+                                            >
+                                                <span className="text-lg leading-none">{emoji}</span>
+                                                {!!displayMedia[lightboxIndex].reactions?.[emoji] && <span className="text-xs font-bold">{displayMedia[lightboxIndex].reactions![emoji]}</span>}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {!!displayMedia[lightboxIndex].likes && (
+                                        <button onClick={() => toggleLikers(displayMedia[lightboxIndex])} className="mt-2 text-sm text-white/70 hover:text-white transition-colors">{t('whoLiked')}</button>
+                                    )}
+                                    {likersFor === displayMedia[lightboxIndex].id && (
+                                        <div className="max-w-xs mx-auto mt-3 bg-white/10 backdrop-blur-md rounded-xl p-3 border border-white/10 max-h-32 overflow-y-auto custom-scrollbar text-left">
+                                            {!likers ? (
+                                                <div className="flex justify-center text-white/60"><Loader2 size={16} className="animate-spin" /></div>
+                                            ) : likers.length === 0 ? (
+                                                <p className="text-white/40 text-xs text-center italic">{t('noLikesYet')}</p>
+                                            ) : likers.map((liker, index) => (
+                                                <div key={index} className="flex items-center gap-2 text-sm text-white/80 py-0.5">
+                                                    <Heart size={12} className="fill-red-500 text-red-500 shrink-0" />
+                                                    <span className="truncate">{liker.isYou ? t('likedByYou') : liker.name}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Comments Section */}
-                                <div className="w-full max-w-lg mx-auto bg-white/10 backdrop-blur-md rounded-xl p-4 border border-white/10">
-                                    <div className="max-h-32 overflow-y-auto space-y-2 mb-3 custom-scrollbar">
-                                        {displayMedia[lightboxIndex].comments?.length ? (
-                                            displayMedia[lightboxIndex].comments!.map(c => (
-                                                <div key={c.id} className="text-sm">
-                                                    <span className="font-bold text-white mr-2">{c.senderName}:</span>
-                                                    <span className="text-white/80">{c.text}</span>
-                                                </div>
-                                            ))
-                                        ) : (
-                                            <p className="text-white/40 text-xs text-center italic">No comments yet.</p>
-                                        )}
-                                    </div>
-                                    <form onSubmit={handleAddComment} className="flex gap-2">
-                                        <input
-                                            type="text"
-                                            value={commentText}
-                                            onChange={e => setCommentText(e.target.value)}
-                                            placeholder="Add a comment..."
-                                            className="flex-1 bg-black/20 text-white text-sm rounded-lg px-3 py-2 border border-white/20 focus:outline-none focus:border-white/50 placeholder:text-white/30"
-                                        />
-                                        <button type="submit" className="p-2 bg-white/20 rounded-lg hover:bg-white/30 text-white transition-colors">
-                                            <Send size={16} />
-                                        </button>
-                                    </form>
-                                </div>
+                                <CommentThread
+                                    media={displayMedia[lightboxIndex]}
+                                    canModerate={isOwner || currentUser?.role === UserRole.ADMIN}
+                                    guestName={currentUser ? currentUser.name : (localStorage.getItem('snapify_guest_name') || 'Guest')}
+                                    onAdded={mergeComment}
+                                    onUpdated={mergeComment}
+                                    onDeleted={removeComments}
+                                    t={t}
+                                />
                             </div>
                         </div>
                     </div>
@@ -1103,6 +1406,33 @@ const EventGalleryComponent: React.FC<EventGalleryProps> = ({
             }
 
             {showShareModal && <ShareModal eventId={event.id} eventTitle={event.title} onClose={() => setShowShareModal(false)} t={t} />}
+            {highlightVideoIds && (
+                <HighlightVideoModal
+                    eventId={event.id}
+                    mediaIds={highlightVideoIds}
+                    onClose={() => setHighlightVideoIds(null)}
+                    t={t}
+                />
+            )}
+            {collageMedia && (
+                <CollageModal
+                    eventId={event.id}
+                    eventTitle={event.title}
+                    language={language}
+                    media={collageMedia}
+                    onClose={() => setCollageMedia(null)}
+                    t={t}
+                />
+            )}
+            {showDuplicateReview && (
+                <DuplicateReviewModal
+                    media={localMedia}
+                    onClose={() => setShowDuplicateReview(false)}
+                    onMerged={handleDuplicatesMerged}
+                    onDismissed={handleDuplicatesDismissed}
+                    t={t}
+                />
+            )}
                 </main >
             );
         };
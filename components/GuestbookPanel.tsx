@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, ImagePlus, Mic, Square, X, Check, EyeOff, Trash2, Loader2 } from 'lucide-react';
+import { GuestbookEntry, TranslateFn } from '../types';
+import { api } from '../services/api';
+
+interface GuestbookPanelProps {
+  eventId: string;
+  entries: GuestbookEntry[];
+  defaultName: string;
+  // Hosts and admins see pending and hidden entries and moderate them
+  canModerate: boolean;
+  requiresApproval: boolean;
+  onToggleApproval?: (requiresApproval: boolean) => void;
+  onEntryChanged: (entry: GuestbookEntry) => void;
+  onEntryRemoved: (id: string) => void;
+  t: TranslateFn;
+}
+
+// Voice notes stop recording on their own after this long
+const MAX_VOICE_NOTE_SECONDS = 60;
+
+export const GuestbookPanel: React.FC<GuestbookPanelProps> = ({
+  eventId, entries, defaultName, canModerate, requiresApproval, onToggleApproval, onEntryChanged, onEntryRemoved, t
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [message, setMessage] = useState('');
+  const [attachment, setAttachment] = useState<{ blob: Blob; type: 'image' | 'audio'; previewUrl: string } | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimerRef = useRef<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => {
+    if (attachment) URL.revokeObjectURL(attachment.previewUrl);
+  }, [attachment]);
+
+  useEffect(() => () => {
+    recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+    if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+  }, []);
+
+  const attach = (blob: Blob, type: 'image' | 'audio') => setAttachment({ blob, type, previewUrl: URL.createObjectURL(blob) });
+
+  const handlePhotoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) attach(file, 'image');
+    e.target.value = '';
+  };
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+        setIsRecording(false);
+        if (chunks.length) attach(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), 'audio');
+      };
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+      stopTimerRef.current = window.setTimeout(() => recorder.state === 'recording' && recorder.stop(), MAX_VOICE_NOTE_SECONDS * 1000);
+    } catch (error) {
+      console.error('Microphone unavailable:', error);
+    }
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (!message.trim() && !attachment) || isSubmitting) return;
+    setIsSubmitting(true);
+    setNotice(null);
+    try {
+      const entry = await api.addGuestbookEntry({ eventId, senderName: name, message, attachment: attachment?.blob });
+      onEntryChanged(entry);
+      setMessage('');
+      setAttachment(null);
+      if (entry.status === 'pending') setNotice(t('entryAwaitsApproval'));
+    } catch (error) {
+      setNotice(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const moderate = async (entry: GuestbookEntry, status: 'approved' | 'hidden') => {
+    try {
+      onEntryChanged(await api.moderateGuestbookEntry(entry, status));
+    } catch (error) {
+      console.error('Failed to moderate entry:', error);
+    }
+  };
+
+  const remove = async (entry: GuestbookEntry) => {
+    try {
+      await api.deleteGuestbookEntry(entry);
+      onEntryRemoved(entry.id);
+    } catch (error) {
+      console.error('Failed to delete entry:', error);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mb-24">
+      {canModerate && onToggleApproval && (
+        <label className="flex items-center justify-between gap-4 bg-white rounded-2xl p-4 shadow-sm border border-slate-200 mb-4 cursor-pointer">
+          <div>
+            <p className="font-bold text-slate-900 text-sm">{t('guestbookApproval')}</p>
+            <p className="text-xs text-slate-500">{t('guestbookApprovalDesc')}</p>
+          </div>
+          <div className={`w-10 h-5 rounded-full p-1 transition-colors shrink-0 ${requiresApproval ? 'bg-indigo-600' : 'bg-slate-300'}`}>
+            <div className={`w-3 h-3 bg-white rounded-full shadow-md transform transition-transform ${requiresApproval ? 'translate-x-5' : ''}`} />
+          </div>
+          <input type="checkbox" className="hidden" checked={requiresApproval} onChange={e => onToggleApproval(e.target.checked)} />
+        </label>
+      )}
+
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 mb-8">
+        <h3 className="text-lg font-bold text-slate-900 mb-4">{t('signGuestbook')}</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder={t('yourName')} required className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none" />
+          <textarea value={message} onChange={(e) => setMessage(e.target.value)} placeholder={t('leaveMessage')} required={!attachment} maxLength={2000} className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none h-24 resize-none" />
+
+          {attachment ? (
+            <div className="relative flex items-center gap-3 p-3 rounded-xl bg-slate-50 border border-slate-200">
+              {attachment.type === 'image'
+                ? <img src={attachment.previewUrl} alt="" className="h-20 rounded-lg object-cover" />
+                : <audio src={attachment.previewUrl} controls className="flex-1 h-10" />}
+              <button type="button" onClick={() => setAttachment(null)} className="ml-auto p-1.5 rounded-full text-slate-500 hover:bg-slate-200" title={t('removeAttachment')}>
+                <X size={16} />
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isRecording} className="flex-1 py-2 rounded-xl border border-slate-200 text-slate-600 text-sm font-bold hover:bg-slate-50 flex items-center justify-center gap-2 disabled:opacity-50">
+                <ImagePlus size={16} /> {t('attachPhoto')}
+              </button>
+              <button type="button" onClick={isRecording ? stopRecording : startRecording} className={`flex-1 py-2 rounded-xl border text-sm font-bold flex items-center justify-center gap-2 ${isRecording ? 'border-red-200 bg-red-50 text-red-600 animate-pulse' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+                {isRecording ? <><Square size={14} /> {t('stopRecording')}</> : <><Mic size={16} /> {t('voiceNote')}</>}
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/jpeg,image/png,image/webp" className="hidden" onChange={handlePhotoSelected} />
+            </div>
+          )}
+
+          {notice && <p className="text-sm text-indigo-600">{notice}</p>}
+          <button type="submit" disabled={isSubmitting || isRecording} className="w-full bg-slate-900 text-white py-3 rounded-xl font-bold hover:bg-slate-800 transition-colors flex items-center justify-center gap-2 disabled:opacity-60">
+            {isSubmitting ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />} {t('signGuestbook')}
+          </button>
+        </form>
+      </div>
+
+      <div className="space-y-4">
+        {entries.map(entry => (
+          <div key={entry.id} className={`bg-white p-5 rounded-2xl border shadow-sm animate-in slide-in-from-top-1 ${entry.status && entry.status !== 'approved' ? 'border-amber-200 bg-amber-50/40' : 'border-slate-100'}`}>
+            <div className="flex justify-between items-start mb-2 gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <h4 className="font-bold text-slate-900 truncate">{entry.senderName}</h4>
+                {entry.status === 'pending' && <span className="text-[10px] font-bold uppercase tracking-wide text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">{t('pendingApproval')}</span>}
+                {entry.status === 'hidden' && <span className="text-[10px] font-bold uppercase tracking-wide text-slate-600 bg-slate-200 px-2 py-0.5 rounded-full">{t('hiddenEntry')}</span>}
+              </div>
+              <span className="text-xs text-slate-400 shrink-0">{new Date(entry.createdAt).toLocaleDateString()}</span>
+            </div>
+            {entry.message && <p className="text-slate-600 whitespace-pre-line">{entry.message}</p>}
+            {entry.attachmentUrl && entry.attachmentType === 'image' && (
+              <img src={entry.attachmentUrl} alt="" loading="lazy" className="mt-3 max-h-72 rounded-xl object-cover" />
+            )}
+            {entry.attachmentUrl && entry.attachmentType === 'audio' && (
+              <audio src={entry.attachmentUrl} controls preload="none" className="mt-3 w-full" />
+            )}
+            {(canModerate || entry.isMine) && (
+              <div className="flex justify-end gap-2 mt-3 text-xs font-bold">
+                {canModerate && entry.status !== 'approved' && (
+                  <button onClick={() => moderate(entry, 'approved')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-green-700 hover:bg-green-50"><Check size={14} /> {t('approveEntry')}</button>
+                )}
+                {canModerate && entry.status !== 'hidden' && (
+                  <button onClick={() => moderate(entry, 'hidden')} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-slate-600 hover:bg-slate-100"><EyeOff size={14} /> {t('hideEntry')}</button>
+                )}
+                <button onClick={() => remove(entry)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-red-600 hover:bg-red-50"><Trash2 size={14} /> {t('deleteEntry')}</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Film, Music, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import { HighlightVideoJob, TranslateFn } from '../types';
+import { api } from '../services/api';
+import { socketService } from '../services/socketService';
+
+interface HighlightVideoModalProps {
+  eventId: string;
+  // Media the host picked, in playing order - the event's highlights when empty
+  mediaIds?: string[];
+  onClose: () => void;
+  t: TranslateFn;
+}
+
+const isActive = (job: HighlightVideoJob | null) => !!job && (job.status === 'pending' || job.status === 'rendering');
+
+export const HighlightVideoModal: React.FC<HighlightVideoModalProps> = ({ eventId, mediaIds = [], onClose, t }) => {
+  // The event's latest render - its progress arrives over the socket while the modal is open
+  const [job, setJob] = useState<HighlightVideoJob | null>(null);
+  const [audio, setAudio] = useState<File | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const jobId = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getHighlightVideos(eventId)
+      .then(jobs => {
+        if (cancelled || jobs.length === 0 || jobId.current) return;
+        jobId.current = jobs[0].id;
+        setJob(jobs[0]);
+      })
+      .catch(err => console.error('Failed to load highlight videos:', err));
+
+    const handleProgress = (update: HighlightVideoJob) => {
+      if (update.id !== jobId.current) return;
+      setJob(prev => prev ? { ...prev, ...update } : update);
+    };
+    socketService.on('highlight_video_progress', handleProgress);
+    return () => {
+      cancelled = true;
+      socketService.off('highlight_video_progress', handleProgress);
+    };
+  }, [eventId]);
+
+  const startRender = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const started = await api.renderHighlightVideo(eventId, { mediaIds, audio });
+      jobId.current = started.id;
+      setJob(started);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2"><Film size={20} className="text-indigo-500" /> {t('highlightVideo')}</h3>
+          <button onClick={onClose} className="p-2 bg-white rounded-full hover:bg-slate-100 transition-colors">
+            <X size={20} className="text-slate-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-slate-500">{t('highlightVideoDesc')}</p>
+          <p className="text-sm font-bold text-slate-700">
+            {mediaIds.length > 0
+              ? t('highlightVideoFromSelection').replace('{count}', mediaIds.length.toString())
+              : t('highlightVideoFromHighlights')}
+          </p>
+
+          {isActive(job) ? (
+            <div>
+              <div className="flex items-center justify-between text-sm font-bold text-indigo-600 mb-2">
+                <span className="flex items-center gap-2"><Loader2 size={16} className="animate-spin" /> {t('renderingHighlightVideo')}</span>
+                <span>{job!.progress}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${job!.progress}%` }} />
+              </div>
+            </div>
+          ) : (
+            <>
+              {job?.status === 'completed' && (
+                <p className="flex items-center gap-2 text-sm font-bold text-green-600"><CheckCircle size={16} /> {t('highlightVideoReady')}</p>
+              )}
+              {job?.status === 'failed' && (
+                <p className="flex items-center gap-2 text-sm font-bold text-red-600"><AlertTriangle size={16} /> {t('highlightVideoFailed')}</p>
+              )}
+              <label className="flex items-center gap-3 p-3 border border-dashed border-slate-200 rounded-xl cursor-pointer hover:bg-slate-50 transition-colors">
+                <Music size={18} className="text-slate-400 shrink-0" />
+                <span className="text-sm text-slate-600 truncate">{audio ? audio.name : t('highlightVideoMusic')}</span>
+                <input type="file" accept="audio/*" className="hidden" onChange={(e) => setAudio(e.target.files?.[0] || null)} />
+              </label>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <button onClick={startRender} disabled={isStarting} className="w-full flex items-center justify-center gap-2 px-4 py-3 text-sm font-bold text-white bg-slate-900 hover:bg-slate-800 rounded-xl disabled:opacity-50">
+                {isStarting ? <Loader2 size={16} className="animate-spin" /> : <Film size={16} />}
+                {t('renderHighlightVideo')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { X, Play, Pause, Download, Share2, Heart, MessageSquare, Camera, Upload, QrCode } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { X, Play, Pause, Download, Share2, Heart, MessageSquare, Camera, Upload, QrCode, Sparkles } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Event, MediaItem, TranslateFn, UserRole, TierLevel } from '../types';
 import { socketService } from '../services/socketService';
 import { api } from '../services/api';
+import { REACTIONS } from '../constants';
+import { formatDuration } from '../utils/formatters';
+import { StreamingVideo } from './StreamingVideo';
+import { ResponsiveImage } from './ResponsiveImage';
 
 interface LiveSlideshowProps {
   event: Event;
@@ -21,12 +25,27 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
   t
 }) => {
   const [localMedia, setLocalMedia] = useState<MediaItem[]>(event.media);
+  // The event's best photos, shown instead of everything while set
+  const [highlights, setHighlights] = useState<MediaItem[] | null>(null);
+  const [isLoadingHighlights, setIsLoadingHighlights] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
   const [transitionDirection, setTransitionDirection] = useState<'next' | 'prev'>('next');
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [showQR, setShowQR] = useState(false);
+  // Emoji floating up over the projected photo as guests react to it
+  const [bursts, setBursts] = useState<{ key: number; emoji: string; left: number }[]>([]);
+  const burstKeyRef = useRef(0);
+  const currentItemIdRef = useRef<string | undefined>(undefined);
+
+  // Highlights keep their ranking but pick up live likes and reactions from localMedia
+  const slides = useMemo(() => {
+    if (!highlights) return localMedia;
+    const live = new Map(localMedia.map(item => [item.id, item]));
+    return highlights.map(item => live.get(item.id) || item);
+  }, [highlights, localMedia]);
+  currentItemIdRef.current = slides[currentIndex]?.id;
   
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -47,9 +66,9 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
       });
     });
 
-    socketService.on('media_processed', (data: { id: string, previewUrl: string, url?: string }) => {
+    socketService.on('media_processed', (data: Partial<MediaItem> & { id: string }) => {
       setLocalMedia(prev => prev.map(m => 
-        m.id === data.id ? { ...m, isProcessing: false, previewUrl: data.previewUrl, url: data.url || m.url } : m
+        m.id === data.id ? { ...m, ...data, isProcessing: false } : m
       ));
     });
 
@@ -59,6 +78,18 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
       ));
     });
 
+    // emoji is only set for added reactions, not taken-back ones
+    socketService.on('new_reaction', (data: { id: string, reactions: Record<string, number>, emoji: string | null }) => {
+      setLocalMedia(prev => prev.map(m =>
+        m.id === data.id ? { ...m, reactions: data.reactions } : m
+      ));
+      if (data.emoji && data.id === currentItemIdRef.current) {
+        const burst = { key: burstKeyRef.current++, emoji: data.emoji, left: 10 + Math.random() * 80 };
+        setBursts(prev => [...prev.slice(-20), burst]);
+        setTimeout(() => setBursts(prev => prev.filter(b => b.key !== burst.key)), 2500);
+      }
+    });
+
     return () => {
       socketService.disconnect();
     };
@@ -66,7 +97,7 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
 
   // Auto-advance slideshow
   useEffect(() => {
-    if (isPlaying && localMedia.length > 0) {
+    if (isPlaying && slides.length > 0) {
       intervalRef.current = setInterval(() => {
         navigate('next');
       }, 4000); // 4 seconds per slide
@@ -79,7 +110,7 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
         clearInterval(intervalRef.current);
       }
     };
-  }, [isPlaying, localMedia.length]);
+  }, [isPlaying, slides.length]);
 
   // Hide controls after inactivity
   useEffect(() => {
@@ -100,23 +131,47 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
   }, [showControls]);
 
   const navigate = useCallback((direction: 'next' | 'prev') => {
-    if (isTransitioning || localMedia.length === 0) return;
+    if (isTransitioning || slides.length === 0) return;
 
     setIsTransitioning(true);
     setTransitionDirection(direction);
 
     setTimeout(() => {
       if (direction === 'next') {
-        setCurrentIndex(prev => (prev + 1) % localMedia.length);
+        setCurrentIndex(prev => (prev + 1) % slides.length);
       } else {
-        setCurrentIndex(prev => (prev - 1 + localMedia.length) % localMedia.length);
+        setCurrentIndex(prev => (prev - 1 + slides.length) % slides.length);
       }
       setIsTransitioning(false);
     }, 600); // Match CSS transition duration
-  }, [isTransitioning, localMedia.length]);
+  }, [isTransitioning, slides.length]);
 
   const handleLike = async (item: MediaItem) => {
-    await api.likeMedia(item.id);
+    const { liked, likes } = await api.likeMedia(item);
+    setLocalMedia(prev => prev.map(m => m.id === item.id ? { ...m, likes, likedByMe: liked } : m));
+    setHighlights(prev => prev && prev.map(m => m.id === item.id ? { ...m, likes, likedByMe: liked } : m));
+  };
+
+  const toggleHighlights = async () => {
+    if (highlights) {
+      setHighlights(null);
+      setCurrentIndex(0);
+      return;
+    }
+    setIsLoadingHighlights(true);
+    try {
+      const best = await api.getEventHighlights(event.id);
+      if (best.length === 0) {
+        alert(t('noHighlights'));
+        return;
+      }
+      setHighlights(best);
+      setCurrentIndex(0);
+    } catch (error) {
+      console.error('Failed to load highlights:', error);
+    } finally {
+      setIsLoadingHighlights(false);
+    }
   };
 
   const handleDownload = (item: MediaItem) => {
@@ -133,7 +188,7 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
     });
   };
 
-  const currentItem = localMedia[currentIndex];
+  const currentItem = slides[currentIndex];
 
   if (!currentItem) {
     return (
@@ -169,8 +224,8 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
           }`}
         >
           {currentItem.type === 'video' ? (
-            <video
-              src={currentItem.url}
+            <StreamingVideo
+              item={currentItem}
               autoPlay
               muted
               loop
@@ -179,8 +234,9 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
             />
           ) : (
             <div className="w-full h-full relative">
-              <img
-                src={currentItem.previewUrl || currentItem.url}
+              <ResponsiveImage
+                item={currentItem}
+                sizes="100vw"
                 alt={currentItem.caption}
                 className="w-full h-full object-contain animate-ken-burns"
                 draggable={false}
@@ -191,6 +247,15 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
           )}
         </div>
 
+        {/* Reaction Bursts */}
+        <div className="absolute inset-0 pointer-events-none overflow-hidden">
+          {bursts.map(burst => (
+            <span key={burst.key} className="absolute bottom-24 text-6xl animate-reaction-burst" style={{ left: `${burst.left}%` }}>
+              {burst.emoji}
+            </span>
+          ))}
+        </div>
+
         {/* Info Overlay */}
         <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/70 to-transparent p-8 transition-all duration-300 ${
           showControls ? 'translate-y-0 opacity-100' : 'translate-y-full opacity-0'
@@ -208,6 +273,7 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
               </h2>
               <p className="text-white/70 text-lg">
                 {t('by')} {currentItem.uploaderName} • {new Date(currentItem.uploadedAt).toLocaleDateString()}
+                {currentItem.type === 'video' && currentItem.duration ? ` • ${formatDuration(currentItem.duration)}` : ''}
               </p>
             </div>
 
@@ -221,6 +287,13 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
                 <span className="font-bold">{currentItem.likes || 0}</span>
               </div>
               
+              {REACTIONS.filter(emoji => currentItem.reactions?.[emoji]).map(emoji => (
+                <div key={emoji} className="flex items-center gap-1 text-white/80">
+                  <span className="text-xl leading-none">{emoji}</span>
+                  <span className="font-bold">{currentItem.reactions![emoji]}</span>
+                </div>
+              ))}
+
               {currentItem.comments && currentItem.comments.length > 0 && (
                 <div className="flex items-center gap-2 text-white/80">
                   <MessageSquare size={20} />
@@ -236,7 +309,7 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
                   }}
                   className="p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
                 >
-                  <Heart size={20} className={currentItem.likes ? 'fill-red-500 text-red-500' : ''} />
+                  <Heart size={20} className={currentItem.likedByMe ? 'fill-red-500 text-red-500' : ''} />
                 </button>
                 
                 <button
@@ -281,11 +354,25 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
             </button>
             
             <div className="text-white/80 font-medium">
-              {currentIndex + 1} / {localMedia.length}
+              {currentIndex + 1} / {slides.length}
             </div>
           </div>
 
           <div className="flex items-center gap-3">
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleHighlights();
+              }}
+              disabled={isLoadingHighlights}
+              className={`flex items-center gap-2 px-4 py-3 rounded-full text-sm font-bold transition-colors disabled:opacity-50 ${
+                highlights ? 'bg-white text-slate-900' : 'bg-white/10 hover:bg-white/20 text-white'
+              }`}
+            >
+              <Sparkles size={20} />
+              <span className="hidden sm:inline">{highlights ? t('allPhotos') : t('highlights')}</span>
+            </button>
+
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -398,6 +485,25 @@ export const LiveSlideshow: React.FC<LiveSlideshowProps> = ({
         .animate-ken-burns-overlay {
           animation: ken-burns-overlay 8s ease-in-out infinite;
         }
+
+        @keyframes reaction-burst {
+          0% {
+            transform: translateY(0) scale(0.5);
+            opacity: 0;
+          }
+          15% {
+            transform: translateY(-10vh) scale(1.2);
+            opacity: 1;
+          }
+          100% {
+            transform: translateY(-60vh) scale(1);
+            opacity: 0;
+          }
+        }
+
+        .animate-reaction-burst {
+          animation: reaction-burst 2.5s ease-out forwards;
+        }
       `}</style>
     </div>
   );
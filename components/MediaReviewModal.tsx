@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, RotateCcw, Type, Send, Loader2, Lock, Globe, AlertCircle } from 'lucide-react';
+import { X, RotateCcw, Type, Send, Loader2, Lock, Globe, AlertCircle, ImageOff, LayoutGrid } from 'lucide-react';
 import { TranslateFn } from '../types';
 
 interface MediaReviewModalProps {
@@ -13,6 +13,7 @@ interface MediaReviewModalProps {
   isRegistered: boolean;
   t: TranslateFn;
   file?: File; // Pass the file object to check EXIF
+  onMakeCollage?: () => void; // start a collage with this photo instead of uploading it
 }
 
 export const MediaReviewModal: React.FC<MediaReviewModalProps> = ({
@@ -25,17 +26,21 @@ export const MediaReviewModal: React.FC<MediaReviewModalProps> = ({
   uploadProgress = 0, 
   isRegistered,
   t,
-  file
+  file,
+  onMakeCollage
 }) => {
   const [caption, setCaption] = useState('');
   const [privacy, setPrivacy] = useState<'public' | 'private'>('public');
   const [rotation, setRotation] = useState(0);
+  // HEIC and RAW files usually can't be shown by the browser - the server converts them
+  const [previewFailed, setPreviewFailed] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
 
   useEffect(() => {
     // Browser/camera API already handles EXIF orientation correctly
     // Only apply rotation if user manually adjusts in preview
     setRotation(0);
+    setPreviewFailed(false);
   }, [file, type]);
 
   const handlePrivacyChange = (newPrivacy: 'public' | 'private') => {
@@ -72,6 +77,12 @@ export const MediaReviewModal: React.FC<MediaReviewModalProps> = ({
             playsInline
             className="max-w-full max-h-full object-contain" 
           />
+        ) : previewFailed ? (
+          <div className="flex flex-col items-center gap-3 px-8 text-center text-white/60">
+            <ImageOff size={48} />
+            {file && <p className="text-white font-bold break-all">{file.name}</p>}
+            <p className="text-sm">{t('previewAfterUpload')}</p>
+          </div>
         ) : (
           <img 
             ref={imgRef}
@@ -79,6 +90,7 @@ export const MediaReviewModal: React.FC<MediaReviewModalProps> = ({
             alt="Preview" 
             className="max-w-full max-h-full object-contain transition-transform duration-300" 
             style={{ transform: `rotate(${rotation}deg)` }}
+            onError={() => setPreviewFailed(true)}
           />
         )}
       </div>
@@ -173,6 +185,17 @@ export const MediaReviewModal: React.FC<MediaReviewModalProps> = ({
             )}
           </button>
         </div>
+
+        {type === 'image' && onMakeCollage && (
+          <button
+            onClick={onMakeCollage}
+            disabled={isUploading}
+            className="w-full mt-3 py-3 text-white/80 font-bold rounded-xl flex items-center justify-center gap-2 hover:bg-white/10 transition-colors disabled:opacity-50"
+          >
+            <LayoutGrid size={18} />
+            {t('makeCollage')}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Merge, RefreshCw, Check, Pencil, Loader2 } from 'lucide-react';
+import { MediaItem, Person, TranslateFn } from '../types';
+import { api } from '../services/api';
+
+interface PeoplePanelProps {
+  eventId: string;
+  // Bumped when the server regroups the event's faces (people_updated)
+  refreshKey: number;
+  onShowPerson: (media: MediaItem[]) => void;
+  t: TranslateFn;
+}
+
+// Room left around a face in its thumbnail, as a fraction of the face's size
+const FACE_MARGIN = 0.35;
+
+// Positions the cover photo so the face fills its square thumbnail. Lengths are
+// in photo widths, so the crop stays square whatever the photo's shape.
+const faceCropStyle = ({ box, width, height }: Person['cover']): React.CSSProperties => {
+  if (!box) return { width: '100%', height: '100%', objectFit: 'cover' };
+  const photoHeight = width && height ? height / width : 1;
+  const faceHeight = box.height * photoHeight;
+  const side = Math.min(1, photoHeight, Math.max(box.width, faceHeight) * (1 + FACE_MARGIN * 2));
+  const left = Math.min(Math.max(0, box.x + box.width / 2 - side / 2), 1 - side);
+  const top = Math.min(Math.max(0, box.y * photoHeight + faceHeight / 2 - side / 2), photoHeight - side);
+  return {
+    position: 'absolute',
+    maxWidth: 'none',
+    width: `${100 / side}%`,
+    height: `${100 * photoHeight / side}%`,
+    left: `${-left / side * 100}%`,
+    top: `${-top / side * 100}%`
+  };
+};
+
+export const PeoplePanel: React.FC<PeoplePanelProps> = ({ eventId, refreshKey, onShowPerson, t }) => {
+  const [people, setPeople] = useState<Person[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getPeople(eventId)
+      .then(list => { if (!cancelled) setPeople(list); })
+      .catch(error => console.error('Failed to load people:', error));
+    return () => { cancelled = true; };
+  }, [eventId, refreshKey]);
+
+  const regroup = async () => {
+    setIsBusy(true);
+    try {
+      setPeople(await api.reclusterPeople(eventId));
+    } catch (error) {
+      console.error('Failed to group people:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  // The first person picked keeps their id and name
+  const merge = async () => {
+    const [targetId, ...sourceIds] = selected;
+    if (!targetId || sourceIds.length === 0) return;
+    setIsBusy(true);
+    try {
+      setPeople(await api.mergePeople(eventId, targetId, sourceIds));
+      setSelected([]);
+      setIsSelecting(false);
+    } catch (error) {
+      console.error('Failed to merge people:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const startEditing = (person: Person) => {
+    setEditingId(person.id);
+    setDraftName(person.name || '');
+  };
+
+  const saveName = async (person: Person) => {
+    setEditingId(null);
+    const name = draftName.trim();
+    if (name === (person.name || '')) return;
+    setPeople(prev => prev && prev.map(other => other.id === person.id ? { ...other, name: name || null } : other));
+    try {
+      await api.renamePerson(eventId, person.id, name);
+    } catch (error) {
+      console.error('Failed to rename person:', error);
+      setPeople(prev => prev && prev.map(other => other.id === person.id ? { ...other, name: person.name } : other));
+    }
+  };
+
+  const openPerson = async (person: Person) => {
+    if (isSelecting) {
+      toggleSelected(person.id);
+      return;
+    }
+    try {
+      onShowPerson(await api.getPersonMedia(eventId, person.id));
+    } catch (error) {
+      console.error('Failed to load photos:', error);
+    }
+  };
+
+  if (!people) {
+    return <div className="flex justify-center py-20 text-slate-400"><Loader2 size={28} className="animate-spin" /></div>;
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto mb-24">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between bg-white p-4 rounded-2xl shadow-sm border border-slate-200 mb-6">
+        <p className="text-sm text-slate-500">{isSelecting ? t('selectPeopleToMerge') : t('peopleDesc')}</p>
+        <div className="flex gap-2 shrink-0">
+          {isSelecting ? (
+            <>
+              <button onClick={() => { setIsSelecting(false); setSelected([]); }} className="px-3 py-2 text-sm font-bold text-slate-600 rounded-xl hover:bg-slate-100">{t('cancel')}</button>
+              <button onClick={merge} disabled={isBusy || selected.length < 2} className="flex items-center gap-1 px-3 py-2 text-sm font-bold text-white bg-indigo-600 rounded-xl hover:bg-indigo-700 disabled:opacity-50">
+                <Merge size={16} /> {t('mergePeople')} {selected.length > 1 && `(${selected.length})`}
+              </button>
+            </>
+          ) : (
+            <>
+              {people.length > 1 && (
+                <button onClick={() => setIsSelecting(true)} className="flex items-center gap-1 px-3 py-2 text-sm font-bold text-slate-600 bg-slate-50 rounded-xl hover:bg-slate-100">
+                  <Merge size={16} /> {t('mergePeople')}
+                </button>
+              )}
+              <button onClick={regroup} disabled={isBusy} className="flex items-center gap-1 px-3 py-2 text-sm font-bold text-slate-600 bg-slate-50 rounded-xl hover:bg-slate-100 disabled:opacity-50">
+                <RefreshCw size={16} className={isBusy ? 'animate-spin' : ''} /> {t('regroupPeople')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {people.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-slate-200">
+          <Users size={40} className="mx-auto text-slate-300 mb-3" />
+          <p className="text-slate-500">{t('peopleEmpty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+          {people.map(person => {
+            const selectedIndex = selected.indexOf(person.id);
+            return (
+              <div key={person.id} className="bg-white rounded-2xl p-3 shadow-sm border border-slate-200 flex flex-col items-center text-center">
+                <button onClick={() => openPerson(person)} className={`relative w-28 h-28 rounded-full overflow-hidden bg-slate-100 transition-all ${selectedIndex >= 0 ? 'ring-4 ring-indigo-500 ring-offset-2' : 'hover:ring-4 hover:ring-indigo-100'}`}>
+                  <img src={person.cover.previewUrl} alt={person.name || ''} loading="lazy" style={faceCropStyle(person.cover)} />
+                  {selectedIndex >= 0 && (
+                    <span className="absolute inset-0 flex items-center justify-center bg-indigo-600/40 text-white">
+                      {selectedIndex === 0 ? <Check size={28} /> : <Merge size={24} />}
+                    </span>
+                  )}
+                </button>
+                {editingId === person.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    maxLength={60}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => saveName(person)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="mt-3 w-full px-2 py-1 text-sm text-center rounded-lg border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none"
+                  />
+                ) : (
+                  <button onClick={() => startEditing(person)} className={`mt-3 max-w-full flex items-center gap-1 text-sm font-bold truncate ${person.name ? 'text-slate-900' : 'text-slate-400 hover:text-indigo-600'}`}>
+                    <span className="truncate">{person.name || t('unnamedPerson')}</span> <Pencil size={12} className="shrink-0" />
+                  </button>
+                )}
+                <span className="text-xs text-slate-400">{person.photoCount} {t('personPhotos')}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { MediaItem, MediaVariants } from '../types';
+
+type ResponsiveImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> & {
+  item: MediaItem;
+  // Displayed width, e.g. '100vw' - the browser picks the variant to download from it
+  sizes: string;
+  // Used when the photo has no variants (uploaded before they existed); defaults to the full image
+  fallbackSrc?: string;
+};
+
+// Preferred formats first - the browser takes the first <source> it supports
+const SOURCE_TYPES: [keyof MediaVariants, string][] = [['avif', 'image/avif'], ['webp', 'image/webp']];
+
+// A photo with srcsets from its server-rendered variants, so phones download
+// small files while projectors and large screens get sharp ones
+export const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ item, sizes, fallbackSrc, ...imgProps }) => {
+  const variants = item.variants;
+  const src = fallbackSrc || item.url;
+  if (!variants) return <img src={src} {...imgProps} />;
+
+  return (
+    // display: contents, so the <img> is laid out as if the <picture> weren't there
+    <picture className="contents">
+      {SOURCE_TYPES.map(([format, type]) => variants[format] ? (
+        <source key={format} type={type} srcSet={variants[format]} sizes={sizes} />
+      ) : null)}
+      <img src={src} srcSet={variants.jpeg} sizes={variants.jpeg ? sizes : undefined} {...imgProps} />
+    </picture>
+  );
+};
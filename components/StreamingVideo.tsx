@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import type Hls from 'hls.js';
+import { MediaItem } from '../types';
+
+type StreamingVideoProps = Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src' | 'poster'> & {
+  item: MediaItem;
+};
+
+// Plays the adaptive HLS stream when the server has produced one, falling back to
+// the MP4 original. Safari plays HLS natively; other browsers load hls.js on demand.
+export const StreamingVideo: React.FC<StreamingVideoProps> = ({ item, ...videoProps }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const fallbackToMp4 = () => {
+      if (video.src !== new URL(item.url, window.location.href).href) video.src = item.url;
+    };
+
+    if (!item.hlsUrl) {
+      video.src = item.url;
+      return;
+    }
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = item.hlsUrl;
+      video.addEventListener('error', fallbackToMp4, { once: true });
+      return () => video.removeEventListener('error', fallbackToMp4);
+    }
+
+    let hls: Hls | null = null;
+    let cancelled = false;
+
+    import('hls.js').then(({ default: HlsPlayer }) => {
+      if (cancelled) return;
+      if (!HlsPlayer.isSupported()) {
+        fallbackToMp4();
+        return;
+      }
+
+      hls = new HlsPlayer({ capLevelToPlayerSize: true });
+      hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+        if (data.fatal) {
+          console.warn('HLS playback failed, falling back to MP4:', data.details);
+          hls?.destroy();
+          hls = null;
+          fallbackToMp4();
+        }
+      });
+      hls.loadSource(item.hlsUrl!);
+      hls.attachMedia(video);
+    }).catch(fallbackToMp4);
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+    };
+  }, [item.hlsUrl, item.url]);
+
+  return <video ref={videoRef} poster={item.posterUrl || undefined} {...videoProps} />;
+};
@@ -18,6 +18,7 @@ export const StudioSettingsModal: React.FC<StudioSettingsModalProps> = ({ curren
     return null;
   }
   const [studioName, setStudioName] = useState(currentUser.studioName || '');
+  const [watermarkText, setWatermarkText] = useState(currentUser.watermarkText || '');
   const [logoUrl, setLogoUrl] = useState(currentUser.logoUrl || '');
   const [opacity, setOpacity] = useState(currentUser.watermarkOpacity || 0.85);
   const [size, setSize] = useState(currentUser.watermarkSize || 20);
@@ -59,6 +60,7 @@ export const StudioSettingsModal: React.FC<StudioSettingsModalProps> = ({ curren
   const handleSave = () => {
     onSave({
       studioName,
+      watermarkText,
       logoUrl,
       watermarkOpacity: opacity,
       watermarkSize: size,
@@ -128,6 +130,17 @@ export const StudioSettingsModal: React.FC<StudioSettingsModalProps> = ({ curren
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-bold text-slate-700 mb-2">{t('watermarkText')}</label>
+            <input 
+              type="text" 
+              value={watermarkText}
+              placeholder={studioName}
+              onChange={(e) => setWatermarkText(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl border border-slate-300 bg-white text-slate-900 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
           <div className="bg-slate-50 p-4 rounded-xl border border-slate-200">
             <label className="block text-sm font-bold text-slate-700 mb-2 flex items-center justify-between">
                <span>{t('uploadLogo')}</span>
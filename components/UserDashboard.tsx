@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Plus, Sparkles, Zap, Clock, Calendar, Image as ImageIcon, User as UserIcon, Crown, Star, BarChart3, TrendingUp, Users, Download, Settings, Camera, Video, Palette, MessageCircle } from 'lucide-react';
-import { Event, User, TranslateFn, TierLevel, UserRole } from '../types';
+import { Plus, Sparkles, Zap, Clock, Calendar, Image as ImageIcon, User as UserIcon, Crown, Star, BarChart3, TrendingUp, Users, Download, Settings, Camera, Video, Palette, MessageCircle, BookOpen } from 'lucide-react';
+import { Event, User, TranslateFn, TierLevel, UserRole, Language } from '../types';
+import { api } from '../services/api';
 
 interface UserDashboardProps {
   events: Event[];
@@ -8,6 +9,7 @@ interface UserDashboardProps {
   onNewEvent: () => void;
   onSelectEvent: (id: string) => void;
   onRequestUpgrade: () => void;
+  language: Language;
   t: TranslateFn;
 }
 
@@ -19,9 +21,21 @@ export const UserDashboard: React.FC<UserDashboardProps> = ({
   onNewEvent,
   onSelectEvent,
   onRequestUpgrade,
+  language,
   t
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('events');
+
+  const downloadGuestbookPdf = async (eventId: string) => {
+    try {
+      const link = document.createElement('a');
+      link.href = await api.getGuestbookPdfUrl(eventId, language);
+      link.download = '';
+      link.click();
+    } catch (err) {
+      console.error('Failed to download guestbook PDF:', err);
+    }
+  };
   
   // Helper to render tier badge
   const renderTierBadge = (tier: TierLevel) => {
@@ -207,6 +221,15 @@ export const UserDashboard: React.FC<UserDashboardProps> = ({
                 <div className="pt-4 border-t border-slate-100 flex items-center text-sm text-slate-500 font-medium">
                   <ImageIcon size={16} className="mr-2 text-indigo-500" />
                   {evt.media.length} {t('memories')}
+                  {(isOwned || currentUser.role === UserRole.ADMIN) && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); downloadGuestbookPdf(evt.id); }}
+                      className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-600 hover:bg-indigo-50 relative z-10"
+                      title={t('guestbookPdfDesc')}
+                    >
+                      <BookOpen size={14} /> {t('guestbookPdf')}
+                    </button>
+                  )}
                 </div>
               </div>
             )
@@ -1,4 +1,4 @@
-import { Language, TierLevel, PricingTier, TranslateFn } from './types';
+import { Language, TierLevel, PricingTier, TranslateFn, CollageTemplate, PrintSize } from './types';
 
 export const TRANSLATIONS: Record<Language, Record<string, string>> = {
   en: {
@@ -127,6 +127,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     watermark: "Apply Watermark",
     watermarkApplied: "Watermark will be applied",
     applyWatermark: "Apply Watermark",
+    watermarkText: "Watermark Text (defaults to studio name)",
+    rerenderWatermarks: "Re-apply Watermarks",
+    rerenderWatermarksQueued: "Watermarks are being re-applied to this event's photos",
     storageLimit: "Storage Limit Reached! Please upgrade to upload more.",
     videoRestricted: "Video uploads are available on Pro and Studio plans.",
     videoDurationLimit: "Videos must be 10 seconds or less",
@@ -172,6 +175,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     submitPin: "Unlock Event",
     optionalPin: "Optional PIN Code",
     pinDesc: "Leave blank for public access",
+    keepPhotoLocations: "Keep photo locations",
+    keepPhotoLocationsOn: "GPS coordinates stay in uploaded photos and downloads",
+    keepPhotoLocationsOff: "GPS coordinates are removed from guests' photos to protect their privacy",
     invalidPin: "Incorrect PIN",
     findMe: "Find Me",
     findMeTitle: "Find Me with AI",
@@ -216,6 +222,80 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     loginRequired: "Login required for private uploads",
     uploadPrivacy: "Upload Privacy",
     myUploads: "My Uploads",
+    downloadOriginal: "Download original",
+    whoLiked: "Who liked this",
+    likedByYou: "You",
+    noLikesYet: "No likes yet",
+    noComments: "No comments yet.",
+    addComment: "Add a comment...",
+    reply: "Reply",
+    replyingTo: "Replying to",
+    editComment: "Edit",
+    deleteComment: "Delete",
+    saveComment: "Save",
+    edited: "edited",
+    attachPhoto: "Photo",
+    voiceNote: "Voice note",
+    stopRecording: "Stop recording",
+    removeAttachment: "Remove",
+    guestbookApproval: "Approve entries first",
+    guestbookApprovalDesc: "New guestbook entries stay hidden until you approve them.",
+    pendingApproval: "Awaiting approval",
+    hiddenEntry: "Hidden",
+    approveEntry: "Approve",
+    hideEntry: "Hide",
+    deleteEntry: "Delete",
+    entryAwaitsApproval: "Thanks! Your entry will appear once the host approves it.",
+    guestbookPdf: "Guestbook PDF",
+    guestbookPdfDesc: "Download the guestbook and best photos as a printable keepsake",
+    findMeOptOut: "Keep me out of Find Me (take a selfie)",
+    findMeOptedOut: "Your face is hidden from Find Me in this event.",
+    findMeOptIn: "Undo",
+    people: "People",
+    peopleDesc: "Faces in your photos are grouped by person. Name them, merge duplicates, and tap one to see their photos.",
+    peopleEmpty: "No people yet. Groups appear once a few photos of the same face are uploaded.",
+    unnamedPerson: "Add a name",
+    personPhotos: "photos",
+    regroupPeople: "Regroup",
+    mergePeople: "Merge",
+    selectPeopleToMerge: "Select people to merge",
+    highlights: "Highlights",
+    downloadHighlights: "Download highlights",
+    noHighlights: "No highlights yet",
+    highlightVideo: "Highlight video",
+    highlightVideoDesc: "A 1080p recap with gentle motion on photos, short clips and crossfades, carrying your watermark. It's added to the gallery when it's ready.",
+    highlightVideoFromHighlights: "Made from the event's highlights",
+    highlightVideoFromSelection: "Made from {count} selected items",
+    highlightVideoMusic: "Music track (optional)",
+    renderHighlightVideo: "Render video",
+    renderingHighlightVideo: "Rendering...",
+    highlightVideoReady: "Your highlight video was added to the gallery",
+    highlightVideoFailed: "The video couldn't be rendered",
+    collage: "Collage",
+    collageDesc: "Print-ready at 300 DPI, with the event's title and date.",
+    collageStrip: "Photo strip",
+    collageGrid: "Grid",
+    collagePolaroid: "Polaroid",
+    collageMagazine: "Magazine",
+    collageNeedsPhotos: "Needs {count} photos",
+    collageAddPhoto: "Take another",
+    makeCollage: "Make a collage",
+    createCollage: "Create collage",
+    creatingCollage: "Creating...",
+    downloadCollage: "Download",
+    useCollage: "Upload collage",
+    reviewDuplicates: "Review duplicates",
+    duplicatesDesc: "These uploads look like the same photo. Keep one of each group - likes and comments of the others move to it.",
+    keepThis: "Keep",
+    mergeDuplicates: "Keep selected, delete others",
+    mergeAllDuplicates: "Merge all ({count})",
+    notDuplicates: "Not duplicates",
+    noDuplicates: "No duplicates left to review",
+    confirmMergeDuplicates: "Delete {count} duplicate copies? This cannot be undone.",
+    duplicateUpload: "This photo is already in the gallery",
+    previewAfterUpload: "This format is converted after upload - no preview yet",
+    sortByUploaded: "Recently uploaded first",
+    sortByTaken: "Photos in the order they were taken",
     allPhotos: "All Photos",
     deleteMediaConfirm: "Are you sure you want to delete this media? This cannot be undone.",
     liveWall: "Live Wall",
@@ -404,6 +484,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     watermark: "Додади воден жиг",
     watermarkApplied: "Водениот жиг ќе биде применет",
     applyWatermark: "Примени воден жиг",
+    watermarkText: "Текст на воден жиг (стандардно името на студиото)",
+    rerenderWatermarks: "Повторно примени водени жигови",
+    rerenderWatermarksQueued: "Водените жигови повторно се применуваат на фотографиите од настанот",
     storageLimit: "Достигнат лимит на меморија!",
     videoRestricted: "Видео прикачување е достапно за Pro и Studio.",
     videoDurationLimit: "Видеата мора да бидат 10 секунди или помалку",
@@ -449,6 +532,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     submitPin: "Отклучи",
     optionalPin: "Опционален PIN код",
     pinDesc: "Оставете празно за јавен пристап",
+    keepPhotoLocations: "Задржи ја локацијата на фотографиите",
+    keepPhotoLocationsOn: "GPS координатите остануваат во прикачените фотографии и преземањата",
+    keepPhotoLocationsOff: "GPS координатите се отстрануваат од фотографиите на гостите за заштита на нивната приватност",
     invalidPin: "Неточен PIN",
     findMe: "Најди ме",
     findMeTitle: "Најди ме со AI",
@@ -493,6 +579,80 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     loginRequired: "Потребна е најава за приватност",
     uploadPrivacy: "Приватност на прикачување",
     myUploads: "Мои прикачувања",
+    downloadOriginal: "Преземи оригинал",
+    whoLiked: "Кој го сака ова",
+    likedByYou: "Вие",
+    noLikesYet: "Сè уште нема допаѓања",
+    noComments: "Сè уште нема коментари.",
+    addComment: "Додај коментар...",
+    reply: "Одговори",
+    replyingTo: "Одговор на",
+    editComment: "Уреди",
+    deleteComment: "Избриши",
+    saveComment: "Зачувај",
+    edited: "уредено",
+    attachPhoto: "Фотографија",
+    voiceNote: "Гласовна порака",
+    stopRecording: "Запри снимање",
+    removeAttachment: "Отстрани",
+    guestbookApproval: "Прво одобри пораки",
+    guestbookApprovalDesc: "Новите пораки во книгата на гости се скриени додека не ги одобрите.",
+    pendingApproval: "Чека одобрување",
+    hiddenEntry: "Скриено",
+    approveEntry: "Одобри",
+    hideEntry: "Скриј",
+    deleteEntry: "Избриши",
+    entryAwaitsApproval: "Благодариме! Вашата порака ќе се појави откако домаќинот ќе ја одобри.",
+    guestbookPdf: "Книга на гости PDF",
+    guestbookPdfDesc: "Преземи ја книгата на гости и најдобрите фотографии како спомен за печатење",
+    findMeOptOut: "Не ме вклучувај во Најди ме (сликај селфи)",
+    findMeOptedOut: "Твоето лице е скриено од Најди ме на овој настан.",
+    findMeOptIn: "Врати",
+    people: "Луѓе",
+    peopleDesc: "Лицата на вашите фотографии се групирани по личност. Именувајте ги, спојте дупликати и допрете една за да ги видите нејзините фотографии.",
+    peopleEmpty: "Сè уште нема луѓе. Групите се појавуваат штом ќе се прикачат неколку фотографии од истото лице.",
+    unnamedPerson: "Додади име",
+    personPhotos: "фотографии",
+    regroupPeople: "Прегрупирај",
+    mergePeople: "Спои",
+    selectPeopleToMerge: "Изберете луѓе за спојување",
+    highlights: "Најдобри моменти",
+    downloadHighlights: "Превземи најдобри моменти",
+    noHighlights: "Сè уште нема најдобри моменти",
+    highlightVideo: "Видео со најдобри моменти",
+    highlightVideoDesc: "Преглед во 1080p со нежно движење на фотографиите, кратки клипови и претопувања, со вашиот воден жиг. Се додава во галеријата кога ќе биде готов.",
+    highlightVideoFromHighlights: "Направено од најдобрите моменти на настанот",
+    highlightVideoFromSelection: "Направено од {count} избрани ставки",
+    highlightVideoMusic: "Музика (опционално)",
+    renderHighlightVideo: "Направи видео",
+    renderingHighlightVideo: "Се изработува...",
+    highlightVideoReady: "Вашето видео е додадено во галеријата",
+    highlightVideoFailed: "Видеото не можеше да се изработи",
+    collage: "Колаж",
+    collageDesc: "Подготвен за печатење на 300 DPI, со името и датумот на настанот.",
+    collageStrip: "Фото лента",
+    collageGrid: "Мрежа",
+    collagePolaroid: "Полароид",
+    collageMagazine: "Магазин",
+    collageNeedsPhotos: "Потребни се {count} фотографии",
+    collageAddPhoto: "Фотографирај уште",
+    makeCollage: "Направи колаж",
+    createCollage: "Креирај колаж",
+    creatingCollage: "Се креира...",
+    downloadCollage: "Превземи",
+    useCollage: "Прикачи колаж",
+    reviewDuplicates: "Прегледај дупликати",
+    duplicatesDesc: "Овие прикачувања изгледаат како иста фотографија. Задржете по една од секоја група - лајковите и коментарите на другите се пренесуваат на неа.",
+    keepThis: "Задржи",
+    mergeDuplicates: "Задржи ја избраната, избриши ги другите",
+    mergeAllDuplicates: "Спои ги сите ({count})",
+    notDuplicates: "Не се дупликати",
+    noDuplicates: "Нема повеќе дупликати за преглед",
+    confirmMergeDuplicates: "Да се избришат {count} дупликат копии? Ова не може да се врати.",
+    duplicateUpload: "Оваа фотографија веќе е во галеријата",
+    previewAfterUpload: "Овој формат се конвертира по прикачувањето - сè уште нема преглед",
+    sortByUploaded: "Најново прикачени прво",
+    sortByTaken: "Фотографии по редоследот на снимање",
     allPhotos: "Сите фотографии",
     deleteMediaConfirm: "Дали сте сигурни дека сакате да го избришете овој медиум?",
     liveWall: "Жив Зид",
@@ -683,6 +843,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     watermark: "Filigran Ekle",
     watermarkApplied: "Filigran uygulanacak",
     applyWatermark: "Filigran Uygula",
+    watermarkText: "Filigran Metni (varsayılan stüdyo adı)",
+    rerenderWatermarks: "Filigranları Yeniden Uygula",
+    rerenderWatermarksQueued: "Filigranlar bu etkinliğin fotoğraflarına yeniden uygulanıyor",
     storageLimit: "Depolama Sınırına Ulaşıldı!",
     videoRestricted: "Video yüklemeleri Pro ve Studio planlarında mevcuttur.",
     videoDurationLimit: "Videolar 10 saniye veya daha az olmalıdır",
@@ -728,6 +891,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     submitPin: "Etkinliği Aç",
     optionalPin: "İsteğe Bağlı PIN Kodu",
     pinDesc: "Herkese açık erişim için boş bırakın",
+    keepPhotoLocations: "Fotoğraf konumlarını sakla",
+    keepPhotoLocationsOn: "GPS koordinatları yüklenen fotoğraflarda ve indirmelerde kalır",
+    keepPhotoLocationsOff: "Misafirlerin gizliliğini korumak için GPS koordinatları fotoğraflardan kaldırılır",
     invalidPin: "Hatalı PIN",
     findMe: "Beni Bul",
     findMeTitle: "AI ile Beni Bul",
@@ -772,6 +938,80 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     loginRequired: "Özel yüklemeler için giriş gerekli",
     uploadPrivacy: "Yükleme Gizliliği",
     myUploads: "Yüklemelerim",
+    downloadOriginal: "Orijinali indir",
+    whoLiked: "Kimler beğendi",
+    likedByYou: "Sen",
+    noLikesYet: "Henüz beğeni yok",
+    noComments: "Henüz yorum yok.",
+    addComment: "Yorum ekle...",
+    reply: "Yanıtla",
+    replyingTo: "Yanıtlanıyor:",
+    editComment: "Düzenle",
+    deleteComment: "Sil",
+    saveComment: "Kaydet",
+    edited: "düzenlendi",
+    attachPhoto: "Fotoğraf",
+    voiceNote: "Sesli not",
+    stopRecording: "Kaydı durdur",
+    removeAttachment: "Kaldır",
+    guestbookApproval: "Önce mesajları onayla",
+    guestbookApprovalDesc: "Yeni anı defteri mesajları siz onaylayana kadar gizli kalır.",
+    pendingApproval: "Onay bekliyor",
+    hiddenEntry: "Gizli",
+    approveEntry: "Onayla",
+    hideEntry: "Gizle",
+    deleteEntry: "Sil",
+    entryAwaitsApproval: "Teşekkürler! Mesajınız ev sahibi onayladığında görünecek.",
+    guestbookPdf: "Anı Defteri PDF",
+    guestbookPdfDesc: "Anı defterini ve en iyi fotoğrafları yazdırılabilir bir hatıra olarak indirin",
+    findMeOptOut: "Beni Beni Bul'a dahil etme (selfie çek)",
+    findMeOptedOut: "Yüzünüz bu etkinlikte Beni Bul'dan gizlendi.",
+    findMeOptIn: "Geri al",
+    people: "Kişiler",
+    peopleDesc: "Fotoğraflarınızdaki yüzler kişiye göre gruplanır. İsim verin, tekrarları birleştirin ve fotoğraflarını görmek için birine dokunun.",
+    peopleEmpty: "Henüz kişi yok. Aynı yüzün birkaç fotoğrafı yüklendiğinde gruplar görünür.",
+    unnamedPerson: "İsim ekle",
+    personPhotos: "fotoğraf",
+    regroupPeople: "Yeniden grupla",
+    mergePeople: "Birleştir",
+    selectPeopleToMerge: "Birleştirilecek kişileri seçin",
+    highlights: "Öne çıkanlar",
+    downloadHighlights: "Öne çıkanları indir",
+    noHighlights: "Henüz öne çıkan yok",
+    highlightVideo: "Öne çıkanlar videosu",
+    highlightVideoDesc: "Fotoğraflarda yumuşak hareket, kısa klipler ve geçişlerle, filigranınızı taşıyan 1080p bir özet. Hazır olduğunda galeriye eklenir.",
+    highlightVideoFromHighlights: "Etkinliğin öne çıkanlarından hazırlanır",
+    highlightVideoFromSelection: "Seçilen {count} öğeden hazırlanır",
+    highlightVideoMusic: "Müzik (isteğe bağlı)",
+    renderHighlightVideo: "Videoyu oluştur",
+    renderingHighlightVideo: "Oluşturuluyor...",
+    highlightVideoReady: "Öne çıkanlar videonuz galeriye eklendi",
+    highlightVideoFailed: "Video oluşturulamadı",
+    collage: "Kolaj",
+    collageDesc: "Etkinliğin adı ve tarihiyle 300 DPI baskıya hazır.",
+    collageStrip: "Fotoğraf şeridi",
+    collageGrid: "Izgara",
+    collagePolaroid: "Polaroid",
+    collageMagazine: "Dergi",
+    collageNeedsPhotos: "{count} fotoğraf gerekir",
+    collageAddPhoto: "Bir tane daha çek",
+    makeCollage: "Kolaj yap",
+    createCollage: "Kolaj oluştur",
+    creatingCollage: "Oluşturuluyor...",
+    downloadCollage: "İndir",
+    useCollage: "Kolajı yükle",
+    reviewDuplicates: "Kopyaları incele",
+    duplicatesDesc: "Bu yüklemeler aynı fotoğraf gibi görünüyor. Her gruptan birini tutun - diğerlerinin beğenileri ve yorumları ona taşınır.",
+    keepThis: "Tut",
+    mergeDuplicates: "Seçileni tut, diğerlerini sil",
+    mergeAllDuplicates: "Tümünü birleştir ({count})",
+    notDuplicates: "Kopya değil",
+    noDuplicates: "İncelenecek kopya kalmadı",
+    confirmMergeDuplicates: "{count} kopya silinsin mi? Bu işlem geri alınamaz.",
+    duplicateUpload: "Bu fotoğraf zaten galeride",
+    previewAfterUpload: "Bu format yüklemeden sonra dönüştürülür - henüz önizleme yok",
+    sortByUploaded: "Son yüklenenler önce",
+    sortByTaken: "Fotoğrafları çekildiği sıraya göre göster",
     allPhotos: "Tüm Fotoğraflar",
     deleteMediaConfirm: "Bu medyayı silmek istediğinizden emin misiniz?",
     liveWall: "Canlı Duvar",
@@ -962,6 +1202,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     watermark: "Apliko Watermark",
     watermarkApplied: "Watermark do të aplikohet",
     applyWatermark: "Apliko Watermark",
+    watermarkText: "Teksti i Watermark (parazgjedhur emri i studios)",
+    rerenderWatermarks: "Ri-apliko Watermark",
+    rerenderWatermarksQueued: "Watermark po ri-aplikohet në fotot e këtij eventi",
     storageLimit: "Kufiri i Hapësirës u Arrit!",
     videoRestricted: "Videot janë vetëm për planet Pro dhe Studio.",
     videoDurationLimit: "Videot duhet të jenë 10 sekonda ose më pak",
@@ -1007,6 +1250,9 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     submitPin: "Zhblloko",
     optionalPin: "Kodi PIN Opsional",
     pinDesc: "Lëreni bosh për qasje publike",
+    keepPhotoLocations: "Ruaj vendndodhjen e fotove",
+    keepPhotoLocationsOn: "Koordinatat GPS mbeten në fotot e ngarkuara dhe në shkarkime",
+    keepPhotoLocationsOff: "Koordinatat GPS hiqen nga fotot e mysafirëve për të mbrojtur privatësinë e tyre",
     invalidPin: "PIN i Gabuar",
     findMe: "Më Gjej",
     findMeTitle: "Më Gjej me AI",
@@ -1051,6 +1297,80 @@ export const TRANSLATIONS: Record<Language, Record<string, string>> = {
     loginRequired: "Kërkohet hyrja për ngarkime private",
     uploadPrivacy: "Privatësia e Ngarkimit",
     myUploads: "Ngarkimet e Mia",
+    downloadOriginal: "Shkarko origjinalin",
+    whoLiked: "Kush e pëlqeu",
+    likedByYou: "Ju",
+    noLikesYet: "Ende asnjë pëlqim",
+    noComments: "Ende asnjë koment.",
+    addComment: "Shto një koment...",
+    reply: "Përgjigju",
+    replyingTo: "Duke iu përgjigjur",
+    editComment: "Ndrysho",
+    deleteComment: "Fshi",
+    saveComment: "Ruaj",
+    edited: "ndryshuar",
+    attachPhoto: "Foto",
+    voiceNote: "Mesazh zanor",
+    stopRecording: "Ndalo regjistrimin",
+    removeAttachment: "Hiq",
+    guestbookApproval: "Mirato mesazhet fillimisht",
+    guestbookApprovalDesc: "Mesazhet e reja në librin e mysafirëve mbeten të fshehura derisa t'i miratoni.",
+    pendingApproval: "Në pritje të miratimit",
+    hiddenEntry: "I fshehur",
+    approveEntry: "Mirato",
+    hideEntry: "Fshih",
+    deleteEntry: "Fshi",
+    entryAwaitsApproval: "Faleminderit! Mesazhi juaj do të shfaqet pasi ta miratojë organizatori.",
+    guestbookPdf: "Libri i Mysafirëve PDF",
+    guestbookPdfDesc: "Shkarko librin e mysafirëve dhe fotot më të mira si kujtim për printim",
+    findMeOptOut: "Mos më përfshi te Më Gjej (bëj një selfie)",
+    findMeOptedOut: "Fytyra jote është e fshehur nga Më Gjej në këtë ngjarje.",
+    findMeOptIn: "Zhbëj",
+    people: "Njerëzit",
+    peopleDesc: "Fytyrat në fotot tuaja grupohen sipas personit. Emërtojini, bashkoni dublikatat dhe prekni një për të parë fotot e tij.",
+    peopleEmpty: "Ende nuk ka njerëz. Grupet shfaqen sapo të ngarkohen disa foto të së njëjtës fytyrë.",
+    unnamedPerson: "Shto emër",
+    personPhotos: "foto",
+    regroupPeople: "Rigrupo",
+    mergePeople: "Bashko",
+    selectPeopleToMerge: "Zgjidhni njerëzit për t'i bashkuar",
+    highlights: "Momentet më të mira",
+    downloadHighlights: "Shkarko momentet më të mira",
+    noHighlights: "Ende nuk ka momente më të mira",
+    highlightVideo: "Video me momentet më të mira",
+    highlightVideoDesc: "Një përmbledhje 1080p me lëvizje të butë në foto, klipe të shkurtra dhe kalime, me filigranin tuaj. Shtohet në galeri kur të jetë gati.",
+    highlightVideoFromHighlights: "Krijuar nga momentet më të mira të eventit",
+    highlightVideoFromSelection: "Krijuar nga {count} elementë të zgjedhur",
+    highlightVideoMusic: "Muzikë (opsionale)",
+    renderHighlightVideo: "Krijo videon",
+    renderingHighlightVideo: "Duke u krijuar...",
+    highlightVideoReady: "Videoja juaj u shtua në galeri",
+    highlightVideoFailed: "Videoja nuk mund të krijohej",
+    collage: "Kolazh",
+    collageDesc: "Gati për printim në 300 DPI, me titullin dhe datën e eventit.",
+    collageStrip: "Shirit fotosh",
+    collageGrid: "Rrjetë",
+    collagePolaroid: "Polaroid",
+    collageMagazine: "Revistë",
+    collageNeedsPhotos: "Duhen {count} foto",
+    collageAddPhoto: "Bëj një tjetër",
+    makeCollage: "Bëj një kolazh",
+    createCollage: "Krijo kolazh",
+    creatingCollage: "Duke krijuar...",
+    downloadCollage: "Shkarko",
+    useCollage: "Ngarko kolazhin",
+    reviewDuplicates: "Rishiko dublikatat",
+    duplicatesDesc: "Këto ngarkime duken si e njëjta foto. Mbani një nga secili grup - pëlqimet dhe komentet e të tjerave kalojnë tek ajo.",
+    keepThis: "Mbaj",
+    mergeDuplicates: "Mbaj të zgjedhurën, fshi të tjerat",
+    mergeAllDuplicates: "Bashko të gjitha ({count})",
+    notDuplicates: "Nuk janë dublikata",
+    noDuplicates: "Nuk ka më dublikata për të rishikuar",
+    confirmMergeDuplicates: "Të fshihen {count} kopje dublikate? Ky veprim nuk mund të zhbëhet.",
+    duplicateUpload: "Kjo foto është tashmë në galeri",
+    previewAfterUpload: "Ky format konvertohet pas ngarkimit - ende pa parapamje",
+    sortByUploaded: "Të ngarkuarat e fundit në fillim",
+    sortByTaken: "Fotot sipas radhës kur janë bërë",
     allPhotos: "Të Gjitha Fotot",
     deleteMediaConfirm: "A jeni i sigurt se doni të fshini këtë media?",
     liveWall: "Mur i Gjallë",
@@ -1150,6 +1470,19 @@ export const getPricingTiers = (t: TranslateFn): PricingTier[] => [
   }
 ];
 
+// Quick reactions on photos and videos - the server accepts the same list
+export const REACTIONS = ['😂', '❤️', '😮', '🎉'];
+
+// Collage layouts, the photos each one needs and the paper it prints on - the server uses the same list
+export const COLLAGE_TEMPLATES: { id: CollageTemplate; labelKey: string; photos: number; sizes: PrintSize[] }[] = [
+  { id: 'strip', labelKey: 'collageStrip', photos: 4, sizes: ['2x6', '4x6'] },
+  { id: 'grid', labelKey: 'collageGrid', photos: 4, sizes: ['4x6'] },
+  { id: 'polaroid', labelKey: 'collagePolaroid', photos: 1, sizes: ['4x6'] },
+  { id: 'magazine', labelKey: 'collageMagazine', photos: 3, sizes: ['4x6'] }
+];
+
+export const MAX_COLLAGE_PHOTOS = Math.max(...COLLAGE_TEMPLATES.map(template => template.photos));
+
 export const EVENT_THEMES = [
   { id: 'Birthday', labelKey: 'birthday', emoji: '🎂' },
   { id: 'Wedding', labelKey: 'wedding', emoji: '💍' },
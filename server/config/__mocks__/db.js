@@ -0,0 +1,9 @@
+import sqlite3 from 'sqlite3';
+
+// In-memory database for service tests; enable with jest.mock('../../config/db.js')
+export const db = new sqlite3.Database(':memory:');
+
+// Runs a statement, for tests that create tables and seed rows
+export const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => err ? reject(err) : resolve());
+});
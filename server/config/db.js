@@ -30,7 +30,8 @@ export const initDb = () => {
             id TEXT PRIMARY KEY, name TEXT, email TEXT UNIQUE, password TEXT, role TEXT DEFAULT 'USER',
             tier TEXT DEFAULT 'FREE', storageUsedMb REAL DEFAULT 0, storageLimitMb REAL,
             joinedDate TEXT, studioName TEXT, logoUrl TEXT, watermarkOpacity REAL,
-            watermarkSize REAL, watermarkPosition TEXT, watermarkOffsetX REAL, watermarkOffsetY REAL
+            watermarkSize REAL, watermarkPosition TEXT, watermarkOffsetX REAL, watermarkOffsetY REAL,
+            watermarkText TEXT
         )`);
 
         // Create other tables
@@ -38,7 +39,7 @@ export const initDb = () => {
             id TEXT PRIMARY KEY, title TEXT, description TEXT, date TEXT, city TEXT,
             hostId TEXT, code TEXT, coverImage TEXT, coverMediaType TEXT,
             expiresAt TEXT, pin TEXT, views INTEGER DEFAULT 0, downloads INTEGER DEFAULT 0,
-            createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+            createdAt TEXT DEFAULT CURRENT_TIMESTAMP, keepLocation INTEGER DEFAULT 0, guestbookApproval INTEGER DEFAULT 0, facesClusteredAt TEXT,
             FOREIGN KEY(hostId) REFERENCES users(id) ON DELETE CASCADE
         )`);
 
@@ -47,18 +48,25 @@ export const initDb = () => {
             isProcessing INTEGER DEFAULT 0, caption TEXT, uploadedAt TEXT,
             uploaderName TEXT, uploaderId TEXT, isWatermarked INTEGER,
             watermarkText TEXT, likes INTEGER DEFAULT 0, privacy TEXT DEFAULT 'public',
+            originalUrl TEXT, posterUrl TEXT, duration REAL, width INTEGER, height INTEGER,
+            videoCodec TEXT, rotation INTEGER, hlsUrl TEXT, takenAt TEXT, cameraMake TEXT,
+            cameraModel TEXT, lensModel TEXT, orientation INTEGER, latitude REAL, longitude REAL, hasLocation INTEGER,
+            sourceUrl TEXT, sourceFormat TEXT, variants TEXT, contentHash TEXT, phash TEXT, duplicateOf TEXT, aiTags TEXT,
+            facesIndexedAt TEXT, sharpness REAL, exposure REAL, qualityScore REAL,
             FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
         )`);
 
         db.run(`CREATE TABLE IF NOT EXISTS guestbook (
             id TEXT PRIMARY KEY, eventId TEXT, senderName TEXT, message TEXT,
-            createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+            createdAt TEXT DEFAULT CURRENT_TIMESTAMP, status TEXT DEFAULT 'approved', authorId TEXT, userId TEXT,
+            attachmentUrl TEXT, attachmentType TEXT,
             FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
         )`);
 
         db.run(`CREATE TABLE IF NOT EXISTS comments (
             id TEXT PRIMARY KEY, mediaId TEXT, eventId TEXT, senderName TEXT,
-            text TEXT, createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+            text TEXT, createdAt TEXT DEFAULT CURRENT_TIMESTAMP, parentId TEXT, authorId TEXT,
+            userId TEXT, mentions TEXT, editedAt TEXT,
             FOREIGN KEY(mediaId) REFERENCES media(id) ON DELETE CASCADE,
             FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
         )`);
@@ -167,7 +175,8 @@ export const initDb = () => {
         db.run(`CREATE TABLE IF NOT EXISTS events (
             id TEXT PRIMARY KEY, title TEXT, description TEXT, date TEXT, city TEXT, hostId TEXT,
             code TEXT, coverImage TEXT, coverMediaType TEXT, expiresAt TEXT, pin TEXT,
-            views INTEGER DEFAULT 0, downloads INTEGER DEFAULT 0, createdAt TEXT,
+            views INTEGER DEFAULT 0, downloads INTEGER DEFAULT 0, createdAt TEXT, keepLocation INTEGER DEFAULT 0,
+            guestbookApproval INTEGER DEFAULT 0, facesClusteredAt TEXT,
             FOREIGN KEY(hostId) REFERENCES users(id) ON DELETE CASCADE
         )`);
 
@@ -205,28 +214,106 @@ export const initDb = () => {
             } else {
                 console.log('createdAt column already exists in events table');
             }
+            // Whether uploaded photos keep their GPS data (stripped by default)
+            if (!rows.some(row => row.name === 'keepLocation')) db.run("ALTER TABLE events ADD COLUMN keepLocation INTEGER DEFAULT 0");
+            // Guestbook entries wait for the host's approval before guests see them
+            if (!rows.some(row => row.name === 'guestbookApproval')) db.run("ALTER TABLE events ADD COLUMN guestbookApproval INTEGER DEFAULT 0");
+            // When the event's faces were last grouped into people (see face_clusters)
+            if (!rows.some(row => row.name === 'facesClusteredAt')) db.run("ALTER TABLE events ADD COLUMN facesClusteredAt TEXT");
         });
 
         db.all("PRAGMA table_info(media)", (err, rows) => {
             if (!rows.some(row => row.name === 'privacy')) db.run("ALTER TABLE media ADD COLUMN privacy TEXT DEFAULT 'public'");
             if (!rows.some(row => row.name === 'uploaderId')) db.run("ALTER TABLE media ADD COLUMN uploaderId TEXT");
+            // Private key of the clean original when the display copy is watermarked
+            if (!rows.some(row => row.name === 'originalUrl')) db.run("ALTER TABLE media ADD COLUMN originalUrl TEXT");
+            // Video poster frame and probed stream metadata
+            if (!rows.some(row => row.name === 'posterUrl')) db.run("ALTER TABLE media ADD COLUMN posterUrl TEXT");
+            if (!rows.some(row => row.name === 'duration')) db.run("ALTER TABLE media ADD COLUMN duration REAL");
+            if (!rows.some(row => row.name === 'width')) db.run("ALTER TABLE media ADD COLUMN width INTEGER");
+            if (!rows.some(row => row.name === 'height')) db.run("ALTER TABLE media ADD COLUMN height INTEGER");
+            if (!rows.some(row => row.name === 'videoCodec')) db.run("ALTER TABLE media ADD COLUMN videoCodec TEXT");
+            if (!rows.some(row => row.name === 'rotation')) db.run("ALTER TABLE media ADD COLUMN rotation INTEGER");
+            // Master playlist key of the adaptive (HLS) stream
+            if (!rows.some(row => row.name === 'hlsUrl')) db.run("ALTER TABLE media ADD COLUMN hlsUrl TEXT");
+            // EXIF capture time and camera (container tags for videos); orientation is the
+            // original EXIF value - stored images are already rotated upright
+            if (!rows.some(row => row.name === 'takenAt')) db.run("ALTER TABLE media ADD COLUMN takenAt TEXT");
+            if (!rows.some(row => row.name === 'cameraMake')) db.run("ALTER TABLE media ADD COLUMN cameraMake TEXT");
+            if (!rows.some(row => row.name === 'cameraModel')) db.run("ALTER TABLE media ADD COLUMN cameraModel TEXT");
+            if (!rows.some(row => row.name === 'lensModel')) db.run("ALTER TABLE media ADD COLUMN lensModel TEXT");
+            if (!rows.some(row => row.name === 'orientation')) db.run("ALTER TABLE media ADD COLUMN orientation INTEGER");
+            // Coarse capture location, recorded only for events that keep locations.
+            // hasLocation: whether the stored file still embeds GPS data (NULL for uploads that predate stripping)
+            if (!rows.some(row => row.name === 'latitude')) db.run("ALTER TABLE media ADD COLUMN latitude REAL");
+            if (!rows.some(row => row.name === 'longitude')) db.run("ALTER TABLE media ADD COLUMN longitude REAL");
+            if (!rows.some(row => row.name === 'hasLocation')) db.run("ALTER TABLE media ADD COLUMN hasLocation INTEGER");
+            // Private key and format (heic, cr2, ...) of the untouched upload when the display copy is a conversion
+            if (!rows.some(row => row.name === 'sourceUrl')) db.run("ALTER TABLE media ADD COLUMN sourceUrl TEXT");
+            if (!rows.some(row => row.name === 'sourceFormat')) db.run("ALTER TABLE media ADD COLUMN sourceFormat TEXT");
+            // Responsive derivatives as JSON: { format: { width: key } }
+            if (!rows.some(row => row.name === 'variants')) db.run("ALTER TABLE media ADD COLUMN variants TEXT");
+            // Duplicate detection: SHA-256 of the uploaded file, perceptual hash of the
+            // image, and the earlier upload this one looks like until the host reviews it
+            if (!rows.some(row => row.name === 'contentHash')) db.run("ALTER TABLE media ADD COLUMN contentHash TEXT");
+            if (!rows.some(row => row.name === 'phash')) db.run("ALTER TABLE media ADD COLUMN phash TEXT");
+            if (!rows.some(row => row.name === 'duplicateOf')) db.run("ALTER TABLE media ADD COLUMN duplicateOf TEXT");
+            // Labels from AI image tagging as a JSON array, searchable through media_search
+            if (!rows.some(row => row.name === 'aiTags')) db.run("ALTER TABLE media ADD COLUMN aiTags TEXT");
+            // When the photo's faces were indexed for Find Me (see media_faces) - NULL until then
+            if (!rows.some(row => row.name === 'facesIndexedAt')) db.run("ALTER TABLE media ADD COLUMN facesIndexedAt TEXT");
+            // Photo quality for highlights (see highlightService), each 0-1 - NULL until scored
+            if (!rows.some(row => row.name === 'sharpness')) db.run("ALTER TABLE media ADD COLUMN sharpness REAL");
+            if (!rows.some(row => row.name === 'exposure')) db.run("ALTER TABLE media ADD COLUMN exposure REAL");
+            if (!rows.some(row => row.name === 'qualityScore')) db.run("ALTER TABLE media ADD COLUMN qualityScore REAL");
+        });
+
+        db.all("PRAGMA table_info(comments)", (err, rows) => {
+            // Threads: replies point at a top-level comment. authorId is "user:<id>" or
+            // "guest:<X-Guest-Id>" like media_likes, mentions a JSON array of names.
+            if (!rows.some(row => row.name === 'parentId')) db.run("ALTER TABLE comments ADD COLUMN parentId TEXT");
+            if (!rows.some(row => row.name === 'authorId')) db.run("ALTER TABLE comments ADD COLUMN authorId TEXT");
+            if (!rows.some(row => row.name === 'userId')) db.run("ALTER TABLE comments ADD COLUMN userId TEXT");
+            if (!rows.some(row => row.name === 'mentions')) db.run("ALTER TABLE comments ADD COLUMN mentions TEXT");
+            if (!rows.some(row => row.name === 'editedAt')) db.run("ALTER TABLE comments ADD COLUMN editedAt TEXT");
+        });
+
+        db.all("PRAGMA table_info(guestbook)", (err, rows) => {
+            // status is approved, pending (awaiting the host) or hidden. authorId as for comments;
+            // attachmentUrl is the storage key of a photo or voice note (attachmentType image/audio).
+            if (!rows.some(row => row.name === 'status')) db.run("ALTER TABLE guestbook ADD COLUMN status TEXT DEFAULT 'approved'");
+            if (!rows.some(row => row.name === 'authorId')) db.run("ALTER TABLE guestbook ADD COLUMN authorId TEXT");
+            if (!rows.some(row => row.name === 'userId')) db.run("ALTER TABLE guestbook ADD COLUMN userId TEXT");
+            if (!rows.some(row => row.name === 'attachmentUrl')) db.run("ALTER TABLE guestbook ADD COLUMN attachmentUrl TEXT");
+            if (!rows.some(row => row.name === 'attachmentType')) db.run("ALTER TABLE guestbook ADD COLUMN attachmentType TEXT");
+        });
+
+        db.all("PRAGMA table_info(users)", (err, rows) => {
+            if (!rows.some(row => row.name === 'watermarkText')) db.run("ALTER TABLE users ADD COLUMN watermarkText TEXT");
         });
 
         db.run(`CREATE TABLE IF NOT EXISTS media (
             id TEXT PRIMARY KEY, eventId TEXT, type TEXT, url TEXT, previewUrl TEXT,
             isProcessing INTEGER DEFAULT 0, caption TEXT, uploadedAt TEXT, uploaderName TEXT,
             isWatermarked INTEGER, watermarkText TEXT, likes INTEGER DEFAULT 0,
-            privacy TEXT DEFAULT 'public', uploaderId TEXT,
+            privacy TEXT DEFAULT 'public', uploaderId TEXT, originalUrl TEXT,
+            posterUrl TEXT, duration REAL, width INTEGER, height INTEGER, videoCodec TEXT, rotation INTEGER, hlsUrl TEXT,
+            takenAt TEXT, cameraMake TEXT, cameraModel TEXT, lensModel TEXT, orientation INTEGER,
+            latitude REAL, longitude REAL, hasLocation INTEGER, sourceUrl TEXT, sourceFormat TEXT,
+            variants TEXT, contentHash TEXT, phash TEXT, duplicateOf TEXT, aiTags TEXT, facesIndexedAt TEXT,
+            sharpness REAL, exposure REAL, qualityScore REAL,
             FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
         )`);
 
         db.run(`CREATE TABLE IF NOT EXISTS guestbook (
             id TEXT PRIMARY KEY, eventId TEXT, senderName TEXT, message TEXT, createdAt TEXT,
+            status TEXT DEFAULT 'approved', authorId TEXT, userId TEXT, attachmentUrl TEXT, attachmentType TEXT,
             FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
         )`);
 
         db.run(`CREATE TABLE IF NOT EXISTS comments (
              id TEXT PRIMARY KEY, mediaId TEXT, eventId TEXT, senderName TEXT, text TEXT, createdAt TEXT,
+             parentId TEXT, authorId TEXT, userId TEXT, mentions TEXT, editedAt TEXT,
              FOREIGN KEY(mediaId) REFERENCES media(id) ON DELETE CASCADE
          )`);
 
@@ -252,6 +339,139 @@ export const initDb = () => {
               FOREIGN KEY(userId) REFERENCES users(id) ON DELETE CASCADE
           )`);
 
+        // Resumable upload sessions (chunks are appended to a partial file in server/uploads)
+        db.run(`CREATE TABLE IF NOT EXISTS upload_sessions (
+              id TEXT PRIMARY KEY,
+              eventId TEXT,
+              userId TEXT,
+              filename TEXT,
+              mimeType TEXT,
+              size INTEGER,
+              receivedBytes INTEGER DEFAULT 0,
+              metadata TEXT,
+              createdAt TEXT,
+              updatedAt TEXT,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`);
+
+        // Durable upload processing jobs - survive restarts and are retried with backoff
+        db.run(`CREATE TABLE IF NOT EXISTS upload_jobs (
+              id TEXT PRIMARY KEY,
+              eventId TEXT,
+              userId TEXT,
+              filePath TEXT,
+              originalName TEXT,
+              mimeType TEXT,
+              fileSize INTEGER,
+              metadata TEXT,
+              status TEXT DEFAULT 'pending',
+              progress INTEGER DEFAULT 0,
+              attempts INTEGER DEFAULT 0,
+              maxAttempts INTEGER DEFAULT 3,
+              lastError TEXT,
+              nextRunAt TEXT,
+              createdAt TEXT,
+              updatedAt TEXT,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`);
+
+        // One like per person and media item - likerId is "user:<id>" or "guest:<X-Guest-Id>"
+        db.run(`CREATE TABLE IF NOT EXISTS media_likes (
+              mediaId TEXT,
+              likerId TEXT,
+              userId TEXT,
+              name TEXT,
+              createdAt TEXT,
+              PRIMARY KEY (mediaId, likerId),
+              FOREIGN KEY(mediaId) REFERENCES media(id) ON DELETE CASCADE
+          )`);
+
+        // One emoji reaction per person and media item, identified like media_likes
+        db.run(`CREATE TABLE IF NOT EXISTS media_reactions (
+              mediaId TEXT,
+              reactorId TEXT,
+              userId TEXT,
+              emoji TEXT,
+              createdAt TEXT,
+              PRIMARY KEY (mediaId, reactorId),
+              FOREIGN KEY(mediaId) REFERENCES media(id) ON DELETE CASCADE
+          )`);
+
+        // Find Me face index: a 128-float descriptor (raw Float32Array bytes) per face
+        // found in a photo, box as JSON fractions of the image { x, y, width, height }
+        db.run(`CREATE TABLE IF NOT EXISTS media_faces (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              mediaId TEXT NOT NULL,
+              eventId TEXT NOT NULL,
+              descriptor BLOB NOT NULL,
+              box TEXT,
+              score REAL,
+              clusterId TEXT,
+              eyesClosed INTEGER,
+              FOREIGN KEY(mediaId) REFERENCES media(id) ON DELETE CASCADE,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`, () => {
+            // Checked once the table exists - this part of initDb isn't serialized
+            db.all("PRAGMA table_info(media_faces)", (err, rows) => {
+                // The person (face_clusters) the face was grouped into, NULL when it's in no group
+                if (!rows.some(row => row.name === 'clusterId')) db.run("ALTER TABLE media_faces ADD COLUMN clusterId TEXT");
+                // Whether the face's eyes look shut, for highlight scoring - NULL for faces indexed before
+                if (!rows.some(row => row.name === 'eyesClosed')) db.run("ALTER TABLE media_faces ADD COLUMN eyesClosed INTEGER");
+            });
+        });
+
+        // People albums for hosts: groups of similar faces, named by the host
+        db.run(`CREATE TABLE IF NOT EXISTS face_clusters (
+              id TEXT PRIMARY KEY,
+              eventId TEXT NOT NULL,
+              name TEXT,
+              createdAt TEXT,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`);
+
+        // Highlight reel renders requested by hosts. mediaIds is the host's pick as a
+        // JSON array, NULL for the event's highlights; the finished video is mediaId.
+        db.run(`CREATE TABLE IF NOT EXISTS highlight_videos (
+              id TEXT PRIMARY KEY,
+              eventId TEXT NOT NULL,
+              userId TEXT,
+              mediaIds TEXT,
+              audioKey TEXT,
+              status TEXT DEFAULT 'pending',
+              progress INTEGER DEFAULT 0,
+              mediaId TEXT,
+              lastError TEXT,
+              createdAt TEXT,
+              updatedAt TEXT,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`);
+
+        // Selfie descriptors of guests who don't want to be found - authorId is
+        // "user:<id>" or "guest:<X-Guest-Id>" like media_likes
+        db.run(`CREATE TABLE IF NOT EXISTS face_opt_outs (
+              id TEXT PRIMARY KEY,
+              eventId TEXT NOT NULL,
+              authorId TEXT NOT NULL,
+              descriptor BLOB NOT NULL,
+              createdAt TEXT,
+              FOREIGN KEY(eventId) REFERENCES events(id) ON DELETE CASCADE
+          )`);
+
+        // Full-text media search. searchService normalizes the text it indexes, so
+        // rows are written from JavaScript - only deletes are handled by a trigger.
+        db.run(`CREATE VIRTUAL TABLE IF NOT EXISTS media_search USING fts5(
+              mediaId UNINDEXED,
+              eventId UNINDEXED,
+              caption,
+              uploaderName,
+              comments,
+              tags,
+              tokenize = 'unicode61 remove_diacritics 2'
+          )`);
+        db.run(`CREATE TRIGGER IF NOT EXISTS media_search_delete AFTER DELETE ON media BEGIN
+              DELETE FROM media_search WHERE mediaId = old.id;
+          END`);
+
         // Create performance indexes after table creation
         setTimeout(() => {
             createPerformanceIndexes();
@@ -67,7 +67,44 @@ export const createPerformanceIndexes = () => {
         else console.log('✓ Created idx_comments_media_id');
     });
 
-    // Indexes for support messages
+    // Likes a viewer gave, for marking them in the gallery
+    db.run(`CREATE INDEX IF NOT EXISTS idx_media_likes_liker ON media_likes(likerId)`, (err) => {
+        if (err) console.error('Error creating idx_media_likes_liker:', err);
+        else console.log('✓ Created idx_media_likes_liker');
+    });
+
+    // Find Me compares a selfie against every face in the event
+    db.run(`CREATE INDEX IF NOT EXISTS idx_media_faces_event_id ON media_faces(eventId)`, (err) => {
+        if (err) console.error('Error creating idx_media_faces_event_id:', err);
+        else console.log('✓ Created idx_media_faces_event_id');
+    });
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_media_faces_media_id ON media_faces(mediaId)`, (err) => {
+        if (err) console.error('Error creating idx_media_faces_media_id:', err);
+        else console.log('✓ Created idx_media_faces_media_id');
+    });
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_media_faces_cluster_id ON media_faces(clusterId)`, (err) => {
+        if (err) console.error('Error creating idx_media_faces_cluster_id:', err);
+        else console.log('✓ Created idx_media_faces_cluster_id');
+    });
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_face_clusters_event_id ON face_clusters(eventId)`, (err) => {
+        if (err) console.error('Error creating idx_face_clusters_event_id:', err);
+        else console.log('✓ Created idx_face_clusters_event_id');
+    });
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_face_opt_outs_event_id ON face_opt_outs(eventId, authorId)`, (err) => {
+        if (err) console.error('Error creating idx_face_opt_outs_event_id:', err);
+        else console.log('✓ Created idx_face_opt_outs_event_id');
+    });
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_highlight_videos_event_id ON highlight_videos(eventId, createdAt DESC)`, (err) => {
+        if (err) console.error('Error creating idx_highlight_videos_event_id:', err);
+        else console.log('✓ Created idx_highlight_videos_event_id');
+    });
+
+        // Indexes for support messages
     db.run(`CREATE INDEX IF NOT EXISTS idx_support_user_id ON support_messages(userId)`, (err) => {
         if (err) console.error('Error creating idx_support_user_id:', err);
         else console.log('✓ Created idx_support_user_id');
@@ -78,6 +115,12 @@ export const createPerformanceIndexes = () => {
         else console.log('✓ Created idx_support_created_at');
     });
 
+    // Indexes for upload jobs
+    db.run(`CREATE INDEX IF NOT EXISTS idx_upload_jobs_status ON upload_jobs(status, nextRunAt)`, (err) => {
+        if (err) console.error('Error creating idx_upload_jobs_status:', err);
+        else console.log('✓ Created idx_upload_jobs_status');
+    });
+
     console.log('Performance indexes creation completed!');
 };
 
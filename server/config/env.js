@@ -8,6 +8,13 @@ export const config = {
     ADMIN_PASSWORD: process.env.ADMIN_PASSWORD || 'admin123',
     JWT_SECRET: process.env.JWT_SECRET || 'dev_jwt_secret_change_in_production',
     JWT_EXPIRY: '7d',
+    // Signs expiring media URLs - falls back to the JWT secret when not set separately
+    MEDIA_URL_SECRET: process.env.MEDIA_URL_SECRET || process.env.JWT_SECRET || 'dev_jwt_secret_change_in_production',
+    // Responsive derivatives rendered for every photo: widths in px, and formats in order of preference
+    IMAGE_VARIANTS: {
+        WIDTHS: (process.env.IMAGE_VARIANT_WIDTHS || '400,1080,2048').split(',').map(Number).filter(width => width > 0),
+        FORMATS: (process.env.IMAGE_VARIANT_FORMATS || 'avif,webp,jpeg').split(',').map(format => format.trim().toLowerCase())
+    },
     SMTP: {
         HOST: process.env.SMTP_HOST || 'smtp.gmail.com',
         PORT: parseInt(process.env.SMTP_PORT || '587'),
@@ -26,6 +33,8 @@ export const config = {
     },
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    // face-api models for Find Me - the ones bundled with the package unless set
+    FACE_MODELS_DIR: process.env.FACE_MODELS_DIR || 'node_modules/@vladmandic/face-api/model',
     SENTRY_DSN: process.env.SENTRY_DSN,
     REDIS: {
         HOST: process.env.REDIS_HOST || 'localhost',
@@ -0,0 +1,57 @@
+// Server-side copy of TIER_CONFIG from types.ts
+// Keep both in sync - the client uses it for UX, the server enforces it
+
+export const TIER_CONFIG = {
+    FREE: {
+        storageLimitMb: 100,
+        maxDurationHours: 7,
+        allowVideo: false,
+        allow4k: false,
+        allowBranding: false,
+        allowWatermark: false,
+        allowOriginalDownloads: false
+    },
+    BASIC: {
+        storageLimitMb: 10240, // 10GB
+        maxDurationDays: 30,
+        allowVideo: false,
+        allow4k: false,
+        allowBranding: false,
+        allowWatermark: false,
+        allowOriginalDownloads: false
+    },
+    PRO: {
+        storageLimitMb: 30720, // 30GB
+        maxDurationDays: 30,
+        allowVideo: true,
+        allow4k: true, // 4K Support
+        allowBranding: true,
+        allowWatermark: true,
+        allowOriginalDownloads: false
+    },
+    STUDIO: {
+        storageLimitMb: 102400, // 100GB+
+        maxDurationDays: null, // Unlimited
+        allowVideo: true,
+        allow4k: true,
+        allowBranding: true,
+        allowWatermark: true,
+        allowOriginalDownloads: true
+    }
+};
+
+const ADMIN_TIER_CONFIG = {
+    storageLimitMb: Infinity,
+    maxDurationDays: null,
+    allowVideo: true,
+    allow4k: true,
+    allowBranding: true,
+    allowWatermark: true,
+    allowOriginalDownloads: true
+};
+
+// Mirrors getTierConfigForUser() - admins get everything
+export const getTierConfig = (tier, role = null) => {
+    if (role === 'ADMIN') return ADMIN_TIER_CONFIG;
+    return TIER_CONFIG[tier] || TIER_CONFIG.FREE;
+};
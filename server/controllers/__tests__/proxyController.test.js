@@ -0,0 +1,172 @@
+import { Readable, Writable } from 'stream';
+import sharp from 'sharp';
+import { proxyMedia, proxyMediaSigned } from '../proxyController.js';
+import { signMediaKey } from '../../services/mediaAccessService.js';
+import { readImageExif } from '../../services/exifService.js';
+import { getS3Object } from '../../services/storage.js';
+import { db } from '../../config/db.js';
+
+jest.mock('../../services/storage.js', () => ({
+    getS3Object: jest.fn()
+}));
+
+jest.mock('../../config/db.js', () => ({
+    db: { get: jest.fn() }
+}));
+
+// Minimal writable response that records what the handler sent
+const createResponse = () => {
+    const chunks = [];
+    const res = new Writable({
+        write(chunk, encoding, callback) {
+            chunks.push(chunk);
+            callback();
+        }
+    });
+    res.statusCode = 200;
+    res.headers = {};
+    res.setHeader = (name, value) => { res.headers[name.toLowerCase()] = value; };
+    res.status = (code) => { res.statusCode = code; return res; };
+    res.send = (body) => { res.end(body); return res; };
+    res.rawBody = () => Buffer.concat(chunks);
+    res.body = () => res.rawBody().toString();
+    return res;
+};
+
+const request = (key, headers = {}) => ({ method: 'GET', query: { key }, headers });
+
+describe('Media Proxy', () => {
+    beforeEach(() => {
+        db.get.mockImplementation((sql, params, callback) => callback(null, { privacy: 'public', pin: null }));
+    });
+
+    test('should forward range and conditional headers and answer 206', async () => {
+        getS3Object.mockResolvedValue({
+            Body: Readable.from([Buffer.from('0123')]),
+            ContentType: 'video/mp4',
+            ContentLength: 4,
+            ContentRange: 'bytes 0-3/100',
+            ETag: '"abc"',
+            LastModified: new Date('2026-01-02T03:04:05Z')
+        });
+        const res = createResponse();
+
+        await proxyMedia(request('events/e1/media-1.mp4', { range: 'bytes=0-3', 'if-none-match': '"old"' }), res);
+
+        expect(getS3Object).toHaveBeenCalledWith('events/e1/media-1.mp4', { range: 'bytes=0-3', ifNoneMatch: '"old"', ifModifiedSince: undefined });
+        expect(res.statusCode).toBe(206);
+        expect(res.headers).toMatchObject({
+            'content-range': 'bytes 0-3/100',
+            'content-length': 4,
+            'accept-ranges': 'bytes',
+            etag: '"abc"',
+            'last-modified': 'Fri, 02 Jan 2026 03:04:05 GMT',
+            'cache-control': 'public, max-age=31536000, immutable'
+        });
+        expect(res.body()).toBe('0123');
+    });
+
+    test('should answer 304 when the object is unchanged', async () => {
+        getS3Object.mockRejectedValue(Object.assign(new Error('NotModified'), { $metadata: { httpStatusCode: 304 } }));
+        const res = createResponse();
+
+        await proxyMedia(request('events/e1/thumb_media-1.jpg', { 'if-none-match': '"abc"' }), res);
+
+        expect(res.statusCode).toBe(304);
+        expect(res.headers).toMatchObject({ etag: '"abc"', 'cache-control': 'public, max-age=31536000, immutable' });
+    });
+
+    test('should reject unsigned requests for media in PIN-protected events', async () => {
+        db.get.mockImplementation((sql, params, callback) => callback(null, { privacy: 'public', pin: '1234' }));
+        const res = createResponse();
+
+        await proxyMedia(request('events/e1/thumb_media-1.jpg'), res);
+
+        expect(res.statusCode).toBe(403);
+        expect(getS3Object).not.toHaveBeenCalled();
+    });
+
+    test('should not serve unknown keys under events/ without a signature', async () => {
+        db.get.mockImplementation((sql, params, callback) => callback(null, undefined));
+        const unmatched = createResponse();
+        const unparsed = createResponse();
+
+        await proxyMedia(request('events/e1/highlights_media-1.mp4'), unmatched);
+        await proxyMedia(request('events/e1/hls/'), unparsed);
+
+        expect(unmatched.statusCode).toBe(403);
+        expect(unparsed.statusCode).toBe(403);
+        expect(getS3Object).not.toHaveBeenCalled();
+    });
+
+    test('should answer 500 when the access lookup fails', async () => {
+        db.get.mockImplementation((sql, params, callback) => callback(new Error('SQLITE_BUSY')));
+        const res = createResponse();
+
+        await proxyMedia(request('events/e1/media-1.jpg'), res);
+
+        expect(res.statusCode).toBe(500);
+        expect(getS3Object).not.toHaveBeenCalled();
+    });
+
+    test('should serve signed HLS segments of private media without letting browsers share them', async () => {
+        db.get.mockImplementation((sql, params, callback) => callback(null, { privacy: 'private', pin: null }));
+        getS3Object.mockResolvedValue({ Body: Readable.from([Buffer.from('x')]), ContentLength: 1 });
+        const res = createResponse();
+        // The signature issued for the master playlist also covers its segments
+        const { expires, signature } = signMediaKey('events/e1/hls/media-1/master.m3u8');
+
+        await proxyMediaSigned({
+            method: 'GET',
+            params: { expires: String(expires), signature, key: ['events', 'e1', 'hls', 'media-1', '720p', 'seg_000.ts'] },
+            headers: {}
+        }, res);
+
+        expect(db.get.mock.calls[0][1]).toEqual(['media-1', 'e1']);
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['cache-control']).toBe('private, no-cache');
+    });
+
+    test('should reject tampered or expired signatures', async () => {
+        db.get.mockImplementation((sql, params, callback) => callback(null, { privacy: 'private', pin: null }));
+        const { expires, signature } = signMediaKey('events/e1/media-1.jpg', Date.now() - 7 * 24 * 60 * 60 * 1000);
+        const other = signMediaKey('events/e1/media-2.jpg');
+
+        const expired = createResponse();
+        await proxyMedia({ method: 'GET', query: { key: 'events/e1/media-1.jpg', exp: expires, sig: signature }, headers: {} }, expired);
+        const forged = createResponse();
+        await proxyMedia({ method: 'GET', query: { key: 'events/e1/media-1.jpg', exp: other.expires, sig: other.signature }, headers: {} }, forged);
+
+        expect(expired.statusCode).toBe(403);
+        expect(forged.statusCode).toBe(403);
+    });
+
+    test('should strip GPS data from photos of events that do not keep locations', async () => {
+        const key = 'events/e1/media-1.jpg';
+        const photo = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000' } })
+            .jpeg()
+            .withExif({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '41/1 59/1 30/1', GPSLongitudeRef: 'E', GPSLongitude: '21/1 25/1 54/1' } })
+            .toBuffer();
+        // Uploaded before stripping existed, so the stored file may embed a location
+        db.get.mockImplementation((sql, params, callback) => callback(null, { privacy: 'public', pin: null, type: 'image', url: key, hasLocation: null, keepLocation: 0 }));
+        getS3Object.mockResolvedValue({ Body: Readable.from([photo]), ContentType: 'image/jpeg', ContentLength: photo.length });
+        const res = createResponse();
+
+        await proxyMedia(request(key, { range: 'bytes=0-99' }), res);
+
+        // Sent whole, since stripping needs the file's header
+        expect(getS3Object.mock.calls[0][1].range).toBeUndefined();
+        const served = res.rawBody();
+        expect(served.length).toBe(photo.length);
+        expect((await readImageExif(served)).location).toBeNull();
+    });
+
+    test('should never serve clean originals', async () => {
+        const res = createResponse();
+
+        await proxyMedia(request('events/e1/originals/media-1.jpg'), res);
+
+        expect(res.statusCode).toBe(404);
+        expect(getS3Object).not.toHaveBeenCalled();
+    });
+});
@@ -1,4 +1,5 @@
 import { getAdminStatus } from '../services/socket.js';
+import { listUploadJobs, getUploadJob, retryUploadJob, cancelUploadJob, isUploadJobRunning } from '../services/uploadService.js';
 
 export const getAdminStatusEndpoint = (req, res) => {
     const adminStatus = getAdminStatus();
@@ -8,3 +9,56 @@ export const getAdminStatusEndpoint = (req, res) => {
     }));
     res.json({ admins });
 };
+
+// --- Upload jobs ---
+
+const UPLOAD_JOB_STATUSES = ['all', 'pending', 'processing', 'completed', 'failed', 'cancelled', 'stuck'];
+
+export const getUploadJobs = async (req, res) => {
+    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+    const { status } = req.query;
+    if (status && !UPLOAD_JOB_STATUSES.includes(status)) {
+        return res.status(400).json({ error: "Invalid status filter" });
+    }
+    try {
+        const jobs = await listUploadJobs({ status });
+        res.json({ jobs });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const retryUploadJobEndpoint = async (req, res) => {
+    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+    try {
+        const job = await getUploadJob(req.params.id);
+        if (!job) return res.status(404).json({ error: "Upload job not found" });
+        if (job.status !== 'failed' && job.status !== 'cancelled') {
+            return res.status(409).json({ error: "Only failed or cancelled jobs can be retried" });
+        }
+
+        const updated = await retryUploadJob(job);
+        if (!updated) return res.status(410).json({ error: "The uploaded file is no longer available" });
+        res.json({ job: updated });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const cancelUploadJobEndpoint = async (req, res) => {
+    if (req.user.role !== 'ADMIN') return res.sendStatus(403);
+    try {
+        const job = await getUploadJob(req.params.id);
+        if (!job) return res.status(404).json({ error: "Upload job not found" });
+        if (job.status === 'completed' || job.status === 'cancelled') {
+            return res.status(409).json({ error: `Job is already ${job.status}` });
+        }
+        if (isUploadJobRunning(job.id)) {
+            return res.status(409).json({ error: "Job is currently being processed" });
+        }
+
+        res.json({ job: await cancelUploadJob(job) });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
@@ -2,6 +2,7 @@
 import { authService } from '../services/authService.js';
 import { logger } from '../services/loggerService.js';
 import { monitoring } from '../services/monitoringService.js';
+import { createDownloadToken } from '../middleware/auth.js';
 
 export const login = async (req, res) => {
     const startTime = Date.now();
@@ -197,6 +198,16 @@ export const validateSession = async (req, res) => {
     }
 };
 
+// POST /api/auth/download-token { path } - a short-lived token for one plain download
+// link (ZIP exports, originals, keepsake PDFs), so the login token stays out of URLs
+export const issueDownloadToken = (req, res) => {
+    const { path } = req.body || {};
+    if (typeof path !== 'string' || !path.startsWith('/api/')) {
+        return res.status(400).json({ error: 'Download path required' });
+    }
+    res.json({ token: createDownloadToken(req.user, path) });
+};
+
 // Middleware exports
 export const authenticateToken = authService.authenticateToken.bind(authService);
 export const requireRole = authService.requireRole.bind(authService);
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { db } from '../config/db.js';
+import { checkRateLimit, RateLimitStore } from '../middleware/rateLimiter.js';
+import { canAccessMedia } from '../services/mediaAccessService.js';
+import { getLiker } from '../services/likeService.js';
+import { filterProfanity } from '../services/moderationService.js';
+import { MAX_COMMENT_LENGTH, findMentions, formatComment, getMediaComments, getMentionableNames } from '../services/commentService.js';
+import { indexMedia } from '../services/searchService.js';
+import { cacheService } from '../services/cacheService.js';
+import { emitForMedia } from '../services/socket.js';
+
+// Comments per author per minute
+const COMMENT_RATE_LIMIT = 10;
+
+const getRow = (sql, params) => new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+    });
+});
+
+const runStatement = (sql, params) => new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+    });
+});
+
+// The media item with its event's host and PIN, or null when missing or not visible to the requester
+const getViewableMedia = async (mediaId, req) => {
+    const row = await getRow(`SELECT media.id, media.eventId, media.privacy, media.uploaderId, events.hostId, events.pin as eventPin
+        FROM media JOIN events ON media.eventId = events.id WHERE media.id = ?`, [mediaId]);
+    if (!row) return null;
+    const event = { id: row.eventId, hostId: row.hostId, pin: row.eventPin };
+    return canAccessMedia(row, event, req.user, req.headers['x-event-access']) ? row : null;
+};
+
+// Comments count toward search and cached event media
+const afterCommentChange = async (media) => {
+    await cacheService.invalidateEventMedia(media.eventId);
+    await indexMedia(media.id).catch(error => console.warn(`⚠️ Failed to reindex ${media.id}:`, error.message));
+};
+
+// Checks and cleans comment text - { text, mentions } or { error }
+const prepareText = async (rawText, mediaId, senderName) => {
+    const trimmed = typeof rawText === 'string' ? rawText.trim() : '';
+    if (!trimmed) return { error: "Comment text is required" };
+    if (trimmed.length > MAX_COMMENT_LENGTH) return { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` };
+
+    const { text } = filterProfanity(trimmed);
+    const names = (await getMentionableNames(mediaId)).filter(name => name !== senderName);
+    return { text, mentions: findMentions(text, names) };
+};
+
+// GET /api/comments?mediaId= - the media item's comments, oldest first
+export const getComments = async (req, res) => {
+    try {
+        const media = await getViewableMedia(req.query.mediaId, req);
+        if (!media) return res.status(404).json({ error: "Media not found" });
+        res.json(await getMediaComments(media.id, getLiker(req)?.likerId));
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/comments - { mediaId, text, parentId?, senderName? }
+// Guests comment under senderName and their X-Guest-Id, signed-in users under their account name
+export const createComment = async (req, res) => {
+    const author = getLiker(req);
+    if (!author) return res.status(400).json({ error: "Sign in or send a guest id to comment" });
+    if (!checkRateLimit(RateLimitStore.comment, author.likerId, COMMENT_RATE_LIMIT, 60 * 1000)) {
+        return res.status(429).json({ error: "You're commenting too fast. Please wait a moment." });
+    }
+
+    try {
+        const media = await getViewableMedia(req.body.mediaId, req);
+        if (!media) return res.status(404).json({ error: "Media not found" });
+
+        // Replies always hang off the top-level comment of the thread
+        let parentId = null;
+        if (req.body.parentId) {
+            const parent = await getRow("SELECT id, parentId FROM comments WHERE id = ? AND mediaId = ?", [req.body.parentId, media.id]);
+            if (!parent) return res.status(404).json({ error: "Comment to reply to not found" });
+            parentId = parent.parentId || parent.id;
+        }
+
+        let senderName;
+        if (req.user) {
+            senderName = (await getRow("SELECT name FROM users WHERE id = ?", [req.user.id]))?.name;
+        } else if (typeof req.body.senderName === 'string') {
+            senderName = filterProfanity(req.body.senderName.trim().slice(0, 60)).text;
+        }
+        senderName = senderName || 'Guest';
+
+        const prepared = await prepareText(req.body.text, media.id, senderName);
+        if (prepared.error) return res.status(400).json({ error: prepared.error });
+
+        const row = {
+            id: crypto.randomUUID(),
+            mediaId: media.id,
+            eventId: media.eventId,
+            parentId,
+            senderName,
+            text: prepared.text,
+            createdAt: new Date().toISOString(),
+            authorId: author.likerId,
+            userId: author.userId,
+            mentions: JSON.stringify(prepared.mentions)
+        };
+        await runStatement(`INSERT INTO comments (id, mediaId, eventId, parentId, senderName, text, createdAt, authorId, userId, mentions)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [row.id, row.mediaId, row.eventId, row.parentId, row.senderName, row.text, row.createdAt, row.authorId, row.userId, row.mentions]);
+
+        await afterCommentChange(media);
+        emitForMedia(media, 'new_comment', formatComment(row));
+        res.status(201).json(formatComment(row, author.likerId));
+    } catch (error) {
+        console.error('Error adding comment:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// PATCH /api/comments/:id - { text }, by the comment's author only
+export const updateComment = async (req, res) => {
+    const author = getLiker(req);
+    try {
+        const comment = await getRow("SELECT * FROM comments WHERE id = ?", [req.params.id]);
+        if (!comment) return res.status(404).json({ error: "Comment not found" });
+        if (!author || !comment.authorId || comment.authorId !== author.likerId) return res.status(403).json({ error: "Only the author can edit a comment" });
+        const media = await getViewableMedia(comment.mediaId, req);
+        if (!media) return res.status(404).json({ error: "Media not found" });
+
+        const prepared = await prepareText(req.body.text, media.id, comment.senderName);
+        if (prepared.error) return res.status(400).json({ error: prepared.error });
+
+        const updated = { ...comment, text: prepared.text, mentions: JSON.stringify(prepared.mentions), editedAt: new Date().toISOString() };
+        await runStatement("UPDATE comments SET text = ?, mentions = ?, editedAt = ? WHERE id = ?",
+            [updated.text, updated.mentions, updated.editedAt, comment.id]);
+
+        await afterCommentChange(media);
+        emitForMedia(media, 'comment_updated', formatComment(updated));
+        res.json(formatComment(updated, author.likerId));
+    } catch (error) {
+        console.error('Error editing comment:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// DELETE /api/comments/:id - by its author, the event host or an admin.
+// Removing a top-level comment removes its replies too.
+export const deleteComment = async (req, res) => {
+    const author = getLiker(req);
+    try {
+        const comment = await getRow(`SELECT comments.id, comments.mediaId, comments.authorId, media.eventId, media.privacy, media.uploaderId, events.hostId
+            FROM comments JOIN media ON media.id = comments.mediaId JOIN events ON events.id = media.eventId
+            WHERE comments.id = ?`, [req.params.id]);
+        if (!comment) return res.status(404).json({ error: "Comment not found" });
+
+        const isAuthor = !!author && !!comment.authorId && comment.authorId === author.likerId;
+        const isModerator = !!req.user && (req.user.role === 'ADMIN' || req.user.id === comment.hostId);
+        if (!isAuthor && !isModerator) return res.status(403).json({ error: "Not allowed to delete this comment" });
+
+        const replies = await new Promise((resolve, reject) => {
+            db.all("SELECT id FROM comments WHERE parentId = ?", [comment.id], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+        });
+        const ids = [comment.id, ...replies.map(reply => reply.id)];
+        await runStatement(`DELETE FROM comments WHERE id IN (${ids.map(() => '?').join(',')})`, ids);
+
+        await afterCommentChange({ id: comment.mediaId, eventId: comment.eventId });
+        emitForMedia(comment, 'comment_deleted', { mediaId: comment.mediaId, ids });
+        if (!isAuthor) console.log(`🛡️ Comment ${comment.id} removed by moderator ${req.user.id}`);
+        res.json({ success: true, ids });
+    } catch (error) {
+        console.error('Error deleting comment:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
@@ -1,18 +1,65 @@
+import crypto from 'crypto';
 import { db } from '../config/db.js';
 import { config } from '../config/env.js';
 import { cacheService } from '../services/cacheService.js';
+import { rerenderEventWatermarks } from '../services/uploadService.js';
+import { streamMediaArchive } from '../services/exportService.js';
+import { FREE_TIER_WATERMARK, loadLogo } from '../services/watermarkService.js';
+import { getTierConfig } from '../config/tiers.js';
+import { searchMediaIndex } from '../services/searchService.js';
+import { getLiker, getLikedMediaIds } from '../services/likeService.js';
+import { getEventReactions } from '../services/reactionService.js';
+import { getEventComments } from '../services/commentService.js';
+import { getEventGuestbook } from '../services/guestbookService.js';
+import { renderGuestbookPdf } from '../services/keepsakeService.js';
+import { getS3ObjectBuffer, uploadBufferToS3 } from '../services/storage.js';
+import { detectSelfie, findMatchingMedia, hasOptedOut, optOut, cancelOptOut } from '../services/faceService.js';
+import { getEventHighlights, DEFAULT_HIGHLIGHTS, MAX_HIGHLIGHTS } from '../services/highlightService.js';
+import { renderCollage, COLLAGE_TEMPLATES } from '../services/collageService.js';
+import { queueHighlightVideo, listHighlightVideos, hasActiveHighlightVideo, MAX_REEL_ITEMS, AUDIO_TRACK_EXTENSIONS } from '../services/highlightVideoService.js';
+import { clusterEventFaces, getEventPeople, getPersonMediaIds, renamePerson, mergePeople as mergeEventPeople } from '../services/faceClusterService.js';
+import { checkRateLimit, RateLimitStore } from '../middleware/rateLimiter.js';
+import { listEventMedia, countEventMedia, decodeCursor, MEDIA_SORTS, DEFAULT_PAGE_SIZE } from '../services/mediaListService.js';
+import { canViewEvent, canViewMedia, createEventAccessToken, getMediaUrls, getPublicUrl, getSignedUrl, requiresSignedUrl } from '../services/mediaAccessService.js';
 
-function getPublicUrl(key) { return `/api/proxy-media?key=${encodeURIComponent(key)}`; }
+async function attachPublicUrls(mediaList, event, user) {
+    // originalUrl (the private un-watermarked copy) and sourceUrl (the untouched
+    // HEIC/RAW upload) never leave the server, nor do the duplicate detection hashes
+    return mediaList
+        .filter(m => canViewMedia(m, event, user))
+        .map(({ originalUrl, sourceUrl, contentHash, phash, ...m }) => ({
+            ...m,
+            ...getMediaUrls(m, requiresSignedUrl(m, event)),
+            s3Key: m.url
+        }));
+}
 
-async function attachPublicUrls(mediaList) {
+// Adds reaction counts and comments, and flags what the requester (signed-in
+// user or X-Guest-Id guest) has liked, reacted with and written
+async function attachEngagement(mediaList, eventId, req) {
+    const viewerId = getLiker(req)?.likerId;
+    const [liked, reactions, comments] = await Promise.all([
+        getLikedMediaIds(eventId, viewerId).catch(() => new Set()),
+        getEventReactions(eventId, viewerId).catch(() => new Map()),
+        getEventComments(eventId, viewerId).catch(() => new Map())
+    ]);
     return mediaList.map(m => ({
         ...m,
-        url: getPublicUrl(m.url),
-        previewUrl: m.previewUrl ? getPublicUrl(m.previewUrl) : null,
-        s3Key: m.url
+        likedByMe: liked.has(m.id),
+        reactions: reactions.get(m.id)?.reactions || {},
+        myReaction: reactions.get(m.id)?.myReaction || null,
+        comments: comments.get(m.id) || []
     }));
 }
 
+// Hosts and admins see every guest's private uploads, everyone else only their own
+const canSeePrivateMedia = (event, user) => !!user && (user.role === 'ADMIN' || user.id === event.hostId);
+
+function getCoverUrl(event) {
+    if (!event.coverImage || event.coverImage.startsWith('http')) return event.coverImage;
+    return event.pin ? getSignedUrl(event.coverImage) : getPublicUrl(event.coverImage);
+}
+
 export const getEvents = async (req, res) => {
     try {
         const cacheKey = req.user.role === 'ADMIN' ? 'admin_events' : `user_events_${req.user.id}`;
@@ -56,10 +103,8 @@ export const getEvents = async (req, res) => {
                 await cacheService.setEventMedia(evt.id, media, 600);
             }
 
-            const signedMedia = await attachPublicUrls(media);
-            let signedCover = evt.coverImage;
-            if (evt.coverImage && !evt.coverImage.startsWith('http')) signedCover = getPublicUrl(evt.coverImage);
-            return { ...evt, media: signedMedia, coverImage: signedCover, hasPin: !!evt.pin };
+            const signedMedia = await attachPublicUrls(media, evt, req.user);
+            return { ...evt, media: signedMedia, coverImage: getCoverUrl(evt), hasPin: !!evt.pin, keepLocation: !!evt.keepLocation, guestbookApproval: !!evt.guestbookApproval };
         });
 
         const detailed = await Promise.all(detailedPromises);
@@ -78,19 +123,503 @@ export const getEventById = async (req, res) => {
             return res.status(410).json({ error: "Event expired" });
         }
 
+        // PIN-protected events only reveal their contents to the host, admins and
+        // guests holding an access token from validatePin
+        if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+            return res.json({ ...evt, media: [], guestbook: [], coverImage: null, hasPin: true, isLocked: true, keepLocation: !!evt.keepLocation, guestbookApproval: !!evt.guestbookApproval, pin: undefined });
+        }
+
+        // ?mediaLimit= returns only the newest page of media, with the total and the
+        // cursor for GET /api/events/:id/media - large events don't fit one response
+        const mediaLimit = parseInt(req.query.mediaLimit);
+        const visibility = { viewerId: req.user?.id, includePrivate: canSeePrivateMedia(evt, req.user) };
+
         // Parallel execution of independent queries using indexes
-        const [mediaResult, guestbookResult] = await Promise.all([
+        const [mediaResult, guestbookResult, mediaCount] = await Promise.all([
             // Use composite index idx_media_event_uploaded
-            new Promise(resolve => db.all("SELECT * FROM media WHERE eventId = ? ORDER BY uploadedAt DESC", [evt.id], (err, rows) => resolve(rows || []))),
+            mediaLimit > 0
+                ? listEventMedia(evt.id, { ...visibility, limit: mediaLimit }).catch(() => ({ rows: [], nextCursor: null }))
+                : new Promise(resolve => db.all("SELECT * FROM media WHERE eventId = ? ORDER BY uploadedAt DESC", [evt.id], (err, rows) => resolve({ rows: rows || [], nextCursor: null }))),
             // Use composite index idx_guestbook_event_id and idx_guestbook_created_at
-            new Promise(resolve => db.all("SELECT * FROM guestbook WHERE eventId = ? ORDER BY createdAt DESC", [evt.id], (err, rows) => resolve(rows || [])))
+            getEventGuestbook(evt, { viewerId: getLiker(req)?.likerId, canModerate: canSeePrivateMedia(evt, req.user) }).catch(() => []),
+            mediaLimit > 0 ? countEventMedia(evt.id, visibility).catch(() => undefined) : undefined
         ]);
 
-        const signedMedia = await attachPublicUrls(mediaResult);
-        let signedCover = evt.coverImage;
-        if (evt.coverImage && !evt.coverImage.startsWith('http')) signedCover = getPublicUrl(evt.coverImage);
+        const signedMedia = await attachEngagement(await attachPublicUrls(mediaResult.rows, evt, req.user), evt.id, req);
+
+        res.json({
+            ...evt, media: signedMedia, mediaCount: mediaCount ?? signedMedia.length, mediaCursor: mediaResult.nextCursor,
+            guestbook: guestbookResult, coverImage: getCoverUrl(evt), hasPin: !!evt.pin, isLocked: false, keepLocation: !!evt.keepLocation,
+            guestbookApproval: !!evt.guestbookApproval, pin: undefined
+        });
+    });
+};
+
+// GET /api/events/:id/media?cursor=&limit=&sort=uploaded|taken&type=&uploaderId=&privacy=
+// One page of an event's media; pass nextCursor back to get the following page
+export const getEventMedia = (req, res) => {
+    const { sort = 'uploaded', type, uploaderId, privacy, cursor } = req.query;
+    if (!MEDIA_SORTS.includes(sort)) return res.status(400).json({ error: "Invalid sort" });
+    if (type && !['image', 'video'].includes(type)) return res.status(400).json({ error: "Invalid type" });
+    if (privacy && !['public', 'private'].includes(privacy)) return res.status(400).json({ error: "Invalid privacy" });
+    if (cursor && !decodeCursor(cursor)) return res.status(400).json({ error: "Invalid cursor" });
+    const limit = parseInt(req.query.limit) || DEFAULT_PAGE_SIZE;
+
+    db.get("SELECT id, hostId, pin, expiresAt FROM events WHERE id = ?", [req.params.id], async (err, evt) => {
+        if (err || !evt) return res.status(404).json({ error: "Not found" });
+        if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+            return res.status(410).json({ error: "Event expired" });
+        }
+        if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+            return res.status(403).json({ error: "PIN required" });
+        }
+
+        try {
+            const page = await listEventMedia(evt.id, {
+                sort, cursor, limit, type, uploaderId, privacy,
+                viewerId: req.user?.id,
+                includePrivate: canSeePrivateMedia(evt, req.user)
+            });
+            const media = await attachPublicUrls(page.rows, evt, req.user);
+            res.json({ media: await attachEngagement(media, evt.id, req), nextCursor: page.nextCursor });
+        } catch (error) {
+            console.error('Error listing media:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+};
+
+// GET /api/events/:id/media/search?q=&limit=&offset= - ranked full-text search over
+// captions, uploader names, comments and AI tags, matching word prefixes and ignoring diacritics
+export const searchEventMedia = (req, res) => {
+    const query = String(req.query.q || '').trim();
+    if (!query) return res.status(400).json({ error: "Search query required" });
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+
+    db.get("SELECT id, hostId, pin, expiresAt FROM events WHERE id = ?", [req.params.id], async (err, evt) => {
+        if (err || !evt) return res.status(404).json({ error: "Not found" });
+        if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+            return res.status(410).json({ error: "Event expired" });
+        }
+        if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+            return res.status(403).json({ error: "PIN required" });
+        }
+
+        try {
+            const rows = await searchMediaIndex(query, {
+                eventId: evt.id,
+                viewerId: req.user?.id,
+                includePrivate: canSeePrivateMedia(evt, req.user),
+                limit,
+                offset
+            });
+            const media = await attachPublicUrls(rows, evt, req.user);
+            res.json({ query, media: await attachEngagement(media, evt.id, req), limit, offset });
+        } catch (error) {
+            console.error('Error searching media:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+};
+
+const parseHighlightLimit = (value) => Math.min(Math.max(parseInt(value) || DEFAULT_HIGHLIGHTS, 1), MAX_HIGHLIGHTS);
+
+// GET /api/events/:id/highlights?limit= - the event's best photos, best first:
+// sharp, well exposed, eyes open and liked, one shot per burst
+export const getHighlights = (req, res) => {
+    const limit = parseHighlightLimit(req.query.limit);
+
+    db.get("SELECT id, hostId, pin, expiresAt FROM events WHERE id = ?", [req.params.id], async (err, evt) => {
+        if (err || !evt) return res.status(404).json({ error: "Not found" });
+        if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+            return res.status(410).json({ error: "Event expired" });
+        }
+        if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+            return res.status(403).json({ error: "PIN required" });
+        }
+
+        try {
+            const rows = await getEventHighlights(evt.id, {
+                viewerId: req.user?.id,
+                includePrivate: canSeePrivateMedia(evt, req.user),
+                limit
+            });
+            const media = await attachPublicUrls(rows, evt, req.user);
+            res.json({ media: await attachEngagement(media, evt.id, req) });
+        } catch (error) {
+            console.error('Error listing highlights:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+};
+
+// Selfie scans per person (or IP) per ten minutes
+const FIND_ME_RATE_LIMIT = 10;
+
+// The event behind a guest's Find Me or collage request, or null after answering with the error
+const getOpenEvent = async (req, res) => {
+    const evt = await new Promise((resolve, reject) => {
+        db.get("SELECT id, hostId, pin, expiresAt FROM events WHERE id = ?", [req.params.id], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+        });
+    });
+    if (!evt) {
+        res.status(404).json({ error: "Not found" });
+        return null;
+    }
+    if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+        res.status(410).json({ error: "Event expired" });
+        return null;
+    }
+    if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+        res.status(403).json({ error: "PIN required" });
+        return null;
+    }
+    return evt;
+};
+
+// The face in an uploaded selfie, or null after answering with the error.
+// Selfies are only ever held in memory.
+const readSelfie = async (req, res) => {
+    if (!req.file) {
+        res.status(400).json({ error: "Selfie required" });
+        return null;
+    }
+    if (!req.file.mimetype?.startsWith('image/')) {
+        res.status(400).json({ error: "Selfie must be a photo" });
+        return null;
+    }
+    if (!checkRateLimit(RateLimitStore.findMe, getLiker(req)?.likerId || req.ip, FIND_ME_RATE_LIMIT, 10 * 60 * 1000)) {
+        res.status(429).json({ error: "Too many selfies. Please try again in a few minutes." });
+        return null;
+    }
+    const face = await detectSelfie(req.file.buffer);
+    if (!face) res.status(422).json({ error: "No face found in the selfie" });
+    return face;
+};
+
+// POST /api/events/:id/find-me - multipart { selfie }: the event's photos of the
+// person in the selfie, closest match first, from the faces indexed at upload
+export const findMe = async (req, res) => {
+    try {
+        const evt = await getOpenEvent(req, res);
+        if (!evt) return;
+        const face = await readSelfie(req, res);
+        if (!face) return;
+
+        const matches = await findMatchingMedia(evt.id, face.descriptor);
+        const rows = matches.length === 0 ? [] : await new Promise((resolve, reject) => {
+            db.all(`SELECT * FROM media WHERE id IN (${matches.map(() => '?').join(',')}) AND isProcessing = 0`, matches.map(match => match.mediaId), (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+        });
+        const byId = new Map(rows.map(row => [row.id, row]));
+        const ordered = matches.map(match => byId.get(match.mediaId)).filter(Boolean);
+
+        const media = await attachPublicUrls(ordered, evt, req.user);
+        console.log(`🙂 Find Me matched ${media.length} photos in event ${evt.id}`);
+        res.json({ media: await attachEngagement(media, evt.id, req) });
+    } catch (error) {
+        console.error('Error running Find Me:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// GET /api/events/:id/find-me/opt-out - whether the requester opted out of Find Me
+export const getFindMeOptOut = async (req, res) => {
+    const liker = getLiker(req);
+    if (!liker) return res.json({ optedOut: false });
+    try {
+        const evt = await getOpenEvent(req, res);
+        if (!evt) return;
+        res.json({ optedOut: await hasOptedOut(evt.id, liker.likerId) });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/events/:id/find-me/opt-out - multipart { selfie }: keeps the person in
+// the selfie out of the event's face index, now and for later uploads
+export const optOutOfFindMe = async (req, res) => {
+    const liker = getLiker(req);
+    if (!liker) return res.status(400).json({ error: "Sign in or send a guest id to opt out" });
+    try {
+        const evt = await getOpenEvent(req, res);
+        if (!evt) return;
+        const face = await readSelfie(req, res);
+        if (!face) return;
+
+        const removed = await optOut(evt.id, liker.likerId, face.descriptor);
+        console.log(`🙈 Opted out of Find Me in event ${evt.id} (${removed} faces removed)`);
+        res.json({ optedOut: true, removed });
+    } catch (error) {
+        console.error('Error opting out of Find Me:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// DELETE /api/events/:id/find-me/opt-out
+export const cancelFindMeOptOut = async (req, res) => {
+    const liker = getLiker(req);
+    if (!liker) return res.status(400).json({ error: "Sign in or send a guest id" });
+    try {
+        const evt = await getOpenEvent(req, res);
+        if (!evt) return;
+        await cancelOptOut(evt.id, liker.likerId);
+        res.json({ optedOut: false });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// Collages per person (or IP) per ten minutes - each is rendered at print resolution
+const COLLAGE_RATE_LIMIT = 10;
 
-        res.json({ ...evt, media: signedMedia, guestbook: guestbookResult, coverImage: signedCover, hasPin: !!evt.pin, pin: undefined });
+// Parses a JSON list of media ids from a multipart body, or null when it's missing or malformed
+const parseMediaIdList = (value) => {
+    try {
+        const ids = typeof value === 'string' ? JSON.parse(value) : value;
+        return Array.isArray(ids) && ids.every(id => typeof id === 'string') ? ids : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// The event's photos for a collage, in the order given - only ones the requester can see
+const loadCollageMedia = async (evt, mediaIds, user) => {
+    const rows = await new Promise((resolve, reject) => {
+        db.all(`SELECT id, url, privacy, uploaderId FROM media WHERE eventId = ? AND type = 'image' AND isProcessing = 0
+            AND id IN (${mediaIds.map(() => '?').join(',')})`, [evt.id, ...mediaIds], (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+    const byId = new Map(rows.filter(row => canViewMedia(row, evt, user)).map(row => [row.id, row]));
+    return mediaIds.map(id => byId.get(id)).filter(Boolean);
+};
+
+// POST /api/events/:id/collage - multipart { template, size?, lang?, photos[] | mediaIds }:
+// a print-ready JPEG of photos straight from the camera, or of the event's own photos
+export const createCollage = async (req, res) => {
+    const spec = COLLAGE_TEMPLATES[req.body?.template];
+    if (!spec) return res.status(400).json({ error: "Unknown collage template" });
+    const size = req.body.size || spec.sizes[0];
+    if (!spec.sizes.includes(size)) return res.status(400).json({ error: "Unsupported print size" });
+
+    const files = req.files || [];
+    const mediaIds = files.length === 0 ? parseMediaIdList(req.body.mediaIds) : null;
+    if (files.length === 0 && !mediaIds) return res.status(400).json({ error: "Photos required" });
+    if (files.some(file => !file.mimetype?.startsWith('image/'))) return res.status(400).json({ error: "Collages are made of photos" });
+    if ((files.length || mediaIds.length) < spec.photos) return res.status(400).json({ error: `This layout needs ${spec.photos} photos` });
+
+    try {
+        const evt = await getOpenEvent(req, res);
+        if (!evt) return;
+        if (!checkRateLimit(RateLimitStore.collage, getLiker(req)?.likerId || req.ip, COLLAGE_RATE_LIMIT, 10 * 60 * 1000)) {
+            return res.status(429).json({ error: "Too many collages. Please try again in a few minutes." });
+        }
+
+        let photos = files.slice(0, spec.photos).map(file => file.buffer);
+        if (mediaIds) {
+            const media = await loadCollageMedia(evt, mediaIds.slice(0, spec.photos), req.user);
+            if (media.length < spec.photos) return res.status(404).json({ error: "Photo not found" });
+            photos = await Promise.all(media.map(item => getS3ObjectBuffer(item.url)));
+        }
+
+        // The host's logo is branding, so it needs a tier that allows it
+        const host = await new Promise((resolve, reject) => {
+            db.get(`SELECT events.title, events.date, users.role, users.tier, users.logoUrl
+                FROM events LEFT JOIN users ON events.hostId = users.id WHERE events.id = ?`, [evt.id], (err, row) => {
+                if (err) reject(err);
+                else resolve(row);
+            });
+        });
+        const logo = host.logoUrl && getTierConfig(host.tier, host.role).allowBranding
+            ? await loadLogo(host.logoUrl).catch((error) => {
+                console.warn('⚠️ Failed to load collage logo:', error.message);
+                return null;
+            })
+            : null;
+
+        const collage = await renderCollage({ template: req.body.template, size, photos, title: host.title, date: host.date, logo, lang: req.body.lang });
+        const fileName = (host.title || 'event').replace(/[^a-z0-9]/gi, '_');
+        res.setHeader('Content-Type', 'image/jpeg');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}_${req.body.template}.jpg"`);
+        res.setHeader('Cache-Control', 'no-store');
+        console.log(`🖼️ Rendered ${req.body.template} collage for event ${evt.id}`);
+        res.send(collage);
+    } catch (error) {
+        console.error('Error rendering collage:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// People albums and highlight videos are for the event's host and admins
+const getHostedEvent = async (req, res, forbidden = "Only the host can browse people") => {
+    const evt = await new Promise((resolve, reject) => {
+        db.get("SELECT id, hostId, pin FROM events WHERE id = ?", [req.params.id], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+        });
+    });
+    if (!evt) {
+        res.status(404).json({ error: "Not found" });
+        return null;
+    }
+    if (evt.hostId !== req.user.id && req.user.role !== 'ADMIN') {
+        res.status(403).json({ error: forbidden });
+        return null;
+    }
+    return evt;
+};
+
+const listPeople = (evt) => getEventPeople(evt.id, (media) =>
+    requiresSignedUrl(media, evt) ? getSignedUrl(media.previewUrl) : getPublicUrl(media.previewUrl));
+
+// GET /api/events/:id/people - the people found in the event's photos, most photographed first
+export const getPeople = async (req, res) => {
+    try {
+        const evt = await getHostedEvent(req, res);
+        if (!evt) return;
+        res.json(await listPeople(evt));
+    } catch (error) {
+        console.error('Error listing people:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/events/:id/people/recluster - groups the faces again right away
+export const reclusterPeople = async (req, res) => {
+    try {
+        const evt = await getHostedEvent(req, res);
+        if (!evt) return;
+        await clusterEventFaces(evt.id);
+        res.json(await listPeople(evt));
+    } catch (error) {
+        console.error('Error clustering people:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// GET /api/events/:id/people/:personId/media - the photos a person appears in, newest first
+export const getPersonMedia = async (req, res) => {
+    try {
+        const evt = await getHostedEvent(req, res);
+        if (!evt) return;
+        const ids = await getPersonMediaIds(evt.id, req.params.personId);
+        const rows = ids.length === 0 ? [] : await new Promise((resolve, reject) => {
+            db.all(`SELECT * FROM media WHERE id IN (${ids.map(() => '?').join(',')}) AND isProcessing = 0 ORDER BY uploadedAt DESC`, ids, (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+        });
+        const media = await attachPublicUrls(rows, evt, req.user);
+        res.json({ media: await attachEngagement(media, evt.id, req) });
+    } catch (error) {
+        console.error('Error listing person media:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// PATCH /api/events/:id/people/:personId - { name }, an empty name clears it
+export const updatePerson = async (req, res) => {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim().slice(0, 60) : null;
+    if (name === null) return res.status(400).json({ error: "Name required" });
+    try {
+        const evt = await getHostedEvent(req, res);
+        if (!evt) return;
+        if (!await renamePerson(evt.id, req.params.personId, name)) return res.status(404).json({ error: "Person not found" });
+        res.json({ id: req.params.personId, name: name || null });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/events/:id/people/:personId/merge - { sourceIds }: folds those people into this one
+export const mergePeople = async (req, res) => {
+    const { sourceIds } = req.body;
+    if (!Array.isArray(sourceIds) || sourceIds.length === 0 || !sourceIds.every(id => typeof id === 'string')) {
+        return res.status(400).json({ error: "People to merge required" });
+    }
+    try {
+        const evt = await getHostedEvent(req, res);
+        if (!evt) return;
+        if (!await mergeEventPeople(evt.id, req.params.personId, sourceIds)) return res.status(404).json({ error: "Person not found" });
+        res.json(await listPeople(evt));
+    } catch (error) {
+        console.error('Error merging people:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// Host-picked media for a highlight video - ids in playing order, or null for the
+// event's highlights. Multipart bodies carry the list as JSON.
+const parseReelMediaIds = (value) => {
+    if (value === undefined || value === null || value === '') return null;
+    let ids = value;
+    if (typeof value === 'string') {
+        try {
+            ids = JSON.parse(value);
+        } catch (e) {
+            return undefined;
+        }
+    }
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_REEL_ITEMS || !ids.every(id => typeof id === 'string')) return undefined;
+    return [...new Set(ids)];
+};
+
+// POST /api/events/:id/highlight-video - multipart { mediaIds?, audio? }: renders a
+// highlight video in the background and adds it to the event when done
+export const createHighlightVideo = async (req, res) => {
+    const mediaIds = parseReelMediaIds(req.body?.mediaIds);
+    if (mediaIds === undefined) return res.status(400).json({ error: `Pick between 1 and ${MAX_REEL_ITEMS} photos or videos` });
+    const audioType = req.file ? (req.file.mimetype || '').split(';')[0].trim().toLowerCase() : null;
+    if (audioType && !AUDIO_TRACK_EXTENSIONS[audioType]) return res.status(400).json({ error: "Unsupported audio format" });
+
+    try {
+        const evt = await getHostedEvent(req, res, "Only the host can create highlight videos");
+        if (!evt) return;
+        if (await hasActiveHighlightVideo(evt.id)) return res.status(409).json({ error: "A highlight video is already being rendered" });
+
+        const audioKey = audioType
+            ? await uploadBufferToS3(req.file.buffer, `events/${evt.id}/reel_audio_${crypto.randomUUID()}${AUDIO_TRACK_EXTENSIONS[audioType]}`, audioType)
+            : null;
+        const job = await queueHighlightVideo({ eventId: evt.id, userId: req.user.id, mediaIds, audioKey });
+        console.log(`🎬 Queued highlight video ${job.id} for event ${evt.id}`);
+        res.status(202).json(job);
+    } catch (error) {
+        console.error('Error queueing highlight video:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// GET /api/events/:id/highlight-video - the event's renders, newest first
+export const getHighlightVideos = async (req, res) => {
+    try {
+        const evt = await getHostedEvent(req, res, "Only the host can create highlight videos");
+        if (!evt) return;
+        res.json(await listHighlightVideos(evt.id));
+    } catch (error) {
+        console.error('Error listing highlight videos:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+export const validatePin = (req, res) => {
+    db.get("SELECT id, pin FROM events WHERE id = ?", [req.params.id], (err, evt) => {
+        if (err || !evt) return res.status(404).json({ error: "Not found" });
+        if (!evt.pin) return res.json({ success: true, accessToken: null });
+
+        // Constant-time, so response timing doesn't give the PIN away digit by digit
+        const expected = Buffer.from(String(evt.pin));
+        const actual = Buffer.from(typeof req.body.pin === 'string' ? req.body.pin : '');
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return res.status(401).json({ success: false, error: "Invalid PIN" });
+        }
+        res.json({ success: true, accessToken: createEventAccessToken(evt.id) });
     });
 };
 
@@ -99,9 +628,9 @@ export const createEvent = async (req, res) => {
     if (e.hostId !== req.user.id && req.user.role !== 'ADMIN') return res.sendStatus(403);
 
     try {
-        const stmt = db.prepare(`INSERT INTO events (id, title, description, date, city, hostId, code, expiresAt, pin, views, downloads, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+        const stmt = db.prepare(`INSERT INTO events (id, title, description, date, city, hostId, code, expiresAt, pin, views, downloads, createdAt, keepLocation) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
         await new Promise((resolve, reject) => {
-            stmt.run(e.id, e.title, e.description, e.date, e.city || null, e.hostId, e.code, e.expiresAt, e.pin, 0, 0, new Date().toISOString(), (err) => {
+            stmt.run(e.id, e.title, e.description, e.date, e.city || null, e.hostId, e.code, e.expiresAt, e.pin, 0, 0, new Date().toISOString(), e.keepLocation ? 1 : 0, (err) => {
                 if (err) reject(err);
                 else resolve();
             });
@@ -123,7 +652,8 @@ export const createEvent = async (req, res) => {
 
 export const updateEvent = async (req, res) => {
     const updates = req.body;
-    const allowedFields = ['title', 'description', 'coverImage', 'coverMediaType', 'expiresAt', 'downloads'];
+    const allowedFields = ['title', 'description', 'coverImage', 'coverMediaType', 'expiresAt', 'downloads', 'keepLocation', 'guestbookApproval'];
+    const booleanFields = ['keepLocation', 'guestbookApproval'];
 
     try {
         const event = await new Promise((resolve, reject) => {
@@ -140,7 +670,7 @@ export const updateEvent = async (req, res) => {
         if (fieldsToUpdate.length === 0) return res.json({ success: true });
 
         const setClause = fieldsToUpdate.map(field => `${field} = ?`).join(', ');
-        const values = fieldsToUpdate.map(field => updates[field]);
+        const values = fieldsToUpdate.map(field => booleanFields.includes(field) ? (updates[field] ? 1 : 0) : updates[field]);
         values.push(req.params.id);
 
         await new Promise((resolve, reject) => {
@@ -175,6 +705,163 @@ export const deleteEvent = (req, res) => {
     });
 };
 
+export const rerenderWatermarks = (req, res) => {
+    db.get("SELECT hostId FROM events WHERE id = ?", [req.params.id], async (err, row) => {
+        if (!row) return res.status(404).json({ error: "Not found" });
+        if (row.hostId !== req.user.id && req.user.role !== 'ADMIN') return res.sendStatus(403);
+
+        try {
+            const queued = await rerenderEventWatermarks(req.params.id);
+            if (queued === null) return res.status(403).json({ error: "Watermarking is not available for this event" });
+            res.status(202).json({ queued });
+        } catch (error) {
+            console.error('Error re-rendering watermarks:', error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+};
+
+// Most media a ?ids= export may name - picks come in the URL, and each id is a
+// bound SQL parameter
+const MAX_EXPORT_IDS = 200;
+
+export const exportEventZip = (req, res) => {
+    db.get(`SELECT events.id, events.title, events.hostId, events.expiresAt, events.pin, events.keepLocation, users.tier as hostTier, users.role as hostRole
+        FROM events LEFT JOIN users ON events.hostId = users.id WHERE events.id = ?`, [req.params.id], async (err, evt) => {
+        if (err || !evt) return res.status(404).json({ error: "Not found" });
+        if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+            return res.status(410).json({ error: "Event expired" });
+        }
+        // Downloads are plain links, so the PIN access token comes in as ?access=
+        if (!canViewEvent(evt, req.user, req.query.access)) {
+            return res.status(403).json({ error: "PIN required" });
+        }
+
+        // Filters: ?type=image, ?uploaderId=..., ?ids=a,b,c - or ?source=highlights&limit=
+        // for the event's best photos, which ignores the filters
+        const { type, uploaderId, ids, source } = req.query;
+        const conditions = ['eventId = ?'];
+        const params = [evt.id];
+
+        if (type === 'image' || type === 'video') {
+            conditions.push('type = ?');
+            params.push(type);
+        }
+        if (uploaderId) {
+            conditions.push('uploaderId = ?');
+            params.push(uploaderId);
+        }
+        if (ids) {
+            const idList = String(ids).split(',').filter(Boolean);
+            if (idList.length === 0) return res.status(400).json({ error: "No media IDs provided" });
+            if (idList.length > MAX_EXPORT_IDS) return res.status(400).json({ error: `Pick at most ${MAX_EXPORT_IDS} photos or videos to export` });
+            conditions.push(`id IN (${idList.map(() => '?').join(',')})`);
+            params.push(...idList);
+        }
+
+        // Private media is only exported for the host, admins and the uploader
+        const canSeePrivate = req.user && (req.user.role === 'ADMIN' || req.user.id === evt.hostId);
+        if (!canSeePrivate) {
+            conditions.push("(privacy IS NULL OR privacy != 'private' OR uploaderId = ?)");
+            params.push(req.user ? req.user.id : null);
+        }
+
+        try {
+            const mediaItems = source === 'highlights'
+                ? await getEventHighlights(evt.id, {
+                    viewerId: req.user?.id,
+                    includePrivate: canSeePrivate,
+                    limit: parseHighlightLimit(req.query.limit)
+                })
+                : await new Promise((resolve, reject) => {
+                    db.all(`SELECT id, type, url, hasLocation FROM media WHERE ${conditions.join(' AND ')} AND isProcessing = 0 ORDER BY uploadedAt DESC`, params, (err, rows) => {
+                        if (err) reject(err);
+                        else resolve(rows || []);
+                    });
+                });
+            if (mediaItems.length === 0) return res.status(404).json({ error: "No media to export" });
+
+            const folderName = (evt.title || 'event').replace(/[^a-z0-9]/gi, '_');
+            const isFreeTier = (evt.hostTier || 'FREE') === 'FREE' && evt.hostRole !== 'ADMIN';
+
+            res.setHeader('Content-Type', 'application/zip');
+            res.setHeader('Content-Disposition', `attachment; filename="${folderName}_${source === 'highlights' ? 'highlights' : 'memories'}.zip"`);
+            res.setHeader('Cache-Control', 'no-store');
+
+            const written = await streamMediaArchive(res, mediaItems, {
+                folderName,
+                watermark: isFreeTier ? FREE_TIER_WATERMARK : null,
+                stripLocation: !evt.keepLocation
+            });
+            if (written === null) return;
+
+            console.log(`📦 Exported ${written} files from event ${evt.id}`);
+            db.run("UPDATE events SET downloads = downloads + 1 WHERE id = ?", [evt.id], async () => {
+                await cacheService.invalidateEventDetails(evt.id);
+                await cacheService.invalidateUserEvents(evt.hostId);
+            });
+        } catch (error) {
+            console.error('Error exporting event ZIP:', error);
+            if (!res.headersSent) return res.status(500).json({ error: error.message });
+            res.destroy(error);
+        }
+    });
+};
+
+// Best photos for the guestbook keepsake - the most liked public images
+const KEEPSAKE_HIGHLIGHTS = 12;
+
+// GET /api/events/:id/guestbook.pdf?lang= - the approved guestbook as a printable
+// keepsake, branded with the host's studio, for the host and admins
+export const exportGuestbookPdf = async (req, res) => {
+    try {
+        const evt = await new Promise((resolve, reject) => {
+            db.get(`SELECT events.id, events.title, events.date, events.hostId, users.name AS hostName, users.studioName, users.logoUrl
+                FROM events LEFT JOIN users ON events.hostId = users.id WHERE events.id = ?`, [req.params.id], (err, row) => {
+                if (err) reject(err);
+                else resolve(row);
+            });
+        });
+        if (!evt) return res.status(404).json({ error: "Not found" });
+        if (evt.hostId !== req.user.id && req.user.role !== 'ADMIN') return res.sendStatus(403);
+
+        const [entries, highlights] = await Promise.all([
+            new Promise((resolve, reject) => {
+                db.all("SELECT * FROM guestbook WHERE eventId = ? AND COALESCE(status, 'approved') = 'approved' ORDER BY createdAt ASC", [evt.id], (err, rows) => {
+                    if (err) reject(err);
+                    else resolve(rows);
+                });
+            }),
+            new Promise((resolve, reject) => {
+                db.all(`SELECT url FROM media WHERE eventId = ? AND type = 'image' AND isProcessing = 0 AND (privacy IS NULL OR privacy != 'private')
+                    ORDER BY likes DESC, uploadedAt ASC LIMIT ?`, [evt.id, KEEPSAKE_HIGHLIGHTS], (err, rows) => {
+                    if (err) reject(err);
+                    else resolve(rows.map(row => row.url));
+                });
+            })
+        ]);
+
+        const pdf = await renderGuestbookPdf({
+            event: evt,
+            host: { name: evt.hostName, studioName: evt.studioName, logoUrl: evt.logoUrl },
+            entries,
+            highlights,
+            loadObject: getS3ObjectBuffer,
+            lang: req.query.lang
+        });
+
+        const fileName = (evt.title || 'event').replace(/[^a-z0-9]/gi, '_');
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}_guestbook.pdf"`);
+        res.setHeader('Cache-Control', 'no-store');
+        console.log(`📖 Rendered guestbook keepsake for event ${evt.id} (${entries.length} entries)`);
+        res.send(pdf);
+    } catch (error) {
+        console.error('Error rendering guestbook PDF:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
 export const incrementView = (req, res) => {
     db.run("UPDATE events SET views = views + 1 WHERE id = ?", [req.params.id], (err) => {
         if (err) return res.status(500).json({ error: err.message });
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { db } from '../config/db.js';
+import { checkRateLimit, RateLimitStore } from '../middleware/rateLimiter.js';
+import { canViewEvent } from '../services/mediaAccessService.js';
+import { getLiker } from '../services/likeService.js';
+import { filterProfanity } from '../services/moderationService.js';
+import { GUESTBOOK_STATUSES, MAX_MESSAGE_LENGTH, ATTACHMENT_TYPES, MAX_AUDIO_BYTES, formatEntry, getAttachmentKey, getEventGuestbook } from '../services/guestbookService.js';
+import { uploadBufferToS3, deleteFromS3 } from '../services/storage.js';
+import { getIo } from '../services/socket.js';
+
+// Entries per author per ten minutes
+const GUESTBOOK_RATE_LIMIT = 5;
+// Attached photos are re-encoded, which also drops their EXIF (GPS) data
+const ATTACHMENT_IMAGE_SIZE = 1600;
+
+const AUDIO_EXTENSIONS = {
+    'audio/webm': '.webm',
+    'audio/ogg': '.ogg',
+    'audio/mp4': '.m4a',
+    'audio/x-m4a': '.m4a',
+    'audio/aac': '.m4a',
+    'audio/mpeg': '.mp3',
+    'audio/wav': '.wav'
+};
+
+const getRow = (sql, params) => new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+    });
+});
+
+const runStatement = (sql, params) => new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+    });
+});
+
+const getEvent = (eventId) => getRow("SELECT id, hostId, pin, guestbookApproval FROM events WHERE id = ?", [eventId]);
+
+const canModerate = (event, user) => !!user && (user.role === 'ADMIN' || user.id === event.hostId);
+
+// Approved entries go to the whole event room, everything else only to the
+// event's hosts (see join_event in socket.js)
+const emitEntry = (event, row) => {
+    try {
+        const entry = formatEntry(row, event);
+        if (entry.status === 'approved') getIo().to(event.id).emit('new_message', entry);
+        else getIo().to(`${event.id}:hosts`).emit('guestbook_updated', entry);
+    } catch (e) { }
+};
+
+const emitRemoved = (eventId, id, { exceptHosts = false } = {}) => {
+    try {
+        const room = getIo().to(eventId);
+        (exceptHosts ? room.except(`${eventId}:hosts`) : room).emit('guestbook_removed', { id });
+    } catch (e) { }
+};
+
+// Stores an uploaded photo or voice note - the storage key and type, or { error }
+const storeAttachment = async (file, eventId, entryId) => {
+    const mimeType = (file.mimetype || '').split(';')[0].trim().toLowerCase();
+    const type = ATTACHMENT_TYPES[mimeType];
+    if (!type) return { error: "Only photos and voice notes can be attached" };
+
+    if (type === 'audio') {
+        if (file.size > MAX_AUDIO_BYTES) return { error: "Voice notes are limited to about a minute" };
+        const key = getAttachmentKey(eventId, entryId, AUDIO_EXTENSIONS[mimeType]);
+        return { key: await uploadBufferToS3(file.buffer, key, mimeType), type };
+    }
+
+    const image = await sharp(file.buffer)
+        .rotate()
+        .resize(ATTACHMENT_IMAGE_SIZE, ATTACHMENT_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+    const key = getAttachmentKey(eventId, entryId, '.jpg');
+    return { key: await uploadBufferToS3(image, key, 'image/jpeg'), type };
+};
+
+// GET /api/guestbook?eventId= - newest first; hosts and admins also get pending and hidden entries
+export const getGuestbook = async (req, res) => {
+    try {
+        const event = await getEvent(req.query.eventId);
+        if (!event || !canViewEvent(event, req.user, req.headers['x-event-access'])) return res.status(404).json({ error: "Event not found" });
+        res.json(await getEventGuestbook(event, { viewerId: getLiker(req)?.likerId, canModerate: canModerate(event, req.user) }));
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/guestbook - multipart { eventId, senderName, message, attachment? }
+export const createEntry = async (req, res) => {
+    const author = getLiker(req);
+    if (!author) return res.status(400).json({ error: "Sign in or send a guest id to sign the guestbook" });
+    if (!checkRateLimit(RateLimitStore.guestbook, author.likerId, GUESTBOOK_RATE_LIMIT, 10 * 60 * 1000)) {
+        return res.status(429).json({ error: "You've signed the guestbook a lot already. Please wait a few minutes." });
+    }
+
+    try {
+        const event = await getEvent(req.body.eventId);
+        if (!event || !canViewEvent(event, req.user, req.headers['x-event-access'])) return res.status(404).json({ error: "Event not found" });
+
+        const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+        const senderName = typeof req.body.senderName === 'string' ? req.body.senderName.trim().slice(0, 60) : '';
+        if (!senderName) return res.status(400).json({ error: "Your name is required" });
+        if (!message && !req.file) return res.status(400).json({ error: "Write a message or attach a photo or voice note" });
+        if (message.length > MAX_MESSAGE_LENGTH) return res.status(400).json({ error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` });
+
+        const id = crypto.randomUUID();
+        const attachment = req.file ? await storeAttachment(req.file, event.id, id) : null;
+        if (attachment?.error) return res.status(400).json({ error: attachment.error });
+
+        const row = {
+            id,
+            eventId: event.id,
+            senderName: filterProfanity(senderName).text,
+            message: filterProfanity(message).text,
+            createdAt: new Date().toISOString(),
+            // The host's own entries skip their approval queue
+            status: event.guestbookApproval && !canModerate(event, req.user) ? 'pending' : 'approved',
+            authorId: author.likerId,
+            userId: author.userId,
+            attachmentUrl: attachment?.key || null,
+            attachmentType: attachment?.type || null
+        };
+        await runStatement(`INSERT INTO guestbook (id, eventId, senderName, message, createdAt, status, authorId, userId, attachmentUrl, attachmentType)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [row.id, row.eventId, row.senderName, row.message, row.createdAt, row.status, row.authorId, row.userId, row.attachmentUrl, row.attachmentType]);
+
+        emitEntry(event, row);
+        res.status(201).json(formatEntry(row, event, author.likerId));
+    } catch (error) {
+        console.error('Error signing guestbook:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// PATCH /api/guestbook/:id - { status }, hosts and admins approve or hide entries
+export const moderateEntry = async (req, res) => {
+    const { status } = req.body;
+    if (!GUESTBOOK_STATUSES.includes(status)) return res.status(400).json({ error: "Invalid status" });
+
+    try {
+        const row = await getRow("SELECT * FROM guestbook WHERE id = ?", [req.params.id]);
+        if (!row) return res.status(404).json({ error: "Entry not found" });
+        const event = await getEvent(row.eventId);
+        if (!canModerate(event, req.user)) return res.status(403).json({ error: "Not allowed to moderate this guestbook" });
+
+        await runStatement("UPDATE guestbook SET status = ? WHERE id = ?", [status, row.id]);
+        const updated = { ...row, status };
+
+        // Guests drop entries that are no longer approved, hosts keep them with the new status
+        if (status !== 'approved') emitRemoved(event.id, row.id, { exceptHosts: true });
+        emitEntry(event, updated);
+        res.json(formatEntry(updated, event, getLiker(req)?.likerId));
+    } catch (error) {
+        console.error('Error moderating guestbook entry:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// DELETE /api/guestbook/:id - by its author, the event host or an admin
+export const deleteEntry = async (req, res) => {
+    try {
+        const row = await getRow("SELECT * FROM guestbook WHERE id = ?", [req.params.id]);
+        if (!row) return res.status(404).json({ error: "Entry not found" });
+        const event = await getEvent(row.eventId);
+        const author = getLiker(req);
+        const isAuthor = !!author && !!row.authorId && row.authorId === author.likerId;
+        if (!isAuthor && !canModerate(event, req.user)) return res.status(403).json({ error: "Not allowed to delete this entry" });
+
+        await runStatement("DELETE FROM guestbook WHERE id = ?", [row.id]);
+        if (row.attachmentUrl) await deleteFromS3(row.attachmentUrl);
+
+        emitRemoved(event.id, row.id);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting guestbook entry:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
@@ -1,9 +1,19 @@
 import path from 'path';
 import fs from 'fs';
 import { db } from '../config/db.js';
-import { deleteFromS3 } from '../services/storage.js';
-import { queueFileUpload, getUploadProgress } from '../services/uploadService.js';
+import { pipeline } from 'stream/promises';
+import { deleteFromS3, deletePrefixFromS3, getS3Object } from '../services/storage.js';
+import { queueFileUpload, getUploadProgress, checkStorageLimits } from '../services/uploadService.js';
+import { isAllowedUpload, getUploadSession, createUploadSession, appendUploadChunk, describeSession, isSessionBusy } from '../services/resumableUploadService.js';
 import { checkRateLimit, RateLimitStore } from '../middleware/rateLimiter.js';
+import { canAccessMedia, canViewEvent, getMediaUrls, requiresSignedUrl } from '../services/mediaAccessService.js';
+import { getVariantPrefix } from '../services/imageVariantService.js';
+import { getTierConfig } from '../config/tiers.js';
+import { cacheService } from '../services/cacheService.js';
+import { indexMedia } from '../services/searchService.js';
+import { getLiker, toggleLike, getLikers } from '../services/likeService.js';
+import { REACTIONS, setReaction, getReactionCounts } from '../services/reactionService.js';
+import { emitForMedia } from '../services/socket.js';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -12,8 +22,6 @@ const uploadDir = path.join(__dirname, '../../server/uploads');
 
 if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir);
 
-function getPublicUrl(key) { return `/api/proxy-media?key=${encodeURIComponent(key)}`; }
-
 class ProcessQueue {
     constructor(concurrency = 2) {
         this.concurrency = concurrency;
@@ -38,6 +46,48 @@ class ProcessQueue {
 }
 const videoQueue = new ProcessQueue(2);
 
+// Validate uploader identity - returns null when a signed-in user claims another identity
+const resolveUploaderId = (req, uploaderId) => {
+    if (req.user) {
+        if (uploaderId !== req.user.id) {
+            console.log('Upload failed: Identity mismatch', { uploaderId, userId: req.user.id });
+            return null;
+        }
+        return uploaderId;
+    }
+    if (!uploaderId || !uploaderId.startsWith('guest-')) {
+        return `guest-anon-${Date.now()}`;
+    }
+    return uploaderId;
+};
+
+// Upload ids end up in storage keys, so only client-generated UUIDs are taken
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The event an upload is for, or null after answering with the error - uploaders
+// need the same access as viewers, so PIN-protected events need the PIN first
+const getUploadEvent = async (req, res, eventId) => {
+    const evt = eventId ? await new Promise((resolve, reject) => {
+        db.get("SELECT id, hostId, pin, expiresAt FROM events WHERE id = ?", [eventId], (err, row) => {
+            if (err) reject(err);
+            else resolve(row);
+        });
+    }) : null;
+    if (!evt) {
+        res.status(404).json({ error: "Event not found" });
+        return null;
+    }
+    if (evt.expiresAt && new Date(evt.expiresAt) < new Date()) {
+        res.status(410).json({ error: "Event expired" });
+        return null;
+    }
+    if (!canViewEvent(evt, req.user, req.headers['x-event-access'])) {
+        res.status(403).json({ error: "PIN required" });
+        return null;
+    }
+    return evt;
+};
+
 export const uploadMedia = async (req, res) => {
     console.log('Upload attempt:', { file: req.file ? req.file.originalname : 'none', body: req.body });
 
@@ -47,21 +97,23 @@ export const uploadMedia = async (req, res) => {
     }
 
     const body = req.body;
-    let uploaderId = body.uploaderId;
+    if (!UPLOAD_ID_PATTERN.test(body.id || '')) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(400).json({ error: 'Invalid upload ID' });
+    }
 
-    // Validate uploader identity
-    if (req.user) {
-        if (uploaderId !== req.user.id) {
-            console.log('Upload failed: Identity mismatch', { uploaderId, userId: req.user.id });
-            return res.status(403).json({ error: "Identity mismatch" });
-        }
-    } else {
-        if (!uploaderId || !uploaderId.startsWith('guest-')) {
-            uploaderId = `guest-anon-${Date.now()}`;
-        }
+    const uploaderId = resolveUploaderId(req, body.uploaderId);
+    if (!uploaderId) {
+        fs.unlink(req.file.path, () => {});
+        return res.status(403).json({ error: "Identity mismatch" });
     }
 
     try {
+        if (!await getUploadEvent(req, res, body.eventId)) {
+            fs.unlink(req.file.path, () => {});
+            return;
+        }
+
         // Queue the upload for background processing
         const result = await queueFileUpload(req.file, {
             id: body.id,
@@ -97,26 +149,154 @@ export const uploadMedia = async (req, res) => {
     }
 };
 
+// --- Resumable uploads ---
+
+export const startResumableUpload = async (req, res) => {
+    const body = req.body;
+    const size = Number(body.size);
+
+    if (!body.id || !body.eventId || !body.filename) return res.status(400).json({ error: 'Missing upload details' });
+    if (!UPLOAD_ID_PATTERN.test(body.id)) return res.status(400).json({ error: 'Invalid upload ID' });
+    if (!isAllowedUpload(body.mimeType, body.filename)) return res.status(400).json({ error: 'Invalid file type' });
+    if (!Number.isInteger(size) || size <= 0) return res.status(400).json({ error: 'Invalid file size' });
+
+    const uploaderId = resolveUploaderId(req, body.uploaderId);
+    if (!uploaderId) return res.status(403).json({ error: "Identity mismatch" });
+
+    try {
+        if (!await getUploadEvent(req, res, body.eventId)) return;
+
+        // Resuming after a reload - hand back the existing session
+        const existing = await getUploadSession(body.id);
+        if (existing) {
+            if (existing.size !== size || existing.filename !== body.filename || existing.userId !== (req.user?.id || null)) {
+                return res.status(409).json({ error: 'Upload ID already in use' });
+            }
+            return res.json(describeSession(existing));
+        }
+
+        const alreadyUploaded = await new Promise((resolve) => {
+            db.get("SELECT id FROM media WHERE id = ?", [body.id], (err, row) => resolve(!!row));
+        });
+        if (alreadyUploaded) return res.status(409).json({ error: 'Upload ID already in use' });
+
+        const clientIP = req.ip || req.connection.remoteAddress;
+        if (!checkRateLimit(RateLimitStore.upload, clientIP, 50, 60 * 60 * 1000)) {
+            return res.status(429).json({ error: 'Upload limit exceeded. Please try again later.' });
+        }
+
+        // Fail before any bytes are sent rather than after a 400 MB transfer
+        if (req.user) await checkStorageLimits(req.user.id, size);
+
+        const session = await createUploadSession({
+            userId: req.user?.id || null,
+            filename: body.filename,
+            mimeType: body.mimeType,
+            size,
+            metadata: {
+                id: body.id,
+                eventId: body.eventId,
+                type: body.type,
+                caption: body.caption,
+                uploadedAt: body.uploadedAt,
+                uploaderName: body.uploaderName,
+                isWatermarked: String(body.isWatermarked),
+                watermarkText: body.watermarkText,
+                privacy: body.privacy || 'public'
+            }
+        });
+        res.status(201).json(describeSession(session));
+    } catch (error) {
+        console.error('Failed to start resumable upload:', error);
+        res.status(error.message === 'Storage limit exceeded' ? 413 : 500).json({ error: error.message });
+    }
+};
+
+export const getResumableUpload = async (req, res) => {
+    try {
+        const session = await getUploadSession(req.params.uploadId);
+        if (!session) return res.status(404).json({ error: 'Upload session not found' });
+        if (session.userId && session.userId !== req.user?.id) return res.sendStatus(403);
+        res.json(describeSession(session));
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// Body is the raw chunk; ?offset= must match the bytes the server already has
+export const uploadChunk = async (req, res) => {
+    const offset = Number(req.query.offset);
+    const contentLength = Number(req.headers['content-length']);
+
+    try {
+        const session = await getUploadSession(req.params.uploadId);
+        if (!session) return res.status(404).json({ error: 'Upload session not found' });
+        if (session.userId && session.userId !== req.user?.id) return res.sendStatus(403);
+        if (offset !== session.receivedBytes) return res.status(409).json({ error: 'Offset mismatch', ...describeSession(session) });
+        if (contentLength && offset + contentLength > session.size) return res.status(413).json({ error: 'Chunk exceeds upload size', ...describeSession(session) });
+        if (isSessionBusy(session.id)) return res.status(409).json({ error: 'Chunk already in progress', ...describeSession(session) });
+
+        const updated = await appendUploadChunk(session, req);
+        res.json(describeSession(updated));
+    } catch (error) {
+        console.error(`Chunk upload failed for ${req.params.uploadId}:`, error.message);
+        if (!res.headersSent && !req.destroyed) res.status(500).json({ error: error.message });
+    }
+};
+
 // New endpoint to check upload progress
-export const getUploadStatus = (req, res) => {
+export const getUploadStatus = async (req, res) => {
     const { uploadId } = req.params;
-    const progress = getUploadProgress(uploadId);
+    try {
+        const progress = await getUploadProgress(uploadId);
+        res.json({
+            uploadId,
+            ...progress
+        });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// Every stored object of a media item: display copy, thumbnail, private
+// originals, poster, HLS ladder and responsive variants
+const deleteMediaFiles = async (row) => {
+    if (row.url) await deleteFromS3(row.url);
+    if (row.previewUrl) await deleteFromS3(row.previewUrl);
+    if (row.originalUrl) await deleteFromS3(row.originalUrl);
+    if (row.sourceUrl) await deleteFromS3(row.sourceUrl);
+    if (row.posterUrl) await deleteFromS3(row.posterUrl);
+    if (row.hlsUrl) await deletePrefixFromS3(row.hlsUrl.slice(0, row.hlsUrl.lastIndexOf('/') + 1));
+    if (row.variants) await deletePrefixFromS3(getVariantPrefix(row.eventId, row.id));
+};
 
-    res.json({
-        uploadId,
-        ...progress
+// Media flagged as a duplicate of a deleted item no longer has anything to be reviewed against
+const deleteMediaRecords = (mediaIds) => {
+    const placeholders = mediaIds.map(() => '?').join(',');
+    return new Promise((resolve, reject) => {
+        db.serialize(() => {
+            db.run(`UPDATE media SET duplicateOf = NULL WHERE duplicateOf IN (${placeholders})`, mediaIds);
+            db.run(`DELETE FROM media WHERE id IN (${placeholders})`, mediaIds, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
     });
 };
 
 export const deleteMedia = (req, res) => {
-    db.get(`SELECT media.url, media.previewUrl, events.hostId, media.uploaderId FROM media JOIN events ON media.eventId = events.id WHERE media.id = ?`, [req.params.id], async (err, row) => {
+    db.get(`SELECT media.eventId, media.url, media.previewUrl, media.originalUrl, media.sourceUrl, media.posterUrl, media.hlsUrl, media.variants, events.hostId, media.uploaderId FROM media JOIN events ON media.eventId = events.id WHERE media.id = ?`, [req.params.id], async (err, row) => {
         if (err || !row) return res.status(404).json({ error: "Not found" });
         if (req.user.role !== 'ADMIN' && row.hostId !== req.user.id && row.uploaderId !== req.user.id) return res.sendStatus(403);
         try {
-            if (row.url) await deleteFromS3(row.url);
-            if (row.previewUrl) await deleteFromS3(row.previewUrl);
+            await deleteMediaFiles({ ...row, id: req.params.id });
         } catch (e) { }
-        db.run("DELETE FROM media WHERE id = ?", req.params.id, (err) => res.json({ success: true }));
+        try {
+            await deleteMediaRecords([req.params.id]);
+            res.json({ success: true });
+        } catch (error) {
+            res.status(500).json({ error: error.message });
+        }
     });
 };
 
@@ -124,16 +304,16 @@ export const bulkDeleteMedia = async (req, res) => {
     const { mediaIds } = req.body;
     if (!Array.isArray(mediaIds) || mediaIds.length === 0) return res.status(400).json({ error: "No media IDs provided" });
     const placeholders = mediaIds.map(() => '?').join(',');
-    const query = `SELECT media.id, media.url, media.previewUrl, events.hostId, media.uploaderId, media.eventId FROM media JOIN events ON media.eventId = events.id WHERE media.id IN (${placeholders})`;
+    const query = `SELECT media.id, media.url, media.previewUrl, media.originalUrl, media.sourceUrl, media.posterUrl, media.hlsUrl, media.variants, events.hostId, media.uploaderId, media.eventId FROM media JOIN events ON media.eventId = events.id WHERE media.id IN (${placeholders})`;
     db.all(query, mediaIds, async (err, rows) => {
         if (err) return res.status(500).json({ error: err.message });
         let deletedCount = 0;
         const deletePromises = rows.map(async (row) => {
             if (req.user.role !== 'ADMIN' && row.hostId !== req.user.id && row.uploaderId !== req.user.id) return;
             try {
-                if (row.url) await deleteFromS3(row.url);
-                if (row.previewUrl) await deleteFromS3(row.previewUrl);
-                await new Promise((resolve) => db.run("DELETE FROM media WHERE id = ?", [row.id], () => { deletedCount++; resolve(true); }));
+                await deleteMediaFiles(row);
+                await deleteMediaRecords([row.id]);
+                deletedCount++;
             } catch (e) { }
         });
         await Promise.all(deletePromises);
@@ -141,31 +321,167 @@ export const bulkDeleteMedia = async (req, res) => {
     });
 };
 
+// Media rows with their event's host, for the duplicate review actions - only
+// the host (or an admin) decides what counts as a duplicate in their event
+const getHostedMedia = (mediaIds, user) => {
+    const placeholders = mediaIds.map(() => '?').join(',');
+    return new Promise((resolve, reject) => {
+        db.all(`SELECT media.id, media.eventId, media.url, media.previewUrl, media.originalUrl, media.sourceUrl, media.posterUrl, media.hlsUrl,
+            media.variants, media.likes, media.caption, events.hostId FROM media JOIN events ON media.eventId = events.id WHERE media.id IN (${placeholders})`,
+            mediaIds, (err, rows) => {
+                if (err) return reject(err);
+                resolve(rows.filter(row => user.role === 'ADMIN' || row.hostId === user.id));
+            });
+    });
+};
+
+const runStatement = (query, params) => new Promise((resolve, reject) => {
+    db.run(query, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+    });
+});
+
+// Give back the storage the uploads of these media were charged to their uploaders -
+// the size of each is kept on its upload job
+const releaseStorage = async (mediaIds) => {
+    const placeholders = mediaIds.map(() => '?').join(',');
+    const charges = await new Promise((resolve, reject) => {
+        db.all(`SELECT userId, SUM(fileSize) AS bytes FROM upload_jobs
+            WHERE id IN (${placeholders}) AND status = 'completed' AND userId IS NOT NULL GROUP BY userId`, mediaIds, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+    for (const { userId, bytes } of charges) {
+        await runStatement("UPDATE users SET storageUsedMb = MAX(storageUsedMb - ?, 0) WHERE id = ?", [bytes / (1024 * 1024), userId]);
+    }
+};
+
+// POST /api/media/duplicates/merge - { groups: [{ keepId, mediaIds }] }
+// Keeps one photo of each group and deletes the rest. Likes and comments of the
+// deleted copies move to the kept one, as does a caption when it has none.
+export const mergeDuplicates = async (req, res) => {
+    const { groups } = req.body;
+    if (!Array.isArray(groups) || groups.length === 0) return res.status(400).json({ error: "No duplicate groups provided" });
+    if (groups.some(group => !group?.keepId || !Array.isArray(group.mediaIds))) {
+        return res.status(400).json({ error: "Each group needs a keepId and mediaIds" });
+    }
+
+    let deletedCount = 0;
+    const eventIds = new Set();
+    try {
+        for (const { keepId, mediaIds } of groups) {
+            const removeIds = mediaIds.filter(id => id !== keepId);
+            if (removeIds.length === 0) continue;
+
+            const rows = await getHostedMedia([keepId, ...removeIds], req.user);
+            const kept = rows.find(row => row.id === keepId);
+            const removed = rows.filter(row => row.id !== keepId && row.eventId === kept?.eventId);
+            if (!kept || removed.length === 0) continue;
+
+            const ids = removed.map(row => row.id);
+            const placeholders = ids.map(() => '?').join(',');
+            const likes = removed.reduce((sum, row) => sum + (row.likes || 0), 0);
+            const caption = removed.find(row => row.caption)?.caption || null;
+
+            // Someone who liked several of the copies still counts once
+            const repeatLikes = await new Promise((resolve, reject) => {
+                db.get(`SELECT COUNT(*) - COUNT(DISTINCT likerId) AS count FROM media_likes WHERE mediaId IN (?, ${placeholders})`, [keepId, ...ids], (err, row) => {
+                    if (err) reject(err);
+                    else resolve(row.count);
+                });
+            });
+
+            await runStatement(`UPDATE comments SET mediaId = ? WHERE mediaId IN (${placeholders})`, [keepId, ...ids]);
+            await runStatement(`UPDATE OR IGNORE media_likes SET mediaId = ? WHERE mediaId IN (${placeholders})`, [keepId, ...ids]);
+            await runStatement(`UPDATE OR IGNORE media_reactions SET mediaId = ? WHERE mediaId IN (${placeholders})`, [keepId, ...ids]);
+            await runStatement(`UPDATE media SET duplicateOf = ? WHERE duplicateOf IN (${placeholders})`, [keepId, ...ids]);
+            await runStatement(`UPDATE media SET likes = MAX(likes + ?, 0), caption = COALESCE(NULLIF(caption, ''), ?), duplicateOf = NULL WHERE id = ?`,
+                [likes - repeatLikes, caption, keepId]);
+
+            for (const row of removed) {
+                try {
+                    await deleteMediaFiles(row);
+                } catch (e) { }
+            }
+            await releaseStorage(ids);
+            await deleteMediaRecords(ids);
+            // The kept item is now also found by the moved comments and caption
+            await indexMedia(keepId);
+            deletedCount += ids.length;
+            eventIds.add(kept.eventId);
+        }
+
+        for (const eventId of eventIds) await cacheService.invalidateEventMedia(eventId);
+        console.log(`🧹 Merged duplicates, ${deletedCount} copies deleted`);
+        res.json({ success: true, deletedCount });
+    } catch (error) {
+        console.error('Error merging duplicates:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// POST /api/media/duplicates/dismiss - { mediaIds }: the host decided these aren't duplicates
+export const dismissDuplicates = async (req, res) => {
+    const { mediaIds } = req.body;
+    if (!Array.isArray(mediaIds) || mediaIds.length === 0) return res.status(400).json({ error: "No media IDs provided" });
+
+    try {
+        const rows = await getHostedMedia(mediaIds, req.user);
+        if (rows.length > 0) {
+            const ids = rows.map(row => row.id);
+            await runStatement(`UPDATE media SET duplicateOf = NULL WHERE id IN (${ids.map(() => '?').join(',')})`, ids);
+            for (const eventId of new Set(rows.map(row => row.eventId))) await cacheService.invalidateEventMedia(eventId);
+        }
+        res.json({ success: true, dismissedCount: rows.length });
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// The media row with its event, when the requester may see it - sends the error response otherwise
+const getAccessibleMedia = (req, res) => new Promise((resolve) => {
+    db.get("SELECT media.*, events.hostId, events.pin as eventPin FROM media JOIN events ON media.eventId = events.id WHERE media.id = ?",
+        [req.params.id], (err, row) => {
+            if (err) {
+                res.status(500).json({ error: err.message });
+                return resolve(null);
+            }
+            if (!row) {
+                res.status(404).json({ error: "Media not found" });
+                return resolve(null);
+            }
+            if (!canAccessMedia(row, { id: row.eventId, hostId: row.hostId, pin: row.eventPin }, req.user, req.headers['x-event-access'])) {
+                res.status(403).json({ error: "Access denied" });
+                return resolve(null);
+            }
+            resolve(row);
+        });
+});
+
 export const getMediaById = (req, res) => {
     db.get(`
         SELECT
             media.*,
             events.title as eventTitle,
             events.hostId,
+            events.pin as eventPin,
             users.name as hostName,
             users.tier as hostTier
         FROM media
         JOIN events ON media.eventId = events.id
         LEFT JOIN users ON events.hostId = users.id
         WHERE media.id = ?
-    `, [req.params.id], (err, row) => {
+    `, [req.params.id], async (err, row) => {
         if (err) return res.status(500).json({ error: err.message });
         if (!row) return res.status(404).json({ error: "Media not found" });
 
-        // Check privacy permissions
-        if (row.privacy === 'private') {
-            // Allow access if user is the uploader, host, or admin
-            const hasAccess = req.user?.role === 'ADMIN' ||
-                            req.user?.id === row.uploaderId ||
-                            req.user?.id === row.hostId;
-            if (!hasAccess) {
-                return res.status(403).json({ error: "Access denied" });
-            }
+        // Private media: uploader, host or admin. PIN-protected events: the PIN
+        // access token (X-Event-Access), unless the viewer is the host or an admin.
+        const event = { id: row.eventId, hostId: row.hostId, pin: row.eventPin };
+        if (!canAccessMedia(row, event, req.user, req.headers['x-event-access'])) {
+            return res.status(403).json({ error: "Access denied" });
         }
 
         // Format the response
@@ -173,8 +489,18 @@ export const getMediaById = (req, res) => {
             id: row.id,
             eventId: row.eventId,
             type: row.type,
-            url: getPublicUrl(row.url),
-            previewUrl: row.previewUrl ? getPublicUrl(row.previewUrl) : null,
+            ...getMediaUrls(row, requiresSignedUrl(row, event)),
+            duration: row.duration,
+            width: row.width,
+            height: row.height,
+            videoCodec: row.videoCodec,
+            rotation: row.rotation,
+            takenAt: row.takenAt,
+            cameraMake: row.cameraMake,
+            cameraModel: row.cameraModel,
+            lensModel: row.lensModel,
+            latitude: row.latitude,
+            longitude: row.longitude,
             caption: row.caption,
             uploadedAt: row.uploadedAt,
             uploaderName: row.uploaderName,
@@ -183,6 +509,9 @@ export const getMediaById = (req, res) => {
             privacy: row.privacy || 'public',
             isWatermarked: !!row.isWatermarked,
             watermarkText: row.watermarkText,
+            sourceFormat: row.sourceFormat,
+            duplicateOf: row.duplicateOf,
+            reactions: await getReactionCounts(row.id).catch(() => ({})),
             isProcessing: !!row.isProcessing
         };
 
@@ -190,12 +519,95 @@ export const getMediaById = (req, res) => {
     });
 };
 
-export const likeMedia = (req, res) => {
-    // Implementation for liking media
-    // Note: The original code didn't have a specific endpoint logic for this in the snippet provided,
-    // but the route was mentioned. Assuming basic increment.
-    db.run("UPDATE media SET likes = likes + 1 WHERE id = ?", [req.params.id], (err) => {
+// GET /api/media/:id/original - the untouched HEIC/HEIF or RAW file behind a
+// converted image, for the host (or an admin) when the host's tier keeps originals
+export const downloadOriginal = (req, res) => {
+    db.get(`SELECT media.id, media.sourceUrl, events.hostId, users.tier as hostTier, users.role as hostRole
+        FROM media JOIN events ON media.eventId = events.id LEFT JOIN users ON events.hostId = users.id
+        WHERE media.id = ?`, [req.params.id], async (err, row) => {
         if (err) return res.status(500).json({ error: err.message });
-        res.json({ success: true });
+        if (!row || !row.sourceUrl) return res.status(404).json({ error: "Original not found" });
+        if (req.user.role !== 'ADMIN' && req.user.id !== row.hostId) return res.sendStatus(403);
+        if (req.user.role !== 'ADMIN' && !getTierConfig(row.hostTier, row.hostRole).allowOriginalDownloads) {
+            return res.status(403).json({ error: "Original downloads are not included in your plan" });
+        }
+
+        let object;
+        try {
+            object = await getS3Object(row.sourceUrl);
+        } catch (error) {
+            return res.status(404).json({ error: "Original not found" });
+        }
+
+        res.setHeader('Content-Type', object.ContentType || 'application/octet-stream');
+        if (object.ContentLength !== undefined) res.setHeader('Content-Length', object.ContentLength);
+        res.setHeader('Content-Disposition', `attachment; filename="snapify_${row.id}${path.extname(row.sourceUrl)}"`);
+        try {
+            await pipeline(object.Body, res);
+        } catch (error) {
+            if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') console.warn(`⚠️ Original download failed for ${row.id}:`, error.message);
+        }
     });
 };
+
+// PUT /api/media/:id/like - likes the media item, or unlikes it when the
+// requester (signed-in user or X-Guest-Id guest) already liked it.
+// Guests may send { name } to show up in the likes list.
+export const likeMedia = async (req, res) => {
+    const liker = getLiker(req);
+    if (!liker) return res.status(400).json({ error: "Sign in or send a guest id to like media" });
+
+    const row = await getAccessibleMedia(req, res);
+    if (!row) return;
+
+    try {
+        const result = await toggleLike(row.id, liker);
+        await cacheService.invalidateEventMedia(row.eventId);
+        emitForMedia(row, 'new_like', { id: row.id, likes: result.likes });
+        res.json(result);
+    } catch (error) {
+        console.error('Error toggling like:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// PUT /api/media/:id/reaction - { emoji }: reacts, switches to another emoji,
+// or with the requester's current emoji takes the reaction back
+export const reactToMedia = async (req, res) => {
+    const { emoji } = req.body;
+    if (!REACTIONS.includes(emoji)) return res.status(400).json({ error: "Unsupported reaction" });
+    const reactor = getLiker(req);
+    if (!reactor) return res.status(400).json({ error: "Sign in or send a guest id to react" });
+
+    const row = await getAccessibleMedia(req, res);
+    if (!row) return;
+
+    try {
+        const result = await setReaction(row.id, reactor, emoji);
+        await cacheService.invalidateEventMedia(row.eventId);
+        // emoji is only set when a reaction was added, for the live wall's bursts
+        emitForMedia(row, 'new_reaction', { id: row.id, reactions: result.reactions, emoji: result.reaction });
+        res.json(result);
+    } catch (error) {
+        console.error('Error saving reaction:', error);
+        res.status(500).json({ error: error.message });
+    }
+};
+
+// GET /api/media/:id/likes - who liked the media item, latest first
+export const getMediaLikes = async (req, res) => {
+    const row = await getAccessibleMedia(req, res);
+    if (!row) return;
+
+    try {
+        const likerId = getLiker(req)?.likerId;
+        const likers = await getLikers(row.id);
+        res.json(likers.map(liker => ({
+            name: liker.name || 'Guest',
+            likedAt: liker.createdAt,
+            isYou: liker.likerId === likerId
+        })));
+    } catch (error) {
+        res.status(500).json({ error: error.message });
+    }
+};
@@ -0,0 +1,132 @@
+import { pipeline } from 'stream/promises';
+import { db } from '../config/db.js';
+import { getS3Object } from '../services/storage.js';
+import { parseMediaKey, requiresSignedUrl, verifyMediaSignature } from '../services/mediaAccessService.js';
+import { createLocationStripper } from '../services/exifService.js';
+import { requiresSignedAttachment } from '../services/guestbookService.js';
+
+const PUBLIC_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+// Protected media may only be cached by the requesting browser, and must be
+// revalidated (cheaply, via ETag) so revoked access takes effect
+const PRIVATE_CACHE_CONTROL = 'private, no-cache';
+
+// Private uploads and media in PIN-protected events may only be fetched with a
+// valid signature, and get private cache headers. Anything else under events/
+// that isn't a known media item fails closed - only a signature opens it.
+// Photos that may still embed GPS data (kept by an event that has since switched
+// to stripping, or uploaded before stripping existed) have it removed on the way out.
+const getMediaPolicy = (key) => {
+    if (!key.startsWith('events/')) return Promise.resolve({ isProtected: false, stripLocation: false });
+    if (/^events\/[^/]+\/guestbook\//.test(key)) return getGuestbookAttachmentPolicy(key);
+    const parsed = parseMediaKey(key);
+    if (!parsed) return Promise.resolve({ isProtected: true, stripLocation: false });
+
+    return new Promise((resolve, reject) => {
+        db.get(`SELECT m.privacy, m.type, m.url, m.hasLocation, e.pin, e.keepLocation FROM media m JOIN events e ON e.id = m.eventId
+            WHERE m.id = ? AND m.eventId = ?`, [parsed.mediaId, parsed.eventId], (err, row) => {
+            if (err) return reject(err);
+            if (!row) return resolve({ isProtected: true, stripLocation: false });
+            resolve({
+                isProtected: requiresSignedUrl(row, row),
+                stripLocation: row.type === 'image' && row.url === key && !row.keepLocation && row.hasLocation !== 0
+            });
+        });
+    });
+};
+
+// Guestbook photos and voice notes are protected in PIN-protected events and
+// while their entry is pending or hidden
+const getGuestbookAttachmentPolicy = (key) => new Promise((resolve, reject) => {
+    db.get(`SELECT g.status, e.pin FROM guestbook g JOIN events e ON e.id = g.eventId WHERE g.attachmentUrl = ?`, [key], (err, row) => {
+        if (err) return reject(err);
+        resolve({ isProtected: !row || requiresSignedAttachment(row, row), stripLocation: false });
+    });
+});
+
+const parseHttpDate = (value) => {
+    const date = value ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+// The entity tag in an If-None-Match naming just one - that's the one that matched
+const getSingleEntityTag = (value) =>
+    typeof value === 'string' && /^\s*(W\/)?"[^"]*"\s*$/.test(value) ? value.trim() : undefined;
+
+const streamObject = async (key, req, res, { expires, signature } = {}) => {
+    if (!key || typeof key !== 'string') {
+        return res.status(400).send("Missing key");
+    }
+    // Clean originals of watermarked images are never served
+    if (/^events\/[^/]+\/originals\//.test(key)) {
+        return res.status(404).send("Not Found");
+    }
+
+    let policy;
+    try {
+        policy = await getMediaPolicy(key);
+    } catch (error) {
+        console.error(`Media policy lookup failed for ${key}:`, error.message);
+        return res.status(500).send("Internal Server Error");
+    }
+    const { isProtected, stripLocation } = policy;
+    if (isProtected && !verifyMediaSignature(key, expires, signature)) {
+        return res.status(403).send("Forbidden");
+    }
+    res.setHeader('Cache-Control', isProtected ? PRIVATE_CACHE_CONTROL : PUBLIC_CACHE_CONTROL);
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    let object;
+    try {
+        object = await getS3Object(key, {
+            // Stripping needs the file's header, so those photos are always sent whole
+            range: stripLocation ? undefined : req.headers.range,
+            ifNoneMatch: req.headers['if-none-match'],
+            // If-None-Match takes precedence over If-Modified-Since (RFC 9110)
+            ifModifiedSince: req.headers['if-none-match'] ? undefined : parseHttpDate(req.headers['if-modified-since'])
+        });
+    } catch (error) {
+        const status = error.$metadata?.httpStatusCode;
+        if (status === 304) {
+            // A 304 repeats the validators a 200 would have sent (RFC 9110 15.4.5)
+            const headers = error.$response?.headers || {};
+            const etag = headers.etag || getSingleEntityTag(req.headers['if-none-match']);
+            if (etag) res.setHeader('ETag', etag);
+            if (headers['last-modified']) res.setHeader('Last-Modified', headers['last-modified']);
+            return res.status(304).end();
+        }
+        if (status === 416 || error.name === 'InvalidRange') return res.status(416).send("Range Not Satisfiable");
+        return res.status(404).send("Not Found");
+    }
+
+    const { Body, ContentType, ContentLength, ContentRange, ETag, LastModified } = object;
+    if (ContentType) res.setHeader('Content-Type', ContentType);
+    if (ContentLength !== undefined) res.setHeader('Content-Length', ContentLength);
+    if (ETag) res.setHeader('ETag', ETag);
+    if (LastModified) res.setHeader('Last-Modified', LastModified.toUTCString());
+    if (ContentRange) {
+        res.setHeader('Content-Range', ContentRange);
+        res.status(206);
+    }
+
+    if (req.method === 'HEAD') {
+        Body.destroy();
+        return res.end();
+    }
+
+    try {
+        if (stripLocation) await pipeline(Body, createLocationStripper(), res);
+        else await pipeline(Body, res);
+    } catch (error) {
+        // Client went away mid-transfer (e.g. a video seek) - nothing to report
+        if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') console.warn(`⚠️ Media proxy stream failed for ${key}:`, error.message);
+    }
+};
+
+// GET /api/proxy-media?key=...[&exp=...&sig=...]
+export const proxyMedia = (req, res) => streamObject(req.query.key, req, res, { expires: req.query.exp, signature: req.query.sig });
+
+// GET /api/proxy-media/<key> - path-style, so relative URIs in HLS playlists resolve
+export const proxyMediaPath = (req, res) => streamObject(req.params.key.join('/'), req, res);
+
+// GET /api/proxy-media/s/<exp>/<sig>/<key> - signed path-style, for protected HLS streams
+export const proxyMediaSigned = (req, res) => streamObject(req.params.key.join('/'), req, res, { expires: req.params.expires, signature: req.params.signature });
@@ -1,4 +1,5 @@
 import { db } from '../config/db.js';
+import { isAllowedLogoUrl } from '../services/watermarkService.js';
 
 export const getUsers = (req, res) => {
     if (req.user.role !== 'ADMIN') return res.sendStatus(403);
@@ -13,21 +14,30 @@ export const updateUser = (req, res) => {
     const isAdmin = req.user.role === 'ADMIN';
     if (!isSelf && !isAdmin) return res.sendStatus(403);
 
-    const { name, email, studioName, logoUrl, watermarkOpacity, watermarkSize, watermarkPosition, watermarkOffsetX, watermarkOffsetY, role, tier, storageLimitMb } = req.body;
+    const updates = req.body;
+    const allowedFields = ['name', 'email', 'studioName', 'logoUrl', 'watermarkText', 'watermarkOpacity', 'watermarkSize', 'watermarkPosition', 'watermarkOffsetX', 'watermarkOffsetY'];
+    // Account level fields can only be changed by an admin
+    if (isAdmin) allowedFields.push('role', 'tier', 'storageLimitMb');
+    // Logos are drawn into watermarks, so they can't point at other media in storage
+    if (updates.logoUrl && (typeof updates.logoUrl !== 'string' || !isAllowedLogoUrl(updates.logoUrl, req.params.id))) {
+        return res.status(400).json({ error: "Invalid logo" });
+    }
 
     db.get("SELECT tier FROM users WHERE id = ?", [req.params.id], (err, user) => {
         if (err) return res.status(500).json({ error: err.message });
         if (!user) return res.status(404).json({ error: "User not found" });
 
-        // Logic for updating user would go here.
-        // For brevity, assuming full update logic similar to original file.
-        // This is a simplified version for the refactor demonstration.
-        // In a real scenario, we'd map all fields carefully.
+        const fieldsToUpdate = Object.keys(updates).filter(key => allowedFields.includes(key) && updates[key] !== undefined);
+        if (fieldsToUpdate.length === 0) return res.json({ success: true });
 
-        // ... (Update logic)
+        const setClause = fieldsToUpdate.map(field => `${field} = ?`).join(', ');
+        const values = fieldsToUpdate.map(field => updates[field]);
+        values.push(req.params.id);
 
-        // Placeholder response
-        res.json({ success: true });
+        db.run(`UPDATE users SET ${setClause} WHERE id = ?`, values, (err) => {
+            if (err) return res.status(500).json({ error: err.message });
+            res.json({ success: true });
+        });
     });
 };
 
@@ -7,6 +7,13 @@ import { initSocket } from './services/socket.js';
 import { apiGateway } from './services/apiGateway.js';
 import { logger } from './services/loggerService.js';
 import { monitoring } from './services/monitoringService.js';
+import { resumeUploadJobs } from './services/uploadService.js';
+import { syncSearchIndex } from './services/searchService.js';
+import { syncFaceIndex } from './services/faceService.js';
+import { clusterStaleEvents } from './services/faceClusterService.js';
+import { syncQualityScores } from './services/highlightService.js';
+import { resumeHighlightVideos } from './services/highlightVideoService.js';
+import { getS3ObjectBuffer } from './services/storage.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -45,4 +52,19 @@ server.listen(config.PORT, () => {
         redisEnabled: !!process.env.REDIS_HOST,
         sentryEnabled: !!config.SENTRY_DSN
     });
+
+    // Pick up uploads that were still being processed when the server stopped
+    resumeUploadJobs().catch((error) => logger.error('Failed to resume upload jobs', { error: error.message }));
+    // Start over highlight videos that were rendering when the server stopped
+    resumeHighlightVideos().catch((error) => logger.error('Failed to resume highlight videos', { error: error.message }));
+    // Add media uploaded before search existed (or whose indexing failed) to the search index
+    syncSearchIndex().catch((error) => logger.error('Failed to sync search index', { error: error.message }));
+    // Detect faces for Find Me in photos uploaded before it ran on the server,
+    // then group them into people for events with newly indexed photos. Photos
+    // are scored for highlights last, as the score checks their faces' eyes.
+    syncFaceIndex(getS3ObjectBuffer)
+        .then(() => clusterStaleEvents())
+        .catch((error) => logger.error('Failed to sync face index', { error: error.message }))
+        .then(() => syncQualityScores(getS3ObjectBuffer))
+        .catch((error) => logger.error('Failed to sync quality scores', { error: error.message }));
 });
\ No newline at end of file
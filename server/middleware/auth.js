@@ -24,3 +24,42 @@ export const optionalAuth = (req, res, next) => {
         next();
     }
 };
+
+// Browser downloads (<a href>) can't set headers, so those routes take a download
+// token as ?dl= instead - good for one path for two minutes, and signed with its own
+// key so it never works as a login token, even if the URL ends up in a log
+const DOWNLOAD_TOKEN_EXPIRY = '2m';
+const DOWNLOAD_TOKEN_SECRET = `${config.JWT_SECRET}:download`;
+
+export const createDownloadToken = (user, path) => {
+    const { iat, exp, ...claims } = user;
+    return jwt.sign({ ...claims, scope: 'download', path }, DOWNLOAD_TOKEN_SECRET, { expiresIn: DOWNLOAD_TOKEN_EXPIRY });
+};
+
+// The user a ?dl= token was issued to, when it's valid for this request's path
+const readDownloadToken = (req) => {
+    if (typeof req.query.dl !== 'string') return null;
+    try {
+        const { scope, path, iat, exp, ...user } = jwt.verify(req.query.dl, DOWNLOAD_TOKEN_SECRET);
+        return scope === 'download' && path === req.baseUrl + req.path ? user : null;
+    } catch {
+        return null;
+    }
+};
+
+// authenticateToken for download routes - the Authorization header, or a download token
+export const authenticateDownload = (req, res, next) => {
+    if (req.headers['authorization']) return authenticateToken(req, res, next);
+    const user = readDownloadToken(req);
+    if (!user) return res.sendStatus(typeof req.query.dl === 'string' ? 403 : 401);
+    req.user = user;
+    next();
+};
+
+// optionalAuth for download routes
+export const optionalDownloadAuth = (req, res, next) => {
+    if (req.headers['authorization']) return optionalAuth(req, res, next);
+    const user = readDownloadToken(req);
+    if (user) req.user = user;
+    next();
+};
@@ -3,11 +3,20 @@ import rateLimit from 'express-rate-limit';
 export const RateLimitStore = {
     upload: new Map(),
     pin: new Map(),
+    // Keyed by author (user or guest id) rather than IP - guests often share the venue's Wi-Fi
+    comment: new Map(),
+    guestbook: new Map(),
+    // Selfie scans for Find Me, which keep the CPU busy for about a second each
+    findMe: new Map(),
+    // Collages, rendered at print resolution
+    collage: new Map(),
     cleanup: setInterval(() => {
         RateLimitStore.upload.clear();
         const now = Date.now();
-        for (const [key, data] of RateLimitStore.pin.entries()) {
-            if (data.resetTime < now) RateLimitStore.pin.delete(key);
+        for (const store of [RateLimitStore.pin, RateLimitStore.comment, RateLimitStore.guestbook, RateLimitStore.findMe, RateLimitStore.collage]) {
+            for (const [key, data] of store.entries()) {
+                if (data.resetTime < now) store.delete(key);
+            }
         }
     }, 3600000)
 };
@@ -50,6 +59,17 @@ export const aiLimiter = rateLimit({
     validate: { trustProxy: false }
 });
 
+// Media is fetched in many small requests (thumbnails, video ranges, HLS segments),
+// so the media proxy gets its own, much higher ceiling
+export const mediaProxyLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: 600,
+    message: { error: "Too many media requests, please slow down." },
+    standardHeaders: 'draft-7',
+    legacyHeaders: false,
+    validate: { trustProxy: false }
+});
+
 export const uploadLimiter = rateLimit({
     windowMs: 60 * 60 * 1000,
     max: 50,
@@ -4,5 +4,8 @@ import * as adminController from '../controllers/adminController.js';
 const router = express.Router();
 
 router.get('/status', adminController.getAdminStatusEndpoint);
+router.get('/upload-jobs', adminController.getUploadJobs);
+router.post('/upload-jobs/:id/retry', adminController.retryUploadJobEndpoint);
+router.post('/upload-jobs/:id/cancel', adminController.cancelUploadJobEndpoint);
 
 export default router;
@@ -1,6 +1,7 @@
 // Authentication Routes
 import express from 'express';
-import { login, register, googleLogin, logout, refreshToken, validateSession } from '../controllers/authController.js';
+import { login, register, googleLogin, logout, refreshToken, validateSession, issueDownloadToken } from '../controllers/authController.js';
+import { authenticateToken } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -13,5 +14,6 @@ router.post('/refresh', refreshToken);
 // Protected routes
 router.post('/logout', logout);
 router.get('/validate', validateSession);
+router.post('/download-token', authenticateToken, issueDownloadToken);
 
 export default router;
@@ -0,0 +1,13 @@
+import express from 'express';
+import * as commentController from '../controllers/commentController.js';
+import { optionalAuth } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Authors are signed-in users or guests (X-Guest-Id); hosts and admins may delete any comment
+router.get('/', optionalAuth, commentController.getComments);
+router.post('/', optionalAuth, commentController.createComment);
+router.patch('/:id', optionalAuth, commentController.updateComment);
+router.delete('/:id', optionalAuth, commentController.deleteComment);
+
+export default router;
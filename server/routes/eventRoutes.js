@@ -1,15 +1,60 @@
 import express from 'express';
+import multer from 'multer';
 import * as eventController from '../controllers/eventController.js';
-import { authenticateToken } from '../middleware/auth.js';
-import { apiLimiter } from '../middleware/rateLimiter.js';
+import { authenticateToken, authenticateDownload, optionalAuth, optionalDownloadAuth } from '../middleware/auth.js';
+import { apiLimiter, pinRateLimiter } from '../middleware/rateLimiter.js';
+import { MAX_AUDIO_TRACK_BYTES } from '../services/highlightVideoService.js';
+
+// Find Me selfies are read from memory and never stored
+const selfieUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024, files: 1 } });
+
+const acceptSelfie = (req, res, next) => selfieUpload.single('selfie')(req, res, (err) => {
+    if (err) return res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? "Selfie is too large" : err.message });
+    next();
+});
+
+// A highlight video's music track is moved to storage until the render is done
+const audioUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_AUDIO_TRACK_BYTES, files: 1 } });
+
+const acceptAudioTrack = (req, res, next) => audioUpload.single('audio')(req, res, (err) => {
+    if (err) return res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? "Audio track is too large" : err.message });
+    next();
+});
+
+// Photos for a collage straight from the camera, read from memory like selfies
+const collageUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 15 * 1024 * 1024, files: 4 } });
+
+const acceptCollagePhotos = (req, res, next) => collageUpload.array('photos', 4)(req, res, (err) => {
+    if (err) return res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? "Photo is too large" : err.message });
+    next();
+});
 
 const router = express.Router();
 
 router.get('/', apiLimiter, authenticateToken, eventController.getEvents);
-router.get('/:id', apiLimiter, eventController.getEventById); // Public route for shared events
+router.get('/:id', apiLimiter, optionalAuth, eventController.getEventById); // Public route for shared events
+router.get('/:id/media', apiLimiter, optionalAuth, eventController.getEventMedia);
+router.get('/:id/media/search', apiLimiter, optionalAuth, eventController.searchEventMedia);
+router.get('/:id/highlights', apiLimiter, optionalAuth, eventController.getHighlights);
+router.post('/:id/validate-pin', pinRateLimiter, eventController.validatePin);
+router.post('/:id/find-me', apiLimiter, optionalAuth, acceptSelfie, eventController.findMe);
+router.get('/:id/find-me/opt-out', apiLimiter, optionalAuth, eventController.getFindMeOptOut);
+router.post('/:id/find-me/opt-out', apiLimiter, optionalAuth, acceptSelfie, eventController.optOutOfFindMe);
+router.delete('/:id/find-me/opt-out', apiLimiter, optionalAuth, eventController.cancelFindMeOptOut);
+router.get('/:id/people', apiLimiter, authenticateToken, eventController.getPeople);
+router.post('/:id/people/recluster', apiLimiter, authenticateToken, eventController.reclusterPeople);
+router.get('/:id/people/:personId/media', apiLimiter, authenticateToken, eventController.getPersonMedia);
+router.patch('/:id/people/:personId', apiLimiter, authenticateToken, eventController.updatePerson);
+router.post('/:id/people/:personId/merge', apiLimiter, authenticateToken, eventController.mergePeople);
+router.get('/:id/highlight-video', apiLimiter, authenticateToken, eventController.getHighlightVideos);
+router.post('/:id/highlight-video', apiLimiter, authenticateToken, acceptAudioTrack, eventController.createHighlightVideo);
+router.post('/:id/collage', apiLimiter, optionalAuth, acceptCollagePhotos, eventController.createCollage);
+router.get('/:id/export.zip', apiLimiter, optionalDownloadAuth, eventController.exportEventZip);
+router.get('/:id/guestbook.pdf', apiLimiter, authenticateDownload, eventController.exportGuestbookPdf);
 router.post('/', authenticateToken, eventController.createEvent);
 router.put('/:id', authenticateToken, eventController.updateEvent);
 router.delete('/:id', authenticateToken, eventController.deleteEvent);
 router.post('/:id/view', eventController.incrementView);
+router.post('/:id/watermarks/rerender', authenticateToken, eventController.rerenderWatermarks);
 
 export default router;
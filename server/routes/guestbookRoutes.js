@@ -0,0 +1,23 @@
+import express from 'express';
+import multer from 'multer';
+import * as guestbookController from '../controllers/guestbookController.js';
+import { optionalAuth } from '../middleware/auth.js';
+import { MAX_IMAGE_BYTES } from '../services/guestbookService.js';
+
+// Attachments are small (a photo or short voice note) and re-encoded or stored right away
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_IMAGE_BYTES, files: 1 } });
+
+const acceptAttachment = (req, res, next) => upload.single('attachment')(req, res, (err) => {
+    if (err) return res.status(400).json({ error: err.code === 'LIMIT_FILE_SIZE' ? "Attachment is too large" : err.message });
+    next();
+});
+
+const router = express.Router();
+
+// Guests sign too (X-Guest-Id); hosts and admins approve, hide and delete entries
+router.get('/', optionalAuth, guestbookController.getGuestbook);
+router.post('/', optionalAuth, acceptAttachment, guestbookController.createEntry);
+router.patch('/:id', optionalAuth, guestbookController.moderateEntry);
+router.delete('/:id', optionalAuth, guestbookController.deleteEntry);
+
+export default router;
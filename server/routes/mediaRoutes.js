@@ -3,8 +3,9 @@ import multer from 'multer';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import * as mediaController from '../controllers/mediaController.js';
-import { authenticateToken, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, authenticateDownload, optionalAuth } from '../middleware/auth.js';
 import { uploadLimiter, checkRateLimit, RateLimitStore } from '../middleware/rateLimiter.js';
+import { isAllowedUpload } from '../services/resumableUploadService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,11 +23,7 @@ const upload = multer({
     storage: storage,
     // limits: { fileSize: Infinity }, // Unlimited
     fileFilter: (req, file, cb) => {
-        const allowedMimes = [
-            'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
-            'video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo', 'video/webm'
-        ];
-        if (!allowedMimes.includes(file.mimetype)) return cb(new Error('Invalid file type'), false);
+        if (!isAllowedUpload(file.mimetype, file.originalname)) return cb(new Error('Invalid file type'), false);
 
         const clientIP = req.ip || req.connection.remoteAddress;
         if (!checkRateLimit(RateLimitStore.upload, clientIP, 50, 60 * 60 * 1000)) {
@@ -40,9 +37,25 @@ const router = express.Router();
 
 router.post('/', uploadLimiter, optionalAuth, upload.single('file'), mediaController.uploadMedia);
 router.get('/upload/:uploadId/status', optionalAuth, mediaController.getUploadStatus);
+// Resumable (chunked) uploads
+router.post('/uploads', uploadLimiter, optionalAuth, mediaController.startResumableUpload);
+router.get('/uploads/:uploadId', optionalAuth, mediaController.getResumableUpload);
+router.patch('/uploads/:uploadId', optionalAuth, mediaController.uploadChunk);
 router.get('/:id', optionalAuth, mediaController.getMediaById);
 router.delete('/:id', authenticateToken, mediaController.deleteMedia);
 router.post('/bulk-delete', authenticateToken, mediaController.bulkDeleteMedia);
-router.put('/:id/like', mediaController.likeMedia);
+// Host review of near-duplicate uploads
+router.post('/duplicates/merge', authenticateToken, mediaController.mergeDuplicates);
+router.post('/duplicates/dismiss', authenticateToken, mediaController.dismissDuplicates);
+
+// Routes open to guests, mounted ahead of the protected ones
+export const publicRouter = express.Router();
+
+// Likes and reactions toggle per signed-in user or guest id (X-Guest-Id)
+publicRouter.put('/:id/like', optionalAuth, mediaController.likeMedia);
+publicRouter.get('/:id/likes', optionalAuth, mediaController.getMediaLikes);
+publicRouter.put('/:id/reaction', optionalAuth, mediaController.reactToMedia);
+// Plain download link, so it takes a download token (?dl=) instead of the Authorization header
+publicRouter.get('/:id/original', authenticateDownload, mediaController.downloadOriginal);
 
 export default router;
@@ -0,0 +1,50 @@
+import sharp from 'sharp';
+import { COLLAGE_TEMPLATES, PRINT_DPI, getCollageLayout, renderCollage } from '../collageService.js';
+
+const photo = (width, height) => sharp({ create: { width, height, channels: 3, background: '#aa5533' } }).jpeg().toBuffer();
+
+describe('Collage Service', () => {
+    describe('getCollageLayout', () => {
+        test.each(Object.keys(COLLAGE_TEMPLATES))('should fit every %s frame and the caption on the sheet', (template) => {
+            const layout = getCollageLayout(template);
+            expect(layout.frames).toHaveLength(COLLAGE_TEMPLATES[template].photos);
+            for (const box of [...layout.frames, layout.caption]) {
+                expect(box.left).toBeGreaterThanOrEqual(0);
+                expect(box.top).toBeGreaterThanOrEqual(0);
+                expect(box.left + box.width).toBeLessThanOrEqual(layout.width);
+                expect(box.top + box.height).toBeLessThanOrEqual(layout.height);
+            }
+        });
+
+        test('should return null for an unknown template', () => {
+            expect(getCollageLayout('mosaic')).toBeNull();
+        });
+    });
+
+    describe('renderCollage', () => {
+        test('should render a 4x6 grid at print resolution', async () => {
+            const photos = await Promise.all([photo(800, 600), photo(600, 800), photo(500, 500), photo(900, 400)]);
+            const collage = await renderCollage({ template: 'grid', photos, title: 'Summer Party', date: '2026-06-14' });
+            const meta = await sharp(collage).metadata();
+            expect(meta.format).toBe('jpeg');
+            expect(meta.width).toBe(4 * PRINT_DPI);
+            expect(meta.height).toBe(6 * PRINT_DPI);
+            expect(meta.density).toBe(PRINT_DPI);
+        });
+
+        test('should print a strip on 2x6 paper, or twice on 4x6', async () => {
+            const photos = await Promise.all(Array.from({ length: 4 }, () => photo(400, 300)));
+            const narrow = await sharp(await renderCollage({ template: 'strip', photos })).metadata();
+            const wide = await sharp(await renderCollage({ template: 'strip', size: '4x6', photos })).metadata();
+            expect([narrow.width, narrow.height]).toEqual([2 * PRINT_DPI, 6 * PRINT_DPI]);
+            expect([wide.width, wide.height]).toEqual([4 * PRINT_DPI, 6 * PRINT_DPI]);
+        });
+
+        test('should reject unknown templates, missing photos and unsupported sizes', async () => {
+            const one = [await photo(400, 300)];
+            await expect(renderCollage({ template: 'mosaic', photos: one })).rejects.toThrow('Unknown collage template');
+            await expect(renderCollage({ template: 'magazine', photos: one })).rejects.toThrow('This layout needs 3 photos');
+            await expect(renderCollage({ template: 'polaroid', size: '2x6', photos: one })).rejects.toThrow('Unsupported print size');
+        });
+    });
+});
@@ -0,0 +1,29 @@
+import { findMentions, formatComment } from '../commentService.js';
+import { filterProfanity } from '../moderationService.js';
+
+jest.mock('../../config/db.js', () => ({ db: {} }));
+
+describe('Comment Service', () => {
+    test('should find @mentions of known names only, preferring the longest name', () => {
+        const names = ['Ana', 'Ana Maria', 'Emre'];
+        expect(findMentions('@Ana Maria look at @emre!', names)).toEqual(['Ana Maria', 'Emre']);
+        expect(findMentions('@Ana and @Anabel', names)).toEqual(['Ana']);
+        expect(findMentions('@Anabel', names)).toEqual([]);
+        expect(findMentions('email ana@example.com', names)).toEqual([]);
+    });
+
+    test("should tell the viewer which comments are theirs without exposing author ids", () => {
+        const row = { id: 'c1', mediaId: 'm1', eventId: 'e1', senderName: 'Ana', text: 'Hi', authorId: 'guest:abc', mentions: '["Emre"]' };
+        expect(formatComment(row, 'guest:abc')).toMatchObject({ isMine: true, mentions: ['Emre'], parentId: null });
+        expect(formatComment(row, 'guest:other').isMine).toBe(false);
+        expect(formatComment(row)).not.toHaveProperty('authorId');
+    });
+});
+
+describe('Moderation Service', () => {
+    test('should mask whole swear words, ignoring case and diacritics', () => {
+        expect(filterProfanity('What the FUCK, shitake is fine')).toEqual({ text: 'What the F***, shitake is fine', flagged: true });
+        expect(filterProfanity('Ti si pička')).toEqual({ text: 'Ti si p****', flagged: true });
+        expect(filterProfanity('Çok güzel bir gün')).toEqual({ text: 'Çok güzel bir gün', flagged: false });
+    });
+});
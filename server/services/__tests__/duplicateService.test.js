@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { hashFile, computePerceptualHash, hammingDistance, findClosestMatch, DUPLICATE_DISTANCE } from '../duplicateService.js';
+
+const scene = (shapes) => sharp(Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600">
+    <defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="#1e3a8a"/><stop offset="1" stop-color="#fde68a"/></linearGradient></defs>
+    <rect width="800" height="600" fill="url(#sky)"/>${shapes}</svg>`));
+
+const WEDDING = '<circle cx="250" cy="300" r="120" fill="#ffffff"/><rect x="480" y="180" width="160" height="320" fill="#111827"/>';
+const CAKE = '<rect x="100" y="380" width="600" height="180" fill="#be185d"/><circle cx="640" cy="120" r="70" fill="#f97316"/>';
+
+describe('Duplicate Service', () => {
+    test('should count differing bits between hashes', () => {
+        expect(hammingDistance('ffffffffffffffff', 'ffffffffffffffff')).toBe(0);
+        expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+        expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+    });
+
+    test('should match a re-encoded, downscaled copy but not a different photo', async () => {
+        const original = await scene(WEDDING).jpeg({ quality: 95 }).toBuffer();
+        // What a messenger app sends back: smaller, heavily compressed, no metadata
+        const shared = await sharp(original).resize(320).jpeg({ quality: 40 }).toBuffer();
+        const other = await scene(CAKE).jpeg({ quality: 95 }).toBuffer();
+
+        const hash = await computePerceptualHash(original);
+        expect(hash).toMatch(/^[0-9a-f]{16}$/);
+        expect(hammingDistance(hash, await computePerceptualHash(shared))).toBeLessThanOrEqual(DUPLICATE_DISTANCE);
+        expect(hammingDistance(hash, await computePerceptualHash(other))).toBeGreaterThan(DUPLICATE_DISTANCE);
+    });
+
+    test('should hash a photo by how it is displayed, applying the EXIF orientation', async () => {
+        const upright = await scene(WEDDING).jpeg().toBuffer();
+        // Stored sideways with orientation 6, as phone cameras do
+        const sideways = await sharp(upright).rotate(-90).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+
+        expect(hammingDistance(await computePerceptualHash(upright), await computePerceptualHash(sideways))).toBeLessThanOrEqual(DUPLICATE_DISTANCE);
+    });
+
+    test('should pick the closest candidate within the distance, preferring the earlier one', () => {
+        const candidates = [
+            { id: 'far', phash: 'ffffffffffffffff' },
+            { id: 'first', phash: '0000000000000003' },
+            { id: 'second', phash: '0000000000000003' },
+            { id: 'unhashed', phash: null }
+        ];
+
+        expect(findClosestMatch('0000000000000000', candidates).id).toBe('first');
+        expect(findClosestMatch('0000000000000000', candidates, 1)).toBeNull();
+        expect(findClosestMatch('0000000000000000', [])).toBeNull();
+    });
+
+    test('should hash file contents', async () => {
+        const filePath = path.join(os.tmpdir(), `duplicate-test-${Date.now()}.bin`);
+        fs.writeFileSync(filePath, 'snapify');
+        try {
+            expect(await hashFile(filePath)).toBe('3214f203d5652052de83b32c3ac65a10bdef76dd220e1224a547650227d67310');
+        } finally {
+            fs.unlinkSync(filePath);
+        }
+    });
+});
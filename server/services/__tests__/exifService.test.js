@@ -0,0 +1,245 @@
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { parseExifDate, parseExif, readImageExif, normalizeOrientation, toCoarseLocation, stripJpegLocation, stripLocation, createLocationStripper, extractRawPreview, readRawExif, stripSourceLocation } from '../exifService.js';
+
+// 40x20 JPEG shot "on its side" (orientation 6) with camera and capture details
+const createPhoto = (exif = {}) => sharp({ create: { width: 40, height: 20, channels: 3, background: '#336699' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif(exif)
+    .toBuffer();
+
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+// Little-endian TIFF laid out like a camera RAW file: data blocks, then the IFDs.
+// Each IFD is { entries: [[tag, type, value]], next }. A value is a number, a
+// string, rationals ([[numerator, denominator], ...]), { ifd: n } for the offset
+// of the n-th IFD, or { offsetOf: buffer } / { lengthOf: buffer } for a data block.
+const buildTiff = (ifds) => {
+    const blocks = [];
+    let end = 8;
+    const place = (buffer) => {
+        let block = blocks.find(candidate => candidate.buffer === buffer);
+        if (!block) {
+            block = { buffer, offset: end };
+            blocks.push(block);
+            end += buffer.length;
+        }
+        return block.offset;
+    };
+    const encode = (type, value) => {
+        if (type === ASCII) return Buffer.from(`${value}\0`, 'latin1');
+        const buffer = Buffer.alloc(value.length * 8);
+        value.forEach(([numerator, denominator], i) => {
+            buffer.writeUInt32LE(numerator, i * 8);
+            buffer.writeUInt32LE(denominator, i * 8 + 4);
+        });
+        return buffer;
+    };
+
+    const prepared = ifds.map(({ entries }) => entries.map(([tag, type, value]) => {
+        if (value?.offsetOf) place(value.offsetOf);
+        const data = type === ASCII || type === RATIONAL ? encode(type, value) : null;
+        if (data && data.length > 4) place(data);
+        return { tag, type, value, data };
+    }));
+
+    const ifdOffsets = [];
+    for (const entries of prepared) {
+        ifdOffsets.push(end);
+        end += 2 + entries.length * 12 + 4;
+    }
+
+    const tiff = Buffer.alloc(end);
+    tiff.write('II', 0, 'latin1');
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(ifdOffsets[0], 4);
+    for (const { buffer, offset } of blocks) buffer.copy(tiff, offset);
+
+    prepared.forEach((entries, i) => {
+        let at = ifdOffsets[i];
+        tiff.writeUInt16LE(entries.length, at);
+        for (const { tag, type, value, data } of entries) {
+            tiff.writeUInt16LE(tag, at + 2);
+            tiff.writeUInt16LE(type, at + 4);
+            if (data) {
+                tiff.writeUInt32LE(type === ASCII ? data.length : value.length, at + 6);
+                if (data.length > 4) tiff.writeUInt32LE(place(data), at + 10);
+                else data.copy(tiff, at + 10);
+            } else {
+                const number = value?.ifd !== undefined ? ifdOffsets[value.ifd]
+                    : value?.offsetOf ? place(value.offsetOf)
+                    : value?.lengthOf ? value.lengthOf.length
+                    : value;
+                tiff.writeUInt32LE(1, at + 6);
+                if (type === SHORT) tiff.writeUInt16LE(number, at + 10);
+                else tiff.writeUInt32LE(number, at + 10);
+            }
+            at += 12;
+        }
+        const next = ifds[i].next;
+        tiff.writeUInt32LE(next !== undefined ? ifdOffsets[next] : 0, at + 2);
+    });
+    return tiff;
+};
+
+describe('EXIF Service', () => {
+    describe('parseExifDate', () => {
+        test('should keep the wall-clock time and add the offset when recorded', () => {
+            expect(parseExifDate('2026:06:01 18:30:05')).toBe('2026-06-01T18:30:05');
+            expect(parseExifDate('2026:06:01 18:30:05', '+02:00')).toBe('2026-06-01T18:30:05+02:00');
+        });
+
+        test('should ignore blank and malformed dates', () => {
+            expect(parseExifDate('0000:00:00 00:00:00')).toBeNull();
+            expect(parseExifDate('2026:13:01 18:30:05')).toBeNull();
+            expect(parseExifDate('    :  :     :  :  ')).toBeNull();
+            expect(parseExifDate(undefined)).toBeNull();
+        });
+    });
+
+    test('should return empty details for missing or foreign data', () => {
+        const empty = { takenAt: null, cameraMake: null, cameraModel: null, lensModel: null, orientation: null, location: null };
+        expect(parseExif(undefined)).toEqual(empty);
+        expect(parseExif(Buffer.from('not exif at all'))).toEqual(empty);
+    });
+
+    test('should read capture time, camera and displayed size', async () => {
+        const photo = await createPhoto({
+            IFD0: { Make: 'Canon', Model: 'EOS R6' },
+            IFD2: { DateTimeOriginal: '2026:06:01 18:30:05', OffsetTimeOriginal: '+02:00', LensModel: 'RF 35mm F1.8' }
+        });
+
+        expect(await readImageExif(photo)).toEqual({
+            takenAt: '2026-06-01T18:30:05+02:00',
+            cameraMake: 'Canon',
+            cameraModel: 'EOS R6',
+            lensModel: 'RF 35mm F1.8',
+            orientation: 6,
+            location: null,
+            width: 20,
+            height: 40
+        });
+    });
+
+    test('should rotate sideways photos upright, keeping their EXIF, and leave upright ones alone', async () => {
+        const photo = await createPhoto({ IFD0: { Make: 'Canon' } });
+
+        const normalized = await normalizeOrientation(photo, 6);
+        expect(await sharp(normalized).metadata()).toMatchObject({ width: 20, height: 40, format: 'jpeg', orientation: 1 });
+        expect((await readImageExif(normalized)).cameraMake).toBe('Canon');
+
+        expect(await normalizeOrientation(photo, 1)).toBeNull();
+        expect(await normalizeOrientation(photo, null)).toBeNull();
+    });
+
+    describe('location privacy', () => {
+        // Skopje, 41°59'30"N 21°25'54"E
+        const GPS = { GPSLatitudeRef: 'N', GPSLatitude: '41/1 59/1 30/1', GPSLongitudeRef: 'E', GPSLongitude: '21/1 25/1 54/1' };
+
+        test('should read GPS coordinates and round them to about a kilometre', async () => {
+            const { location } = await readImageExif(await createPhoto({ IFD3: GPS }));
+
+            expect(location.latitude).toBeCloseTo(41.99167, 4);
+            expect(location.longitude).toBeCloseTo(21.43167, 4);
+            expect(toCoarseLocation(location)).toEqual({ latitude: 41.99, longitude: 21.43 });
+            expect(toCoarseLocation(null)).toBeNull();
+        });
+
+        test('should strip GPS data from JPEGs losslessly and keep the rest', async () => {
+            const photo = await createPhoto({ IFD0: { Make: 'Canon' }, IFD3: GPS });
+            const stripped = Buffer.from(photo);
+
+            expect(stripJpegLocation(stripped)).toBe(true);
+            expect(stripped.length).toBe(photo.length);
+            expect(await readImageExif(stripped)).toMatchObject({ cameraMake: 'Canon', orientation: 6, location: null });
+            // Nothing left to remove the second time round
+            expect(stripJpegLocation(stripped)).toBe(false);
+        });
+
+        test('should re-encode other formats without their metadata', async () => {
+            const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000' } }).png().withExif({ IFD3: GPS }).toBuffer();
+
+            const stripped = await stripLocation(png);
+
+            expect((await sharp(stripped).metadata()).format).toBe('png');
+            expect((await readImageExif(stripped)).location).toBeNull();
+        });
+
+        test('should strip GPS data from a stream split at arbitrary points', async () => {
+            const photo = await createPhoto({ IFD3: GPS });
+            const chunks = [];
+            for (let i = 0; i < photo.length; i += 7) chunks.push(photo.subarray(i, i + 7));
+
+            const output = [];
+            for await (const chunk of Readable.from(chunks).pipe(createLocationStripper())) output.push(chunk);
+            const result = Buffer.concat(output);
+
+            expect(result.length).toBe(photo.length);
+            expect((await readImageExif(result)).location).toBeNull();
+        });
+    });
+
+    describe('camera RAW', () => {
+        const GPS = [
+            [0x0001, ASCII, 'N'], [0x0002, RATIONAL, [[41, 1], [59, 1], [30, 1]]],
+            [0x0003, ASCII, 'E'], [0x0004, RATIONAL, [[21, 1], [25, 1], [54, 1]]]
+        ];
+
+        // IFD0 with a small thumbnail, a SubIFD with the full-size preview, sensor
+        // data stored as (undecodable) lossless JPEG in the next IFD, EXIF and GPS
+        const createRaw = async () => {
+            const thumbnail = await sharp({ create: { width: 8, height: 4, channels: 3, background: '#000' } }).jpeg().toBuffer();
+            const preview = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#336699' } }).jpeg().toBuffer();
+            const sensorData = Buffer.concat([Buffer.from([0xFF, 0xD8, 0xFF, 0xC3, 0x00, 0x02]), Buffer.alloc(8192)]);
+
+            return buildTiff([
+                {
+                    entries: [
+                        [0x010F, ASCII, 'Canon'], [0x0110, ASCII, 'EOS R6'], [0x0112, SHORT, 6],
+                        [0x014A, LONG, { ifd: 2 }], [0x0201, LONG, { offsetOf: thumbnail }], [0x0202, LONG, { lengthOf: thumbnail }],
+                        [0x8769, LONG, { ifd: 3 }], [0x8825, LONG, { ifd: 4 }]
+                    ],
+                    next: 1
+                },
+                { entries: [[0x0103, SHORT, 6], [0x0111, LONG, { offsetOf: sensorData }], [0x0117, LONG, { lengthOf: sensorData }]] },
+                { entries: [[0x0103, SHORT, 7], [0x0111, LONG, { offsetOf: preview }], [0x0117, LONG, { lengthOf: preview }]] },
+                { entries: [[0x9003, ASCII, '2026:06:01 18:30:05'], [0xA434, ASCII, 'RF 35mm F1.8']] },
+                { entries: GPS }
+            ]);
+        };
+
+        test('should extract the largest decodable preview', async () => {
+            const preview = extractRawPreview(await createRaw());
+
+            expect(await sharp(preview).metadata()).toMatchObject({ format: 'jpeg', width: 40, height: 20 });
+            expect(extractRawPreview(Buffer.from('not a raw file'))).toBeNull();
+        });
+
+        test('should carry the capture details over to a converted copy', async () => {
+            const raw = await createRaw();
+            const converted = await sharp(extractRawPreview(raw)).withExif(readRawExif(raw)).jpeg().toBuffer();
+
+            const details = await readImageExif(converted);
+            expect(details).toMatchObject({ takenAt: '2026-06-01T18:30:05', cameraMake: 'Canon', cameraModel: 'EOS R6', lensModel: 'RF 35mm F1.8' });
+            expect(details.location.latitude).toBeCloseTo(41.99167, 4);
+            expect(parseExif(raw).orientation).toBe(6);
+        });
+
+        test('should strip GPS data from RAW and HEIF originals in place', async () => {
+            const raw = await createRaw();
+            expect(stripSourceLocation(raw)).toBe(true);
+            expect(parseExif(raw)).toMatchObject({ cameraMake: 'Canon', location: null });
+
+            // HEIF keeps a regular EXIF block (with its header) as an item inside the file
+            const exif = buildTiff([{ entries: [[0x8825, LONG, { ifd: 1 }]] }, { entries: GPS }]);
+            const heif = Buffer.concat([Buffer.from('\0\0\0\x18ftypheic'), Buffer.alloc(4), Buffer.from('Exif\0\0'), exif]);
+            expect(stripSourceLocation(heif)).toBe(true);
+            expect(parseExif(heif.subarray(heif.indexOf('Exif')))).toMatchObject({ location: null });
+            expect(stripSourceLocation(heif)).toBe(false);
+        });
+    });
+});
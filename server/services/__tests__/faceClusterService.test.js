@@ -0,0 +1,77 @@
+import { run } from '../../config/db.js';
+import { descriptorToBuffer } from '../faceService.js';
+import { dbscan, findNeighbors, matchPreviousPeople, clusterEventFaces, getEventPeople, mergePeople } from '../faceClusterService.js';
+
+// In-memory database with the tables the cluster service reads
+jest.mock('../../config/db.js');
+
+// Mock socket - no server in tests
+jest.mock('../socket.js', () => ({
+    getIo: () => { throw new Error('Socket.io not initialized'); }
+}));
+
+// A descriptor at `offset` along axis `axis`, so distances are easy to read
+const descriptor = (axis, offset = 1) => {
+    const values = new Float32Array(128);
+    values[axis] = offset;
+    return values;
+};
+
+describe('Face Cluster Service', () => {
+    beforeAll(async () => {
+        await run(`CREATE TABLE events (id TEXT PRIMARY KEY, facesClusteredAt TEXT)`);
+        await run(`CREATE TABLE media (id TEXT PRIMARY KEY, eventId TEXT, previewUrl TEXT, privacy TEXT, width INTEGER, height INTEGER, facesIndexedAt TEXT)`);
+        await run(`CREATE TABLE media_faces (id INTEGER PRIMARY KEY AUTOINCREMENT, mediaId TEXT, eventId TEXT, descriptor BLOB, box TEXT, score REAL, clusterId TEXT)`);
+        await run(`CREATE TABLE face_clusters (id TEXT PRIMARY KEY, eventId TEXT, name TEXT, createdAt TEXT)`);
+        await run("INSERT INTO events (id) VALUES ('evt-1')");
+        // Three photos of person 0, three of person 1 (one also shows person 2, seen only once)
+        const faces = [['a', 0, 0.9], ['b', 0, 0.8], ['c', 0, 0.7], ['d', 1, 0.9], ['e', 1, 0.8], ['f', 1, 0.99], ['f', 2, 0.9]];
+        for (const [mediaId, person, score] of faces) {
+            await run("INSERT OR IGNORE INTO media (id, eventId, previewUrl) VALUES (?, 'evt-1', ?)", [mediaId, `preview-${mediaId}`]);
+            await run("INSERT INTO media_faces (mediaId, eventId, descriptor, box, score) VALUES (?, 'evt-1', ?, ?, ?)",
+                [mediaId, descriptorToBuffer(descriptor(person)), JSON.stringify({ x: 0.1, y: 0.1, width: 0.2, height: 0.2 }), score]);
+        }
+    });
+
+    test('should group faces with enough close neighbours and leave the rest out', async () => {
+        const descriptors = [descriptor(0, 1), descriptor(0, 1.1), descriptor(0, 1.2), descriptor(0, 1.6), descriptor(5)];
+        const neighbors = await findNeighbors(descriptors, 0.45);
+
+        expect(neighbors).toEqual([[1, 2], [0, 2], [0, 1, 3], [2], []]);
+        // The last face is too far from the others; the fourth only joins through the third
+        expect(dbscan(neighbors, 3).map(group => group.sort())).toEqual([[0, 1, 2, 3]]);
+        expect(dbscan(neighbors, 4).map(group => group.sort())).toEqual([[0, 1, 2, 3]]);
+        expect(dbscan(neighbors, 5)).toEqual([]);
+    });
+
+    test('should keep the person most of a group belonged to', () => {
+        const previous = new Map([[1, 'p1'], [2, 'p1'], [3, 'p2'], [4, 'p2']]);
+        expect(matchPreviousPeople([[1, 2, 3], [4, 5], [6]], previous)).toEqual([
+            { personId: 'p1', faceIds: [1, 2, 3] },
+            { personId: 'p2', faceIds: [4, 5] },
+            { personId: null, faceIds: [6] }
+        ]);
+    });
+
+    test('should cluster an event into people, most photographed first', async () => {
+        expect(await clusterEventFaces('evt-1')).toBe(2);
+
+        const people = await getEventPeople('evt-1', media => `/${media.previewUrl}`);
+        expect(people.map(person => person.photoCount)).toEqual([3, 3]);
+        expect(people.map(person => person.cover.mediaId).sort()).toEqual(['a', 'f']);
+        expect(people[0].cover.previewUrl).toBe(`/preview-${people[0].cover.mediaId}`);
+    });
+
+    test('should keep merged people together when clustering again', async () => {
+        const [first, second] = await getEventPeople('evt-1', () => '');
+        await run("UPDATE face_clusters SET name = 'Ana' WHERE id = ?", [second.id]);
+
+        expect(await mergePeople('evt-1', first.id, [second.id])).toBe(true);
+        expect(await mergePeople('evt-1', first.id, ['missing'])).toBe(false);
+        await clusterEventFaces('evt-1');
+
+        const people = await getEventPeople('evt-1', () => '');
+        expect(people).toHaveLength(1);
+        expect(people[0]).toMatchObject({ id: first.id, name: 'Ana', photoCount: 6 });
+    });
+});
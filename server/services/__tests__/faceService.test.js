@@ -0,0 +1,59 @@
+import { run } from '../../config/db.js';
+import { bufferToDescriptor, descriptorToBuffer, eyeAspectRatio, findMatchingMedia, hasOptedOut, optOut, cancelOptOut, rankMatches } from '../faceService.js';
+
+// In-memory database with the tables the face service reads
+jest.mock('../../config/db.js');
+
+// A descriptor at `offset` along the first axis, so distances are easy to read
+const descriptor = (offset) => {
+    const values = new Float32Array(128);
+    values[0] = offset;
+    return values;
+};
+
+describe('Face Service', () => {
+    beforeAll(async () => {
+        await run(`CREATE TABLE media_faces (id INTEGER PRIMARY KEY AUTOINCREMENT, mediaId TEXT, eventId TEXT, descriptor BLOB, box TEXT, score REAL)`);
+        await run(`CREATE TABLE face_opt_outs (id TEXT PRIMARY KEY, eventId TEXT, authorId TEXT, descriptor BLOB, createdAt TEXT)`);
+        const faces = [['a', 'evt-1', 0.1], ['a', 'evt-1', 0.9], ['b', 'evt-1', 0.3], ['c', 'evt-1', 2], ['d', 'evt-2', 0]];
+        for (const [mediaId, eventId, offset] of faces) {
+            await run("INSERT INTO media_faces (mediaId, eventId, descriptor) VALUES (?, ?, ?)", [mediaId, eventId, descriptorToBuffer(descriptor(offset))]);
+        }
+    });
+
+    test('should store descriptors losslessly', () => {
+        const original = Float32Array.from({ length: 128 }, (_, i) => Math.sin(i));
+        expect(bufferToDescriptor(descriptorToBuffer(original))).toEqual(original);
+    });
+
+    test('should rank each photo by its closest face', () => {
+        const faces = [
+            { mediaId: 'a', descriptor: descriptor(0.5) },
+            { mediaId: 'a', descriptor: descriptor(0.1) },
+            { mediaId: 'b', descriptor: descriptor(0.2) },
+            { mediaId: 'c', descriptor: descriptor(0.8) }
+        ];
+        const matches = rankMatches(descriptor(0), faces);
+        expect(matches.map(match => match.mediaId)).toEqual(['a', 'b']);
+        expect(matches[0].distance).toBeCloseTo(0.1);
+    });
+
+    test('should measure how open an eye is from its landmarks', () => {
+        const eye = (lid) => [{ x: 0, y: 0 }, { x: 3, y: -lid }, { x: 7, y: -lid }, { x: 10, y: 0 }, { x: 7, y: lid }, { x: 3, y: lid }];
+        expect(eyeAspectRatio(eye(1.5))).toBeCloseTo(0.3);
+        expect(eyeAspectRatio(eye(0.5))).toBeCloseTo(0.1);
+    });
+
+    test('should only match faces from the same event', async () => {
+        expect((await findMatchingMedia('evt-1', descriptor(0))).map(match => match.mediaId)).toEqual(['a', 'b']);
+    });
+
+    test('should drop the faces of guests who opt out until they cancel', async () => {
+        expect(await optOut('evt-1', 'guest:x', descriptor(0))).toBe(2);
+        expect(await hasOptedOut('evt-1', 'guest:x')).toBe(true);
+        expect((await findMatchingMedia('evt-1', descriptor(0.9))).map(match => match.mediaId)).toEqual(['a']);
+
+        await cancelOptOut('evt-1', 'guest:x');
+        expect(await hasOptedOut('evt-1', 'guest:x')).toBe(false);
+    });
+});
@@ -0,0 +1,33 @@
+import { run } from '../../config/db.js';
+import { getEventGuestbook, requiresSignedAttachment } from '../guestbookService.js';
+
+// In-memory database with the table the guestbook service reads
+jest.mock('../../config/db.js');
+
+const event = { id: 'evt-1', hostId: 'host', pin: null };
+
+describe('Guestbook Service', () => {
+    beforeAll(async () => {
+        await run(`CREATE TABLE guestbook (id TEXT PRIMARY KEY, eventId TEXT, senderName TEXT, message TEXT, createdAt TEXT,
+            status TEXT DEFAULT 'approved', authorId TEXT, userId TEXT, attachmentUrl TEXT, attachmentType TEXT)`);
+        await run(`INSERT INTO guestbook (id, eventId, senderName, message, createdAt, status, authorId, attachmentUrl, attachmentType) VALUES
+            ('old', 'evt-1', 'Ana', 'Legacy entry', '2026-01-01', NULL, NULL, NULL, NULL),
+            ('ok', 'evt-1', 'Bo', 'Congrats!', '2026-01-02', 'approved', 'guest:b', 'events/evt-1/guestbook/ok.jpg', 'image'),
+            ('wait', 'evt-1', 'Cy', 'Hi', '2026-01-03', 'pending', 'guest:c', 'events/evt-1/guestbook/wait.webm', 'audio'),
+            ('gone', 'evt-1', 'Di', 'Spam', '2026-01-04', 'hidden', 'guest:d', NULL, NULL)`);
+    });
+
+    test('should show guests approved entries and their own pending ones', async () => {
+        expect((await getEventGuestbook(event)).map(entry => entry.id)).toEqual(['ok', 'old']);
+        expect((await getEventGuestbook(event, { viewerId: 'guest:c' })).map(entry => entry.id)).toEqual(['wait', 'ok', 'old']);
+        expect((await getEventGuestbook(event, { viewerId: 'guest:d' })).map(entry => entry.id)).toEqual(['ok', 'old']);
+    });
+
+    test('should show hosts every entry, with signed URLs for unapproved attachments', async () => {
+        const entries = await getEventGuestbook(event, { canModerate: true });
+        expect(entries.map(entry => [entry.id, entry.status])).toEqual([['gone', 'hidden'], ['wait', 'pending'], ['ok', 'approved'], ['old', 'approved']]);
+        expect(entries[1].attachmentUrl).toContain('&sig=');
+        expect(entries[2].attachmentUrl).not.toContain('&sig=');
+        expect(requiresSignedAttachment({ status: 'approved' }, { pin: '1234' })).toBe(true);
+    });
+});
@@ -0,0 +1,50 @@
+import sharp from 'sharp';
+import { measureImageQuality, combineQuality, rankHighlights } from '../highlightService.js';
+
+// Mock database - scoring and ranking are tested without one
+jest.mock('../../config/db.js', () => ({ db: {} }));
+
+// A 256px greyscale test image: a checkerboard of `cell` px squares between two levels
+const checkerboard = (cell, dark, light) => {
+    const size = 256;
+    const pixels = Buffer.alloc(size * size);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) pixels[y * size + x] = (Math.floor(x / cell) + Math.floor(y / cell)) % 2 ? light : dark;
+    }
+    return sharp(pixels, { raw: { width: size, height: size, channels: 1 } }).png().toBuffer();
+};
+
+describe('Highlight Service', () => {
+    test('should score blurred and badly exposed photos lower', async () => {
+        const sharpPhoto = await checkerboard(4, 60, 190);
+        const blurred = await sharp(sharpPhoto).blur(6).toBuffer();
+        const dark = await checkerboard(4, 0, 20);
+
+        const quality = await measureImageQuality(sharpPhoto);
+        expect(quality).toEqual({ sharpness: 1, exposure: 1 });
+        expect((await measureImageQuality(blurred)).sharpness).toBeLessThan(0.2);
+        expect((await measureImageQuality(dark)).exposure).toBe(0);
+    });
+
+    test('should take shut eyes off the quality score', () => {
+        const photo = { sharpness: 1, exposure: 1 };
+        expect(combineQuality(photo)).toBeCloseTo(0.9);
+        expect(combineQuality({ ...photo, faces: 2 })).toBeCloseTo(1);
+        expect(combineQuality({ ...photo, faces: 2, closedEyes: 1 })).toBeCloseTo(0.75);
+    });
+
+    test('should rank by quality and engagement, keeping the best shot of a burst', () => {
+        const items = [
+            { id: 'burst-1', qualityScore: 0.9, phash: 'ffffffff00000000', capturedAt: '2026-06-01T20:00:00Z' },
+            { id: 'burst-2', qualityScore: 0.8, phash: 'ffffffff00000001', capturedAt: '2026-06-01T20:00:05Z' },
+            // Same scene, but shot an hour later
+            { id: 'later', qualityScore: 0.7, phash: 'ffffffff00000003', capturedAt: '2026-06-01T21:00:00Z' },
+            { id: 'liked', qualityScore: 0.5, likes: 10, reactions: 5, phash: '00000000ffffffff', capturedAt: '2026-06-01T20:00:00Z' },
+            { id: 'blurry', qualityScore: 0.1, phash: '0f0f0f0f0f0f0f0f', capturedAt: '2026-06-01T20:30:00Z' }
+        ];
+
+        expect(rankHighlights(items).map(item => item.id)).toEqual(['liked', 'burst-1', 'later', 'blurry']);
+        expect(rankHighlights(items, 2).map(item => item.id)).toEqual(['liked', 'burst-1']);
+        expect(rankHighlights(items)[0].highlightScore).toBeCloseTo(0.7);
+    });
+});
@@ -0,0 +1,28 @@
+import { planReel } from '../highlightVideoService.js';
+
+// Mock database, cache and socket - planning is tested without them
+jest.mock('../../config/db.js', () => ({ db: {} }));
+jest.mock('../cacheService.js', () => ({
+    cacheService: { invalidateEventMedia: jest.fn() }
+}));
+jest.mock('../socket.js', () => ({
+    getIo: () => { throw new Error('Socket.io not initialized'); }
+}));
+
+describe('Highlight Video Service', () => {
+    test('should show photos for a fixed time and play clips from their middle', () => {
+        const plan = planReel([
+            { id: 'a', type: 'image' },
+            { id: 'b', type: 'video', duration: 11 },
+            { id: 'c', type: 'video', duration: 3 },
+            { id: 'd', type: 'video', duration: 1.5 },
+            { id: 'e', type: 'video', duration: null }
+        ]);
+
+        expect(plan).toEqual([
+            { mediaId: 'a', type: 'image', duration: 3.5, start: 0 },
+            { mediaId: 'b', type: 'video', duration: 5, start: 3 },
+            { mediaId: 'c', type: 'video', duration: 3, start: 0 }
+        ]);
+    });
+});
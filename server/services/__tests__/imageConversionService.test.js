@@ -0,0 +1,18 @@
+import { getSourceFormat } from '../imageConversionService.js';
+
+describe('Image Conversion Service', () => {
+    test('should recognize HEIC/HEIF by MIME type and RAW files by extension', () => {
+        expect(getSourceFormat('image/heic', 'IMG_0001.HEIC')).toMatchObject({ format: 'heic', extension: '.heic' });
+        expect(getSourceFormat('image/heif', 'photo')).toMatchObject({ format: 'heif' });
+        expect(getSourceFormat('application/octet-stream', 'DSC_0001.NEF')).toMatchObject({ format: 'nef', isRaw: true });
+        expect(getSourceFormat('', 'IMG_0001.cr2')).toMatchObject({ format: 'cr2', mimeTypes: ['image/x-canon-cr2'] });
+        expect(getSourceFormat('image/x-adobe-dng', 'scan.dng')).toMatchObject({ format: 'dng' });
+    });
+
+    test('should leave web-friendly and unknown files alone', () => {
+        expect(getSourceFormat('image/jpeg', 'photo.jpg')).toBeNull();
+        expect(getSourceFormat('application/octet-stream', 'setup.exe')).toBeNull();
+        // A RAW extension doesn't make another declared type acceptable
+        expect(getSourceFormat('application/x-msdownload', 'photo.arw')).toBeNull();
+    });
+});
@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { getVariantWidths, renderImageVariants, listVariantKeys } from '../imageVariantService.js';
+
+describe('Image Variant Service', () => {
+    test('should never upscale, rendering small images at their own width instead', () => {
+        expect(getVariantWidths(4000, [400, 1080, 2048])).toEqual([400, 1080, 2048]);
+        expect(getVariantWidths(1500, [2048, 400, 1080])).toEqual([400, 1080, 1500]);
+        expect(getVariantWidths(1080, [400, 1080, 2048])).toEqual([400, 1080]);
+        expect(getVariantWidths(300, [400, 1080, 2048])).toEqual([300]);
+    });
+
+    test('should render every width in every format under the media item\'s prefix', async () => {
+        // 60x30 stored sideways (orientation 6), i.e. 30 px wide when displayed
+        const photo = await sharp({ create: { width: 60, height: 30, channels: 3, background: '#336699' } })
+            .jpeg()
+            .withMetadata({ orientation: 6 })
+            .toBuffer();
+
+        const { files, variants } = await renderImageVariants(photo, 'evt-1', 'media-1', { widths: [10, 20, 40], formats: ['avif', 'webp', 'jpeg', 'bmp'] });
+
+        expect(variants).toEqual({
+            avif: { 10: 'events/evt-1/variants/media-1/10.avif', 20: 'events/evt-1/variants/media-1/20.avif', 30: 'events/evt-1/variants/media-1/30.avif' },
+            webp: { 10: 'events/evt-1/variants/media-1/10.webp', 20: 'events/evt-1/variants/media-1/20.webp', 30: 'events/evt-1/variants/media-1/30.webp' },
+            jpeg: { 10: 'events/evt-1/variants/media-1/10.jpg', 20: 'events/evt-1/variants/media-1/20.jpg', 30: 'events/evt-1/variants/media-1/30.jpg' }
+        });
+        expect(files).toHaveLength(9);
+
+        const widest = files.find(file => file.key.endsWith('/30.webp'));
+        expect(widest.contentType).toBe('image/webp');
+        // Upright, and without the source's metadata
+        const metadata = await sharp(widest.buffer).metadata();
+        expect(metadata).toMatchObject({ format: 'webp', width: 30, height: 60 });
+        expect(metadata.orientation).toBeUndefined();
+        expect(listVariantKeys(JSON.stringify(variants))).toHaveLength(9);
+    });
+
+    test('should version the keys of re-rendered variants', async () => {
+        const photo = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#000' } }).png().toBuffer();
+
+        const { variants } = await renderImageVariants(photo, 'evt-1', 'media-1', { version: 123, widths: [400], formats: ['jpeg'] });
+
+        expect(variants).toEqual({ jpeg: { 20: 'events/evt-1/variants/media-1/20_v123.jpg' } });
+    });
+});
@@ -0,0 +1,44 @@
+import { wrapText, paginateEntries, buildPdf, getLabels } from '../keepsakeService.js';
+
+// Mock storage - the keepsake loads logos through the watermark service
+jest.mock('../storage.js', () => ({
+    getS3ObjectBuffer: jest.fn()
+}));
+
+describe('Keepsake Service', () => {
+    test('should wrap text between words and keep line breaks', () => {
+        expect(wrapText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+        expect(wrapText('first\nsecond', 20)).toEqual(['first', 'second']);
+        expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+        expect(wrapText('', 10)).toEqual([]);
+    });
+
+    test('should keep entries whole and cut ones taller than a page', () => {
+        const short = () => ({ lines: ['Congrats!'], photo: null });
+        const pages = paginateEntries([short(), { lines: Array(200).fill('line'), photo: { width: 800, height: 900 } }, short()]);
+
+        expect(pages).toHaveLength(3);
+        const [long] = pages[1];
+        expect(long.lines[long.lines.length - 1]).toBe('…');
+        expect(long.photo.scaled).toBe(true);
+        expect(long.photo.height).toBeLessThan(900);
+        expect(paginateEntries(Array.from({ length: 5 }, short))).toHaveLength(1);
+    });
+
+    test('should write a PDF with one page per image and a valid xref', () => {
+        const page = { buffer: Buffer.from([0xff, 0xd8, 0xff, 0xd9]), width: 10, height: 14 };
+        const pdf = buildPdf([page, page]).toString('latin1');
+
+        expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+        expect(pdf).toContain('/Count 2');
+        const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)[1]);
+        expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+        const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+        offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    });
+
+    test('should fall back to English labels', () => {
+        expect(getLabels('xx')).toBe(getLabels('en'));
+        expect(getLabels('mk').locale).toBe('mk-MK');
+    });
+});
@@ -0,0 +1,54 @@
+import { run } from '../../config/db.js';
+import { getLiker, toggleLike, getLikers, getLikedMediaIds } from '../likeService.js';
+
+// In-memory database with the tables the like service reads
+jest.mock('../../config/db.js');
+
+const guest = (id, name = null) => ({ likerId: `guest:${id}`, userId: null, name });
+const user = (id) => ({ likerId: `user:${id}`, userId: id, name: null });
+
+describe('Like Service', () => {
+    beforeAll(async () => {
+        await run("CREATE TABLE users (id TEXT PRIMARY KEY, name TEXT)");
+        await run("CREATE TABLE media (id TEXT PRIMARY KEY, eventId TEXT, likes INTEGER DEFAULT 0)");
+        await run(`CREATE TABLE media_likes (mediaId TEXT, likerId TEXT, userId TEXT, name TEXT, createdAt TEXT,
+            PRIMARY KEY (mediaId, likerId))`);
+        await run("INSERT INTO users (id, name) VALUES ('u1', 'Ana Petrovska')");
+        await run("INSERT INTO media (id, eventId, likes) VALUES ('m1', 'evt-1', 0), ('m2', 'evt-1', 0), ('legacy', 'evt-1', 7), ('m3', 'evt-2', 0)");
+    });
+
+    test('should tell signed-in users and guests apart', () => {
+        expect(getLiker({ user: { id: 'u1' }, headers: { 'x-guest-id': 'a1b2c3d4-0000' } })).toEqual(user('u1'));
+        expect(getLiker({ headers: { 'x-guest-id': 'a1b2c3d4-0000' }, body: { name: '  Ilir  ' } })).toEqual(guest('a1b2c3d4-0000', 'Ilir'));
+        expect(getLiker({ headers: { 'x-guest-id': 'short' } })).toBeNull();
+        expect(getLiker({ headers: {} })).toBeNull();
+    });
+
+    test('should count one like per person and take it back on a second tap', async () => {
+        expect(await toggleLike('m1', guest('guest-0001'))).toEqual({ liked: true, likes: 1 });
+        expect(await toggleLike('m1', user('u1'))).toEqual({ liked: true, likes: 2 });
+        expect(await toggleLike('m1', guest('guest-0001'))).toEqual({ liked: false, likes: 1 });
+        expect(await toggleLike('m1', guest('guest-0001'))).toEqual({ liked: true, likes: 2 });
+    });
+
+    test('should keep counts from before likes were tracked per person', async () => {
+        expect(await toggleLike('legacy', user('u1'))).toEqual({ liked: true, likes: 8 });
+        expect(await toggleLike('legacy', user('u1'))).toEqual({ liked: false, likes: 7 });
+    });
+
+    test('should list who liked an item under their current names', async () => {
+        await toggleLike('m2', guest('guest-0002', 'Elif'));
+        await toggleLike('m2', user('u1'));
+        await run("UPDATE users SET name = 'Ana Nikolova' WHERE id = 'u1'");
+
+        const likers = await getLikers('m2');
+        expect(likers.map(liker => liker.name).sort()).toEqual(['Ana Nikolova', 'Elif']);
+    });
+
+    test("should find the event's media a person liked", async () => {
+        await toggleLike('m3', user('u1'));
+        expect([...await getLikedMediaIds('evt-1', 'user:u1')].sort()).toEqual(['m1', 'm2']);
+        expect([...await getLikedMediaIds('evt-1', 'guest:guest-0002')]).toEqual(['m2']);
+        expect((await getLikedMediaIds('evt-1', undefined)).size).toBe(0);
+    });
+});
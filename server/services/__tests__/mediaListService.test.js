@@ -0,0 +1,79 @@
+import { run } from '../../config/db.js';
+import { listEventMedia, countEventMedia, encodeCursor, decodeCursor } from '../mediaListService.js';
+
+// In-memory database with the media table the list service reads
+jest.mock('../../config/db.js');
+
+const ids = (rows) => rows.map(row => row.id);
+
+// Every page of a listing, following nextCursor
+const listAll = async (options) => {
+    const pages = [];
+    let cursor = null;
+    do {
+        const page = await listEventMedia('evt-1', { ...options, cursor });
+        pages.push(ids(page.rows));
+        cursor = page.nextCursor;
+    } while (cursor);
+    return pages;
+};
+
+describe('Media List Service', () => {
+    beforeAll(async () => {
+        await run(`CREATE TABLE media (id TEXT PRIMARY KEY, eventId TEXT, type TEXT, privacy TEXT, uploaderId TEXT,
+            uploadedAt TEXT, takenAt TEXT)`);
+        const media = [
+            // id, type, privacy, uploaderId, uploadedAt, takenAt
+            ['m1', 'image', 'public', 'guest-a', '2026-06-01T10:00:00Z', '2026-05-31T18:00:00'],
+            ['m2', 'video', 'public', 'guest-b', '2026-06-01T11:00:00Z', null],
+            ['m3', 'image', 'private', 'guest-a', '2026-06-01T12:00:00Z', '2026-05-31T17:00:00'],
+            // Same upload time as m3 - the id breaks the tie
+            ['m4', 'image', null, 'guest-b', '2026-06-01T12:00:00Z', '2026-05-31T19:00:00'],
+            ['m5', 'image', 'public', 'guest-b', '2026-06-01T13:00:00Z', null]
+        ];
+        for (const row of media) {
+            await run("INSERT INTO media (id, eventId, type, privacy, uploaderId, uploadedAt, takenAt) VALUES (?, 'evt-1', ?, ?, ?, ?, ?)", row);
+        }
+        await run("INSERT INTO media (id, eventId, type, uploadedAt) VALUES ('elsewhere', 'evt-2', 'image', '2026-06-01T12:30:00Z')");
+    });
+
+    test('should page newest uploads first without repeating or skipping items', async () => {
+        expect(await listAll({ limit: 2, includePrivate: true })).toEqual([['m5', 'm4'], ['m3', 'm2'], ['m1']]);
+        expect(await listAll({ limit: 10, includePrivate: true })).toEqual([['m5', 'm4', 'm3', 'm2', 'm1']]);
+    });
+
+    test('should page by capture time, oldest first, falling back to the upload time', async () => {
+        expect(await listAll({ sort: 'taken', limit: 2, includePrivate: true })).toEqual([['m3', 'm1'], ['m4', 'm2'], ['m5']]);
+    });
+
+    test('should keep later pages stable when new media arrives', async () => {
+        const first = await listEventMedia('evt-1', { limit: 2, includePrivate: true });
+        await run("INSERT INTO media (id, eventId, type, uploadedAt) VALUES ('m6', 'evt-1', 'image', '2026-06-01T14:00:00Z')");
+        try {
+            const second = await listEventMedia('evt-1', { limit: 2, includePrivate: true, cursor: first.nextCursor });
+            expect(ids(second.rows)).toEqual(['m3', 'm2']);
+        } finally {
+            await run("DELETE FROM media WHERE id = 'm6'");
+        }
+    });
+
+    test('should filter by type, uploader and privacy', async () => {
+        expect(ids((await listEventMedia('evt-1', { type: 'video', includePrivate: true })).rows)).toEqual(['m2']);
+        expect(ids((await listEventMedia('evt-1', { uploaderId: 'guest-a', includePrivate: true })).rows)).toEqual(['m3', 'm1']);
+        expect(ids((await listEventMedia('evt-1', { privacy: 'private', includePrivate: true })).rows)).toEqual(['m3']);
+        expect(await countEventMedia('evt-1', { type: 'image', includePrivate: true })).toBe(4);
+    });
+
+    test('should only list private media for its uploader unless included', async () => {
+        expect(ids((await listEventMedia('evt-1')).rows)).toEqual(['m5', 'm4', 'm2', 'm1']);
+        expect(ids((await listEventMedia('evt-1', { viewerId: 'guest-a' })).rows)).toEqual(['m5', 'm4', 'm3', 'm2', 'm1']);
+        expect(await countEventMedia('evt-1')).toBe(4);
+    });
+
+    test('should reject malformed cursors', () => {
+        expect(decodeCursor(encodeCursor('2026-06-01T12:00:00Z', 'm4'))).toEqual(['2026-06-01T12:00:00Z', 'm4']);
+        expect(decodeCursor('not a cursor')).toBeNull();
+        expect(decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toBeNull();
+        expect(decodeCursor(null)).toBeNull();
+    });
+});
@@ -0,0 +1,36 @@
+import { run } from '../../config/db.js';
+import { setReaction, getReactionCounts, getEventReactions } from '../reactionService.js';
+
+// In-memory database with the tables the reaction service reads
+jest.mock('../../config/db.js');
+
+const guest = (id) => ({ likerId: `guest:${id}`, userId: null, name: null });
+
+describe('Reaction Service', () => {
+    beforeAll(async () => {
+        await run("CREATE TABLE media (id TEXT PRIMARY KEY, eventId TEXT)");
+        await run(`CREATE TABLE media_reactions (mediaId TEXT, reactorId TEXT, userId TEXT, emoji TEXT, createdAt TEXT,
+            PRIMARY KEY (mediaId, reactorId))`);
+        await run("INSERT INTO media (id, eventId) VALUES ('m1', 'evt-1'), ('m2', 'evt-1'), ('m3', 'evt-2')");
+    });
+
+    test('should keep one reaction per person, switching or taking it back', async () => {
+        expect(await setReaction('m1', guest('a'), '😂')).toEqual({ reaction: '😂', reactions: { '😂': 1 } });
+        expect(await setReaction('m1', guest('b'), '😂')).toEqual({ reaction: '😂', reactions: { '😂': 2 } });
+        expect(await setReaction('m1', guest('a'), '🎉')).toEqual({ reaction: '🎉', reactions: { '😂': 1, '🎉': 1 } });
+        expect(await setReaction('m1', guest('a'), '🎉')).toEqual({ reaction: null, reactions: { '😂': 1 } });
+        expect(await getReactionCounts('m2')).toEqual({});
+    });
+
+    test("should aggregate an event's reactions with the viewer's own", async () => {
+        await setReaction('m2', guest('a'), '❤️');
+        await setReaction('m2', guest('b'), '❤️');
+        await setReaction('m3', guest('a'), '😮');
+
+        const reactions = await getEventReactions('evt-1', 'guest:a');
+        expect([...reactions.keys()].sort()).toEqual(['m1', 'm2']);
+        expect(reactions.get('m1')).toEqual({ reactions: { '😂': 1 }, myReaction: null });
+        expect(reactions.get('m2')).toEqual({ reactions: { '❤️': 2 }, myReaction: '❤️' });
+        expect((await getEventReactions('evt-1')).get('m2').myReaction).toBeNull();
+    });
+});
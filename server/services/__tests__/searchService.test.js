@@ -0,0 +1,78 @@
+import { run } from '../../config/db.js';
+import { normalizeSearchText, buildMatchQuery, indexMedia, syncSearchIndex, searchMediaIndex } from '../searchService.js';
+
+// In-memory database with the tables the search service reads
+jest.mock('../../config/db.js');
+
+const addMedia = (id, fields = {}) => run(
+    "INSERT INTO media (id, eventId, caption, uploaderName, privacy, uploaderId, uploadedAt, aiTags) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+    [id, fields.eventId || 'evt-1', fields.caption || null, fields.uploaderName || 'Guest', fields.privacy || 'public',
+        fields.uploaderId || null, fields.uploadedAt || '2026-06-01T12:00:00Z', fields.aiTags || null]
+);
+
+const ids = (rows) => rows.map(row => row.id);
+
+describe('Search Service', () => {
+    beforeAll(async () => {
+        await run(`CREATE TABLE media (id TEXT PRIMARY KEY, eventId TEXT, caption TEXT, uploaderName TEXT, privacy TEXT,
+            uploaderId TEXT, uploadedAt TEXT, aiTags TEXT)`);
+        await run("CREATE TABLE comments (id TEXT PRIMARY KEY, mediaId TEXT, text TEXT)");
+        await run(`CREATE VIRTUAL TABLE media_search USING fts5(mediaId UNINDEXED, eventId UNINDEXED, caption, uploaderName, comments, tags,
+            tokenize = 'unicode61 remove_diacritics 2')`);
+        await run("CREATE TRIGGER media_search_delete AFTER DELETE ON media BEGIN DELETE FROM media_search WHERE mediaId = old.id; END");
+
+        await addMedia('cake', { caption: 'Torta e dasmës 🎂', uploaderName: 'Ardita' });
+        await addMedia('dance', { caption: 'Првиот танц на Ѓорѓи и Марија', uploaderName: 'Ќирил' });
+        await addMedia('bouquet', { caption: 'Gelin çiçeği', uploaderName: 'Işıl', aiTags: '["flowers","bride"]' });
+        await addMedia('secret', { caption: 'Dasma behind the scenes', privacy: 'private', uploaderId: 'user-1' });
+        await addMedia('other-event', { eventId: 'evt-2', caption: 'Dasma' });
+        await run("INSERT INTO comments (id, mediaId, text) VALUES ('c1', 'dance', 'Kakva zabava!'), ('c2', 'cake', 'Shumë e shijshme')");
+        expect(await syncSearchIndex()).toBe(5);
+    });
+
+    test('should fold case and diacritics in Latin and Cyrillic text', () => {
+        expect(normalizeSearchText('Ёлка ЃОРЃИ Ќерка')).toBe('елка горги керка');
+        expect(normalizeSearchText('IŞIK İstanbul ÇİÇEK')).toBe('isik istanbul cicek');
+        expect(normalizeSearchText('Dasmë Ëndërr')).toBe('dasme enderr');
+        expect(normalizeSearchText(null)).toBe('');
+    });
+
+    test('should build a prefix query from the words in the search', () => {
+        expect(buildMatchQuery('Çiçek  dü')).toBe('"cicek"* "du"*');
+        // FTS5 syntax in the input is just punctuation
+        expect(buildMatchQuery('"cake" OR -NEAR(')).toBe('"cake"* "or"* "near"*');
+        expect(buildMatchQuery('  !? ')).toBeNull();
+    });
+
+    test('should find media by caption, uploader, comment or tag without diacritics', async () => {
+        expect(ids(await searchMediaIndex('dasme', { eventId: 'evt-1' }))).toEqual(['cake']);
+        expect(ids(await searchMediaIndex('горги', { eventId: 'evt-1' }))).toEqual(['dance']);
+        expect(ids(await searchMediaIndex('кир', { eventId: 'evt-1' }))).toEqual(['dance']);
+        expect(ids(await searchMediaIndex('cicegi isil', { eventId: 'evt-1' }))).toEqual(['bouquet']);
+        expect(ids(await searchMediaIndex('zabava', { eventId: 'evt-1' }))).toEqual(['dance']);
+        expect(ids(await searchMediaIndex('flow', { eventId: 'evt-1' }))).toEqual(['bouquet']);
+    });
+
+    test('should rank caption matches above comment matches', async () => {
+        await addMedia('toast', { caption: 'Shijshme dolli', uploadedAt: '2026-05-01T12:00:00Z' });
+        await indexMedia('toast');
+
+        expect(ids(await searchMediaIndex('shijshme', { eventId: 'evt-1' }))).toEqual(['toast', 'cake']);
+    });
+
+    test('should only return private media to its uploader or when included', async () => {
+        expect(ids(await searchMediaIndex('dasma', { eventId: 'evt-1' }))).toEqual([]);
+        expect(ids(await searchMediaIndex('dasma', { eventId: 'evt-1', viewerId: 'user-1' }))).toEqual(['secret']);
+        expect(ids(await searchMediaIndex('dasma', { eventId: 'evt-1', includePrivate: true }))).toEqual(['secret']);
+        expect(ids(await searchMediaIndex('dasma'))).toEqual(['other-event']);
+    });
+
+    test('should pick up new comments on reindex and drop deleted media', async () => {
+        await run("INSERT INTO comments (id, mediaId, text) VALUES ('c3', 'bouquet', 'Harika düğün')");
+        await indexMedia('bouquet');
+        expect(ids(await searchMediaIndex('dugun', { eventId: 'evt-1' }))).toEqual(['bouquet']);
+
+        await run("DELETE FROM media WHERE id = 'bouquet'");
+        expect(await searchMediaIndex('dugun', { eventId: 'evt-1' })).toEqual([]);
+    });
+});
@@ -0,0 +1,140 @@
+import { parseProbeOutput, getPosterOffset, selectHlsRenditions, getGopSize, getRenditionSize, buildMasterPlaylist, buildReelArgs, getReelDuration } from '../videoService.js';
+
+describe('Video Service', () => {
+    describe('parseProbeOutput', () => {
+        test('should read duration, size and codec from the video stream', () => {
+            const info = parseProbeOutput({
+                streams: [
+                    { codec_type: 'audio', codec_name: 'aac' },
+                    { codec_type: 'video', codec_name: 'h264', width: 1920, height: 1080, avg_frame_rate: '30000/1001' }
+                ],
+                format: { duration: '12.345678' }
+            });
+            expect(info).toEqual({ duration: 12.346, width: 1920, height: 1080, codec: 'h264', fps: 29.97, rotation: 0, takenAt: null, cameraMake: null, cameraModel: null });
+        });
+
+        test('should read the recording time, preferring the local time Apple devices write', () => {
+            const probe = (tags) => parseProbeOutput({ streams: [{ codec_type: 'video', width: 1920, height: 1080 }], format: { tags } });
+
+            expect(probe({ creation_time: '2026-06-01T16:30:05.000000Z' }).takenAt).toBe('2026-06-01T16:30:05Z');
+            expect(probe({
+                creation_time: '2026-06-01T16:30:05.000000Z',
+                'com.apple.quicktime.creationdate': '2026-06-01T18:30:05+0200',
+                'com.apple.quicktime.make': 'Apple',
+                'com.apple.quicktime.model': 'iPhone 15'
+            })).toMatchObject({ takenAt: '2026-06-01T18:30:05+02:00', cameraMake: 'Apple', cameraModel: 'iPhone 15' });
+            // Cameras without a clock
+            expect(probe({ creation_time: '1970-01-01T00:00:00.000000Z' }).takenAt).toBeNull();
+        });
+
+        test('should report displayed dimensions for rotated phone videos', () => {
+            const tagged = parseProbeOutput({
+                streams: [{ codec_type: 'video', codec_name: 'hevc', width: 1920, height: 1080, tags: { rotate: '90' } }],
+                format: { duration: '3.0' }
+            });
+            expect(tagged).toMatchObject({ width: 1080, height: 1920, rotation: 90 });
+
+            const matrix = parseProbeOutput({
+                streams: [{ codec_type: 'video', codec_name: 'hevc', width: 1920, height: 1080, side_data_list: [{ side_data_type: 'Display Matrix', rotation: -90 }] }],
+                format: {}
+            });
+            expect(matrix).toMatchObject({ width: 1080, height: 1920, rotation: 90, duration: null });
+        });
+
+        test('should leave the frame rate unset when ffprobe reports none', () => {
+            const info = parseProbeOutput({ streams: [{ codec_type: 'video', width: 640, height: 480, avg_frame_rate: '0/0' }], format: {} });
+            expect(info.fps).toBeNull();
+        });
+
+        test('should reject files without a video stream', () => {
+            expect(() => parseProbeOutput({ streams: [{ codec_type: 'audio' }], format: {} })).toThrow('No video stream found');
+        });
+    });
+
+    describe('getPosterOffset', () => {
+        test('should skip the opening of longer clips without passing the middle of short ones', () => {
+            expect(getPosterOffset(null)).toBe(0);
+            expect(getPosterOffset(0.5)).toBe(0.25);
+            expect(getPosterOffset(20)).toBe(2);
+            expect(getPosterOffset(600)).toBe(5);
+        });
+    });
+
+    describe('HLS ladder', () => {
+        test('should not upscale past the source or the tier limit', () => {
+            const names = (info, max) => selectHlsRenditions(info, max).map(r => r.name);
+            expect(names({ width: 3840, height: 2160 }, 2160)).toEqual(['360p', '720p', '1080p', '2160p']);
+            expect(names({ width: 3840, height: 2160 }, 1080)).toEqual(['360p', '720p', '1080p']);
+            expect(names({ width: 1080, height: 1920 }, 2160)).toEqual(['360p', '720p', '1080p']);
+            expect(names({ width: 320, height: 240 }, 1080)).toEqual(['240p']);
+        });
+
+        test('should keep the aspect ratio with even dimensions', () => {
+            expect(getRenditionSize({ width: 1920, height: 1080 }, 360)).toEqual({ width: 640, height: 360 });
+            expect(getRenditionSize({ width: 1080, height: 1920 }, 720)).toEqual({ width: 720, height: 1280 });
+            expect(getRenditionSize({ width: 1440, height: 1080 }, 360)).toEqual({ width: 480, height: 360 });
+        });
+
+        test('should put a keyframe every two seconds at the source frame rate', () => {
+            expect(getGopSize(24)).toBe(48);
+            expect(getGopSize(29.97)).toBe(60);
+            expect(getGopSize(60)).toBe(120);
+            expect(getGopSize(null)).toBe(48);
+        });
+
+        test('should list each rendition in the master playlist', () => {
+            const [low, high] = selectHlsRenditions({ width: 3840, height: 2160 }, 2160).filter(r => r.name === '360p' || r.name === '2160p');
+            const playlist = buildMasterPlaylist([
+                { rendition: low, size: { width: 640, height: 360 } },
+                { rendition: high, size: { width: 3840, height: 2160 } }
+            ]);
+            expect(playlist.split('\n')).toEqual([
+                '#EXTM3U',
+                '#EXT-X-VERSION:3',
+                '#EXT-X-STREAM-INF:BANDWIDTH=896000,RESOLUTION=640x360,CODECS="avc1.640028,mp4a.40.2"',
+                '360p/index.m3u8',
+                '#EXT-X-STREAM-INF:BANDWIDTH=14192000,RESOLUTION=3840x2160,CODECS="avc1.640033,mp4a.40.2"',
+                '2160p/index.m3u8',
+                ''
+            ]);
+        });
+    });
+
+    describe('buildReelArgs', () => {
+        const segments = [
+            { type: 'image', path: '/tmp/a.jpg', duration: 3.5 },
+            { type: 'video', path: '/tmp/b.mp4', duration: 5, start: 2.5 },
+            { type: 'image', path: '/tmp/c.jpg', duration: 3.5 }
+        ];
+        const filterOf = (args) => args[args.indexOf('-filter_complex') + 1];
+
+        test('should crossfade the segments one after another', () => {
+            const args = buildReelArgs(segments, '/tmp/reel.mp4');
+
+            expect(getReelDuration(segments)).toBe(10.5);
+            expect(args.slice(0, 10)).toEqual(['-i', '/tmp/a.jpg', '-ss', '2.5', '-t', '5', '-i', '/tmp/b.mp4', '-i', '/tmp/c.jpg']);
+            expect(filterOf(args)).toContain('zoompan=');
+            expect(filterOf(args)).toContain('[v0][v1]xfade=transition=fade:duration=0.75:offset=2.75[x1]');
+            expect(filterOf(args)).toContain('[x1][v2]xfade=transition=fade:duration=0.75:offset=7[x2]');
+            expect(args).toEqual(expect.arrayContaining(['-map', '[x2]', '-an', '-t', '10.5']));
+            expect(args[args.length - 1]).toBe('/tmp/reel.mp4');
+        });
+
+        test('should add the watermark and fit the track to the reel', () => {
+            const args = buildReelArgs(segments, '/tmp/reel.mp4', { overlayPath: '/tmp/mark.png', audioPath: '/tmp/track.mp3' });
+
+            expect(args).toEqual(expect.arrayContaining(['-i', '/tmp/mark.png', '-stream_loop', '-1', '-map', '[marked]', '-map', '[track]']));
+            expect(filterOf(args)).toContain('[x2][3:v]overlay=0:0');
+            expect(filterOf(args)).toContain('[4:a]atrim=duration=10.5');
+            expect(filterOf(args)).toContain('afade=t=out:st=8.5:d=2');
+            expect(args).not.toContain('-an');
+        });
+
+        test('should render a single photo without transitions', () => {
+            const args = buildReelArgs([segments[0]], '/tmp/reel.mp4');
+            expect(filterOf(args)).not.toContain('xfade');
+            expect(args).toEqual(expect.arrayContaining(['-map', '[v0]']));
+            expect(() => buildReelArgs([], '/tmp/reel.mp4')).toThrow('Nothing to render');
+        });
+    });
+});
@@ -5,6 +5,8 @@ import { authenticateToken } from '../controllers/authController.js';
 import { config } from '../config/env.js';
 import { logger } from './loggerService.js';
 import { monitoring } from './monitoringService.js';
+import { proxyMedia, proxyMediaPath, proxyMediaSigned } from '../controllers/proxyController.js';
+import { mediaProxyLimiter } from '../middleware/rateLimiter.js';
 
 class ApiGateway {
     constructor() {
@@ -26,16 +28,18 @@ class ApiGateway {
         this.app.use('/api/events/:id', cors({
             origin: true, // Allow all origins for shared events
             credentials: false, // No credentials needed for public events
-            methods: ['GET', 'OPTIONS'],
-            allowedHeaders: ['Content-Type']
+            methods: ['GET', 'POST', 'OPTIONS'],
+            allowedHeaders: ['Content-Type', 'Authorization', 'X-Event-Access', 'X-Guest-Id']
         }));
 
         // Standard CORS for other routes
         this.app.use(cors({
             origin: config.ALLOWED_ORIGINS || ['http://localhost:3000', 'http://localhost:5173'],
             credentials: true,
-            methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-            allowedHeaders: ['Content-Type', 'Authorization']
+            methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+            allowedHeaders: ['Content-Type', 'Authorization', 'X-Event-Access', 'X-Guest-Id', 'Range', 'If-None-Match', 'If-Modified-Since'],
+            // Needed by players doing range requests against the media proxy
+            exposedHeaders: ['Content-Range', 'Content-Length', 'Accept-Ranges', 'ETag']
         }));
 
         // Body parsing
@@ -45,6 +49,11 @@ class ApiGateway {
         // Basic rate limiting (simple implementation)
         const requestCounts = new Map();
         this.app.use('/api/', (req, res, next) => {
+            // Chunks belong to an upload session that was already rate limited when created
+            if (req.method === 'PATCH' && req.path.startsWith('/media/uploads/')) return next();
+            // The media proxy has its own, higher limit (mediaProxyLimiter)
+            if (req.method === 'GET' && req.path.startsWith('/proxy-media')) return next();
+
             const ip = req.ip;
             const now = Date.now();
             const windowMs = 15 * 60 * 1000; // 15 minutes
@@ -77,23 +86,11 @@ class ApiGateway {
             });
         });
 
-        // Public proxy endpoint
-        this.app.get('/api/proxy-media', async (req, res) => {
-            const { key } = req.query;
-            if (!key || typeof key !== 'string') {
-                return res.status(400).send("Missing key");
-            }
-
-            try {
-                const { getS3Object } = await import('./storage.js');
-                const { Body, ContentType } = await getS3Object(key);
-                if (ContentType) res.setHeader('Content-Type', ContentType);
-                res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
-                Body.pipe(res);
-            } catch (e) {
-                res.status(404).send("Not Found");
-            }
-        });
+        // Public proxy endpoint (Range, ETag and conditional GET aware)
+        this.app.get('/api/proxy-media', mediaProxyLimiter, proxyMedia);
+        // Path-style variants for HLS - playlists reference their segments by relative URI
+        this.app.get('/api/proxy-media/s/:expires/:signature/*key', mediaProxyLimiter, proxyMediaSigned);
+        this.app.get('/api/proxy-media/*key', mediaProxyLimiter, proxyMediaPath);
 
         // Dynamic route loading
         this.setupDynamicRoutes();
@@ -109,10 +106,19 @@ class ApiGateway {
             const eventRoutes = await import('../routes/eventRoutes.js');
             this.app.use('/api/events', eventRoutes.default);
 
-            // Media routes (protected)
+            // Media routes (protected, except guest likes/reactions and token downloads)
             const mediaRoutes = await import('../routes/mediaRoutes.js');
+            this.app.use('/api/media', mediaRoutes.publicRouter);
             this.app.use('/api/media', authenticateToken, mediaRoutes.default);
 
+            // Comment routes (guests comment too, authorship is checked per comment)
+            const commentRoutes = await import('../routes/commentRoutes.js');
+            this.app.use('/api/comments', commentRoutes.default);
+
+            // Guestbook routes (guests sign too, hosts moderate)
+            const guestbookRoutes = await import('../routes/guestbookRoutes.js');
+            this.app.use('/api/guestbook', guestbookRoutes.default);
+
             // User routes (protected)
             const userRoutes = await import('../routes/userRoutes.js');
             this.app.use('/api/users', authenticateToken, userRoutes.default);
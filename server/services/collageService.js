@@ -0,0 +1,210 @@
+// Collage Service - print-ready photo strips and collages
+// Photos are laid out on a template at 300 DPI, sized for 4x6" or 2x6" photo
+// paper, with the event's title and date and - for hosts whose tier allows
+// branding - their logo. Photos are cropped to their frames around the most
+// interesting part of the picture, so faces stay in.
+
+import sharp from 'sharp';
+
+export const PRINT_DPI = 300;
+
+const inches = (value) => Math.round(value * PRINT_DPI);
+
+// Paper sizes, portrait
+const PRINT_SIZES = {
+    '4x6': { width: inches(4), height: inches(6) },
+    '2x6': { width: inches(2), height: inches(6) }
+};
+
+// Photos each template needs, and the paper it's printed on. A strip can also be
+// printed twice on 4x6 paper, to be cut in two like a photo booth's.
+export const COLLAGE_TEMPLATES = {
+    grid: { photos: 4, sizes: ['4x6'] },
+    strip: { photos: 4, sizes: ['2x6', '4x6'] },
+    polaroid: { photos: 1, sizes: ['4x6'] },
+    magazine: { photos: 3, sizes: ['4x6'] }
+};
+
+const FONT = "Georgia, 'DejaVu Serif', serif";
+const INK = '#1e293b';
+const MUTED = '#64748b';
+// Average glyph width of the bold serif face relative to its size - generous, so titles never overflow
+const CHAR_WIDTH = 0.66;
+
+const LOCALES = { en: 'en-GB', mk: 'mk-MK', tr: 'tr-TR', sq: 'sq-AL' };
+
+const escapeXml = (text) => String(text ?? '').replace(/[<>&'"]/g, (c) => ({
+    '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;'
+}[c]));
+
+const formatDate = (value, lang) => {
+    const date = new Date(value);
+    if (!value || isNaN(date.getTime())) return '';
+    return date.toLocaleDateString(LOCALES[lang] || LOCALES.en, { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+// Largest font size up to `size` at which the text fits `width`
+const fitFontSize = (text, size, width) =>
+    Math.floor(Math.min(size, width / Math.max(1, Array.from(text).length * CHAR_WIDTH)));
+
+// `count` frames of equal size stacked in a column from `top`
+const column = (left, top, width, height, count, gap) =>
+    Array.from({ length: count }, (_, i) => ({ left, top: top + i * (height + gap), width, height }));
+
+// Where a template's photos and caption go, in pixels of its sheet. The caption
+// stacks the title, date and logo in its box; `light` captions sit on a photo.
+// Frames with a border are matted in white.
+export const getCollageLayout = (template) => {
+    switch (template) {
+        case 'grid': {
+            const { width, height } = PRINT_SIZES['4x6'];
+            const margin = inches(0.15);
+            const gap = inches(0.1);
+            const footer = inches(1);
+            const cellWidth = (width - margin * 2 - gap) / 2;
+            const cellHeight = (height - margin * 2 - footer - gap) / 2;
+            return {
+                width,
+                height,
+                frames: [0, 1].flatMap(row => [0, 1].map(col => ({
+                    left: Math.round(margin + col * (cellWidth + gap)),
+                    top: Math.round(margin + row * (cellHeight + gap)),
+                    width: Math.round(cellWidth),
+                    height: Math.round(cellHeight)
+                }))),
+                caption: { left: margin, top: height - margin - footer, width: width - margin * 2, height: footer, titleSize: 80, dateSize: 40, logoHeight: 90 }
+            };
+        }
+        case 'strip': {
+            const { width, height } = PRINT_SIZES['2x6'];
+            const margin = inches(0.1);
+            const gap = Math.round(inches(0.1) * 2 / 3);
+            const footer = inches(1);
+            const frameHeight = Math.round((height - margin * 2 - footer - gap * 3) / 4);
+            return {
+                width,
+                height,
+                frames: column(margin, margin, width - margin * 2, frameHeight, 4, gap),
+                caption: { left: margin, top: height - margin - footer, width: width - margin * 2, height: footer, titleSize: 48, dateSize: 30, logoHeight: 80 }
+            };
+        }
+        case 'polaroid': {
+            const { width, height } = PRINT_SIZES['4x6'];
+            const margin = inches(0.3);
+            const photoWidth = width - margin * 2;
+            const photoHeight = Math.round(photoWidth * 1.2);
+            const captionTop = margin + photoHeight;
+            return {
+                width,
+                height,
+                frames: [{ left: margin, top: margin, width: photoWidth, height: photoHeight }],
+                caption: { left: margin, top: captionTop, width: photoWidth, height: height - margin - captionTop, titleSize: 84, dateSize: 44, logoHeight: 100 }
+            };
+        }
+        case 'magazine': {
+            // A cover photo across the whole sheet, the title as its masthead and two
+            // more photos inset at the bottom
+            const { width, height } = PRINT_SIZES['4x6'];
+            const margin = inches(0.2);
+            const insetWidth = inches(1.2);
+            const insetHeight = inches(1.5);
+            return {
+                width,
+                height,
+                frames: [
+                    { left: 0, top: 0, width, height },
+                    ...column(margin, height - margin - insetHeight * 2 - inches(0.1), insetWidth, insetHeight, 2, inches(0.1))
+                        .map(frame => ({ ...frame, border: 12 }))
+                ],
+                caption: { left: margin, top: margin, width: width - margin * 2, height: inches(1.3), titleSize: 150, dateSize: 48, logoHeight: 100, light: true }
+            };
+        }
+        default:
+            return null;
+    }
+};
+
+// A photo cropped to its frame, matted when the frame has a border
+const renderFrame = async (input, frame) => {
+    const border = frame.border || 0;
+    const photo = sharp(input)
+        .rotate()
+        .resize(frame.width - border * 2, frame.height - border * 2, { fit: 'cover', position: sharp.strategy.attention });
+    if (border) photo.extend({ top: border, bottom: border, left: border, right: border, background: '#ffffff' });
+    return { input: await photo.jpeg({ quality: 95 }).toBuffer(), left: frame.left, top: frame.top };
+};
+
+// The caption's title and date as an SVG over the whole sheet. The logo goes
+// below them when there's one, so the text moves up to make room.
+const renderCaption = (layout, title, date, hasLogo) => {
+    const { caption } = layout;
+    const titleSize = fitFontSize(title, caption.titleSize, caption.width);
+    const dateSize = date ? caption.dateSize : 0;
+    const textHeight = (title ? titleSize * 1.2 : 0) + dateSize * 1.4;
+    const blockHeight = textHeight + (hasLogo ? caption.logoHeight + caption.dateSize * 0.6 : 0);
+    const top = caption.top + Math.max(0, (caption.height - blockHeight) / 2);
+    const center = caption.left + caption.width / 2;
+    const shadow = caption.light ? ' filter="url(#shadow)"' : '';
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}">
+        <defs><filter id="shadow"><feDropShadow dx="0" dy="3" stdDeviation="6" flood-color="#000000" flood-opacity="0.6"/></filter></defs>
+        ${title ? `<text x="${center}" y="${Math.round(top + titleSize)}" text-anchor="middle" font-family="${FONT}" font-weight="bold"
+            font-size="${titleSize}" fill="${caption.light ? '#ffffff' : INK}"${shadow}>${escapeXml(title)}</text>` : ''}
+        ${date ? `<text x="${center}" y="${Math.round(top + (title ? titleSize * 1.2 : 0) + dateSize * 1.1)}" text-anchor="middle" font-family="${FONT}"
+            font-size="${dateSize}" letter-spacing="2" fill="${caption.light ? '#ffffff' : MUTED}"${shadow}>${escapeXml(date)}</text>` : ''}
+    </svg>`;
+    return { svg: { input: Buffer.from(svg), left: 0, top: 0 }, logoTop: Math.round(top + textHeight + caption.dateSize * 0.6) };
+};
+
+// The logo, scaled into the caption box under the text
+const renderLogo = async (logo, layout, top) => {
+    const { caption } = layout;
+    const { data, info } = await sharp(logo)
+        .resize({ width: Math.round(caption.width / 2), height: caption.logoHeight, fit: 'inside' })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+    return { input: data, left: Math.round(caption.left + (caption.width - info.width) / 2), top };
+};
+
+// Render a collage as a 300 DPI JPEG. `photos` are buffers (or paths) in frame
+// order - a template needing more than are given is an error, extras are left
+// out. `logo` is the host's logo as a buffer, or null.
+export const renderCollage = async ({ template, size = null, photos, title = '', date = null, logo = null, lang = 'en' }) => {
+    const spec = COLLAGE_TEMPLATES[template];
+    if (!spec) throw new Error('Unknown collage template');
+    if (photos.length < spec.photos) throw new Error(`This layout needs ${spec.photos} photos`);
+    const sheet = size || spec.sizes[0];
+    if (!spec.sizes.includes(sheet)) throw new Error('Unsupported print size');
+
+    const layout = getCollageLayout(template);
+    const frames = await Promise.all(layout.frames.map((frame, i) => renderFrame(photos[i], frame)));
+    const { svg, logoTop } = renderCaption(layout, title || '', formatDate(date, lang), !!logo);
+
+    const composites = [...frames, svg];
+    if (logo) {
+        try {
+            composites.push(await renderLogo(logo, layout, logoTop));
+        } catch (error) {
+            console.warn('⚠️ Could not render collage logo:', error.message);
+        }
+    }
+
+    let output = await sharp({ create: { width: layout.width, height: layout.height, channels: 3, background: '#ffffff' } })
+        .composite(composites)
+        .png()
+        .toBuffer();
+
+    // Two strips side by side on the wider sheet
+    const { width, height } = PRINT_SIZES[sheet];
+    if (width !== layout.width) {
+        output = await sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+            .composite([{ input: output, left: 0, top: 0 }, { input: output, left: width - layout.width, top: 0 }])
+            .png()
+            .toBuffer();
+    }
+
+    return sharp(output)
+        .jpeg({ quality: 92 })
+        .withMetadata({ density: PRINT_DPI })
+        .toBuffer();
+};
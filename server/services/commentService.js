@@ -0,0 +1,80 @@
+// Comment Service - threaded media comments
+// Threads are one level deep: a reply to a reply joins the top-level comment's
+// thread. Authors are identified like likes (likeService.getLiker); the raw
+// author id never leaves the server, viewers only learn which comments are theirs.
+
+import { db } from '../config/db.js';
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+// Names the text @mentions, out of `names` (the other commenters and the
+// uploader). Longest names first, so "@Ana Maria" isn't also read as "@Ana".
+export const findMentions = (text, names) => {
+    let remaining = String(text ?? '').toLowerCase();
+    const mentions = [];
+    const candidates = [...new Set(names.filter(Boolean))].sort((a, b) => b.length - a.length);
+    for (const name of candidates) {
+        const tag = `@${name.toLowerCase()}`;
+        const index = remaining.indexOf(tag);
+        // The name has to end at a word boundary - "@Ana" isn't a mention of "An"
+        if (index === -1 || /[\p{L}\p{N}]/u.test(remaining.charAt(index + tag.length))) continue;
+        mentions.push(name);
+        remaining = remaining.split(tag).join(' ');
+    }
+    return mentions;
+};
+
+// Client shape of a comment row, for the viewer with author id viewerId
+export const formatComment = (row, viewerId = null) => {
+    let mentions = [];
+    try {
+        mentions = JSON.parse(row.mentions || '[]');
+    } catch (error) {
+        // Unreadable mentions are left out
+    }
+    return {
+        id: row.id,
+        mediaId: row.mediaId,
+        eventId: row.eventId,
+        parentId: row.parentId || null,
+        senderName: row.senderName,
+        userId: row.userId || null,
+        text: row.text,
+        mentions,
+        createdAt: row.createdAt,
+        editedAt: row.editedAt || null,
+        isMine: !!viewerId && row.authorId === viewerId
+    };
+};
+
+const getRows = (sql, params) => new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+// A media item's comments, oldest first
+export const getMediaComments = async (mediaId, viewerId = null) => {
+    const rows = await getRows("SELECT * FROM comments WHERE mediaId = ? ORDER BY createdAt ASC", [mediaId]);
+    return rows.map(row => formatComment(row, viewerId));
+};
+
+// All comments of an event's media: Map of mediaId -> comments, oldest first
+export const getEventComments = async (eventId, viewerId = null) => {
+    const rows = await getRows(`SELECT comments.* FROM comments JOIN media ON media.id = comments.mediaId
+        WHERE media.eventId = ? ORDER BY comments.createdAt ASC`, [eventId]);
+    const byMedia = new Map();
+    for (const row of rows) {
+        if (!byMedia.has(row.mediaId)) byMedia.set(row.mediaId, []);
+        byMedia.get(row.mediaId).push(formatComment(row, viewerId));
+    }
+    return byMedia;
+};
+
+// Names that can be @mentioned on a media item
+export const getMentionableNames = async (mediaId) => {
+    const rows = await getRows(`SELECT senderName AS name FROM comments WHERE mediaId = ?
+        UNION SELECT uploaderName FROM media WHERE id = ?`, [mediaId, mediaId]);
+    return rows.map(row => row.name).filter(Boolean);
+};
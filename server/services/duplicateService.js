@@ -0,0 +1,87 @@
+// Duplicate Detection Service - spotting the same photo uploaded twice
+// A retried upload is byte-identical, so a content hash catches it. A photo
+// shared back from a messenger app is re-encoded and resized, which only a
+// perceptual hash (pHash) of the downscaled greyscale image survives.
+
+import fs from 'fs';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { pipeline } from 'stream/promises';
+
+// The image is reduced to SAMPLE_SIZE² pixels and its lowest HASH_SIZE²
+// DCT frequencies (the overall structure of the picture) make up the hash
+const SAMPLE_SIZE = 32;
+const HASH_SIZE = 8;
+
+// Hashes at most this many of the 64 bits apart are treated as the same photo
+export const DUPLICATE_DISTANCE = 6;
+
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+    Array.from({ length: SAMPLE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE))));
+
+// SHA-256 of an uploaded file, as hex
+export const hashFile = async (filePath) => {
+    const hash = crypto.createHash('sha256');
+    await pipeline(fs.createReadStream(filePath), hash);
+    return hash.digest('hex');
+};
+
+// 64-bit perceptual hash of an image (path or buffer) as 16 hex characters.
+// The EXIF orientation is applied first so a rotated copy hashes the same.
+export const computePerceptualHash = async (input) => {
+    const { data, info } = await sharp(input)
+        .rotate()
+        .flatten({ background: '#ffffff' })
+        .greyscale()
+        .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const pixel = (x, y) => data[(y * SAMPLE_SIZE + x) * info.channels];
+
+    // Separable 2D DCT, limited to the low frequencies that make up the hash
+    const rows = Array.from({ length: SAMPLE_SIZE }, (_, y) =>
+        COSINES.map(cosines => cosines.reduce((sum, cos, x) => sum + pixel(x, y) * cos, 0)));
+    const coefficients = [];
+    for (let v = 0; v < HASH_SIZE; v++) {
+        for (let u = 0; u < HASH_SIZE; u++) {
+            coefficients.push(COSINES[v].reduce((sum, cos, y) => sum + rows[y][u] * cos, 0));
+        }
+    }
+
+    // Each bit: is the coefficient above the median? The DC term (average
+    // brightness) is left out of the median so exposure changes don't shift it.
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+
+    let hash = 0n;
+    for (const coefficient of coefficients) hash = (hash << 1n) | (coefficient > median ? 1n : 0n);
+    return hash.toString(16).padStart(HASH_SIZE * HASH_SIZE / 4, '0');
+};
+
+// Number of differing bits between two hex hashes
+export const hammingDistance = (a, b) => {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let distance = 0;
+    while (diff) {
+        distance += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return distance;
+};
+
+// The candidate ({ id, phash }) closest to phash within DUPLICATE_DISTANCE, or
+// null. Ties go to the earlier candidate, so pass them oldest first.
+export const findClosestMatch = (phash, candidates, maxDistance = DUPLICATE_DISTANCE) => {
+    let closest = null;
+    let closestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+        if (!candidate.phash) continue;
+        const distance = hammingDistance(phash, candidate.phash);
+        if (distance < closestDistance) {
+            closest = candidate;
+            closestDistance = distance;
+        }
+    }
+    return closest;
+};
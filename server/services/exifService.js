@@ -0,0 +1,422 @@
+// EXIF Service - Capture time, camera, orientation and location of uploaded photos
+// Reads the EXIF block sharp exposes and normalizes orientation on the server,
+// so every client sees photos the right way up without parsing EXIF itself.
+// GPS data is stripped according to the event's location setting. Camera RAW
+// files are TIFF structures too, so their embedded previews are found here.
+
+import sharp from 'sharp';
+import { Transform } from 'stream';
+
+const TAGS = {
+    COMPRESSION: 0x0103,
+    MAKE: 0x010F,
+    MODEL: 0x0110,
+    STRIP_OFFSETS: 0x0111,
+    ORIENTATION: 0x0112,
+    STRIP_BYTE_COUNTS: 0x0117,
+    SUB_IFDS: 0x014A,
+    JPEG_OFFSET: 0x0201,
+    JPEG_LENGTH: 0x0202,
+    EXIF_IFD: 0x8769,
+    GPS_IFD: 0x8825,
+    DATE_TIME_ORIGINAL: 0x9003,
+    OFFSET_TIME_ORIGINAL: 0x9011,
+    LENS_MAKE: 0xA433,
+    LENS_MODEL: 0xA434
+};
+
+const GPS_TAGS = {
+    LATITUDE_REF: 0x0001,
+    LATITUDE: 0x0002,
+    LONGITUDE_REF: 0x0003,
+    LONGITUDE: 0x0004
+};
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+const createReader = (tiff, little) => ({
+    uint16: (at) => little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at),
+    uint32: (at) => little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at)
+});
+
+// Locate the TIFF structure inside an EXIF block (with or without the "Exif\0\0" APP1 prefix)
+const openTiff = (buffer) => {
+    if (!Buffer.isBuffer(buffer) || buffer.length < 8) return null;
+    const tiff = buffer.toString('latin1', 0, 6) === 'Exif\0\0' ? buffer.subarray(6) : buffer;
+    if (tiff.length < 8) return null;
+
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+    const reader = createReader(tiff, byteOrder === 'II');
+    return { tiff, reader, ifd0: reader.uint32(4) };
+};
+
+// Raw entries of one IFD: tag, type, value count and where the value lives
+// (inline in the entry when it fits in 4 bytes, otherwise at an offset)
+const readIfdEntries = (tiff, reader, offset) => {
+    if (!offset || offset + 2 > tiff.length) return [];
+
+    const entries = [];
+    const count = reader.uint16(offset);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > tiff.length) break;
+
+        const type = reader.uint16(entry + 2);
+        const length = reader.uint32(entry + 4);
+        const size = (TYPE_SIZES[type] || 0) * length;
+        entries.push({
+            tag: reader.uint16(entry),
+            type,
+            length,
+            size,
+            valueOffset: size <= 4 ? entry + 8 : reader.uint32(entry + 8)
+        });
+    }
+    return entries;
+};
+
+// One IFD as a Map of tag -> value (ASCII, SHORT, LONG and RATIONAL values only)
+const readIfd = (tiff, reader, offset) => {
+    const values = new Map();
+    for (const { tag, type, length, size, valueOffset } of readIfdEntries(tiff, reader, offset)) {
+        if (valueOffset + size > tiff.length) continue;
+
+        if (type === TYPE_ASCII) {
+            values.set(tag, tiff.toString('latin1', valueOffset, valueOffset + length).replace(/\0+$/, '').trim());
+        } else if (type === TYPE_SHORT) {
+            values.set(tag, reader.uint16(valueOffset));
+        } else if (type === TYPE_LONG) {
+            values.set(tag, reader.uint32(valueOffset));
+        } else if (type === TYPE_RATIONAL) {
+            const rationals = [];
+            for (let i = 0; i < length; i++) {
+                const denominator = reader.uint32(valueOffset + i * 8 + 4);
+                rationals.push(denominator ? reader.uint32(valueOffset + i * 8) / denominator : 0);
+            }
+            values.set(tag, rationals);
+        }
+    }
+    return values;
+};
+
+// Every value of a SHORT, LONG or IFD entry (strip offsets, SubIFD pointers, ...)
+const readIntegers = (tiff, reader, { type, length, valueOffset }) => {
+    const size = type === TYPE_SHORT ? 2 : 4;
+    const values = [];
+    for (let i = 0; i < length && valueOffset + (i + 1) * size <= tiff.length; i++) {
+        values.push(size === 2 ? reader.uint16(valueOffset + i * size) : reader.uint32(valueOffset + i * size));
+    }
+    return values;
+};
+
+// Degrees/minutes/seconds plus N/S or E/W reference to signed decimal degrees
+const toDecimalDegrees = (parts, ref) => {
+    if (!Array.isArray(parts) || parts.length !== 3) return null;
+    const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// "2026:06:01 18:30:05" (+ "+02:00") -> "2026-06-01T18:30:05+02:00".
+// Without an offset the camera's local time is kept as is (no "Z"): it is the
+// wall-clock time at the event, which is what guests expect to see.
+export const parseExifDate = (value, offset) => {
+    const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match || match[1] === '0000') return null;
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    if (+month < 1 || +month > 12 || +day < 1 || +day > 31 || +hours > 23 || +minutes > 59 || +seconds > 59) return null;
+
+    const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${zone}`;
+};
+
+// Parse a raw EXIF block (with or without the "Exif\0\0" APP1 prefix)
+export const parseExif = (buffer) => {
+    const empty = { takenAt: null, cameraMake: null, cameraModel: null, lensModel: null, orientation: null, location: null };
+    const opened = openTiff(buffer);
+    if (!opened) return empty;
+    const { tiff, reader } = opened;
+
+    const ifd0 = readIfd(tiff, reader, opened.ifd0);
+    const exif = ifd0.has(TAGS.EXIF_IFD) ? readIfd(tiff, reader, ifd0.get(TAGS.EXIF_IFD)) : new Map();
+    const gps = ifd0.has(TAGS.GPS_IFD) ? readIfd(tiff, reader, ifd0.get(TAGS.GPS_IFD)) : new Map();
+
+    const latitude = toDecimalDegrees(gps.get(GPS_TAGS.LATITUDE), gps.get(GPS_TAGS.LATITUDE_REF));
+    const longitude = toDecimalDegrees(gps.get(GPS_TAGS.LONGITUDE), gps.get(GPS_TAGS.LONGITUDE_REF));
+    const hasLocation = latitude !== null && longitude !== null && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+        && (latitude !== 0 || longitude !== 0);
+
+    const orientation = ifd0.get(TAGS.ORIENTATION);
+    return {
+        takenAt: parseExifDate(exif.get(TAGS.DATE_TIME_ORIGINAL), exif.get(TAGS.OFFSET_TIME_ORIGINAL)),
+        cameraMake: ifd0.get(TAGS.MAKE) || null,
+        cameraModel: ifd0.get(TAGS.MODEL) || null,
+        lensModel: exif.get(TAGS.LENS_MODEL) || exif.get(TAGS.LENS_MAKE) || null,
+        orientation: orientation >= 1 && orientation <= 8 ? orientation : null,
+        location: hasLocation ? { latitude, longitude } : null
+    };
+};
+
+// EXIF details plus displayed (post-rotation) dimensions of an image
+export const readImageExif = async (input) => {
+    const metadata = await sharp(input).metadata();
+    const details = parseExif(metadata.exif);
+    // Orientations 5-8 are rotated by 90°, so width and height swap on display
+    const swap = (details.orientation || 1) >= 5;
+
+    return {
+        ...details,
+        width: (swap ? metadata.height : metadata.width) ?? null,
+        height: (swap ? metadata.width : metadata.height) ?? null
+    };
+};
+
+// Bake the EXIF orientation into the pixels. Returns null when the image is
+// already upright, so the untouched file can be stored.
+export const normalizeOrientation = async (input, orientation) => {
+    if (!orientation || orientation === 1) return null;
+    // force: false keeps the input format and only applies the quality to JPEGs.
+    // The remaining EXIF (capture time, camera, location) is carried over.
+    return sharp(input).rotate().keepExif().jpeg({ quality: 92, force: false }).toBuffer();
+};
+
+// --- Location privacy ---
+
+// Two decimals is roughly 1 km: enough to place a photo at the venue, not at a guest's home
+export const toCoarseLocation = (location) => location ? {
+    latitude: Math.round(location.latitude * 100) / 100,
+    longitude: Math.round(location.longitude * 100) / 100
+} : null;
+
+// Longest JPEG header (SOI + APPn segments) looked at when stripping a stream
+const MAX_JPEG_HEADER_BYTES = 1024 * 1024;
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+// Blank the GPS IFD of an EXIF block in place. Everything is zeroed rather
+// than removed, so the file keeps its length and all other bytes.
+const blankGpsIfd = (segment) => {
+    const opened = openTiff(segment);
+    if (!opened) return false;
+    const { tiff, reader } = opened;
+
+    const pointer = readIfdEntries(tiff, reader, opened.ifd0).find(entry => entry.tag === TAGS.GPS_IFD);
+    if (!pointer || pointer.valueOffset + 4 > tiff.length) return false;
+    const gpsOffset = reader.uint32(pointer.valueOffset);
+
+    const entries = readIfdEntries(tiff, reader, gpsOffset);
+    if (entries.length === 0) return false;
+
+    for (const { size, valueOffset } of entries) {
+        if (size > 4 && valueOffset + size <= tiff.length) tiff.fill(0, valueOffset, valueOffset + size);
+    }
+    // Entry count, entries and next-IFD pointer: an empty GPS IFD
+    tiff.fill(0, gpsOffset, Math.min(gpsOffset + 2 + entries.length * 12 + 4, tiff.length));
+    return true;
+};
+
+// Replace GPS properties in an XMP packet with whitespace of the same length
+const blankXmpLocation = (segment) => {
+    const xmp = segment.toString('latin1');
+    const blanked = xmp
+        .replace(/\sexif:GPS\w+\s*=\s*("[^"]*"|'[^']*')/g, match => ' '.repeat(match.length))
+        .replace(/<exif:GPS(\w+)[^>]*>[\s\S]*?<\/exif:GPS\1>/g, match => ' '.repeat(match.length));
+    if (blanked === xmp) return false;
+    segment.write(blanked, 0, 'latin1');
+    return true;
+};
+
+// Walk the metadata segments at the start of a JPEG. Returns the offset where
+// image data starts, -1 if this isn't a JPEG, or null if more bytes are needed.
+const scanJpegHeader = (buffer, visit = () => {}) => {
+    if (buffer.length < 2) return null;
+    if (buffer[0] !== 0xFF || buffer[1] !== 0xD8) return -1;
+
+    let offset = 2;
+    while (offset + 4 <= buffer.length) {
+        if (buffer[offset] !== 0xFF) return offset;
+        const marker = buffer[offset + 1];
+        if (marker === 0xFF) {
+            offset++;
+            continue;
+        }
+        // Start of scan (or end of image): no metadata beyond this point
+        if (marker === 0xDA || marker === 0xD9) return offset;
+
+        const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+        if (end > buffer.length) return null;
+        visit(marker, buffer.subarray(offset + 4, end));
+        offset = end;
+    }
+    return null;
+};
+
+// Remove GPS data from a JPEG in place, losslessly. Returns whether anything was removed.
+export const stripJpegLocation = (buffer) => {
+    let removed = false;
+    scanJpegHeader(buffer, (marker, segment) => {
+        if (marker !== 0xE1) return;
+        if (segment.toString('latin1', 0, 6) === 'Exif\0\0') removed = blankGpsIfd(segment) || removed;
+        else if (segment.toString('latin1', 0, XMP_HEADER.length) === XMP_HEADER) removed = blankXmpLocation(segment) || removed;
+    });
+    return removed;
+};
+
+// Copy of an image without location data. JPEGs are edited losslessly; other
+// formats are re-encoded, which drops all of their metadata.
+export const stripLocation = async (buffer) => {
+    if (scanJpegHeader(buffer) === -1) return sharp(buffer).keepIccProfile().toBuffer();
+    const copy = Buffer.from(buffer);
+    stripJpegLocation(copy);
+    return copy;
+};
+
+// Transform stream stripping GPS data from a JPEG as it passes through. Only the
+// header is held back; the output has exactly the input's length, so
+// Content-Length stays valid.
+export const createLocationStripper = () => {
+    let head = [];
+    let headLength = 0;
+
+    return new Transform({
+        transform(chunk, encoding, callback) {
+            if (!head) return callback(null, chunk);
+
+            head.push(chunk);
+            headLength += chunk.length;
+            const buffer = Buffer.concat(head);
+            if (scanJpegHeader(buffer) === null && headLength < MAX_JPEG_HEADER_BYTES) {
+                head = [buffer];
+                return callback();
+            }
+
+            head = null;
+            stripJpegLocation(buffer);
+            callback(null, buffer);
+        },
+        flush(callback) {
+            if (head) {
+                const buffer = Buffer.concat(head);
+                stripJpegLocation(buffer);
+                this.push(buffer);
+            }
+            callback();
+        }
+    });
+};
+
+// --- Camera RAW ---
+
+// IFDs followed when looking for previews - guards against loops in broken files
+const MAX_RAW_IFDS = 32;
+
+// Start-of-frame markers; SOF0-SOF2 (baseline, extended, progressive) are the ones
+// sharp decodes. RAW sensor data is often lossless JPEG (SOF3), which it can't.
+const SOF_MARKERS = [0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF];
+
+const isDecodableJpeg = (data) => {
+    let frame = null;
+    scanJpegHeader(data, (marker) => {
+        if (frame === null && SOF_MARKERS.includes(marker)) frame = marker;
+    });
+    return frame !== null && frame <= 0xC2;
+};
+
+// Largest decodable JPEG preview embedded in a TIFF-based RAW file (CR2, NEF,
+// ARW, DNG). Cameras store a full-size preview next to the sensor data - in
+// IFD0, a later IFD or a SubIFD - and it is what the photographer saw on the
+// camera, so it makes a faithful display copy.
+export const extractRawPreview = (buffer) => {
+    const opened = openTiff(buffer);
+    if (!opened) return null;
+    const { tiff, reader } = opened;
+
+    let best = null;
+    const consider = (offset, length) => {
+        if (!offset || !length || offset + length > tiff.length) return;
+        const data = tiff.subarray(offset, offset + length);
+        if ((!best || data.length > best.length) && isDecodableJpeg(data)) best = data;
+    };
+
+    const queue = [opened.ifd0];
+    const visited = new Set();
+    while (queue.length > 0 && visited.size < MAX_RAW_IFDS) {
+        const offset = queue.shift();
+        if (!offset || visited.has(offset) || offset + 2 > tiff.length) continue;
+        visited.add(offset);
+
+        const entries = new Map(readIfdEntries(tiff, reader, offset).map(entry => [entry.tag, entry]));
+        const values = (tag) => entries.has(tag) ? readIntegers(tiff, reader, entries.get(tag)) : [];
+
+        consider(values(TAGS.JPEG_OFFSET)[0], values(TAGS.JPEG_LENGTH)[0]);
+        // Single-strip JPEG-compressed images, e.g. CR2's full-size preview and DNG previews
+        const compression = values(TAGS.COMPRESSION)[0];
+        const strips = values(TAGS.STRIP_OFFSETS);
+        if ((compression === 6 || compression === 7) && strips.length === 1) consider(strips[0], values(TAGS.STRIP_BYTE_COUNTS)[0]);
+
+        queue.push(...values(TAGS.SUB_IFDS));
+        const next = offset + 2 + reader.uint16(offset) * 12;
+        if (next + 4 <= tiff.length) queue.push(reader.uint32(next));
+    }
+    return best ? Buffer.from(best) : null;
+};
+
+// Capture details of a TIFF-based RAW file in the form sharp's withExif() takes,
+// so they carry over to the JPEG made from its preview. The orientation is left
+// out: sharp only writes the one set through withMetadata().
+export const readRawExif = (buffer) => {
+    const opened = openTiff(buffer);
+    if (!opened) return {};
+    const { tiff, reader } = opened;
+
+    const ifd0 = readIfd(tiff, reader, opened.ifd0);
+    const exif = ifd0.has(TAGS.EXIF_IFD) ? readIfd(tiff, reader, ifd0.get(TAGS.EXIF_IFD)) : new Map();
+    const gps = ifd0.has(TAGS.GPS_IFD) ? readIfd(tiff, reader, ifd0.get(TAGS.GPS_IFD)) : new Map();
+
+    const format = (value) => Array.isArray(value)
+        ? value.map(part => `${Math.round(part * 10000)}/10000`).join(' ')
+        : String(value);
+    const pick = (ifd, tags) => {
+        const values = {};
+        for (const [name, tag] of Object.entries(tags)) {
+            if (ifd.has(tag) && ifd.get(tag) !== '') values[name] = format(ifd.get(tag));
+        }
+        return values;
+    };
+
+    return {
+        IFD0: pick(ifd0, { Make: TAGS.MAKE, Model: TAGS.MODEL }),
+        IFD2: pick(exif, {
+            DateTimeOriginal: TAGS.DATE_TIME_ORIGINAL,
+            OffsetTimeOriginal: TAGS.OFFSET_TIME_ORIGINAL,
+            LensMake: TAGS.LENS_MAKE,
+            LensModel: TAGS.LENS_MODEL
+        }),
+        IFD3: pick(gps, {
+            GPSLatitudeRef: GPS_TAGS.LATITUDE_REF,
+            GPSLatitude: GPS_TAGS.LATITUDE,
+            GPSLongitudeRef: GPS_TAGS.LONGITUDE_REF,
+            GPSLongitude: GPS_TAGS.LONGITUDE
+        })
+    };
+};
+
+// Remove GPS data in place from an untouched HEIC/HEIF or RAW upload. RAW files
+// are TIFF structures themselves; HEIF files carry a regular EXIF block as an
+// item, found by its header. Returns whether anything was removed.
+export const stripSourceLocation = (buffer) => {
+    if (openTiff(buffer)) return blankGpsIfd(buffer);
+
+    let removed = false;
+    for (let at = buffer.indexOf('Exif\0\0'); at !== -1; at = buffer.indexOf('Exif\0\0', at + 6)) {
+        removed = blankGpsIfd(buffer.subarray(at)) || removed;
+    }
+    return removed;
+};
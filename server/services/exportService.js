@@ -0,0 +1,93 @@
+// Export Service - Streams event media from S3 into a ZIP archive
+// Objects are fetched one at a time so memory stays flat regardless of event size
+
+import path from 'path';
+import { pipeline } from 'stream';
+import archiver from 'archiver';
+import { getS3Object, getS3ObjectBuffer } from './storage.js';
+import { renderWatermark } from './watermarkService.js';
+import { createLocationStripper } from './exifService.js';
+
+// Wait until archiver has consumed the current entry before opening the next S3 object.
+// Also settles when the client disconnects, since the entry may then never complete.
+const waitForEntry = (archive, output) => new Promise((resolve, reject) => {
+    const cleanup = () => {
+        archive.off('entry', onDone);
+        archive.off('error', onError);
+        output.off('close', onDone);
+    };
+    const onDone = () => {
+        cleanup();
+        resolve();
+    };
+    const onError = (err) => {
+        cleanup();
+        reject(err);
+    };
+    archive.on('entry', onDone);
+    archive.on('error', onError);
+    output.on('close', onDone);
+});
+
+// Watermarked images are re-encoded, so they always get a .jpg name
+const getEntryName = (folderName, item, isWatermarked) => {
+    const ext = isWatermarked ? '.jpg' : (path.extname(item.url) || (item.type === 'video' ? '.mp4' : '.jpg'));
+    return `${folderName}/${item.id}${ext}`;
+};
+
+// Stream the given media rows into `output` as a ZIP.
+// `watermark` (optional) is applied to images only. With `stripLocation`, photos
+// that may still embed GPS data have it removed. Resolves with the number of
+// files written, or null if the client disconnected first.
+export const streamMediaArchive = async (output, mediaItems, { folderName, watermark = null, stripLocation = false } = {}) => {
+    const archive = archiver('zip', { zlib: { level: 0 } }); // Photos and videos are already compressed
+    let aborted = false;
+    let written = 0;
+
+    output.on('close', () => {
+        if (!output.writableFinished) {
+            aborted = true;
+            archive.abort();
+        }
+    });
+    archive.on('warning', (err) => console.warn('⚠️ ZIP export warning:', err.message));
+    archive.pipe(output);
+
+    for (const item of mediaItems) {
+        if (aborted) break;
+        const applyWatermark = !!watermark && item.type === 'image';
+        const name = getEntryName(folderName, item, applyWatermark);
+
+        let content;
+        try {
+            if (applyWatermark) {
+                content = await renderWatermark(await getS3ObjectBuffer(item.url), watermark);
+            } else {
+                content = (await getS3Object(item.url)).Body;
+                if (stripLocation && item.type === 'image' && item.hasLocation !== 0) {
+                    content = pipeline(content, createLocationStripper(), () => {});
+                }
+            }
+        } catch (error) {
+            // Skip missing/broken objects rather than failing the whole archive
+            console.warn(`⚠️ Skipping ${item.id} in ZIP export:`, error.message);
+            continue;
+        }
+
+        if (aborted) {
+            if (typeof content.destroy === 'function') content.destroy();
+            break;
+        }
+        archive.append(content, { name });
+        await waitForEntry(archive, output);
+        written++;
+    }
+
+    if (aborted) {
+        console.log('🛑 ZIP export aborted by client');
+        return null;
+    }
+
+    await archive.finalize();
+    return written;
+};
@@ -0,0 +1,233 @@
+// Face Cluster Service - "people" albums built from the Find Me face index
+// An event's face descriptors are grouped with DBSCAN: faces within CLUSTER_DISTANCE
+// of each other chain into one person, and faces without enough close neighbours
+// stay unassigned. Clustering runs in the background a little while after
+// uploads stop, and again whenever there are newly indexed photos. Each new group
+// keeps the id (and the host's name) of the person most of its faces belonged to
+// before, so renames and merges survive re-clustering.
+
+import crypto from 'crypto';
+import { db } from '../config/db.js';
+import { bufferToDescriptor } from './faceService.js';
+import { getIo } from './socket.js';
+
+// Tighter than Find Me's match distance - single-link chaining would
+// otherwise join look-alikes into one person through the faces between them
+export const CLUSTER_DISTANCE = 0.45;
+// A face needs this many faces (itself included) within CLUSTER_DISTANCE to start a person
+export const MIN_CLUSTER_FACES = 3;
+
+// Uploads tend to arrive in bursts, so clustering waits for a quiet moment
+const CLUSTER_DELAY_MS = 2 * 60 * 1000;
+// Rows of the distance matrix computed between yields to the event loop
+const ROWS_PER_TICK = 200;
+
+const all = (sql, params = []) => new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+    });
+});
+
+// For each descriptor, the indexes of the others within maxDistance. Large
+// events have thousands of faces, so the work is spread over event loop ticks.
+export const findNeighbors = async (descriptors, maxDistance = CLUSTER_DISTANCE) => {
+    const limit = maxDistance * maxDistance;
+    const neighbors = descriptors.map(() => []);
+    for (let i = 0; i < descriptors.length; i++) {
+        const a = descriptors[i];
+        for (let j = i + 1; j < descriptors.length; j++) {
+            const b = descriptors[j];
+            let sum = 0;
+            for (let k = 0; k < a.length && sum <= limit; k++) sum += (a[k] - b[k]) ** 2;
+            if (sum <= limit) {
+                neighbors[i].push(j);
+                neighbors[j].push(i);
+            }
+        }
+        if (i % ROWS_PER_TICK === ROWS_PER_TICK - 1) await new Promise(resolve => setImmediate(resolve));
+    }
+    return neighbors;
+};
+
+// DBSCAN over precomputed neighbour lists: groups of indexes, noise left out
+export const dbscan = (neighbors, minPoints = MIN_CLUSTER_FACES) => {
+    const labels = new Array(neighbors.length).fill(-1);
+    const groups = [];
+    for (let i = 0; i < neighbors.length; i++) {
+        if (labels[i] !== -1 || neighbors[i].length + 1 < minPoints) continue;
+        const group = [];
+        const pending = [i];
+        labels[i] = groups.length;
+        while (pending.length) {
+            const point = pending.pop();
+            group.push(point);
+            // Border faces join the group but don't extend it
+            if (neighbors[point].length + 1 < minPoints) continue;
+            for (const neighbor of neighbors[point]) {
+                if (labels[neighbor] !== -1) continue;
+                labels[neighbor] = groups.length;
+                pending.push(neighbor);
+            }
+        }
+        groups.push(group);
+    }
+    return groups;
+};
+
+// Pairs each group of face ids with the person most of its faces were assigned
+// to before (previous: faceId -> personId), or null for a new person. Several
+// groups can keep the same person - that's how a host's merge sticks.
+export const matchPreviousPeople = (groups, previous) => groups.map(faceIds => {
+    const votes = new Map();
+    for (const faceId of faceIds) {
+        const personId = previous.get(faceId);
+        if (personId) votes.set(personId, (votes.get(personId) || 0) + 1);
+    }
+    let personId = null;
+    let best = 0;
+    for (const [candidate, count] of votes) {
+        if (count > best) {
+            personId = candidate;
+            best = count;
+        }
+    }
+    return { personId, faceIds };
+});
+
+const notifyHosts = (eventId) => {
+    try {
+        getIo().to(`${eventId}:hosts`).emit('people_updated', { eventId });
+    } catch (e) { }
+};
+
+const running = new Map();
+
+// Re-clusters an event's faces. Resolves with the number of people found; a
+// call while the event is already being clustered waits for that run.
+export const clusterEventFaces = (eventId) => {
+    if (!running.has(eventId)) {
+        running.set(eventId, runClustering(eventId).finally(() => running.delete(eventId)));
+    }
+    return running.get(eventId);
+};
+
+const runClustering = async (eventId) => {
+    const startedAt = new Date().toISOString();
+    const faces = await all("SELECT id, descriptor, clusterId FROM media_faces WHERE eventId = ? ORDER BY id", [eventId]);
+    const neighbors = await findNeighbors(faces.map(face => bufferToDescriptor(face.descriptor)));
+    const groups = dbscan(neighbors).map(group => group.map(index => faces[index].id));
+    const previous = new Map(faces.filter(face => face.clusterId).map(face => [face.id, face.clusterId]));
+    const people = matchPreviousPeople(groups, previous);
+
+    // A run that fails halfway is set right by the next one
+    await run("UPDATE media_faces SET clusterId = NULL WHERE eventId = ?", [eventId]);
+    for (const person of people) {
+        if (!person.personId) {
+            person.personId = crypto.randomUUID();
+            await run("INSERT INTO face_clusters (id, eventId, name, createdAt) VALUES (?, ?, NULL, ?)", [person.personId, eventId, startedAt]);
+        }
+        await run(`UPDATE media_faces SET clusterId = ? WHERE id IN (${person.faceIds.map(() => '?').join(',')})`, [person.personId, ...person.faceIds]);
+    }
+    await run(`DELETE FROM face_clusters WHERE eventId = ?
+        AND id NOT IN (SELECT DISTINCT clusterId FROM media_faces WHERE eventId = ? AND clusterId IS NOT NULL)`, [eventId, eventId]);
+    await run("UPDATE events SET facesClusteredAt = ? WHERE id = ?", [startedAt, eventId]);
+
+    const count = new Set(people.map(person => person.personId)).size;
+    console.log(`👥 Clustered ${faces.length} faces into ${count} people for event ${eventId}`);
+    notifyHosts(eventId);
+    return count;
+};
+
+const timers = new Map();
+
+// Clusters the event once uploads have been quiet for a while
+export const scheduleEventClustering = (eventId) => {
+    clearTimeout(timers.get(eventId));
+    timers.set(eventId, setTimeout(() => {
+        timers.delete(eventId);
+        clusterEventFaces(eventId).catch((error) => {
+            console.warn(`⚠️ Failed to cluster faces for event ${eventId}:`, error.message);
+        });
+    }, CLUSTER_DELAY_MS));
+};
+
+// Clusters events with photos indexed since their last clustering (uploads
+// from before a restart, or the face index backfill). Resolves with the number of events.
+export const clusterStaleEvents = async () => {
+    const events = await all(`SELECT DISTINCT events.id FROM events JOIN media ON media.eventId = events.id
+        WHERE media.facesIndexedAt IS NOT NULL AND media.facesIndexedAt > COALESCE(events.facesClusteredAt, '')`);
+    for (const event of events) await clusterEventFaces(event.id);
+    return events.length;
+};
+
+// An event's people, most photographed first: [{ id, name, photoCount, cover }],
+// cover being the clearest face { mediaId, previewUrl, box, width, height }. `getPreviewUrl`
+// turns a media row into the URL of its thumbnail.
+export const getEventPeople = async (eventId, getPreviewUrl) => {
+    const [people, faces] = await Promise.all([
+        all("SELECT id, name FROM face_clusters WHERE eventId = ?", [eventId]),
+        all(`SELECT media_faces.clusterId, media_faces.mediaId, media_faces.box, media_faces.score,
+                media.previewUrl, media.privacy, media.width, media.height
+            FROM media_faces JOIN media ON media.id = media_faces.mediaId
+            WHERE media_faces.eventId = ? AND media_faces.clusterId IS NOT NULL`, [eventId])
+    ]);
+
+    const byPerson = new Map(people.map(person => [person.id, { ...person, mediaIds: new Set(), cover: null }]));
+    for (const face of faces) {
+        const person = byPerson.get(face.clusterId);
+        if (!person) continue;
+        person.mediaIds.add(face.mediaId);
+        if (!person.cover || face.score > person.cover.score) person.cover = face;
+    }
+
+    return [...byPerson.values()]
+        .filter(person => person.cover)
+        .map(({ id, name, mediaIds, cover }) => ({
+            id,
+            name,
+            photoCount: mediaIds.size,
+            cover: {
+                mediaId: cover.mediaId,
+                previewUrl: getPreviewUrl(cover),
+                box: JSON.parse(cover.box || 'null'),
+                width: cover.width,
+                height: cover.height
+            }
+        }))
+        .sort((a, b) => b.photoCount - a.photoCount || (a.name || '').localeCompare(b.name || ''));
+};
+
+// Ids of the photos a person appears in
+export const getPersonMediaIds = async (eventId, personId) =>
+    (await all("SELECT DISTINCT mediaId FROM media_faces WHERE eventId = ? AND clusterId = ?", [eventId, personId])).map(row => row.mediaId);
+
+// Resolves with false when the person isn't in the event
+export const renamePerson = async (eventId, personId, name) =>
+    (await run("UPDATE face_clusters SET name = ? WHERE id = ? AND eventId = ?", [name || null, personId, eventId])) > 0;
+
+// Moves the faces of sourceIds over to targetId and removes those people. The
+// target keeps its name, or takes the first source name when it has none.
+export const mergePeople = async (eventId, targetId, sourceIds) => {
+    const ids = [...new Set([targetId, ...sourceIds])];
+    const people = await all(`SELECT id, name FROM face_clusters WHERE eventId = ? AND id IN (${ids.map(() => '?').join(',')})`, [eventId, ...ids]);
+    if (people.length !== ids.length) return false;
+    if (ids.length === 1) return true;
+
+    const target = people.find(person => person.id === targetId);
+    const sources = ids.slice(1);
+    const name = target.name || people.find(person => person.name)?.name || null;
+
+    await run(`UPDATE media_faces SET clusterId = ? WHERE eventId = ? AND clusterId IN (${sources.map(() => '?').join(',')})`, [targetId, eventId, ...sources]);
+    await run(`DELETE FROM face_clusters WHERE id IN (${sources.map(() => '?').join(',')})`, sources);
+    await run("UPDATE face_clusters SET name = ? WHERE id = ?", [name, targetId]);
+    notifyHosts(eventId);
+    return true;
+};
@@ -0,0 +1,204 @@
+// Face Service - server-side face descriptors for "Find Me"
+// Every photo's faces are detected once, while the upload is processed, with
+// the models bundled in @vladmandic/face-api on the CPU (WASM backend). Each face
+// is stored in media_faces as a 128-number descriptor, so Find Me only has to
+// read the guest's selfie and compare descriptors. Selfies are never stored.
+// Guests who don't want to be found send a selfie to opt out: its descriptor is
+// kept in face_opt_outs and matching faces are dropped from the event's index.
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { db } from '../config/db.js';
+import { config } from '../config/env.js';
+
+// Euclidean distance at or below which two descriptors are the same person.
+// face-api suggests 0.6; a little stricter keeps look-alikes out of results.
+export const MATCH_DISTANCE = 0.55;
+// Opting out errs on the side of removing a face
+export const OPT_OUT_DISTANCE = 0.6;
+
+// Photos are scaled down before detection - faces far smaller than this are too blurry to match anyway
+const DETECTION_SIZE = 1024;
+const MIN_CONFIDENCE = 0.5;
+// Eye aspect ratio (height over width, from the landmarks) below which an eye is shut
+const CLOSED_EYE_RATIO = 0.2;
+
+let faceApi = null;
+
+// Loads face-api and its models on first use
+const loadFaceApi = () => {
+    if (!faceApi) {
+        faceApi = (async () => {
+            await import('@tensorflow/tfjs-backend-wasm');
+            const { default: faceapi } = await import('@vladmandic/face-api/dist/face-api.node-wasm.js');
+            await faceapi.tf.setBackend('wasm');
+            await faceapi.tf.ready();
+            await Promise.all([
+                faceapi.nets.ssdMobilenetv1.loadFromDisk(config.FACE_MODELS_DIR),
+                faceapi.nets.faceLandmark68Net.loadFromDisk(config.FACE_MODELS_DIR),
+                faceapi.nets.faceRecognitionNet.loadFromDisk(config.FACE_MODELS_DIR)
+            ]);
+            console.log(`🙂 Face models loaded (${faceapi.tf.getBackend()})`);
+            return faceapi;
+        })().catch((error) => {
+            faceApi = null;
+            throw error;
+        });
+    }
+    return faceApi;
+};
+
+// Detection is CPU bound and the WASM backend runs one model at a time, so
+// uploads, backfills and selfies take turns instead of competing
+let queue = Promise.resolve();
+const runExclusive = (task) => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+};
+
+// Eye aspect ratio of an eye's six landmarks ({ x, y }, corner, upper lid twice,
+// corner, lower lid twice): the lids' distance relative to the eye's width
+export const eyeAspectRatio = ([p1, p2, p3, p4, p5, p6]) => {
+    const distance = (a, b) => Math.hypot(a.x - b.x, a.y - b.y);
+    return (distance(p2, p6) + distance(p3, p5)) / (2 * distance(p1, p4));
+};
+
+// Faces in an image (path or buffer): [{ descriptor: Float32Array, box, score, eyesClosed }],
+// box in fractions of the upright image's width and height
+export const detectFaces = (input, { single = false } = {}) => runExclusive(async () => {
+    const faceapi = await loadFaceApi();
+    const { data, info } = await sharp(input)
+        .rotate()
+        .resize(DETECTION_SIZE, DETECTION_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const tensor = faceapi.tf.tensor3d(data, [info.height, info.width, 3], 'int32');
+    try {
+        const options = new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_CONFIDENCE });
+        const results = single
+            ? [await faceapi.detectSingleFace(tensor, options).withFaceLandmarks().withFaceDescriptor()].filter(Boolean)
+            : await faceapi.detectAllFaces(tensor, options).withFaceLandmarks().withFaceDescriptors();
+        return results.map(({ detection, landmarks, descriptor }) => ({
+            descriptor,
+            score: detection.score,
+            eyesClosed: (eyeAspectRatio(landmarks.getLeftEye()) + eyeAspectRatio(landmarks.getRightEye())) / 2 < CLOSED_EYE_RATIO,
+            box: {
+                x: detection.box.x / info.width,
+                y: detection.box.y / info.height,
+                width: detection.box.width / info.width,
+                height: detection.box.height / info.height
+            }
+        }));
+    } finally {
+        tensor.dispose();
+    }
+});
+
+// The most prominent face in a selfie, or null
+export const detectSelfie = async (input) => (await detectFaces(input, { single: true }))[0] || null;
+
+// Descriptors are stored as the raw bytes of their Float32Array
+export const descriptorToBuffer = (descriptor) => Buffer.from(Float32Array.from(descriptor).buffer);
+export const bufferToDescriptor = (buffer) => new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+
+export const faceDistance = (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+    return Math.sqrt(sum);
+};
+
+// Media ids whose faces ({ mediaId, descriptor }) are within maxDistance of the
+// descriptor, closest first: [{ mediaId, distance }]
+export const rankMatches = (descriptor, faces, maxDistance = MATCH_DISTANCE) => {
+    const best = new Map();
+    for (const face of faces) {
+        const distance = faceDistance(descriptor, face.descriptor);
+        const previous = best.get(face.mediaId);
+        if (distance <= maxDistance && (previous === undefined || distance < previous)) best.set(face.mediaId, distance);
+    }
+    return [...best].map(([mediaId, distance]) => ({ mediaId, distance })).sort((a, b) => a.distance - b.distance);
+};
+
+const all = (sql, params = []) => new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+    });
+});
+
+export const getEventFaces = async (eventId) => (await all("SELECT id, mediaId, descriptor FROM media_faces WHERE eventId = ?", [eventId]))
+    .map(row => ({ ...row, descriptor: bufferToDescriptor(row.descriptor) }));
+
+const getOptOutDescriptors = async (eventId) => (await all("SELECT descriptor FROM face_opt_outs WHERE eventId = ?", [eventId]))
+    .map(row => bufferToDescriptor(row.descriptor));
+
+// Detects and stores the faces of one photo, replacing what was indexed for it
+// before. Faces of guests who opted out are left out. Resolves with the number stored.
+export const indexMediaFaces = async (mediaId, eventId, input) => {
+    const [faces, optOuts] = await Promise.all([detectFaces(input), getOptOutDescriptors(eventId)]);
+    const indexed = faces.filter(face => !optOuts.some(optOut => faceDistance(face.descriptor, optOut) <= OPT_OUT_DISTANCE));
+
+    await run("DELETE FROM media_faces WHERE mediaId = ?", [mediaId]);
+    for (const face of indexed) {
+        await run("INSERT INTO media_faces (mediaId, eventId, descriptor, box, score, eyesClosed) VALUES (?, ?, ?, ?, ?, ?)",
+            [mediaId, eventId, descriptorToBuffer(face.descriptor), JSON.stringify(face.box), face.score, face.eyesClosed ? 1 : 0]);
+    }
+    await run("UPDATE media SET facesIndexedAt = ? WHERE id = ?", [new Date().toISOString(), mediaId]);
+    return indexed.length;
+};
+
+// Index photos that haven't been yet (uploads from before face indexing, or
+// whose indexing failed). `loadObject` reads a storage key into a Buffer.
+// Resolves with the number of photos indexed.
+export const syncFaceIndex = async (loadObject) => {
+    const rows = await all(`SELECT id, eventId, url, originalUrl FROM media
+        WHERE type = 'image' AND isProcessing = 0 AND facesIndexedAt IS NULL ORDER BY uploadedAt`);
+    if (rows.length === 0) return 0;
+    // Fails once, rather than for every photo, when the models can't be loaded
+    await loadFaceApi();
+    let indexed = 0;
+    for (const row of rows) {
+        try {
+            // The clean original of a watermarked photo, so the watermark can't cover a face
+            await indexMediaFaces(row.id, row.eventId, await loadObject(row.originalUrl || row.url));
+            indexed++;
+        } catch (error) {
+            console.warn(`⚠️ Failed to index faces for ${row.id}:`, error.message);
+        }
+    }
+    if (indexed > 0) console.log(`🙂 Indexed faces in ${indexed} photos`);
+    return indexed;
+};
+
+// Photos of the person in the selfie descriptor: [{ mediaId, distance }], closest first
+export const findMatchingMedia = async (eventId, descriptor) => rankMatches(descriptor, await getEventFaces(eventId));
+
+export const hasOptedOut = async (eventId, authorId) =>
+    (await all("SELECT 1 FROM face_opt_outs WHERE eventId = ? AND authorId = ? LIMIT 1", [eventId, authorId])).length > 0;
+
+// Records an opt-out and removes the author's faces from the event's index.
+// Resolves with the number of faces removed.
+export const optOut = async (eventId, authorId, descriptor) => {
+    await run("INSERT INTO face_opt_outs (id, eventId, authorId, descriptor, createdAt) VALUES (?, ?, ?, ?, ?)",
+        [crypto.randomUUID(), eventId, authorId, descriptorToBuffer(descriptor), new Date().toISOString()]);
+
+    const ids = (await getEventFaces(eventId))
+        .filter(face => faceDistance(descriptor, face.descriptor) <= OPT_OUT_DISTANCE)
+        .map(face => face.id);
+    if (ids.length === 0) return 0;
+    return run(`DELETE FROM media_faces WHERE id IN (${ids.map(() => '?').join(',')})`, ids);
+};
+
+// Withdraws an author's opt-outs. Photos indexed while they were opted out stay
+// without their face; new uploads include it again.
+export const cancelOptOut = (eventId, authorId) => run("DELETE FROM face_opt_outs WHERE eventId = ? AND authorId = ?", [eventId, authorId]);
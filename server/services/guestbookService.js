@@ -0,0 +1,64 @@
+// Guestbook Service - event guestbook entries and their moderation state
+// Entries are approved straight away unless the host turned on guestbook
+// approval, then they wait as pending until the host approves or hides them.
+// Authors are identified like comment authors (likeService.getLiker) and
+// always see their own pending entries.
+
+import { db } from '../config/db.js';
+import { getPublicUrl, getSignedUrl } from './mediaAccessService.js';
+
+export const GUESTBOOK_STATUSES = ['approved', 'pending', 'hidden'];
+export const MAX_MESSAGE_LENGTH = 2000;
+
+// Photos and short voice notes that can be attached to an entry
+export const ATTACHMENT_TYPES = {
+    'image/jpeg': 'image',
+    'image/png': 'image',
+    'image/webp': 'image',
+    'audio/webm': 'audio',
+    'audio/ogg': 'audio',
+    'audio/mp4': 'audio',
+    'audio/mpeg': 'audio',
+    'audio/aac': 'audio',
+    'audio/wav': 'audio',
+    'audio/x-m4a': 'audio'
+};
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// About a minute of recorded speech, in any of the formats browsers record
+export const MAX_AUDIO_BYTES = 3 * 1024 * 1024;
+
+// The storage key of an entry's attachment, e.g. events/{eventId}/guestbook/{entryId}.jpg
+export const getAttachmentKey = (eventId, entryId, extension) => `events/${eventId}/guestbook/${entryId}${extension}`;
+
+// Attachments are only served through signed URLs while the entry isn't public
+// to everyone: in PIN-protected events, and until it's approved
+export const requiresSignedAttachment = (entry, event) => !!event?.pin || entry.status !== 'approved';
+
+// Client shape of a guestbook row, for the viewer with author id viewerId
+export const formatEntry = (row, event, viewerId = null) => {
+    const signed = requiresSignedAttachment(row, event);
+    return {
+        id: row.id,
+        eventId: row.eventId,
+        senderName: row.senderName,
+        message: row.message,
+        createdAt: row.createdAt,
+        status: row.status || 'approved',
+        attachmentType: row.attachmentUrl ? row.attachmentType : null,
+        attachmentUrl: row.attachmentUrl ? (signed ? getSignedUrl(row.attachmentUrl) : getPublicUrl(row.attachmentUrl)) : null,
+        isMine: !!viewerId && row.authorId === viewerId
+    };
+};
+
+// An event's guestbook, newest first. Hosts and admins (canModerate) get every
+// entry, everyone else the approved ones plus their own pending entries.
+export const getEventGuestbook = (event, { viewerId = null, canModerate = false } = {}) => new Promise((resolve, reject) => {
+    const sql = canModerate
+        ? "SELECT * FROM guestbook WHERE eventId = ? ORDER BY createdAt DESC"
+        : `SELECT * FROM guestbook WHERE eventId = ? AND (COALESCE(status, 'approved') = 'approved' OR (status = 'pending' AND authorId = ?))
+            ORDER BY createdAt DESC`;
+    db.all(sql, canModerate ? [event.id] : [event.id, viewerId], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows.map(row => formatEntry(row, event, viewerId)));
+    });
+});
@@ -0,0 +1,175 @@
+// Highlight Service - an event's "best of" photos
+// Each photo gets a quality score once, while its upload is processed: how
+// sharp it is (variance of the Laplacian), how well exposed, and whether the
+// people in it have their eyes open (from the Find Me face landmarks). The
+// ranking itself is computed on request, so likes and reactions count as they
+// come in. Of a burst of near-identical shots only the best one is kept.
+
+import sharp from 'sharp';
+import { db } from '../config/db.js';
+import { hammingDistance } from './duplicateService.js';
+
+// Photos are measured at this size, so scores don't depend on camera resolution
+const MEASURE_SIZE = 512;
+// Laplacian variance (greyscale 0-255) at which a photo counts as fully sharp
+const SHARP_VARIANCE = 400;
+// Average brightness this far either side of mid-grey is fine - party photos are dim
+const BRIGHTNESS_TOLERANCE = 48;
+// Pixels this close to black or white count as clipped; a share of them is normal
+const CLIP_LEVEL = 8;
+const CLIP_ALLOWANCE = 0.1;
+
+// Shares of the highlight score: how good the photo is vs how much guests liked it
+const QUALITY_WEIGHT = 0.6;
+const ENGAGEMENT_WEIGHT = 0.4;
+
+// Shots within BURST_DISTANCE bits of pHash and BURST_WINDOW_MS of each other are one burst
+export const BURST_DISTANCE = 12;
+const BURST_WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_HIGHLIGHTS = 50;
+export const MAX_HIGHLIGHTS = 500;
+
+const clamp = (value) => Math.min(1, Math.max(0, value));
+
+// Sharpness and exposure of an image (path or buffer), each 0-1
+export const measureImageQuality = async (input) => {
+    const { data, info } = await sharp(input)
+        .rotate()
+        .resize(MEASURE_SIZE, MEASURE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .greyscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    const { width, height, channels } = info;
+    const pixel = (x, y) => data[(y * width + x) * channels];
+
+    // Blur shows as little difference between neighbouring pixels
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const laplacian = pixel(x - 1, y) + pixel(x + 1, y) + pixel(x, y - 1) + pixel(x, y + 1) - 4 * pixel(x, y);
+            sum += laplacian;
+            sumOfSquares += laplacian * laplacian;
+            count++;
+        }
+    }
+    const variance = count ? sumOfSquares / count - (sum / count) ** 2 : 0;
+
+    // Well exposed: not far from mid-grey on average, without much crushed to black or blown to white
+    let brightness = 0;
+    let clipped = 0;
+    for (let i = 0; i < data.length; i += channels) {
+        brightness += data[i];
+        if (data[i] < CLIP_LEVEL || data[i] > 255 - CLIP_LEVEL) clipped++;
+    }
+    const pixels = data.length / channels;
+    const mean = brightness / pixels;
+
+    return {
+        sharpness: clamp(variance / SHARP_VARIANCE),
+        exposure: clamp(1 - Math.max(0, Math.abs(mean - 128) - BRIGHTNESS_TOLERANCE) / (128 - BRIGHTNESS_TOLERANCE)
+            - 2 * Math.max(0, clipped / pixels - CLIP_ALLOWANCE))
+    };
+};
+
+// 0-1 quality of a photo from its measurements. Shut eyes cost a share of the
+// score for each face they're on; photos with people in them get a little extra.
+export const combineQuality = ({ sharpness, exposure, faces = 0, closedEyes = 0 }) => {
+    const base = 0.6 * sharpness + 0.3 * exposure + (faces > 0 ? 0.1 : 0);
+    return faces > 0 ? base * (1 - 0.5 * closedEyes / faces) : base;
+};
+
+const all = (sql, params = []) => new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+    });
+});
+
+// Measures a photo and stores its quality. Reads the photo's indexed faces, so
+// runs after indexMediaFaces. Resolves with the quality score.
+export const scoreMediaQuality = async (mediaId, input) => {
+    const [{ sharpness, exposure }, [faces]] = await Promise.all([
+        measureImageQuality(input),
+        all("SELECT COUNT(*) AS count, COALESCE(SUM(eyesClosed), 0) AS closedEyes FROM media_faces WHERE mediaId = ?", [mediaId])
+    ]);
+    const qualityScore = combineQuality({ sharpness, exposure, faces: faces.count, closedEyes: faces.closedEyes });
+    await run("UPDATE media SET sharpness = ?, exposure = ?, qualityScore = ? WHERE id = ?", [sharpness, exposure, qualityScore, mediaId]);
+    return qualityScore;
+};
+
+// Scores photos that haven't been yet (uploads from before highlights, or
+// whose scoring failed). `loadObject` reads a storage key into a Buffer.
+// Resolves with the number of photos scored.
+export const syncQualityScores = async (loadObject) => {
+    const rows = await all(`SELECT id, url, originalUrl FROM media
+        WHERE type = 'image' AND isProcessing = 0 AND qualityScore IS NULL ORDER BY uploadedAt`);
+    let scored = 0;
+    for (const row of rows) {
+        try {
+            await scoreMediaQuality(row.id, await loadObject(row.originalUrl || row.url));
+            scored++;
+        } catch (error) {
+            console.warn(`⚠️ Failed to score ${row.id}:`, error.message);
+        }
+    }
+    if (scored > 0) console.log(`✨ Scored ${scored} photos for highlights`);
+    return scored;
+};
+
+// Ranks photos ({ id, qualityScore, likes, reactions, phash, capturedAt }) best
+// first, keeping only the best shot of each burst: [{ id, highlightScore }]
+export const rankHighlights = (items, limit = DEFAULT_HIGHLIGHTS) => {
+    const engagement = (item) => Math.log1p((item.likes || 0) + (item.reactions || 0));
+    const maxEngagement = Math.max(0, ...items.map(engagement));
+
+    const ranked = items
+        .map(item => ({
+            ...item,
+            time: item.capturedAt ? Date.parse(item.capturedAt) : NaN,
+            highlightScore: QUALITY_WEIGHT * (item.qualityScore || 0)
+                + ENGAGEMENT_WEIGHT * (maxEngagement > 0 ? engagement(item) / maxEngagement : 0)
+        }))
+        .sort((a, b) => b.highlightScore - a.highlightScore);
+
+    const picked = [];
+    for (const item of ranked) {
+        if (picked.length >= limit) break;
+        const inBurst = picked.some(other => item.phash && other.phash
+            && Math.abs(item.time - other.time) <= BURST_WINDOW_MS
+            && hammingDistance(item.phash, other.phash) <= BURST_DISTANCE);
+        if (!inBurst) picked.push(item);
+    }
+    return picked.map(({ id, highlightScore }) => ({ id, highlightScore }));
+};
+
+// An event's highlights as media rows, best first, each with its highlightScore.
+// Private photos are only included for their uploader (viewerId) unless includePrivate is set.
+export const getEventHighlights = async (eventId, { viewerId = null, includePrivate = false, limit = DEFAULT_HIGHLIGHTS } = {}) => {
+    const conditions = ["eventId = ?", "type = 'image'", "isProcessing = 0", "duplicateOf IS NULL", "qualityScore IS NOT NULL"];
+    const params = [eventId];
+    if (!includePrivate) {
+        conditions.push("(COALESCE(privacy, 'public') != 'private' OR uploaderId = ?)");
+        params.push(viewerId);
+    }
+    const rows = await all(`SELECT media.*, COALESCE(takenAt, uploadedAt) AS capturedAt,
+            (SELECT COUNT(*) FROM media_reactions WHERE media_reactions.mediaId = media.id) AS reactions
+        FROM media WHERE ${conditions.join(' AND ')}`, params);
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return rankHighlights(rows, limit).map(({ id, highlightScore }) => {
+        const { capturedAt, reactions, ...row } = byId.get(id);
+        return { ...row, highlightScore };
+    });
+};
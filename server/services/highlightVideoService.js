@@ -0,0 +1,320 @@
+// Highlight Video Service - recap videos of an event, rendered for its host
+// A render takes the event's highlights (or photos and clips the host picked),
+// cuts them into a 1080p reel with crossfades, the host's watermark and an
+// optional music track, and adds the result to the event as a video. Renders
+// run one at a time in the background; the job row keeps their progress so a
+// render interrupted by a restart starts over.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { pipeline } from 'stream/promises';
+import { db } from '../config/db.js';
+import { getTierConfig } from '../config/tiers.js';
+import { uploadToS3, deleteFromS3, getS3Object, getS3ObjectBuffer } from './storage.js';
+import { getIo } from './socket.js';
+import { cacheService } from './cacheService.js';
+import { getEventHighlights } from './highlightService.js';
+import { renderReel, getReelDuration, extractPosterFrame, getPosterOffset, REEL_WIDTH, REEL_HEIGHT } from './videoService.js';
+import { FREE_TIER_WATERMARK, getWatermarkSettings, loadLogo, renderWatermarkFrame } from './watermarkService.js';
+import { getMediaUrls, requiresSignedUrl } from './mediaAccessService.js';
+import { indexMedia } from './searchService.js';
+
+// Seconds on screen per photo, and at most per clip
+const PHOTO_SECONDS = 3.5;
+const CLIP_SECONDS = 5;
+// Shorter clips can't carry two crossfades
+const MIN_CLIP_SECONDS = 2;
+
+// The automatic selection: the best photos and the most liked clips
+const AUTO_PHOTOS = 24;
+const AUTO_CLIPS = 4;
+// Most photos and clips a host can pick for one reel
+export const MAX_REEL_ITEMS = 60;
+
+// Music tracks hosts can upload for a reel, kept in storage only until it's rendered
+export const MAX_AUDIO_TRACK_BYTES = 20 * 1024 * 1024;
+export const AUDIO_TRACK_EXTENSIONS = {
+    'audio/mpeg': '.mp3',
+    'audio/mp4': '.m4a',
+    'audio/x-m4a': '.m4a',
+    'audio/aac': '.m4a',
+    'audio/wav': '.wav',
+    'audio/x-wav': '.wav',
+    'audio/ogg': '.ogg',
+    'audio/flac': '.flac'
+};
+
+const all = (sql, params = []) => new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+const get = (sql, params = []) => new Promise((resolve, reject) => {
+    db.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row);
+    });
+});
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+    });
+});
+
+// The reel's timeline for media rows in order: [{ mediaId, type, duration, start }].
+// Clips play a stretch from their middle; ones too short or without a known length are left out.
+export const planReel = (items) => items.flatMap((item) => {
+    if (item.type !== 'video') return [{ mediaId: item.id, type: 'image', duration: PHOTO_SECONDS, start: 0 }];
+    if (!item.duration || item.duration < MIN_CLIP_SECONDS) return [];
+
+    const duration = Math.min(CLIP_SECONDS, item.duration);
+    const start = Math.round((item.duration - duration) / 2 * 1000) / 1000;
+    return [{ mediaId: item.id, type: 'video', duration, start }];
+});
+
+const rowToJob = (row) => row ? {
+    id: row.id,
+    eventId: row.eventId,
+    status: row.status,
+    progress: row.progress,
+    mediaId: row.mediaId,
+    isSelection: !!row.mediaIds,
+    error: row.lastError,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+} : null;
+
+export const getHighlightVideo = async (jobId) => rowToJob(await get("SELECT * FROM highlight_videos WHERE id = ?", [jobId]));
+
+// An event's renders, newest first
+export const listHighlightVideos = async (eventId) =>
+    (await all("SELECT * FROM highlight_videos WHERE eventId = ? ORDER BY createdAt DESC", [eventId])).map(rowToJob);
+
+// Whether the event already has a render waiting or running
+export const hasActiveHighlightVideo = async (eventId) =>
+    !!(await get("SELECT id FROM highlight_videos WHERE eventId = ? AND status IN ('pending', 'rendering')", [eventId]));
+
+const updateJob = (jobId, fields) => {
+    const columns = Object.keys(fields);
+    return run(`UPDATE highlight_videos SET ${columns.map(column => `${column} = ?`).join(', ')}, updatedAt = ? WHERE id = ?`,
+        [...columns.map(column => fields[column]), new Date().toISOString(), jobId]);
+};
+
+// Progress goes to the event's hosts only - the finished video is announced like any upload
+const notifyProgress = (eventId, job) => {
+    try {
+        getIo().to(`${eventId}:hosts`).emit('highlight_video_progress', job);
+    } catch (e) { }
+};
+
+// Media rows for the reel, in the order they play. The reel is public, so of
+// private media only the host's own can be picked.
+const selectReelMedia = async (eventId, hostId, mediaIds) => {
+    if (mediaIds) {
+        const rows = await all(`SELECT * FROM media WHERE eventId = ? AND isProcessing = 0
+                AND (COALESCE(privacy, 'public') != 'private' OR uploaderId = ?)
+                AND id IN (${mediaIds.map(() => '?').join(', ')})`, [eventId, hostId, ...mediaIds]);
+        const byId = new Map(rows.map(row => [row.id, row]));
+        return mediaIds.map(id => byId.get(id)).filter(Boolean);
+    }
+
+    // Earlier reels are event videos too - they're never cut into a new one
+    const [photos, clips] = await Promise.all([
+        getEventHighlights(eventId, { limit: AUTO_PHOTOS }),
+        all(`SELECT * FROM media WHERE eventId = ? AND type = 'video' AND isProcessing = 0 AND duplicateOf IS NULL
+                AND COALESCE(privacy, 'public') != 'private' AND duration >= ?
+                AND id NOT IN (SELECT mediaId FROM highlight_videos WHERE mediaId IS NOT NULL)
+            ORDER BY likes DESC, uploadedAt DESC LIMIT ?`, [eventId, MIN_CLIP_SECONDS, AUTO_CLIPS])
+    ]);
+    const capturedAt = (item) => item.takenAt || item.uploadedAt || '';
+    return [...photos, ...clips].sort((a, b) => capturedAt(a).localeCompare(capturedAt(b)));
+};
+
+// Copy a segment's source into the work directory. Photos are turned upright
+// and brought down to twice the reel's size, which is all the zoom needs.
+const fetchSegment = async (segment, item, workDir, index) => {
+    if (segment.type === 'image') {
+        const filePath = path.join(workDir, `photo_${index}.jpg`);
+        await sharp(await getS3ObjectBuffer(item.originalUrl || item.url))
+            .rotate()
+            .resize(REEL_WIDTH * 2, REEL_HEIGHT * 2, { fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 92 })
+            .toFile(filePath);
+        return { ...segment, path: filePath };
+    }
+
+    const filePath = path.join(workDir, `clip_${index}${path.extname(item.url) || '.mp4'}`);
+    const { Body } = await getS3Object(item.url);
+    await pipeline(Body, fs.createWriteStream(filePath));
+    return { ...segment, path: filePath };
+};
+
+// The host's watermark as a full-frame PNG, like on their photos. Free events
+// carry the Snapify mark, as in ZIP exports; other tiers without watermarks get none.
+const writeWatermarkFrame = async (host, workDir) => {
+    let settings = null;
+    if (getTierConfig(host.tier, host.role).allowWatermark) settings = getWatermarkSettings(host);
+    else if ((host.tier || 'FREE') === 'FREE' && host.role !== 'ADMIN') settings = FREE_TIER_WATERMARK;
+    if (!settings) return null;
+
+    const logo = await loadLogo(settings.logoUrl).catch((error) => {
+        console.warn('⚠️ Failed to load watermark logo:', error.message);
+        return null;
+    });
+    const framePath = path.join(workDir, 'watermark.png');
+    await fs.promises.writeFile(framePath, await renderWatermarkFrame(REEL_WIDTH, REEL_HEIGHT, settings, logo));
+    return framePath;
+};
+
+// Store the rendered reel as a video in the event, uploaded by its host
+const addReelToEvent = async (event, host, reelPath, duration, workDir) => {
+    const mediaId = crypto.randomUUID();
+    const key = `events/${event.id}/${mediaId}.mp4`;
+    const posterKey = `events/${event.id}/poster_${mediaId}.jpg`;
+    const posterPath = path.join(workDir, 'poster.jpg');
+
+    const hasPoster = await extractPosterFrame(reelPath, posterPath, getPosterOffset(duration))
+        .then(() => true)
+        .catch((error) => {
+            console.warn(`⚠️ Poster extraction failed for highlight video ${mediaId}:`, error.message);
+            return false;
+        });
+    const { size } = await fs.promises.stat(reelPath);
+    await Promise.all([
+        uploadToS3(reelPath, key, 'video/mp4', false),
+        hasPoster ? uploadToS3(posterPath, posterKey, 'image/jpeg', false) : Promise.resolve()
+    ]);
+
+    await run(`INSERT INTO media (id, eventId, type, url, previewUrl, posterUrl, isProcessing, caption, uploadedAt, uploaderName, uploaderId,
+            isWatermarked, likes, privacy, duration, width, height, videoCodec)
+        VALUES (?, ?, 'video', ?, ?, ?, 0, ?, ?, ?, ?, 0, 0, 'public', ?, ?, ?, 'h264')`,
+        [mediaId, event.id, key, key, hasPoster ? posterKey : null, `${event.title} - Highlights`, new Date().toISOString(),
+            host.studioName || host.name, host.id, Math.round(duration * 1000) / 1000, REEL_WIDTH, REEL_HEIGHT]);
+    await run("UPDATE users SET storageUsedMb = storageUsedMb + ? WHERE id = ?", [size / (1024 * 1024), host.id]);
+
+    await cacheService.invalidateEventMedia(event.id);
+    await indexMedia(mediaId).catch((error) => {
+        console.warn(`⚠️ Failed to index ${mediaId} for search:`, error.message);
+    });
+
+    const item = await get("SELECT * FROM media WHERE id = ?", [mediaId]);
+    try {
+        getIo().to(event.id).emit('media_uploaded', {
+            id: item.id,
+            eventId: item.eventId,
+            type: item.type,
+            ...getMediaUrls(item, requiresSignedUrl(item, event)),
+            duration: item.duration,
+            width: item.width,
+            height: item.height,
+            videoCodec: item.videoCodec,
+            caption: item.caption,
+            uploadedAt: item.uploadedAt,
+            uploaderName: item.uploaderName,
+            uploaderId: item.uploaderId,
+            likes: 0,
+            privacy: item.privacy,
+            isWatermarked: false,
+            isProcessing: false
+        });
+    } catch (e) { }
+
+    return mediaId;
+};
+
+const renderJob = async (jobId) => {
+    const row = await get("SELECT * FROM highlight_videos WHERE id = ?", [jobId]);
+    if (!row || !['pending', 'rendering'].includes(row.status)) return;
+
+    const report = async (fields) => {
+        await updateJob(jobId, fields);
+        notifyProgress(row.eventId, await getHighlightVideo(jobId));
+    };
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'snapify-reel-'));
+    try {
+        await report({ status: 'rendering', progress: 0, lastError: null });
+
+        const event = await get("SELECT id, title, pin, hostId FROM events WHERE id = ?", [row.eventId]);
+        const host = event && await get(`SELECT id, name, role, tier, studioName, logoUrl, watermarkText, watermarkOpacity, watermarkSize,
+                watermarkPosition, watermarkOffsetX, watermarkOffsetY FROM users WHERE id = ?`, [event.hostId]);
+        if (!host) throw new Error('Event not found');
+
+        const items = await selectReelMedia(row.eventId, host.id, row.mediaIds ? JSON.parse(row.mediaIds) : null);
+        const plan = planReel(items);
+        if (plan.length === 0) throw new Error('No photos or clips to render');
+
+        // Sources count for the first 20%, the render for the rest
+        const byId = new Map(items.map(item => [item.id, item]));
+        const segments = [];
+        for (const [index, segment] of plan.entries()) {
+            segments.push(await fetchSegment(segment, byId.get(segment.mediaId), workDir, index));
+            await updateJob(jobId, { progress: Math.round((index + 1) / plan.length * 20) });
+        }
+        const watermarkPath = await writeWatermarkFrame(host, workDir);
+        let audioPath = null;
+        if (row.audioKey) {
+            audioPath = path.join(workDir, `track${path.extname(row.audioKey)}`);
+            await pipeline((await getS3Object(row.audioKey)).Body, fs.createWriteStream(audioPath));
+        }
+
+        const reelPath = path.join(workDir, 'reel.mp4');
+        let reported = 20;
+        await renderReel(segments, reelPath, { overlayPath: watermarkPath, audioPath }, (share) => {
+            const progress = 20 + Math.floor(share * 75);
+            if (progress < reported + 5) return;
+            reported = progress;
+            updateJob(jobId, { progress }).catch(() => {});
+            notifyProgress(row.eventId, { id: jobId, eventId: row.eventId, status: 'rendering', progress });
+        });
+
+        const mediaId = await addReelToEvent(event, host, reelPath, getReelDuration(segments), workDir);
+        await report({ status: 'completed', progress: 100, mediaId });
+        console.log(`🎬 Rendered highlight video ${mediaId} for event ${row.eventId}`);
+
+        if (row.audioKey) {
+            await deleteFromS3(row.audioKey);
+            await updateJob(jobId, { audioKey: null });
+        }
+    } catch (error) {
+        console.error(`❌ Highlight video ${jobId} failed:`, error.message);
+        await report({ status: 'failed', progress: 0, lastError: error.message }).catch(() => {});
+    } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+};
+
+// Renders are CPU heavy - run them one after another
+let renderChain = Promise.resolve();
+const scheduleRender = (jobId) => {
+    renderChain = renderChain.then(() => renderJob(jobId)).catch((error) => {
+        console.error(`❌ Highlight video ${jobId} could not be run:`, error.message);
+    });
+};
+
+// Record a render and queue it. `mediaIds` is the host's pick in playing order,
+// or null for the event's highlights; `audioKey` a track already in storage.
+export const queueHighlightVideo = async ({ eventId, userId, mediaIds = null, audioKey = null }) => {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    await run(`INSERT INTO highlight_videos (id, eventId, userId, mediaIds, audioKey, status, progress, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)`,
+        [id, eventId, userId, mediaIds ? JSON.stringify(mediaIds) : null, audioKey, now, now]);
+    scheduleRender(id);
+    return getHighlightVideo(id);
+};
+
+// Start over renders that were waiting or running when the server stopped
+export const resumeHighlightVideos = async () => {
+    const rows = await all("SELECT id FROM highlight_videos WHERE status IN ('pending', 'rendering') ORDER BY createdAt");
+    rows.forEach(row => scheduleRender(row.id));
+    if (rows.length > 0) console.log(`🔄 Resumed ${rows.length} highlight video renders`);
+    return rows.length;
+};
@@ -0,0 +1,83 @@
+// Image Conversion Service - HEIC/HEIF and camera RAW uploads
+// Browsers can't display these formats, so each upload gets a JPEG display copy
+// that goes through the normal image pipeline. The untouched file is kept next
+// to it for hosts whose tier allows original downloads.
+
+import fs from 'fs';
+import sharp from 'sharp';
+import { spawn } from 'child_process';
+import { extractRawPreview, parseExif, readRawExif } from './exifService.js';
+
+const SOURCE_FORMATS = [
+    { format: 'heic', extension: '.heic', mimeTypes: ['image/heic', 'image/heic-sequence'] },
+    { format: 'heif', extension: '.heif', mimeTypes: ['image/heif', 'image/heif-sequence'] },
+    { format: 'cr2', extension: '.cr2', mimeTypes: ['image/x-canon-cr2'], isRaw: true },
+    { format: 'nef', extension: '.nef', mimeTypes: ['image/x-nikon-nef'], isRaw: true },
+    { format: 'arw', extension: '.arw', mimeTypes: ['image/x-sony-arw'], isRaw: true },
+    { format: 'dng', extension: '.dng', mimeTypes: ['image/x-adobe-dng', 'image/dng'], isRaw: true }
+];
+
+export const CONVERTED_UPLOAD_MIMES = SOURCE_FORMATS.flatMap(source => source.mimeTypes);
+
+// Browsers report RAW files (and HEIC on some platforms) without a usable MIME
+// type, so for those the file extension decides
+const GENERIC_MIMES = ['', 'application/octet-stream'];
+
+const DISPLAY_QUALITY = 92;
+
+// The format an upload has to be converted from, or null for web-friendly files
+export const getSourceFormat = (mimeType, filename = '') => {
+    const extension = (filename.match(/\.[^.]+$/)?.[0] || '').toLowerCase();
+    const byExtension = SOURCE_FORMATS.find(source => source.extension === extension);
+    if (byExtension && (GENERIC_MIMES.includes(mimeType || '') || CONVERTED_UPLOAD_MIMES.includes(mimeType))) return byExtension;
+    return SOURCE_FORMATS.find(source => source.mimeTypes.includes(mimeType)) || null;
+};
+
+const runProcess = (command, args) => new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stderr = '';
+
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`${command} failed with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+    });
+});
+
+// libheif applies the HEIF rotation itself, so the EXIF orientation (which
+// only describes it) is reset to keep the image from being turned twice.
+// Prebuilt sharp binaries can't decode HEVC, in which case libheif's
+// heif-convert tool (libheif-examples) does the decoding.
+const convertHeif = async (inputPath, outputPath) => {
+    try {
+        await sharp(inputPath)
+            .withMetadata({ orientation: 1 })
+            .jpeg({ quality: DISPLAY_QUALITY })
+            .toFile(outputPath);
+    } catch (error) {
+        console.warn(`⚠️ sharp can't decode ${inputPath} (${error.message}), falling back to heif-convert`);
+        await runProcess('heif-convert', ['-q', String(DISPLAY_QUALITY), inputPath, outputPath]);
+    }
+};
+
+// The camera's embedded full-size preview, with the RAW file's capture details
+// (including its orientation, which the image pipeline applies)
+const convertRaw = async (inputPath, outputPath) => {
+    const raw = await fs.promises.readFile(inputPath);
+    const preview = extractRawPreview(raw);
+    if (!preview) throw new Error('No embedded preview found in RAW file');
+
+    const { orientation } = parseExif(raw);
+    await sharp(preview)
+        .withMetadata({ orientation: orientation || 1 })
+        .withExif(readRawExif(raw))
+        .jpeg({ quality: DISPLAY_QUALITY })
+        .toFile(outputPath);
+};
+
+// Write the JPEG display copy of a HEIC/HEIF or RAW upload to outputPath
+export const convertToJpeg = async (inputPath, outputPath, source) => {
+    if (source.isRaw) await convertRaw(inputPath, outputPath);
+    else await convertHeif(inputPath, outputPath);
+};
@@ -0,0 +1,66 @@
+// Image Variant Service - Responsive derivatives of uploaded photos
+// Every photo is rendered at a ladder of widths in AVIF, WebP and JPEG, so
+// browsers can pick the smallest file that still looks sharp (srcset/<picture>).
+
+import sharp from 'sharp';
+import { config } from '../config/env.js';
+
+// AVIF at its default effort takes ~10x longer for a few percent smaller files
+const ENCODERS = {
+    avif: { extension: 'avif', contentType: 'image/avif', encode: (image) => image.avif({ quality: 50, effort: 2 }) },
+    webp: { extension: 'webp', contentType: 'image/webp', encode: (image) => image.webp({ quality: 78 }) },
+    jpeg: { extension: 'jpg', contentType: 'image/jpeg', encode: (image) => image.jpeg({ quality: 82, progressive: true, mozjpeg: true }) }
+};
+
+// Widths to render for an image `sourceWidth` px wide. Images are never
+// upscaled: the first step at or above the image's own width is replaced by it.
+export const getVariantWidths = (sourceWidth, widths = config.IMAGE_VARIANTS.WIDTHS) => {
+    const ladder = [...new Set(widths)].sort((a, b) => a - b);
+    const fitting = ladder.filter(width => width < sourceWidth);
+    return fitting.length < ladder.length ? [...fitting, sourceWidth] : fitting;
+};
+
+// All variants of one media item live under this prefix
+export const getVariantPrefix = (eventId, mediaId) => `events/${eventId}/variants/${mediaId}/`;
+
+// Re-renders (e.g. a new watermark) get versioned keys - proxy-media responses are cached as immutable
+const getVariantKey = (eventId, mediaId, width, format, version) =>
+    `${getVariantPrefix(eventId, mediaId)}${width}${version ? `_v${version}` : ''}.${ENCODERS[format].extension}`;
+
+// Render the variant ladder of an (upright) image. Resolves with the files to
+// store and the variants map saved on the media row: { format: { width: key } }.
+export const renderImageVariants = async (input, eventId, mediaId, {
+    version = null,
+    widths = config.IMAGE_VARIANTS.WIDTHS,
+    formats = config.IMAGE_VARIANTS.FORMATS
+} = {}) => {
+    const { width, height, orientation } = await sharp(input).metadata();
+    // Orientations 5-8 are rotated by 90°, so the displayed width is the stored height
+    const displayWidth = (orientation || 1) >= 5 ? height : width;
+    const encoders = formats.filter(format => ENCODERS[format]);
+
+    const files = [];
+    const variants = {};
+    for (const variantWidth of getVariantWidths(displayWidth, widths)) {
+        // Decode and resize once, then encode the pixels in each format
+        const { data, info } = await sharp(input)
+            .rotate()
+            .resize({ width: variantWidth, withoutEnlargement: true })
+            .raw()
+            .toBuffer({ resolveWithObject: true });
+        const raw = { width: info.width, height: info.height, channels: info.channels };
+
+        for (const format of encoders) {
+            const key = getVariantKey(eventId, mediaId, variantWidth, format, version);
+            files.push({ key, contentType: ENCODERS[format].contentType, buffer: await ENCODERS[format].encode(sharp(data, { raw })).toBuffer() });
+            variants[format] = { ...variants[format], [variantWidth]: key };
+        }
+    }
+    return { files, variants };
+};
+
+// Storage keys in a variants map (as stored - a JSON string - or parsed)
+export const listVariantKeys = (variants) => {
+    const map = typeof variants === 'string' ? JSON.parse(variants) : variants;
+    return map ? Object.values(map).flatMap(widths => Object.values(widths)) : [];
+};
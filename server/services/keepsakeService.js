@@ -0,0 +1,301 @@
+// Keepsake Service - printable guestbook PDFs for hosts
+// Each A4 page is drawn as an SVG (names, dates and messages in whatever script
+// the guests wrote in) with photos composited in by sharp, and the finished
+// JPEG pages are wrapped into a minimal PDF. The host's studio name and logo
+// brand the cover and every page footer.
+
+import sharp from 'sharp';
+import { loadLogo } from './watermarkService.js';
+
+// A4 at 150 DPI
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const PAGE_WIDTH_PT = 595.28;
+const PAGE_HEIGHT_PT = 841.89;
+const MARGIN = 110;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = MARGIN;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - 40; // room for the footer
+
+const FONT = "Georgia, 'DejaVu Serif', serif";
+const INK = '#1e293b';
+const MUTED = '#64748b';
+const ACCENT = '#b08d57';
+
+const NAME_SIZE = 34;
+const MESSAGE_SIZE = 28;
+const LINE_HEIGHT = 42;
+// Average glyph width of the serif face relative to its size - generous, so lines never overflow
+const CHAR_WIDTH = 0.52;
+const ENTRY_GAP = 56;
+const PHOTO_MAX_HEIGHT = 560;
+const PHOTO_MIN_HEIGHT = 240;
+
+// Most liked photos of the event, laid out after the guestbook
+const HIGHLIGHT_COLUMNS = 2;
+const HIGHLIGHT_ROWS = 3;
+
+const LABELS = {
+    en: { guestbook: 'Guestbook', highlights: 'Highlights', voiceNote: 'Left a voice note', messages: 'messages', preparedBy: 'Prepared by', page: 'Page', locale: 'en-GB' },
+    mk: { guestbook: 'Книга на гости', highlights: 'Најдобри моменти', voiceNote: 'Остави гласовна порака', messages: 'пораки', preparedBy: 'Подготвено од', page: 'Страна', locale: 'mk-MK' },
+    tr: { guestbook: 'Anı Defteri', highlights: 'Öne Çıkanlar', voiceNote: 'Sesli not bıraktı', messages: 'mesaj', preparedBy: 'Hazırlayan', page: 'Sayfa', locale: 'tr-TR' },
+    sq: { guestbook: 'Libri i Mysafirëve', highlights: 'Momentet më të mira', voiceNote: 'La një mesazh zanor', messages: 'mesazhe', preparedBy: 'Përgatitur nga', page: 'Faqja', locale: 'sq-AL' }
+};
+
+export const getLabels = (lang) => LABELS[lang] || LABELS.en;
+
+const escapeXml = (text) => String(text ?? '').replace(/[<>&'"]/g, (c) => ({
+    '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;'
+}[c]));
+
+const formatDate = (value, locale) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+    return date.toLocaleDateString(locale, { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+// Splits text into lines of at most maxChars characters, breaking between words
+// where possible. Line breaks in the text are kept.
+export const wrapText = (text, maxChars) => {
+    const lines = [];
+    for (const paragraph of String(text ?? '').split(/\r?\n/)) {
+        let line = '';
+        for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+            while (Array.from(word).length > maxChars) {
+                if (line) {
+                    lines.push(line);
+                    line = '';
+                }
+                const chars = Array.from(word);
+                lines.push(chars.slice(0, maxChars).join(''));
+                word = chars.slice(maxChars).join('');
+            }
+            if (!line) line = word;
+            else if (Array.from(line).length + 1 + Array.from(word).length <= maxChars) line += ` ${word}`;
+            else {
+                lines.push(line);
+                line = word;
+            }
+        }
+        lines.push(line);
+    }
+    // Drop blank lines at the end
+    while (lines.length && !lines[lines.length - 1]) lines.pop();
+    return lines;
+};
+
+const MESSAGE_CHARS = Math.floor(CONTENT_WIDTH / (MESSAGE_SIZE * CHAR_WIDTH));
+
+const measureEntry = (block) => {
+    const textHeight = NAME_SIZE + 24 + block.lines.length * LINE_HEIGHT;
+    return textHeight + (block.photo ? block.photo.height + 24 : 0);
+};
+
+// Places entry blocks on pages top to bottom. A block never splits across
+// pages; one too tall for an empty page has its message cut and photo shrunk.
+export const paginateEntries = (blocks) => {
+    const available = CONTENT_BOTTOM - CONTENT_TOP;
+    const pages = [];
+    let current = [];
+    let y = CONTENT_TOP;
+
+    for (const block of blocks) {
+        let height = measureEntry(block);
+        if (height > available) {
+            if (block.photo) {
+                const room = Math.max(PHOTO_MIN_HEIGHT, block.photo.height - (height - available));
+                const scale = room / block.photo.height;
+                block.photo = { ...block.photo, width: Math.round(block.photo.width * scale), height: Math.round(block.photo.height * scale), scaled: true };
+            }
+            const maxLines = Math.floor((available - NAME_SIZE - 24 - (block.photo ? block.photo.height + 24 : 0)) / LINE_HEIGHT);
+            if (block.lines.length > maxLines) block.lines = [...block.lines.slice(0, Math.max(1, maxLines) - 1), '…'];
+            height = measureEntry(block);
+        }
+        if (current.length && y + height > CONTENT_BOTTOM) {
+            pages.push(current);
+            current = [];
+            y = CONTENT_TOP;
+        }
+        current.push({ ...block, y });
+        y += height + ENTRY_GAP;
+    }
+    if (current.length) pages.push(current);
+    return pages;
+};
+
+// Fits a stored image into a box, as JPEG (PNG to keep a logo's transparency) - null when it can't be read
+const fitImage = async (buffer, maxWidth, maxHeight, { keepAlpha = false } = {}) => {
+    try {
+        const resized = sharp(buffer)
+            .rotate()
+            .resize(maxWidth, maxHeight, { fit: 'inside', withoutEnlargement: true });
+        const { data, info } = await (keepAlpha ? resized.png() : resized.jpeg({ quality: 88 })).toBuffer({ resolveWithObject: true });
+        return { buffer: data, width: info.width, height: info.height };
+    } catch (error) {
+        console.warn('⚠️ Skipping unreadable keepsake image:', error.message);
+        return null;
+    }
+};
+
+const renderFooter = (brand, pageNumber, labels) => `
+    <line x1="${MARGIN}" y1="${PAGE_HEIGHT - MARGIN + 10}" x2="${PAGE_WIDTH - MARGIN}" y2="${PAGE_HEIGHT - MARGIN + 10}" stroke="${ACCENT}" stroke-width="2"/>
+    <text x="${MARGIN}" y="${PAGE_HEIGHT - MARGIN + 50}" font-family="${FONT}" font-size="22" fill="${MUTED}">${escapeXml(brand)}</text>
+    <text x="${PAGE_WIDTH - MARGIN}" y="${PAGE_HEIGHT - MARGIN + 50}" font-family="${FONT}" font-size="22" fill="${MUTED}" text-anchor="end">${escapeXml(labels.page)} ${pageNumber}</text>`;
+
+const renderPage = async (svgBody, composites = []) => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}">
+        <rect width="100%" height="100%" fill="#fffdf8"/>${svgBody}
+    </svg>`;
+    return sharp(Buffer.from(svg)).composite(composites).flatten({ background: '#fffdf8' }).jpeg({ quality: 85 }).toBuffer();
+};
+
+const renderCover = async ({ event, brand, logo, entryCount, labels }) => {
+    const composites = [];
+    let logoBottom = 420;
+    if (logo) {
+        const fitted = await fitImage(logo, 520, 220, { keepAlpha: true });
+        if (fitted) {
+            composites.push({ input: fitted.buffer, left: Math.round((PAGE_WIDTH - fitted.width) / 2), top: 200 });
+            logoBottom = 200 + fitted.height + 80;
+        }
+    }
+    const titleLines = wrapText(event.title || '', 22);
+    const titleTop = Math.max(logoBottom + 160, 640);
+    const svg = `
+        <rect x="60" y="60" width="${PAGE_WIDTH - 120}" height="${PAGE_HEIGHT - 120}" fill="none" stroke="${ACCENT}" stroke-width="3"/>
+        <rect x="76" y="76" width="${PAGE_WIDTH - 152}" height="${PAGE_HEIGHT - 152}" fill="none" stroke="${ACCENT}" stroke-width="1"/>
+        <text x="50%" y="${titleTop - 90}" font-family="${FONT}" font-size="34" letter-spacing="8" fill="${ACCENT}" text-anchor="middle">${escapeXml(labels.guestbook.toUpperCase())}</text>
+        ${titleLines.map((line, i) => `<text x="50%" y="${titleTop + i * 96}" font-family="${FONT}" font-size="80" fill="${INK}" text-anchor="middle">${escapeXml(line)}</text>`).join('')}
+        <line x1="${PAGE_WIDTH / 2 - 120}" y1="${titleTop + titleLines.length * 96}" x2="${PAGE_WIDTH / 2 + 120}" y2="${titleTop + titleLines.length * 96}" stroke="${ACCENT}" stroke-width="2"/>
+        <text x="50%" y="${titleTop + titleLines.length * 96 + 70}" font-family="${FONT}" font-size="34" fill="${MUTED}" text-anchor="middle">${escapeXml(formatDate(event.date, labels.locale))}</text>
+        <text x="50%" y="${titleTop + titleLines.length * 96 + 130}" font-family="${FONT}" font-size="28" fill="${MUTED}" text-anchor="middle">${entryCount} ${escapeXml(labels.messages)}</text>
+        ${brand ? `<text x="50%" y="${PAGE_HEIGHT - 200}" font-family="${FONT}" font-size="26" fill="${MUTED}" text-anchor="middle">${escapeXml(labels.preparedBy)} ${escapeXml(brand)}</text>` : ''}`;
+    return renderPage(svg, composites);
+};
+
+const renderEntryPage = async (blocks, { brand, pageNumber, labels }) => {
+    const composites = [];
+    for (const block of blocks) {
+        if (!block.photo) continue;
+        const { buffer, width, height, scaled } = block.photo;
+        composites.push({
+            input: scaled ? await sharp(buffer).resize(width, height).toBuffer() : buffer,
+            left: MARGIN,
+            top: Math.round(block.y + NAME_SIZE + 24 + block.lines.length * LINE_HEIGHT + 12)
+        });
+    }
+    const svg = blocks.map(block => {
+        const nameY = block.y + NAME_SIZE;
+        let svgBlock = `
+        <text x="${MARGIN}" y="${nameY}" font-family="${FONT}" font-size="${NAME_SIZE}" font-weight="bold" fill="${INK}">${escapeXml(block.entry.senderName)}</text>
+        <text x="${PAGE_WIDTH - MARGIN}" y="${nameY}" font-family="${FONT}" font-size="22" fill="${MUTED}" text-anchor="end">${escapeXml(formatDate(block.entry.createdAt, labels.locale))}</text>`;
+        block.lines.forEach((line, i) => {
+            svgBlock += `
+        <text x="${MARGIN}" y="${nameY + 24 + (i + 1) * LINE_HEIGHT - 10}" font-family="${FONT}" font-size="${MESSAGE_SIZE}" font-style="${block.isVoiceNote && i === block.lines.length - 1 ? 'italic' : 'normal'}" fill="${INK}">${escapeXml(line)}</text>`;
+        });
+        return svgBlock;
+    }).join('') + renderFooter(brand, pageNumber, labels);
+    return renderPage(svg, composites);
+};
+
+const renderHighlightPage = async (photos, { brand, pageNumber, labels, showTitle }) => {
+    const top = CONTENT_TOP + (showTitle ? 90 : 0);
+    const gap = 30;
+    const cellWidth = Math.floor((CONTENT_WIDTH - gap * (HIGHLIGHT_COLUMNS - 1)) / HIGHLIGHT_COLUMNS);
+    const cellHeight = Math.floor((CONTENT_BOTTOM - top - gap * (HIGHLIGHT_ROWS - 1)) / HIGHLIGHT_ROWS);
+    const composites = [];
+    for (const [i, buffer] of photos.entries()) {
+        const fitted = await fitImage(buffer, cellWidth, cellHeight);
+        if (!fitted) continue;
+        const column = i % HIGHLIGHT_COLUMNS;
+        const row = Math.floor(i / HIGHLIGHT_COLUMNS);
+        composites.push({
+            input: fitted.buffer,
+            left: MARGIN + column * (cellWidth + gap) + Math.round((cellWidth - fitted.width) / 2),
+            top: top + row * (cellHeight + gap) + Math.round((cellHeight - fitted.height) / 2)
+        });
+    }
+    const title = showTitle
+        ? `<text x="50%" y="${CONTENT_TOP + 40}" font-family="${FONT}" font-size="44" fill="${INK}" text-anchor="middle">${escapeXml(labels.highlights)}</text>`
+        : '';
+    return renderPage(title + renderFooter(brand, pageNumber, labels), composites);
+};
+
+// Wraps full-page JPEGs into a PDF, one A4 page each
+export const buildPdf = (jpegPages) => {
+    const chunks = [];
+    const offsets = [];
+    let length = 0;
+    const write = (data) => {
+        const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'latin1');
+        chunks.push(buffer);
+        length += buffer.length;
+    };
+    const startObject = (id) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    // 1: catalog, 2: page tree, then page, content and image objects for each page
+    const pageIds = jpegPages.map((_, i) => 3 + i * 3);
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>\nendobj\n`);
+
+    jpegPages.forEach((page, i) => {
+        const [pageId, contentId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+        startObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH_PT} ${PAGE_HEIGHT_PT}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+        const content = `q ${PAGE_WIDTH_PT} 0 0 ${PAGE_HEIGHT_PT} 0 0 cm /Im0 Do Q`;
+        startObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+        startObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.buffer.length} >>\nstream\n`);
+        write(page.buffer);
+        write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    const objectCount = 3 + jpegPages.length * 3;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return Buffer.concat(chunks);
+};
+
+// Renders the keepsake PDF. `entries` are approved guestbook rows, oldest first;
+// `highlights` storage keys of the event's best photos. `loadObject` reads a
+// storage key into a Buffer.
+export const renderGuestbookPdf = async ({ event, host, entries, highlights = [], loadObject, lang }) => {
+    const labels = getLabels(lang);
+    const brand = host?.studioName || host?.name || '';
+    const logo = await loadLogo(host?.logoUrl).catch(() => null);
+
+    const blocks = [];
+    for (const entry of entries) {
+        const isVoiceNote = entry.attachmentType === 'audio';
+        const lines = wrapText(entry.message, MESSAGE_CHARS);
+        if (isVoiceNote) lines.push(labels.voiceNote);
+        let photo = null;
+        if (entry.attachmentType === 'image' && entry.attachmentUrl) {
+            const buffer = await loadObject(entry.attachmentUrl).catch(() => null);
+            photo = buffer ? await fitImage(buffer, CONTENT_WIDTH, PHOTO_MAX_HEIGHT) : null;
+        }
+        blocks.push({ entry, lines, photo, isVoiceNote });
+    }
+
+    const pages = [await renderCover({ event, brand, logo, entryCount: entries.length, labels })];
+    for (const pageBlocks of paginateEntries(blocks)) {
+        pages.push(await renderEntryPage(pageBlocks, { brand, pageNumber: pages.length + 1, labels }));
+    }
+
+    const perPage = HIGHLIGHT_COLUMNS * HIGHLIGHT_ROWS;
+    for (let i = 0; i < highlights.length; i += perPage) {
+        const photos = (await Promise.all(highlights.slice(i, i + perPage).map(key => loadObject(key).catch(() => null)))).filter(Boolean);
+        if (photos.length) pages.push(await renderHighlightPage(photos, { brand, pageNumber: pages.length + 1, labels, showTitle: i === 0 }));
+    }
+
+    return buildPdf(pages.map(buffer => ({ buffer, width: PAGE_WIDTH, height: PAGE_HEIGHT })));
+};
@@ -0,0 +1,72 @@
+// Like Service - one like per person and media item, kept in media_likes
+// Signed-in users like as themselves, guests as the random id their browser
+// keeps (X-Guest-Id header). media.likes stays the like count listings read;
+// it only moves when a like is actually added or removed, so counts from
+// before media_likes existed carry over.
+
+import { db } from '../config/db.js';
+
+const GUEST_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+const MAX_NAME_LENGTH = 60;
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+    });
+});
+
+// Who is liking: { likerId, userId, name }, or null when the request carries
+// neither a signed-in user nor a valid guest id
+export const getLiker = (req) => {
+    if (req.user) return { likerId: `user:${req.user.id}`, userId: req.user.id, name: null };
+
+    const guestId = req.headers['x-guest-id'];
+    if (typeof guestId !== 'string' || !GUEST_ID_PATTERN.test(guestId)) return null;
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    return { likerId: `guest:${guestId}`, userId: null, name: name || null };
+};
+
+// Likes the media item, or takes the like back when the liker already liked it.
+// Resolves with { liked, likes } - likes is the new count.
+export const toggleLike = async (mediaId, liker) => {
+    const added = await run("INSERT OR IGNORE INTO media_likes (mediaId, likerId, userId, name, createdAt) VALUES (?, ?, ?, ?, ?)",
+        [mediaId, liker.likerId, liker.userId, liker.name, new Date().toISOString()]);
+    if (added) {
+        await run("UPDATE media SET likes = COALESCE(likes, 0) + 1 WHERE id = ?", [mediaId]);
+    } else {
+        await run("DELETE FROM media_likes WHERE mediaId = ? AND likerId = ?", [mediaId, liker.likerId]);
+        await run("UPDATE media SET likes = MAX(COALESCE(likes, 0) - 1, 0) WHERE id = ?", [mediaId]);
+    }
+
+    return new Promise((resolve, reject) => {
+        db.get("SELECT likes FROM media WHERE id = ?", [mediaId], (err, row) => {
+            if (err) reject(err);
+            else resolve({ liked: !!added, likes: row?.likes || 0 });
+        });
+    });
+};
+
+// Everyone who liked the media item, latest first. Users are listed under
+// their current account name, guests under the name they liked with.
+export const getLikers = (mediaId) => new Promise((resolve, reject) => {
+    db.all(`SELECT media_likes.likerId, COALESCE(users.name, media_likes.name) AS name, media_likes.createdAt
+        FROM media_likes LEFT JOIN users ON users.id = media_likes.userId
+        WHERE media_likes.mediaId = ? ORDER BY media_likes.createdAt DESC`, [mediaId], (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows);
+    });
+});
+
+// Ids of the event's media the liker has liked
+export const getLikedMediaIds = async (eventId, likerId) => {
+    if (!likerId) return new Set();
+    const rows = await new Promise((resolve, reject) => {
+        db.all("SELECT media_likes.mediaId FROM media_likes JOIN media ON media.id = media_likes.mediaId WHERE media.eventId = ? AND media_likes.likerId = ?",
+            [eventId, likerId], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+    });
+    return new Set(rows.map(row => row.mediaId));
+};
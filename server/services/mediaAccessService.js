@@ -0,0 +1,133 @@
+// Media Access Service - Who may see which media, and the URLs they get for it
+// Private media and everything in a PIN-protected event is only served through
+// HMAC-signed, expiring URLs handed out to authorized viewers.
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env.js';
+
+// Signed URLs stay valid for at least this long...
+const SIGNED_URL_TTL_SECONDS = 6 * 60 * 60;
+// ...and expiry is rounded up to this step so repeated requests get the same
+// URL and browsers can reuse their cached copy
+const SIGNED_URL_STEP_SECONDS = 60 * 60;
+
+const EVENT_ACCESS_TOKEN_EXPIRY = '12h';
+
+// Media id and event id encoded in an object key, e.g. events/{eventId}/thumb_{id}.jpg,
+// events/{eventId}/hls/{id}/720p/seg_001.ts or events/{eventId}/variants/{id}/1080.avif.
+// Returns null for non-media keys (logos, ...).
+export const parseMediaKey = (key) => {
+    const nested = key.match(/^events\/([^/]+)\/(?:hls|variants)\/([^/]+)\//);
+    if (nested) return { eventId: nested[1], mediaId: nested[2] };
+
+    const file = key.match(/^events\/([^/]+)\/(?:thumb_|preview_|poster_)?([^/]+?)(?:_v\d+)?\.[^./]+$/);
+    return file ? { eventId: file[1], mediaId: file[2] } : null;
+};
+
+// One signature covers every rendition of a media item (original, thumbnail,
+// poster, HLS playlists and segments), so relative HLS URIs stay authorized
+const getSignatureScope = (key) => {
+    const parsed = parseMediaKey(key);
+    return parsed ? `${parsed.eventId}/${parsed.mediaId}` : key;
+};
+
+const computeSignature = (scope, expires) => crypto
+    .createHmac('sha256', config.MEDIA_URL_SECRET)
+    .update(`${scope}:${expires}`)
+    .digest('base64url');
+
+export const signMediaKey = (key, now = Date.now()) => {
+    const minExpiry = Math.floor(now / 1000) + SIGNED_URL_TTL_SECONDS;
+    const expires = Math.ceil(minExpiry / SIGNED_URL_STEP_SECONDS) * SIGNED_URL_STEP_SECONDS;
+    return { expires, signature: computeSignature(getSignatureScope(key), expires) };
+};
+
+export const verifyMediaSignature = (key, expires, signature, now = Date.now()) => {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || typeof signature !== 'string' || expiresAt * 1000 < now) return false;
+
+    const expected = Buffer.from(computeSignature(getSignatureScope(key), expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+export const getPublicUrl = (key) => `/api/proxy-media?key=${encodeURIComponent(key)}`;
+
+// Path-style URL, so relative segment URIs inside HLS playlists resolve through the proxy too
+export const getStreamUrl = (key) => `/api/proxy-media/${encodeURI(key)}`;
+
+export const getSignedUrl = (key) => {
+    const { expires, signature } = signMediaKey(key);
+    return `${getPublicUrl(key)}&exp=${expires}&sig=${signature}`;
+};
+
+export const getSignedStreamUrl = (key) => {
+    const { expires, signature } = signMediaKey(key);
+    return `/api/proxy-media/s/${expires}/${signature}/${encodeURI(key)}`;
+};
+
+// Media that may only be fetched through a signed URL
+export const requiresSignedUrl = (media, event) => media.privacy === 'private' || !!event?.pin;
+
+// srcset string per format ("<url> 400w, <url> 1080w") from a variants map of
+// storage keys - { format: { width: key } }, as stored (JSON) or parsed
+export const getVariantSrcSets = (variants, signed = false) => {
+    const map = typeof variants === 'string' ? JSON.parse(variants) : variants;
+    if (!map) return null;
+
+    const toUrl = signed ? getSignedUrl : getPublicUrl;
+    return Object.fromEntries(Object.entries(map).map(([format, widths]) => [
+        format,
+        Object.entries(widths)
+            .sort(([a], [b]) => a - b)
+            .map(([width, key]) => `${toUrl(key)} ${width}w`)
+            .join(', ')
+    ]));
+};
+
+// Client-facing URLs for a media row, signed when the media is protected
+export const getMediaUrls = (media, signed = false) => ({
+    url: signed ? getSignedUrl(media.url) : getPublicUrl(media.url),
+    previewUrl: media.previewUrl ? (signed ? getSignedUrl(media.previewUrl) : getPublicUrl(media.previewUrl)) : null,
+    posterUrl: media.posterUrl ? (signed ? getSignedUrl(media.posterUrl) : getPublicUrl(media.posterUrl)) : null,
+    hlsUrl: media.hlsUrl ? (signed ? getSignedStreamUrl(media.hlsUrl) : getStreamUrl(media.hlsUrl)) : null,
+    variants: getVariantSrcSets(media.variants, signed)
+});
+
+// --- PIN-protected events ---
+
+// Issued once a guest enters the right PIN; sent back as X-Event-Access
+export const createEventAccessToken = (eventId) =>
+    jwt.sign({ eventId, scope: 'event-access' }, config.JWT_SECRET, { expiresIn: EVENT_ACCESS_TOKEN_EXPIRY });
+
+export const hasEventAccess = (token, eventId) => {
+    if (!token || typeof token !== 'string') return false;
+    try {
+        const payload = jwt.verify(token, config.JWT_SECRET);
+        return payload.scope === 'event-access' && payload.eventId === eventId;
+    } catch {
+        return false;
+    }
+};
+
+// Whether `user` (may be null) sees the contents of `event` at all
+export const canViewEvent = (event, user, accessToken) => {
+    if (!event.pin) return true;
+    if (user && (user.role === 'ADMIN' || user.id === event.hostId)) return true;
+    return hasEventAccess(accessToken, event.id);
+};
+
+// Whether `user` (may be null) may see this media item, given they can view the event
+export const canViewMedia = (media, event, user) => {
+    if (media.privacy !== 'private') return true;
+    if (!user) return false;
+    return user.role === 'ADMIN' || user.id === event.hostId || user.id === media.uploaderId;
+};
+
+// Whether `user` may open this one media item: canViewMedia, plus the PIN
+// access token for PIN-protected events unless they uploaded it
+export const canAccessMedia = (media, event, user, accessToken) => {
+    const isUploader = !!user && user.id === media.uploaderId;
+    return canViewMedia(media, event, user) && (isUploader || canViewEvent(event, user, accessToken));
+};
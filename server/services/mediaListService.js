@@ -0,0 +1,97 @@
+// Media List Service - cursor-paginated media listings for large events
+// Pages are keyset-paginated on (sort value, id), so new uploads arriving while
+// a guest scrolls don't shift later pages and no page repeats an item. The cursor
+// is opaque to clients: base64url JSON of the last item's [sort value, id].
+
+import { db } from '../config/db.js';
+
+export const DEFAULT_PAGE_SIZE = 60;
+export const MAX_PAGE_SIZE = 200;
+
+// uploaded: newest uploads first. taken: the order the event unfolded, oldest
+// capture time first (like utils/mediaTimeline), falling back to the upload time.
+const SORTS = {
+    uploaded: { key: "COALESCE(uploadedAt, '')", direction: 'DESC', compare: '<' },
+    taken: { key: "COALESCE(takenAt, uploadedAt, '')", direction: 'ASC', compare: '>' }
+};
+
+export const MEDIA_SORTS = Object.keys(SORTS);
+
+export const encodeCursor = (value, id) => Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+// [value, id], or null for a missing or malformed cursor
+export const decodeCursor = (cursor) => {
+    if (!cursor) return null;
+    try {
+        const decoded = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+        if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[0] === 'string' && typeof decoded[1] === 'string') return decoded;
+    } catch (error) {
+        // Falls through to null
+    }
+    return null;
+};
+
+// Conditions shared by pages and counts. Private media is only listed for its
+// uploader (viewerId) unless includePrivate is set.
+const buildFilters = (eventId, { type, uploaderId, privacy, viewerId = null, includePrivate = false }) => {
+    const conditions = ['eventId = ?'];
+    const params = [eventId];
+
+    if (type) {
+        conditions.push('type = ?');
+        params.push(type);
+    }
+    if (uploaderId) {
+        conditions.push('uploaderId = ?');
+        params.push(uploaderId);
+    }
+    if (privacy) {
+        conditions.push("COALESCE(privacy, 'public') = ?");
+        params.push(privacy);
+    }
+    if (!includePrivate) {
+        conditions.push("(COALESCE(privacy, 'public') != 'private' OR uploaderId = ?)");
+        params.push(viewerId);
+    }
+    return { conditions, params };
+};
+
+// One page of an event's media rows: { rows, nextCursor } - nextCursor is null on the last page
+export const listEventMedia = async (eventId, { sort = 'uploaded', cursor = null, limit = DEFAULT_PAGE_SIZE, ...filters } = {}) => {
+    const order = SORTS[sort] || SORTS.uploaded;
+    const { conditions, params } = buildFilters(eventId, filters);
+
+    const after = decodeCursor(cursor);
+    if (after) {
+        conditions.push(`(${order.key} ${order.compare} ? OR (${order.key} = ? AND id ${order.compare} ?))`);
+        params.push(after[0], after[0], after[1]);
+    }
+
+    // One extra row tells whether there is another page
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const rows = await new Promise((resolve, reject) => {
+        db.all(`SELECT *, ${order.key} AS sortValue FROM media WHERE ${conditions.join(' AND ')}
+            ORDER BY ${order.key} ${order.direction}, id ${order.direction} LIMIT ?`, [...params, pageSize + 1], (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+
+    const hasMore = rows.length > pageSize;
+    const page = rows.slice(0, pageSize);
+    const last = page[page.length - 1];
+    return {
+        rows: page.map(({ sortValue, ...row }) => row),
+        nextCursor: hasMore ? encodeCursor(last.sortValue, last.id) : null
+    };
+};
+
+export const countEventMedia = async (eventId, filters = {}) => {
+    const { conditions, params } = buildFilters(eventId, filters);
+    return new Promise((resolve, reject) => {
+        db.get(`SELECT COUNT(*) AS count FROM media WHERE ${conditions.join(' AND ')}`, params, (err, row) => {
+            if (err) reject(err);
+            else resolve(row.count);
+        });
+    });
+};
@@ -5,6 +5,11 @@ import { uploadToS3, deleteFromS3, getS3Object } from './storage.js';
 import sharp from 'sharp';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import { probeVideo, getPosterOffset, extractPosterFrame } from './videoService.js';
+import { getSignedUrl as signMediaUrl } from './mediaAccessService.js';
+import { searchMediaIndex } from './searchService.js';
+import { toggleLike as toggleMediaLike } from './likeService.js';
 
 class MediaService {
     constructor() {
@@ -61,10 +66,19 @@ class MediaService {
 
     // Generate thumbnail for video
     async generateVideoThumbnail(videoBuffer) {
-        // This would use ffmpeg to extract a frame
-        // For now, return a placeholder
-        const placeholder = Buffer.from('placeholder thumbnail');
-        return placeholder;
+        // ffmpeg needs a seekable input, so the buffer goes through a temp file
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'snapify-video-'));
+        const inputPath = path.join(tempDir, 'input');
+        const posterPath = path.join(tempDir, 'poster.jpg');
+
+        try {
+            await fs.promises.writeFile(inputPath, videoBuffer);
+            const { duration } = await probeVideo(inputPath);
+            await extractPosterFrame(inputPath, posterPath, getPosterOffset(duration));
+            return await fs.promises.readFile(posterPath);
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
     }
 
     // Upload media file
@@ -252,31 +266,24 @@ class MediaService {
         };
     }
 
-    // Like/unlike media
+    // Like/unlike media - one like per user, kept in media_likes
     async toggleLike(mediaId, userId) {
-        // This would typically use a separate likes table
-        // For now, just increment the counter
-        const stmt = db.prepare('UPDATE media SET likes = likes + 1 WHERE id = ?');
-        const result = stmt.run(mediaId);
-
-        if (result.changes === 0) {
+        const media = this.getMediaById(mediaId);
+        if (!media) {
             throw new Error('Media not found');
         }
 
-        // Get updated media
-        const media = this.getMediaById(mediaId);
+        const { liked, likes } = await toggleMediaLike(mediaId, { likerId: `user:${userId}`, userId, name: null });
 
         // Invalidate cache
         await cacheService.invalidateEventMedia(media.eventId);
 
-        return media;
+        return { ...media, likes, liked };
     }
 
     // Get signed URL for private access
     getSignedUrl(key) {
-        // This would generate a signed URL for S3
-        // For now, return the key (assuming public access)
-        return key;
+        return signMediaUrl(key);
     }
 
     // Get media statistics
@@ -295,27 +302,11 @@ class MediaService {
         return stats;
     }
 
-    // Search media
-    searchMedia(query, eventId = null, options = {}) {
-        const { limit = 20, offset = 0 } = options;
-        const searchTerm = `%${query}%`;
-
-        let sql = `
-            SELECT * FROM media
-            WHERE (caption LIKE ? OR uploaderName LIKE ?)
-        `;
-
-        const params = [searchTerm, searchTerm];
-
-        if (eventId) {
-            sql += ' AND eventId = ?';
-            params.push(eventId);
-        }
-
-        sql += ' ORDER BY uploadedAt DESC LIMIT ? OFFSET ?';
-        params.push(limit, offset);
+    // Search media - ranked full-text search through the media_search index
+    async searchMedia(query, eventId = null, options = {}) {
+        const { limit = 20, offset = 0, viewerId = null, includePrivate = false } = options;
 
-        const media = db.prepare(sql).all(...params);
+        const media = await searchMediaIndex(query, { eventId, viewerId, includePrivate, limit, offset });
         return media.map(item => ({
             ...item,
             url: this.getSignedUrl(item.url),
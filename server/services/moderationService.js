@@ -0,0 +1,35 @@
+// Moderation Service - keeps guest-written text (comments, guestbook) clean
+// Swear words are masked rather than rejected, so a message with one bad word
+// still goes through. Words are compared folded like search text (lowercase,
+// no diacritics), which also catches "pička" typed as "picka".
+
+import { normalizeSearchText } from './searchService.js';
+
+// Common swear words in the languages guests write in (en, mk, tr, sq), folded.
+// Whole words only, and none that are also everyday words in another of the
+// languages once folded (Turkish "göt" folds to "got") - "Shitake" doesn't match "shit".
+const PROFANITY = new Set([
+    // English
+    'fuck', 'fucking', 'fucker', 'fucked', 'motherfucker', 'shit', 'shitty', 'bullshit', 'bitch', 'bitches',
+    'asshole', 'assholes', 'cunt', 'dick', 'dickhead', 'bastard', 'slut', 'whore', 'wanker', 'twat', 'prick',
+    // Macedonian (Cyrillic and Latin spellings)
+    'курва', 'курво', 'курви', 'пичка', 'пичко', 'пички', 'кур', 'курац', 'шупак', 'шупаку', 'педер', 'педеру',
+    'еби', 'ебам', 'ебан', 'јебам', 'јеби', 'говно', 'говнар',
+    'kurva', 'kurvo', 'picka', 'picko', 'kurac', 'supak', 'peder', 'ebam', 'jebam', 'jebi', 'govno',
+    // Turkish
+    'amk', 'orospu', 'sikik', 'siktir', 'yarrak', 'ibne', 'kahpe', 'pezevenk', 'amcık',
+    // Albanian
+    'pidh', 'pidhi', 'qij', 'qifsha', 'qifsh', 'kurvë', 'bythqir'
+].map(normalizeSearchText));
+
+// { text, flagged } - the text with swear words masked ("f***"), and whether any were
+export const filterProfanity = (text) => {
+    let flagged = false;
+    const filtered = String(text ?? '').replace(/[\p{L}\p{N}]+/gu, (word) => {
+        if (!PROFANITY.has(normalizeSearchText(word))) return word;
+        flagged = true;
+        const letters = Array.from(word);
+        return letters[0] + '*'.repeat(letters.length - 1);
+    });
+    return { text: filtered, flagged };
+};
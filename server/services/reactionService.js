@@ -0,0 +1,67 @@
+// Reaction Service - quick emoji reactions on media, kept in media_reactions
+// Like a messaging app, everyone has at most one reaction per media item:
+// reacting with another emoji replaces it, the same emoji again removes it.
+// People are identified the same way as for likes (likeService.getLiker).
+
+import { db } from '../config/db.js';
+
+export const REACTIONS = ['😂', '❤️', '😮', '🎉'];
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => {
+        if (err) reject(err);
+        else resolve();
+    });
+});
+
+// { emoji: count } for one media item, only emoji someone reacted with
+export const getReactionCounts = (mediaId) => new Promise((resolve, reject) => {
+    db.all("SELECT emoji, COUNT(*) AS count FROM media_reactions WHERE mediaId = ? GROUP BY emoji", [mediaId], (err, rows) => {
+        if (err) reject(err);
+        else resolve(Object.fromEntries(rows.map(row => [row.emoji, row.count])));
+    });
+});
+
+// Sets (or with the same emoji, clears) the reactor's reaction.
+// Resolves with { reaction, reactions } - the reactor's reaction after the
+// change (null when cleared) and the item's new counts.
+export const setReaction = async (mediaId, reactor, emoji) => {
+    const current = await new Promise((resolve, reject) => {
+        db.get("SELECT emoji FROM media_reactions WHERE mediaId = ? AND reactorId = ?", [mediaId, reactor.likerId], (err, row) => {
+            if (err) reject(err);
+            else resolve(row?.emoji || null);
+        });
+    });
+
+    if (current === emoji) {
+        await run("DELETE FROM media_reactions WHERE mediaId = ? AND reactorId = ?", [mediaId, reactor.likerId]);
+    } else {
+        await run("INSERT OR REPLACE INTO media_reactions (mediaId, reactorId, userId, emoji, createdAt) VALUES (?, ?, ?, ?, ?)",
+            [mediaId, reactor.likerId, reactor.userId, emoji, new Date().toISOString()]);
+    }
+
+    return { reaction: current === emoji ? null : emoji, reactions: await getReactionCounts(mediaId) };
+};
+
+// Reaction counts and the viewer's own reaction for every reacted-to item of
+// an event: Map of mediaId -> { reactions, myReaction }
+export const getEventReactions = async (eventId, reactorId = null) => {
+    const rows = await new Promise((resolve, reject) => {
+        db.all(`SELECT media_reactions.mediaId, media_reactions.emoji, COUNT(*) AS count,
+                MAX(media_reactions.reactorId = ?) AS mine
+            FROM media_reactions JOIN media ON media.id = media_reactions.mediaId
+            WHERE media.eventId = ? GROUP BY media_reactions.mediaId, media_reactions.emoji`, [reactorId, eventId], (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+
+    const byMedia = new Map();
+    for (const row of rows) {
+        if (!byMedia.has(row.mediaId)) byMedia.set(row.mediaId, { reactions: {}, myReaction: null });
+        const entry = byMedia.get(row.mediaId);
+        entry.reactions[row.emoji] = row.count;
+        if (row.mine) entry.myReaction = row.emoji;
+    }
+    return byMedia;
+};
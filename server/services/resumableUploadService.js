@@ -0,0 +1,164 @@
+// Resumable Upload Service - tus-style chunked uploads
+// A session is created up front, chunks are appended at an explicit byte offset,
+// and the assembled file is handed to the regular upload pipeline once complete.
+
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { fileURLToPath } from 'url';
+import { db } from '../config/db.js';
+import { queueFileUpload, reportTransferProgress } from './uploadService.js';
+import { getSourceFormat } from './imageConversionService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const uploadDir = path.join(__dirname, '../../server/uploads');
+
+if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir);
+
+export const ALLOWED_UPLOAD_MIMES = [
+    'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
+    'video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo', 'video/webm'
+];
+
+// Web-friendly types, plus HEIC/HEIF and camera RAW files that are converted on the server
+export const isAllowedUpload = (mimeType, filename) => ALLOWED_UPLOAD_MIMES.includes(mimeType) || !!getSourceFormat(mimeType, filename);
+
+// Sessions untouched for this long are discarded along with their partial file
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Upload sessions currently receiving a chunk - one writer per session
+const activeWrites = new Set();
+
+const getPartialPath = (uploadId) => path.join(uploadDir, `partial_${uploadId.replace(/[^a-zA-Z0-9_-]/g, '_')}`);
+
+const rowToSession = (row) => row ? { ...row, metadata: JSON.parse(row.metadata || '{}') } : null;
+
+export const getUploadSession = (uploadId) => {
+    return new Promise((resolve, reject) => {
+        db.get("SELECT * FROM upload_sessions WHERE id = ?", [uploadId], (err, row) => {
+            if (err) reject(err);
+            else resolve(rowToSession(row));
+        });
+    });
+};
+
+// Public view of a session, as returned to the client
+export const describeSession = (session) => ({
+    uploadId: session.id,
+    offset: session.receivedBytes,
+    size: session.size,
+    completed: session.receivedBytes >= session.size
+});
+
+export const isSessionBusy = (uploadId) => activeWrites.has(uploadId);
+
+export const createUploadSession = async ({ userId, filename, mimeType, size, metadata }) => {
+    const now = new Date().toISOString();
+    await fs.promises.writeFile(getPartialPath(metadata.id), '');
+    await new Promise((resolve, reject) => {
+        db.run(`INSERT INTO upload_sessions (id, eventId, userId, filename, mimeType, size, receivedBytes, metadata, createdAt, updatedAt)
+            VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?)`,
+            [metadata.id, metadata.eventId, userId, filename, mimeType, size, JSON.stringify(metadata), now, now], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+    });
+
+    console.log(`📦 Created resumable upload session ${metadata.id} (${size} bytes)`);
+    return getUploadSession(metadata.id);
+};
+
+const updateReceivedBytes = (uploadId, receivedBytes) => {
+    return new Promise((resolve, reject) => {
+        db.run("UPDATE upload_sessions SET receivedBytes = ?, updatedAt = ? WHERE id = ?",
+            [receivedBytes, new Date().toISOString(), uploadId], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+    });
+};
+
+const deleteSessionRecord = (uploadId) => {
+    return new Promise((resolve) => {
+        db.run("DELETE FROM upload_sessions WHERE id = ?", [uploadId], () => resolve());
+    });
+};
+
+// Hand the assembled file to the regular pipeline. Processing runs in the
+// background - the client follows it through the upload status endpoint.
+const completeUploadSession = async (session) => {
+    await deleteSessionRecord(session.id);
+
+    const file = {
+        path: getPartialPath(session.id),
+        originalname: session.filename,
+        mimetype: session.mimeType,
+        size: session.size
+    };
+
+    queueFileUpload(file, session.metadata, session.userId).catch((error) => {
+        console.error(`❌ Could not queue resumable upload ${session.id}:`, error.message);
+    });
+};
+
+// Append `input` at the session's current offset. Bytes received before a
+// dropped connection are kept, so the client can resume from the stored offset.
+// Resolves with the updated session, or rejects if the transfer was interrupted.
+export const appendUploadChunk = async (session, input) => {
+    activeWrites.add(session.id);
+    const partialPath = getPartialPath(session.id);
+    try {
+        // Drop any bytes past the last recorded offset (e.g. from a crashed write)
+        await fs.promises.truncate(partialPath, session.receivedBytes);
+
+        let transferError = null;
+        try {
+            await pipeline(input, fs.createWriteStream(partialPath, { flags: 'a' }));
+        } catch (error) {
+            transferError = error;
+        }
+
+        let { size: receivedBytes } = await fs.promises.stat(partialPath);
+        if (receivedBytes > session.size) {
+            await fs.promises.truncate(partialPath, session.size);
+            receivedBytes = session.size;
+        }
+
+        await updateReceivedBytes(session.id, receivedBytes);
+        const updated = { ...session, receivedBytes };
+        reportTransferProgress(session.eventId, session.id, receivedBytes, session.size);
+
+        if (transferError) {
+            console.warn(`⚠️ Chunk interrupted for ${session.id} at ${receivedBytes}/${session.size} bytes`);
+            throw transferError;
+        }
+
+        if (receivedBytes >= session.size) {
+            console.log(`✅ Resumable upload ${session.id} fully received`);
+            await completeUploadSession(updated);
+        }
+
+        return updated;
+    } finally {
+        activeWrites.delete(session.id);
+    }
+};
+
+// Remove sessions that were abandoned mid-upload
+export const cleanupStaleUploadSessions = async () => {
+    const cutoff = new Date(Date.now() - SESSION_TTL_MS).toISOString();
+    const stale = await new Promise((resolve) => {
+        db.all("SELECT id FROM upload_sessions WHERE updatedAt < ?", [cutoff], (err, rows) => resolve(rows || []));
+    });
+
+    for (const { id } of stale) {
+        await fs.promises.rm(getPartialPath(id), { force: true });
+        await deleteSessionRecord(id);
+    }
+    if (stale.length > 0) console.log(`🧹 Removed ${stale.length} stale upload sessions`);
+};
+
+setInterval(() => {
+    cleanupStaleUploadSessions().catch((error) => console.warn('⚠️ Upload session cleanup failed:', error.message));
+}, 60 * 60 * 1000).unref();
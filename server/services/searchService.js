@@ -0,0 +1,111 @@
+// Search Service - ranked full-text media search over the media_search FTS5 index
+// Captions, uploader names, comments and AI tags are folded to lowercase
+// without diacritics in JavaScript before they are indexed or searched. SQLite's
+// tokenizer only does that for Latin letters, which leaves out Macedonian
+// Cyrillic (ѓ, ќ, ѝ) and the Turkish dotless ı.
+
+import { db } from '../config/db.js';
+
+// bm25 weights in media_search column order: mediaId, eventId, caption, uploaderName, comments, tags
+const RANK = 'bm25(media_search, 0, 0, 10, 5, 2, 4)';
+const MAX_QUERY_TERMS = 10;
+
+export const normalizeSearchText = (text) => String(text ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ı/g, 'i');
+
+// FTS5 MATCH expression: every term has to match, each as a prefix
+// ("mar" finds "Marija"). Null when the query has nothing searchable.
+export const buildMatchQuery = (query) => {
+    const terms = normalizeSearchText(query).match(/[\p{L}\p{N}]+/gu) || [];
+    if (terms.length === 0) return null;
+    return terms.slice(0, MAX_QUERY_TERMS).map(term => `"${term}"*`).join(' ');
+};
+
+const parseTags = (aiTags) => {
+    try {
+        const tags = JSON.parse(aiTags || '[]');
+        return Array.isArray(tags) ? tags.join(' ') : '';
+    } catch (error) {
+        return '';
+    }
+};
+
+// (Re)index one media item - call after its caption, comments or tags change.
+// Deleted media is removed from the index by the media_search_delete trigger.
+export const indexMedia = async (mediaId) => {
+    const [media, comments] = await Promise.all([
+        new Promise((resolve, reject) => {
+            db.get("SELECT id, eventId, caption, uploaderName, aiTags FROM media WHERE id = ?", [mediaId], (err, row) => {
+                if (err) reject(err);
+                else resolve(row);
+            });
+        }),
+        new Promise((resolve, reject) => {
+            db.all("SELECT text FROM comments WHERE mediaId = ?", [mediaId], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+        })
+    ]);
+
+    await new Promise((resolve, reject) => {
+        db.run("DELETE FROM media_search WHERE mediaId = ?", [mediaId], (err) => {
+            if (err) reject(err);
+            else resolve();
+        });
+    });
+    if (!media) return;
+
+    await new Promise((resolve, reject) => {
+        db.run("INSERT INTO media_search (mediaId, eventId, caption, uploaderName, comments, tags) VALUES (?, ?, ?, ?, ?, ?)",
+            [media.id, media.eventId, normalizeSearchText(media.caption), normalizeSearchText(media.uploaderName),
+                normalizeSearchText(comments.map(comment => comment.text).join('\n')), normalizeSearchText(parseTags(media.aiTags))], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+    });
+};
+
+// Index media that isn't in the search index yet (uploads from before it
+// existed). Resolves with the number of items indexed.
+export const syncSearchIndex = async () => {
+    const rows = await new Promise((resolve, reject) => {
+        db.all("SELECT id FROM media WHERE id NOT IN (SELECT mediaId FROM media_search)", (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+    for (const row of rows) await indexMedia(row.id);
+    if (rows.length > 0) console.log(`🔎 Indexed ${rows.length} media items for search`);
+    return rows.length;
+};
+
+// Media rows matching the query, best match first. Private media is only
+// included for its uploader (viewerId) unless includePrivate is set.
+export const searchMediaIndex = async (query, { eventId = null, viewerId = null, includePrivate = false, limit = 50, offset = 0 } = {}) => {
+    const match = buildMatchQuery(query);
+    if (!match) return [];
+
+    let sql = `SELECT media.* FROM media_search JOIN media ON media.id = media_search.mediaId WHERE media_search MATCH ?`;
+    const params = [match];
+    if (eventId) {
+        sql += ' AND media_search.eventId = ?';
+        params.push(eventId);
+    }
+    if (!includePrivate) {
+        sql += " AND (COALESCE(media.privacy, 'public') != 'private' OR media.uploaderId = ?)";
+        params.push(viewerId);
+    }
+    sql += ` ORDER BY ${RANK}, media.uploadedAt DESC LIMIT ? OFFSET ?`;
+    params.push(limit, offset);
+
+    return new Promise((resolve, reject) => {
+        db.all(sql, params, (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows);
+        });
+    });
+};
@@ -1,6 +1,8 @@
 import { Server } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env.js';
+import { db } from '../config/db.js';
+import { canViewEvent } from './mediaAccessService.js';
 
 let io;
 const adminOnlineStatus = new Map();
@@ -16,11 +18,27 @@ export const initSocket = (server) => {
     io.on('connection', (socket) => {
         let currentUser = null;
 
+        // Hosts and admins also get guestbook entries awaiting their approval, and
+        // signed-in users news of their own private uploads (comments on them)
+        const joinPrivateRooms = (event) => {
+            if (!currentUser) return;
+            if (currentUser.role === 'ADMIN' || currentUser.id === event.hostId) socket.join(`${event.id}:hosts`);
+            socket.join(`${event.id}:user:${currentUser.id}`);
+        };
+
         socket.on('authenticate', (token) => {
             try {
                 const user = jwt.verify(token, config.JWT_SECRET);
                 currentUser = user;
 
+                // join_event may have arrived first
+                for (const room of socket.rooms) {
+                    if (room === socket.id || room.includes(':')) continue;
+                    db.get("SELECT id, hostId FROM events WHERE id = ?", [room], (err, event) => {
+                        if (!err && event) joinPrivateRooms(event);
+                    });
+                }
+
                 // Track admin status
                 if (user.role === 'ADMIN') {
                     adminOnlineStatus.set(user.id, { online: true, socketId: socket.id, lastSeen: Date.now() });
@@ -37,7 +55,17 @@ export const initSocket = (server) => {
             }
         });
 
-        socket.on('join_event', (eventId) => socket.join(eventId));
+        // Rooms receive live media URLs, so PIN-protected events need the host,
+        // an admin or a guest holding the PIN access token
+        socket.on('join_event', (eventId, accessToken) => {
+            if (typeof eventId !== 'string') return;
+            db.get("SELECT id, hostId, pin FROM events WHERE id = ?", [eventId], (err, event) => {
+                if (err || !event) return;
+                if (!canViewEvent(event, currentUser, accessToken)) return;
+                socket.join(eventId);
+                joinPrivateRooms(event);
+            });
+        });
 
         socket.on('admin_trigger_reload', (token) => {
             try {
@@ -75,4 +103,14 @@ export const getIo = () => {
     return io;
 };
 
+// Updates about private media only reach those who can see it: its uploader, the host and admins
+export const emitForMedia = (media, name, payload) => {
+    try {
+        const rooms = media.privacy === 'private'
+            ? [`${media.eventId}:hosts`, `${media.eventId}:user:${media.uploaderId}`]
+            : media.eventId;
+        getIo().to(rooms).emit(name, payload);
+    } catch (e) { }
+};
+
 export const getAdminStatus = () => adminOnlineStatus;
@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, ListObjectsV2Command, DeleteObjectsCommand } from '@aws-sdk/client-s3';
 import fs from 'fs';
 import { config } from '../config/env.js';
 
@@ -37,6 +37,16 @@ export const uploadToS3 = async (filePath, key, contentType, deleteAfterUpload =
     }
 };
 
+export const uploadBufferToS3 = async (buffer, key, contentType) => {
+    try {
+        await s3Client.send(new PutObjectCommand({ Bucket: config.S3.BUCKET, Key: key, Body: buffer, ContentType: contentType }));
+        return key;
+    } catch (err) {
+        console.error('S3 Buffer Upload failed:', { error: err.message, key });
+        throw new Error(`Failed to upload media: ${err.message}`);
+    }
+};
+
 export const deleteFromS3 = async (key) => {
     try {
         await s3Client.send(new DeleteObjectCommand({ Bucket: config.S3.BUCKET, Key: key }));
@@ -45,9 +55,48 @@ export const deleteFromS3 = async (key) => {
     }
 };
 
-export const getS3Object = async (key) => {
-    const command = new GetObjectCommand({ Bucket: config.S3.BUCKET, Key: key });
+// Delete every object under a key prefix (e.g. an HLS rendition folder)
+export const deletePrefixFromS3 = async (prefix) => {
+    try {
+        let continuationToken = undefined;
+        do {
+            const response = await s3Client.send(new ListObjectsV2Command({
+                Bucket: config.S3.BUCKET,
+                Prefix: prefix,
+                ContinuationToken: continuationToken,
+                MaxKeys: 1000
+            }));
+
+            const objects = (response.Contents || []).map(obj => ({ Key: obj.Key }));
+            if (objects.length > 0) {
+                await s3Client.send(new DeleteObjectsCommand({
+                    Bucket: config.S3.BUCKET,
+                    Delete: { Objects: objects, Quiet: true }
+                }));
+            }
+            continuationToken = response.NextContinuationToken;
+        } while (continuationToken);
+    } catch (e) {
+        console.error("S3 Prefix Delete Error", e);
+    }
+};
+
+// `range` is an HTTP Range header value; `ifNoneMatch`/`ifModifiedSince` make the
+// request conditional (S3 answers 304, which the SDK raises as an error)
+export const getS3Object = async (key, { range, ifNoneMatch, ifModifiedSince } = {}) => {
+    const command = new GetObjectCommand({
+        Bucket: config.S3.BUCKET,
+        Key: key,
+        Range: range,
+        IfNoneMatch: ifNoneMatch,
+        IfModifiedSince: ifModifiedSince
+    });
     return await s3Client.send(command);
 };
 
+export const getS3ObjectBuffer = async (key) => {
+    const { Body } = await getS3Object(key);
+    return Buffer.from(await Body.transformToByteArray());
+};
+
 export { s3Client };
@@ -4,11 +4,22 @@
 import fs from 'fs';
 import path from 'path';
 import sharp from 'sharp';
-import { spawn } from 'child_process';
 import { db } from '../config/db.js';
-import { uploadToS3, deleteFromS3 } from './storage.js';
+import { uploadToS3, uploadBufferToS3, deleteFromS3, getS3ObjectBuffer } from './storage.js';
 import { getIo } from './socket.js';
 import { cacheService } from './cacheService.js';
+import { getWatermarkSettings, loadLogo, renderWatermark } from './watermarkService.js';
+import { getTierConfig } from '../config/tiers.js';
+import { readImageExif, normalizeOrientation, stripLocation, stripSourceLocation, toCoarseLocation } from './exifService.js';
+import { getSourceFormat, convertToJpeg } from './imageConversionService.js';
+import { probeVideo, getPosterOffset, extractPosterFrame, transcodePreview, createHlsLadder } from './videoService.js';
+import { getMediaUrls, getPublicUrl, getSignedStreamUrl, getSignedUrl, getStreamUrl, getVariantSrcSets, requiresSignedUrl } from './mediaAccessService.js';
+import { renderImageVariants, listVariantKeys } from './imageVariantService.js';
+import { hashFile, computePerceptualHash, findClosestMatch } from './duplicateService.js';
+import { indexMedia } from './searchService.js';
+import { indexMediaFaces } from './faceService.js';
+import { scheduleEventClustering } from './faceClusterService.js';
+import { scoreMediaQuality } from './highlightService.js';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -17,6 +28,29 @@ const uploadDir = path.join(__dirname, '../../server/uploads');
 
 if (!fs.existsSync(uploadDir)) fs.mkdirSync(uploadDir);
 
+// Everyone who joined the event room receives live updates, so private media is
+// never broadcast and media in PIN-protected events only carries signed URLs.
+// `update` holds storage keys for url/previewUrl/posterUrl/hlsUrl and the variants map.
+const emitMediaProcessed = (eventId, mediaId, update) => {
+    const io = getIo();
+    if (!io) return;
+
+    db.get(`SELECT m.privacy, e.pin FROM media m JOIN events e ON e.id = m.eventId WHERE m.id = ?`, [mediaId], (err, row) => {
+        if (err || !row || row.privacy === 'private') return;
+
+        const signed = requiresSignedUrl(row, row);
+        const payload = { id: mediaId, ...update };
+        for (const field of ['url', 'previewUrl', 'posterUrl']) {
+            if (update[field]) payload[field] = signed ? getSignedUrl(update[field]) : getPublicUrl(update[field]);
+        }
+        if (update.hlsUrl) payload.hlsUrl = signed ? getSignedStreamUrl(update.hlsUrl) : getStreamUrl(update.hlsUrl);
+        if (update.variants) payload.variants = getVariantSrcSets(update.variants, signed);
+
+        io.to(eventId).emit('media_processed', payload);
+        console.log(`📡 Emitted media_processed event for ${mediaId} to event ${eventId}`);
+    });
+};
+
 // Upload queue for background processing
 class UploadQueue {
     constructor(concurrency = 3) {
@@ -48,8 +82,27 @@ const uploadQueue = new UploadQueue(3);
 // Progress tracking
 const uploadProgress = new Map();
 
-export const getUploadProgress = (uploadId) => {
-    return uploadProgress.get(uploadId) || { status: 'unknown', progress: 0 };
+// Live progress is kept in memory; after a restart the job record is the source of truth
+export const getUploadProgress = async (uploadId) => {
+    const progress = uploadProgress.get(uploadId);
+    if (progress) return progress;
+
+    const job = await getUploadJob(uploadId);
+    if (!job) return { status: 'unknown', progress: 0 };
+    const status = job.status === 'cancelled' ? 'failed'
+        : job.status === 'pending' && job.attempts > 0 ? 'retrying' : job.status;
+    return {
+        status,
+        progress: job.progress,
+        error: job.lastError || undefined
+    };
+};
+
+// Byte progress while a resumable upload is still being received
+export const reportTransferProgress = (eventId, uploadId, receivedBytes, totalBytes) => {
+    const progress = totalBytes > 0 ? Math.floor((receivedBytes / totalBytes) * 100) : 0;
+    uploadProgress.set(uploadId, { status: 'receiving', progress, receivedBytes, totalBytes });
+    notifyUploadProgress(eventId, uploadId, 'receiving', progress);
 };
 
 export const processFileUpload = async (file, metadata, userId = null) => {
@@ -68,20 +121,55 @@ export const processFileUpload = async (file, metadata, userId = null) => {
             await checkStorageLimits(userId, file.size);
         }
 
-        // Generate file paths
-        const ext = path.extname(file.originalname);
-        const s3Key = `events/${eventId}/${uploadId}${ext}`;
+        // A byte-identical copy of something the uploader already put in the
+        // event (usually a retried upload) isn't stored again
+        const contentHash = await hashFile(file.path);
+        const existingId = await findIdenticalUpload(eventId, userId, metadata.privacy || 'public', contentHash);
+        if (existingId) {
+            console.log(`♻️ Upload ${uploadId} is identical to ${existingId}, skipping`);
+            uploadProgress.set(uploadId, { status: 'duplicate', progress: 100, duplicateOf: existingId });
+            notifyUploadProgress(eventId, uploadId, 'duplicate', 100);
+            return { success: true, uploadId, duplicateOf: existingId };
+        }
+
+        // The server decides whether a watermark is applied, using the host's studio settings
+        const watermark = !isVideo && metadata.isWatermarked === 'true' ? await getEventWatermark(eventId) : null;
+
+        // HEIC/HEIF and RAW files are displayed from a JPEG conversion
+        const source = isVideo ? null : getSourceFormat(file.mimetype, file.originalname);
+
+        // Generate file paths - watermarked and converted images are stored as JPEG.
+        // The clean original of a watermarked image and the untouched HEIC/RAW file
+        // are kept under keys that are never returned to clients.
+        const ext = source ? '.jpg' : path.extname(file.originalname);
+        const s3Key = watermark ? `events/${eventId}/${uploadId}.jpg` : `events/${eventId}/${uploadId}${ext}`;
+        const originalKey = watermark ? `events/${eventId}/originals/${uploadId}${ext}` : null;
+        const sourceKey = source ? `events/${eventId}/originals/${uploadId}${source.extension}` : null;
         const previewKey = isVideo ? `events/${eventId}/preview_${uploadId}.mp4` : `events/${eventId}/thumb_${uploadId}.jpg`;
 
         // Insert initial record
-        await insertMediaRecord(metadata, s3Key, previewKey, userId);
+        await insertMediaRecord({
+            ...metadata,
+            isWatermarked: watermark ? 'true' : 'false',
+            watermarkText: watermark ? watermark.text : null
+        }, s3Key, previewKey, userId, originalKey, sourceKey, source?.format, contentHash);
 
         // Notify clients upload started
         notifyUploadProgress(eventId, uploadId, 'started', 0);
 
         if (!isVideo) {
             // Process image
-            await processImageUpload(file, s3Key, previewKey, eventId, uploadId);
+            const keepLocation = await getEventKeepsLocation(eventId);
+            if (source) {
+                const converted = await convertSourceUpload(file, source, sourceKey, uploadId, keepLocation);
+                try {
+                    await processImageUpload(converted, s3Key, previewKey, eventId, uploadId, watermark, originalKey, keepLocation);
+                } finally {
+                    await fs.promises.unlink(converted.path).catch(() => {});
+                }
+            } else {
+                await processImageUpload(file, s3Key, previewKey, eventId, uploadId, watermark, originalKey, keepLocation);
+            }
         } else {
             // Process video
             await processVideoUpload(file, s3Key, previewKey, eventId, uploadId);
@@ -95,6 +183,11 @@ export const processFileUpload = async (file, metadata, userId = null) => {
         // Invalidate event media cache
         await cacheService.invalidateEventMedia(eventId);
 
+        // A search index miss is picked up by syncSearchIndex on the next start
+        await indexMedia(uploadId).catch((error) => {
+            console.warn(`⚠️ Failed to index ${uploadId} for search:`, error.message);
+        });
+
         // Mark as completed
         uploadProgress.set(uploadId, { status: 'completed', progress: 100 });
         notifyUploadProgress(eventId, uploadId, 'completed', 100);
@@ -103,15 +196,26 @@ export const processFileUpload = async (file, metadata, userId = null) => {
         const io = getIo();
         if (io) {
             // Get the complete media item from database
-            db.get("SELECT * FROM media WHERE id = ?", [uploadId], (err, mediaItem) => {
-                if (!err && mediaItem) {
+            db.get("SELECT media.*, events.pin as eventPin FROM media JOIN events ON events.id = media.eventId WHERE media.id = ?", [uploadId], (err, mediaItem) => {
+                // Private media is only listed for its uploader, the host and admins
+                if (!err && mediaItem && mediaItem.privacy !== 'private') {
                     // Format the media item for client
                     const formattedItem = {
                         id: mediaItem.id,
                         eventId: mediaItem.eventId,
                         type: mediaItem.type,
-                        url: mediaItem.url,
-                        previewUrl: mediaItem.previewUrl,
+                        ...getMediaUrls(mediaItem, requiresSignedUrl(mediaItem, { pin: mediaItem.eventPin })),
+                        duration: mediaItem.duration,
+                        width: mediaItem.width,
+                        height: mediaItem.height,
+                        videoCodec: mediaItem.videoCodec,
+                        rotation: mediaItem.rotation,
+                        takenAt: mediaItem.takenAt,
+                        cameraMake: mediaItem.cameraMake,
+                        cameraModel: mediaItem.cameraModel,
+                        lensModel: mediaItem.lensModel,
+                        latitude: mediaItem.latitude,
+                        longitude: mediaItem.longitude,
                         caption: mediaItem.caption,
                         uploadedAt: mediaItem.uploadedAt,
                         uploaderName: mediaItem.uploaderName,
@@ -120,6 +224,8 @@ export const processFileUpload = async (file, metadata, userId = null) => {
                         privacy: mediaItem.privacy || 'public',
                         isWatermarked: !!mediaItem.isWatermarked,
                         watermarkText: mediaItem.watermarkText,
+                        sourceFormat: mediaItem.sourceFormat,
+                        duplicateOf: mediaItem.duplicateOf,
                         isProcessing: false
                     };
 
@@ -136,20 +242,14 @@ export const processFileUpload = async (file, metadata, userId = null) => {
     } catch (error) {
         console.error(`❌ Upload failed for ${uploadId}:`, error);
 
-        // Mark as failed
-        uploadProgress.set(uploadId, { status: 'failed', progress: 0, error: error.message });
-
-        // Notify clients
-        notifyUploadProgress(eventId, uploadId, 'failed', 0, error.message);
-
-        // Cleanup
+        // Remove the partial media record - the upload job decides whether to retry
         await cleanupFailedUpload(uploadId);
 
         throw error;
     }
 };
 
-const checkStorageLimits = async (userId, fileSize) => {
+export const checkStorageLimits = async (userId, fileSize) => {
     return new Promise((resolve, reject) => {
         db.get("SELECT storageUsedMb, storageLimitMb FROM users WHERE id = ?", [userId], (err, user) => {
             if (err) return reject(err);
@@ -165,9 +265,9 @@ const checkStorageLimits = async (userId, fileSize) => {
     });
 };
 
-const insertMediaRecord = async (metadata, s3Key, previewKey, userId) => {
+const insertMediaRecord = async (metadata, s3Key, previewKey, userId, originalKey = null, sourceKey = null, sourceFormat = null, contentHash = null) => {
     return new Promise((resolve, reject) => {
-        const stmt = db.prepare(`INSERT INTO media (id, eventId, type, url, previewUrl, isProcessing, caption, uploadedAt, uploaderName, uploaderId, isWatermarked, watermarkText, likes, privacy) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+        const stmt = db.prepare(`INSERT INTO media (id, eventId, type, url, previewUrl, isProcessing, caption, uploadedAt, uploaderName, uploaderId, isWatermarked, watermarkText, likes, privacy, originalUrl, sourceUrl, sourceFormat, contentHash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
 
         stmt.run(
             metadata.id,
@@ -184,6 +284,10 @@ const insertMediaRecord = async (metadata, s3Key, previewKey, userId) => {
             metadata.watermarkText,
             0,
             metadata.privacy || 'public',
+            originalKey,
+            sourceKey,
+            sourceFormat,
+            contentHash,
             (err) => {
                 if (err) reject(err);
                 else resolve();
@@ -193,7 +297,100 @@ const insertMediaRecord = async (metadata, s3Key, previewKey, userId) => {
     });
 };
 
-const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId) => {
+// Id of media the same user uploaded to the event, with the same privacy, from
+// exactly the same file, if any. Other people's items are never matched, so an
+// upload can't be swallowed by - or reveal - someone else's private media.
+const findIdenticalUpload = async (eventId, userId, privacy, contentHash) => {
+    if (!userId) return null;
+    return new Promise((resolve, reject) => {
+        db.get("SELECT id FROM media WHERE eventId = ? AND uploaderId = ? AND privacy = ? AND contentHash = ? ORDER BY uploadedAt LIMIT 1",
+            [eventId, userId, privacy, contentHash], (err, row) => {
+                if (err) return reject(err);
+                resolve(row?.id || null);
+            });
+    });
+};
+
+// Store the image's perceptual hash and, when an earlier upload in the event
+// looks the same, point duplicateOf at it for the host to review. Only media
+// that isn't a duplicate itself is compared, so each group has one original.
+const flagNearDuplicate = async (imagePath, eventId, uploadId) => {
+    const phash = await computePerceptualHash(imagePath);
+    const candidates = await new Promise((resolve, reject) => {
+        db.all("SELECT id, phash FROM media WHERE eventId = ? AND id != ? AND phash IS NOT NULL AND duplicateOf IS NULL ORDER BY uploadedAt",
+            [eventId, uploadId], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+    });
+    const match = findClosestMatch(phash, candidates);
+
+    await new Promise((resolve, reject) => {
+        db.run("UPDATE media SET phash = ?, duplicateOf = ? WHERE id = ?", [phash, match?.id ?? null, uploadId], (err) => {
+            if (err) reject(err);
+            else resolve();
+        });
+    });
+    if (match) console.log(`🔁 Upload ${uploadId} looks like ${match.id}, flagged for review`);
+};
+
+// Look up the event host's watermark, or null when their tier doesn't allow one
+const getEventWatermark = async (eventId) => {
+    return new Promise((resolve, reject) => {
+        db.get(`SELECT u.role, u.tier, u.studioName, u.logoUrl, u.watermarkText, u.watermarkOpacity, u.watermarkSize,
+                u.watermarkPosition, u.watermarkOffsetX, u.watermarkOffsetY
+            FROM events e JOIN users u ON u.id = e.hostId WHERE e.id = ?`, [eventId], (err, host) => {
+            if (err) return reject(err);
+            if (!host || !getTierConfig(host.tier, host.role).allowWatermark) return resolve(null);
+            resolve(getWatermarkSettings(host));
+        });
+    });
+};
+
+// Host's choice whether photos in this event keep their GPS data
+const getEventKeepsLocation = async (eventId) => {
+    return new Promise((resolve, reject) => {
+        db.get("SELECT keepLocation FROM events WHERE id = ?", [eventId], (err, row) => {
+            if (err) return reject(err);
+            resolve(!!row?.keepLocation);
+        });
+    });
+};
+
+// A broken logo shouldn't fail the upload - renderWatermark falls back to text
+const loadWatermarkLogo = async (watermark) => {
+    try {
+        return await loadLogo(watermark.logoUrl);
+    } catch (error) {
+        console.warn('⚠️ Failed to load watermark logo:', error.message);
+        return null;
+    }
+};
+
+// Convert a HEIC/HEIF or RAW upload to its JPEG display copy and store the
+// untouched file - without GPS data unless the event keeps locations.
+// Resolves with the converted file, which the caller removes when done.
+const convertSourceUpload = async (file, source, sourceKey, uploadId, keepLocation) => {
+    const convertedPath = path.join(uploadDir, `converted_${uploadId}.jpg`);
+    console.log(`🔄 Converting ${source.format.toUpperCase()} upload ${uploadId} to JPEG`);
+
+    try {
+        await convertToJpeg(file.path, convertedPath, source);
+        if (keepLocation) {
+            await uploadToS3(file.path, sourceKey, source.mimeTypes[0], false);
+        } else {
+            const original = await fs.promises.readFile(file.path);
+            if (stripSourceLocation(original)) console.log(`📍 Stripped location data from the ${source.format.toUpperCase()} original of ${uploadId}`);
+            await uploadBufferToS3(original, sourceKey, source.mimeTypes[0]);
+        }
+    } catch (error) {
+        await fs.promises.unlink(convertedPath).catch(() => {});
+        throw error;
+    }
+    return { ...file, path: convertedPath, mimetype: 'image/jpeg' };
+};
+
+const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId, watermark = null, originalKey = null, keepLocation = false) => {
     console.log(`🖼️ Processing image upload for ${uploadId}`);
 
     // Create thumbnail
@@ -206,10 +403,37 @@ const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId) =>
             fs.mkdirSync(uploadDir, { recursive: true });
         }
 
+        // Capture time and camera details - a photo without EXIF is still a valid upload
+        const exif = await readImageExif(file.path).catch((error) => {
+            console.warn(`⚠️ Failed to read EXIF for ${uploadId}:`, error.message);
+            return null;
+        });
+
+        let watermarked = null;
+        let stored = null;
+        if (watermark) {
+            console.log(`💧 Applying watermark for ${uploadId}`);
+            // Rendering the watermark also bakes in the EXIF orientation (and drops all metadata)
+            watermarked = await renderWatermark(file.path, watermark, await loadWatermarkLogo(watermark));
+        } else {
+            stored = await normalizeOrientation(file.path, exif?.orientation);
+        }
+
+        // Guests' GPS coordinates are removed from both the display copy and the
+        // clean original unless the host chose to keep locations for this event
+        const stripGps = !keepLocation && !!exif?.location;
+        let original = null;
+        if (stripGps) {
+            console.log(`📍 Stripping location data from ${uploadId}`);
+            if (watermark) original = await stripLocation(await fs.promises.readFile(file.path));
+            else stored = await stripLocation(stored || await fs.promises.readFile(file.path));
+        }
+
         console.log(`📸 Creating thumbnail for ${uploadId} at ${previewPath}`);
 
-        // Create thumbnail with error handling
-        await sharp(file.path)
+        // Create thumbnail with error handling (from the watermarked copy when there is one)
+        await sharp(watermarked || stored || file.path)
+            .rotate()
             .resize(400, 400, { fit: 'inside', withoutEnlargement: true })
             .jpeg({ quality: 80, progressive: true })
             .toFile(previewPath);
@@ -217,13 +441,72 @@ const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId) =>
         thumbnailCreated = true;
         console.log(`✅ Thumbnail created successfully for ${uploadId}`);
 
-        console.log(`📤 Uploading image and thumbnail to S3 for ${uploadId}`);
+        // Responsive variants are best effort - the thumbnail and full image still display the photo
+        const rendered = await renderImageVariants(watermarked || stored || file.path, eventId, uploadId).catch((error) => {
+            console.warn(`⚠️ Failed to render image variants for ${uploadId}:`, error.message);
+            return null;
+        });
+        const variantUploads = (rendered?.files || []).map(variant => uploadBufferToS3(variant.buffer, variant.key, variant.contentType));
+
+        console.log(`📤 Uploading image, thumbnail and ${variantUploads.length} variants to S3 for ${uploadId}`);
+
+        // Upload all files in parallel (don't auto-delete, we'll handle cleanup)
+        if (watermarked) {
+            await Promise.all([
+                uploadBufferToS3(watermarked, s3Key, 'image/jpeg'),
+                original ? uploadBufferToS3(original, originalKey, file.mimetype) : uploadToS3(file.path, originalKey, file.mimetype, false),
+                uploadToS3(previewPath, previewKey, 'image/jpeg', false),
+                ...variantUploads
+            ]);
+        } else {
+            await Promise.all([
+                stored ? uploadBufferToS3(stored, s3Key, file.mimetype) : uploadToS3(file.path, s3Key, file.mimetype, false),
+                uploadToS3(previewPath, previewKey, 'image/jpeg', false),
+                ...variantUploads
+            ]);
+        }
 
-        // Upload both files in parallel (don't auto-delete, we'll handle cleanup)
-        await Promise.all([
-            uploadToS3(file.path, s3Key, file.mimetype, false),
-            uploadToS3(previewPath, previewKey, 'image/jpeg', false)
-        ]);
+        if (rendered) {
+            await new Promise((resolve, reject) => {
+                db.run("UPDATE media SET variants = ? WHERE id = ?", [JSON.stringify(rendered.variants), uploadId], (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                });
+            });
+        }
+
+        if (exif) {
+            // Only the coarse location is recorded, and only when the event keeps locations
+            const location = keepLocation ? toCoarseLocation(exif.location) : null;
+            const hasLocation = !watermark && keepLocation && !!exif.location;
+            await new Promise((resolve, reject) => {
+                db.run(`UPDATE media SET takenAt = ?, cameraMake = ?, cameraModel = ?, lensModel = ?, orientation = ?, width = ?, height = ?,
+                    latitude = ?, longitude = ?, hasLocation = ? WHERE id = ?`,
+                    [exif.takenAt, exif.cameraMake, exif.cameraModel, exif.lensModel, exif.orientation, exif.width, exif.height,
+                        location?.latitude ?? null, location?.longitude ?? null, hasLocation ? 1 : 0, uploadId], (err) => {
+                        if (err) reject(err);
+                        else resolve();
+                    });
+            });
+        }
+
+        // Hashed from the clean image so watermarks don't hide (or cause) a match
+        await flagNearDuplicate(file.path, eventId, uploadId).catch((error) => {
+            console.warn(`⚠️ Duplicate check failed for ${uploadId}:`, error.message);
+        });
+
+        // Faces for Find Me and the host's people albums, also from the clean
+        // image. A miss is picked up by syncFaceIndex on the next start.
+        const faceCount = await indexMediaFaces(uploadId, eventId, file.path).catch((error) => {
+            console.warn(`⚠️ Face indexing failed for ${uploadId}:`, error.message);
+            return 0;
+        });
+        if (faceCount > 0) scheduleEventClustering(eventId);
+
+        // Quality for highlights - after the faces, whose eyes it checks
+        await scoreMediaQuality(uploadId, file.path).catch((error) => {
+            console.warn(`⚠️ Quality scoring failed for ${uploadId}:`, error.message);
+        });
 
         // Update progress
         notifyUploadProgress(eventId, uploadId, 'uploading', 75);
@@ -231,30 +514,26 @@ const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId) =>
         console.log(`✅ Image upload completed for ${uploadId}`);
 
         // Emit media_processed event for real-time updates
-        const io = getIo();
-        if (io) {
-            io.to(eventId).emit('media_processed', {
-                id: uploadId,
-                previewUrl: previewKey,
-                url: s3Key
-            });
-            console.log(`📡 Emitted media_processed event for ${uploadId} to event ${eventId}`);
-        }
+        emitMediaProcessed(eventId, uploadId, {
+            previewUrl: previewKey,
+            url: s3Key,
+            variants: rendered?.variants,
+            takenAt: exif?.takenAt ?? undefined,
+            width: exif?.width ?? undefined,
+            height: exif?.height ?? undefined
+        });
 
     } catch (error) {
         console.error(`❌ Error processing image upload for ${uploadId}:`, error);
         throw error;
     } finally {
-        // Cleanup temp files - only delete if they exist
+        // Cleanup temp files - the uploaded file itself belongs to the job and
+        // is kept until the job reaches a final state
         try {
             if (thumbnailCreated && fs.existsSync(previewPath)) {
                 fs.unlinkSync(previewPath);
                 console.log(`🧹 Cleaned up thumbnail for ${uploadId}`);
             }
-            if (fs.existsSync(file.path)) {
-                fs.unlinkSync(file.path);
-                console.log(`🧹 Cleaned up original file for ${uploadId}`);
-            }
         } catch (cleanupError) {
             console.warn(`⚠️ Failed to cleanup files for ${uploadId}:`, cleanupError);
         }
@@ -264,74 +543,125 @@ const processImageUpload = async (file, s3Key, previewKey, eventId, uploadId) =>
 const processVideoUpload = async (file, s3Key, previewKey, eventId, uploadId) => {
     console.log(`🎥 Processing video upload for ${uploadId}`);
 
-    return new Promise((resolve, reject) => {
-        const inputPath = file.path;
-        const outputPath = path.join(uploadDir, `preview_${uploadId}.mp4`);
+    const inputPath = file.path;
+    const outputPath = path.join(uploadDir, `preview_${uploadId}.mp4`);
+    const posterPath = path.join(uploadDir, `poster_${uploadId}.jpg`);
+    const posterKey = `events/${eventId}/poster_${uploadId}.jpg`;
 
-        // Update progress
-        notifyUploadProgress(eventId, uploadId, 'processing', 25);
-
-        const ffmpeg = spawn('ffmpeg', [
-            '-i', inputPath,
-            '-vf', 'scale=-2:720',
-            '-c:v', 'libx264',
-            '-crf', '23',
-            '-preset', 'fast',
-            '-c:a', 'aac',
-            '-b:a', '128k',
-            '-y',
-            outputPath
+    // Update progress
+    notifyUploadProgress(eventId, uploadId, 'processing', 25);
+
+    try {
+        // Metadata and poster are best effort - a video without them is still playable
+        const videoInfo = await probeVideo(inputPath).catch((error) => {
+            console.warn(`⚠️ ffprobe failed for ${uploadId}:`, error.message);
+            return null;
+        });
+        const hasPoster = await extractPosterFrame(inputPath, posterPath, getPosterOffset(videoInfo?.duration))
+            .then(() => true)
+            .catch((error) => {
+                console.warn(`⚠️ Poster extraction failed for ${uploadId}:`, error.message);
+                return false;
+            });
+
+        await transcodePreview(inputPath, outputPath);
+
+        console.log(`📤 Uploading video, preview and poster to S3 for ${uploadId}`);
+
+        // Upload all files (don't auto-delete, we'll handle cleanup)
+        await Promise.all([
+            uploadToS3(inputPath, s3Key, file.mimetype, false),
+            uploadToS3(outputPath, previewKey, 'video/mp4', false),
+            hasPoster ? uploadToS3(posterPath, posterKey, 'image/jpeg', false) : Promise.resolve()
         ]);
 
-        ffmpeg.on('close', async (code) => {
-            try {
-                if (code === 0) {
-                    console.log(`📤 Uploading video and preview to S3 for ${uploadId}`);
-
-                    // Upload both files (don't auto-delete, we'll handle cleanup)
-                    await Promise.all([
-                        uploadToS3(inputPath, s3Key, file.mimetype, false),
-                        uploadToS3(outputPath, previewKey, 'video/mp4', false)
-                    ]);
-
-                    // Update database
-                    db.run("UPDATE media SET isProcessing = 0, previewUrl = ? WHERE id = ?", [previewKey, uploadId]);
-
-                    // Emit media_processed event for real-time updates
-                    const io = getIo();
-                    if (io) {
-                        io.to(eventId).emit('media_processed', {
-                            id: uploadId,
-                            previewUrl: previewKey,
-                            url: s3Key
-                        });
-                        console.log(`📡 Emitted media_processed event for video ${uploadId} to event ${eventId}`);
-                    }
-
-                    // Notify completion
-                    notifyUploadProgress(eventId, uploadId, 'completed', 100);
-
-                    console.log(`✅ Video upload completed for ${uploadId}`);
-                    resolve();
-                } else {
-                    throw new Error(`FFmpeg failed with code ${code}`);
-                }
-            } catch (error) {
-                reject(error);
-            } finally {
-                // Cleanup temp files
-                if (fs.existsSync(inputPath)) fs.unlinkSync(inputPath);
-                if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
-            }
+        // Update database
+        await new Promise((resolve, reject) => {
+            db.run(`UPDATE media SET isProcessing = 0, previewUrl = ?, posterUrl = ?, duration = ?, width = ?, height = ?, videoCodec = ?, rotation = ?,
+                takenAt = ?, cameraMake = ?, cameraModel = ? WHERE id = ?`,
+                [previewKey, hasPoster ? posterKey : null, videoInfo?.duration ?? null, videoInfo?.width ?? null,
+                    videoInfo?.height ?? null, videoInfo?.codec ?? null, videoInfo?.rotation ?? null,
+                    videoInfo?.takenAt ?? null, videoInfo?.cameraMake ?? null, videoInfo?.cameraModel ?? null, uploadId], (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                });
         });
 
-        ffmpeg.on('error', (err) => {
-            console.error(`FFmpeg error for ${uploadId}:`, err);
-            reject(err);
+        // Emit media_processed event for real-time updates
+        emitMediaProcessed(eventId, uploadId, {
+            previewUrl: previewKey,
+            url: s3Key,
+            posterUrl: hasPoster ? posterKey : undefined,
+            duration: videoInfo?.duration ?? undefined,
+            width: videoInfo?.width ?? undefined,
+            height: videoInfo?.height ?? undefined,
+            takenAt: videoInfo?.takenAt ?? undefined
+        });
+
+        // The MP4 preview is playable now - the HLS ladder follows and is picked up
+        // by players once media_processed reports it
+        if (videoInfo) {
+            notifyUploadProgress(eventId, uploadId, 'processing', 60);
+            const hlsKey = await createHlsStream(inputPath, eventId, uploadId, videoInfo).catch((error) => {
+                console.warn(`⚠️ HLS encoding failed for ${uploadId}, MP4 playback only:`, error.message);
+                return null;
+            });
+            if (hlsKey) {
+                db.run("UPDATE media SET hlsUrl = ? WHERE id = ?", [hlsKey, uploadId]);
+                emitMediaProcessed(eventId, uploadId, { hlsUrl: hlsKey });
+            }
+        }
+
+        // Notify completion
+        notifyUploadProgress(eventId, uploadId, 'completed', 100);
+
+        console.log(`✅ Video upload completed for ${uploadId}`);
+    } finally {
+        // Cleanup preview and poster - the input file is removed by the upload job
+        for (const tempPath of [outputPath, posterPath]) {
+            if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+        }
+    }
+};
+
+// Highest HLS rendition the event host's tier allows
+const getHlsMaxHeight = async (eventId) => {
+    return new Promise((resolve, reject) => {
+        db.get(`SELECT u.role, u.tier FROM events e JOIN users u ON u.id = e.hostId WHERE e.id = ?`, [eventId], (err, host) => {
+            if (err) return reject(err);
+            resolve(host && getTierConfig(host.tier, host.role).allow4k ? 2160 : 1080);
         });
     });
 };
 
+const HLS_CONTENT_TYPES = {
+    '.m3u8': 'application/vnd.apple.mpegurl',
+    '.ts': 'video/mp2t'
+};
+
+// Encode the HLS ladder and upload it under events/{eventId}/hls/{uploadId}/.
+// Resolves with the master playlist key.
+const createHlsStream = async (inputPath, eventId, uploadId, videoInfo) => {
+    const outputDir = path.join(uploadDir, `hls_${uploadId}`);
+    const prefix = `events/${eventId}/hls/${uploadId}`;
+
+    try {
+        const renditions = await createHlsLadder(inputPath, outputDir, videoInfo, { maxHeight: await getHlsMaxHeight(eventId) });
+        console.log(`🎞️ Encoded HLS renditions ${renditions.join(', ')} for ${uploadId}`);
+
+        const files = (await fs.promises.readdir(outputDir, { recursive: true }))
+            .filter(file => HLS_CONTENT_TYPES[path.extname(file)]);
+        for (const file of files) {
+            const key = `${prefix}/${file.split(path.sep).join('/')}`;
+            await uploadToS3(path.join(outputDir, file), key, HLS_CONTENT_TYPES[path.extname(file)], false);
+        }
+
+        return `${prefix}/master.m3u8`;
+    } finally {
+        await fs.promises.rm(outputDir, { recursive: true, force: true });
+    }
+};
+
 const updateStorageUsage = async (userId, fileSize) => {
     return new Promise((resolve, reject) => {
         const fileSizeMb = fileSize / (1024 * 1024);
@@ -364,19 +694,273 @@ const cleanupFailedUpload = async (uploadId) => {
     });
 };
 
-// Queue-based upload processing
-export const queueFileUpload = (file, metadata, userId = null) => {
+// Re-render one watermarked image from its clean original
+const rerenderMediaWatermark = async (media, eventId, watermark, logo) => {
+    try {
+        const original = await getS3ObjectBuffer(media.originalUrl);
+        const watermarked = await renderWatermark(original, watermark, logo);
+        const thumbnail = await sharp(watermarked)
+            .resize(400, 400, { fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 80, progressive: true })
+            .toBuffer();
+
+        // proxy-media responses are cached as immutable, so new renders need new keys
+        const version = Date.now();
+        const url = `events/${eventId}/${media.id}_v${version}.jpg`;
+        const previewUrl = `events/${eventId}/thumb_${media.id}_v${version}.jpg`;
+        const { files, variants } = await renderImageVariants(watermarked, eventId, media.id, { version });
+
+        await Promise.all([
+            uploadBufferToS3(watermarked, url, 'image/jpeg'),
+            uploadBufferToS3(thumbnail, previewUrl, 'image/jpeg'),
+            ...files.map(variant => uploadBufferToS3(variant.buffer, variant.key, variant.contentType))
+        ]);
+
+        await new Promise((resolve, reject) => {
+            db.run("UPDATE media SET url = ?, previewUrl = ?, variants = ?, isWatermarked = 1, watermarkText = ? WHERE id = ?",
+                [url, previewUrl, JSON.stringify(variants), watermark.text, media.id], (err) => {
+                    if (err) reject(err);
+                    else resolve();
+                });
+        });
+
+        await Promise.all([deleteFromS3(media.url), deleteFromS3(media.previewUrl), ...listVariantKeys(media.variants).map(deleteFromS3)]);
+        await cacheService.invalidateEventMedia(eventId);
+
+        emitMediaProcessed(eventId, media.id, { previewUrl, url, variants });
+        console.log(`💧 Re-rendered watermark for ${media.id}`);
+    } catch (error) {
+        console.error(`❌ Failed to re-render watermark for ${media.id}:`, error);
+    }
+};
+
+// Queue a watermark re-render for every image in the event that kept its original.
+// Resolves with the number of queued images, or null when the host has no watermark to apply.
+export const rerenderEventWatermarks = async (eventId) => {
+    const watermark = await getEventWatermark(eventId);
+    if (!watermark) return null;
+
+    const mediaItems = await new Promise((resolve, reject) => {
+        db.all("SELECT id, url, previewUrl, originalUrl, variants FROM media WHERE eventId = ? AND type = 'image' AND originalUrl IS NOT NULL",
+            [eventId], (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows);
+            });
+    });
+    if (mediaItems.length === 0) return 0;
+
+    const logo = await loadWatermarkLogo(watermark);
+    mediaItems.forEach(media => {
+        uploadQueue.add(() => rerenderMediaWatermark(media, eventId, watermark, logo));
+    });
+
+    console.log(`💧 Queued ${mediaItems.length} watermark re-renders for event ${eventId}`);
+    return mediaItems.length;
+};
+
+// --- Upload jobs ---
+// Every upload is recorded in upload_jobs before processing starts. The uploaded
+// file stays on disk until the job completes or is cancelled, so interrupted
+// jobs can be picked up again after a restart.
+
+const MAX_JOB_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// Jobs processing for longer than this are reported as stuck
+export const STUCK_JOB_THRESHOLD_MS = 30 * 60 * 1000;
+// Retrying these won't change the outcome
+const NON_RETRYABLE_ERRORS = ['Storage limit exceeded', 'User not found'];
+
+// Jobs currently being processed by this server instance
+const runningJobs = new Set();
+
+const rowToJob = (row) => row ? { ...row, metadata: JSON.parse(row.metadata || '{}') } : null;
+
+export const getUploadJob = (jobId) => {
     return new Promise((resolve, reject) => {
-        uploadQueue.add(async () => {
-            try {
-                const result = await processFileUpload(file, metadata, userId);
-                resolve(result);
-            } catch (error) {
-                reject(error);
+        db.get("SELECT * FROM upload_jobs WHERE id = ?", [jobId], (err, row) => {
+            if (err) reject(err);
+            else resolve(rowToJob(row));
+        });
+    });
+};
+
+const updateUploadJob = (jobId, fields) => {
+    const columns = Object.keys(fields);
+    const values = columns.map(column => fields[column]);
+    return new Promise((resolve, reject) => {
+        db.run(`UPDATE upload_jobs SET ${columns.map(column => `${column} = ?`).join(', ')}, updatedAt = ? WHERE id = ?`,
+            [...values, new Date().toISOString(), jobId], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+    });
+};
+
+const createUploadJob = (file, metadata, userId) => {
+    const now = new Date().toISOString();
+    return new Promise((resolve, reject) => {
+        db.run(`INSERT INTO upload_jobs (id, eventId, userId, filePath, originalName, mimeType, fileSize, metadata, status, progress, attempts, maxAttempts, nextRunAt, createdAt, updatedAt)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, 0, ?, ?, ?, ?)`,
+            [metadata.id, metadata.eventId, userId, file.path, file.originalname, file.mimetype, file.size,
+                JSON.stringify(metadata), MAX_JOB_ATTEMPTS, now, now, now], (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+    });
+};
+
+export const listUploadJobs = ({ status, limit = 100 } = {}) => {
+    const stuckBefore = new Date(Date.now() - STUCK_JOB_THRESHOLD_MS).toISOString();
+    let query = "SELECT * FROM upload_jobs";
+    const params = [];
+
+    if (status === 'stuck') {
+        query += " WHERE status = 'processing' AND updatedAt < ?";
+        params.push(stuckBefore);
+    } else if (status && status !== 'all') {
+        query += " WHERE status = ?";
+        params.push(status);
+    } else if (!status) {
+        query += " WHERE status != 'completed'";
+    }
+    query += " ORDER BY updatedAt DESC LIMIT ?";
+    params.push(limit);
+
+    return new Promise((resolve, reject) => {
+        db.all(query, params, (err, rows) => {
+            if (err) return reject(err);
+            resolve(rows.map(row => ({
+                ...rowToJob(row),
+                isRunning: runningJobs.has(row.id),
+                isStuck: row.status === 'processing' && row.updatedAt < stuckBefore
+            })));
+        });
+    });
+};
+
+const removeJobFile = (job) => {
+    fs.promises.rm(job.filePath, { force: true }).catch((error) => {
+        console.warn(`⚠️ Failed to remove upload file for job ${job.id}:`, error.message);
+    });
+};
+
+const scheduleUploadJob = (jobId, delayMs = 0) => {
+    if (delayMs > 0) {
+        setTimeout(() => scheduleUploadJob(jobId), delayMs).unref();
+        return;
+    }
+    uploadQueue.add(() => runUploadJob(jobId));
+};
+
+const runUploadJob = async (jobId) => {
+    // Guard against a job being queued twice (e.g. a manual retry racing a scheduled one)
+    if (runningJobs.has(jobId)) return;
+    runningJobs.add(jobId);
+
+    try {
+        const job = await getUploadJob(jobId);
+        // Cancelled or already handled while it was waiting in the queue
+        if (!job || job.status !== 'pending') return;
+
+        const attempts = job.attempts + 1;
+        await updateUploadJob(jobId, { status: 'processing', attempts });
+
+        // A previous attempt may have left a media record behind
+        if (job.attempts > 0) await cleanupFailedUpload(jobId);
+
+        const file = { path: job.filePath, originalname: job.originalName, mimetype: job.mimeType, size: job.fileSize };
+        try {
+            await processFileUpload(file, job.metadata, job.userId);
+            await updateUploadJob(jobId, { status: 'completed', progress: 100, lastError: null });
+            removeJobFile(job);
+        } catch (error) {
+            const retryable = attempts < job.maxAttempts && !NON_RETRYABLE_ERRORS.includes(error.message);
+            if (retryable) {
+                const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+                await updateUploadJob(jobId, {
+                    status: 'pending',
+                    progress: 0,
+                    lastError: error.message,
+                    nextRunAt: new Date(Date.now() + delay).toISOString()
+                });
+                uploadProgress.set(jobId, { status: 'retrying', progress: 0, error: error.message });
+                notifyUploadProgress(job.eventId, jobId, 'retrying', 0, error.message);
+                console.log(`🔁 Upload job ${jobId} failed (attempt ${attempts}/${job.maxAttempts}), retrying in ${delay / 1000}s`);
+                scheduleUploadJob(jobId, delay);
+            } else {
+                // The file is kept so an admin can retry the job
+                await updateUploadJob(jobId, { status: 'failed', progress: 0, lastError: error.message });
+                uploadProgress.set(jobId, { status: 'failed', progress: 0, error: error.message });
+                notifyUploadProgress(job.eventId, jobId, 'failed', 0, error.message);
+                console.error(`❌ Upload job ${jobId} failed after ${attempts} attempt(s)`);
             }
+        }
+    } catch (error) {
+        console.error(`❌ Upload job ${jobId} could not be run:`, error.message);
+    } finally {
+        runningJobs.delete(jobId);
+    }
+};
+
+// Record the upload as a job and queue it for background processing
+export const queueFileUpload = async (file, metadata, userId = null) => {
+    await createUploadJob(file, metadata, userId);
+    uploadProgress.set(metadata.id, { status: 'queued', progress: 0 });
+    scheduleUploadJob(metadata.id);
+    return { success: true, uploadId: metadata.id };
+};
+
+// Pick up jobs that were pending or mid-processing when the server stopped
+export const resumeUploadJobs = async () => {
+    const jobs = await new Promise((resolve, reject) => {
+        db.all("SELECT * FROM upload_jobs WHERE status IN ('pending', 'processing')", [], (err, rows) => {
+            if (err) reject(err);
+            else resolve(rows.map(rowToJob));
         });
     });
+
+    let resumed = 0;
+    for (const job of jobs) {
+        if (!fs.existsSync(job.filePath)) {
+            await updateUploadJob(job.id, { status: 'failed', lastError: 'Upload file missing after restart' });
+            await cleanupFailedUpload(job.id);
+            continue;
+        }
+
+        if (job.status === 'processing') {
+            await updateUploadJob(job.id, { status: 'pending' });
+        }
+        const delay = job.nextRunAt ? Math.max(0, new Date(job.nextRunAt).getTime() - Date.now()) : 0;
+        scheduleUploadJob(job.id, delay);
+        resumed++;
+    }
+
+    if (jobs.length > 0) console.log(`🔄 Resumed ${resumed} upload jobs (${jobs.length - resumed} failed)`);
+    return resumed;
 };
 
+// Admin: run a failed or cancelled job again with a fresh attempt budget.
+// Returns the updated job, or null when its file is gone.
+export const retryUploadJob = async (job) => {
+    if (!fs.existsSync(job.filePath)) return null;
+
+    await updateUploadJob(job.id, { status: 'pending', progress: 0, attempts: 0, lastError: null, nextRunAt: new Date().toISOString() });
+    uploadProgress.set(job.id, { status: 'queued', progress: 0 });
+    notifyUploadProgress(job.eventId, job.id, 'queued', 0);
+    scheduleUploadJob(job.id);
+    return getUploadJob(job.id);
+};
+
+// Admin: give up on a job that isn't currently being processed
+export const cancelUploadJob = async (job) => {
+    await updateUploadJob(job.id, { status: 'cancelled', lastError: 'Cancelled by admin' });
+    await cleanupFailedUpload(job.id);
+    removeJobFile(job);
+    notifyUploadProgress(job.eventId, job.id, 'failed', 0, 'Upload cancelled');
+    return getUploadJob(job.id);
+};
+
+export const isUploadJobRunning = (jobId) => runningJobs.has(jobId);
+
 // Export for use in controllers
 export { uploadQueue };
\ No newline at end of file
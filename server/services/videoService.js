@@ -0,0 +1,360 @@
+// Video Service - ffmpeg/ffprobe helpers for uploaded videos
+// Probes stream metadata, extracts poster frames, renders the web preview and HLS ladder,
+// and cuts highlight reels from an event's photos and clips
+
+import fs from 'fs';
+import { spawn } from 'child_process';
+
+// Run a command to completion, resolving with stdout or rejecting with the tail of stderr.
+// `onOutput` sees stdout as it arrives.
+const runProcess = (command, args, onOutput = null) => new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+        stdout += chunk;
+        if (onOutput) onOutput(chunk.toString());
+    });
+    child.stderr.on('data', (chunk) => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code) => {
+        if (code === 0) resolve(stdout);
+        else reject(new Error(`${command} failed with code ${code}: ${stderr.trim().split('\n').slice(-3).join(' ')}`));
+    });
+});
+
+const toNumber = (value) => {
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : null;
+};
+
+// Clockwise display rotation in degrees (0, 90, 180 or 270).
+// Older files carry a `rotate` tag; newer ffprobe builds report a display
+// matrix whose rotation is counter-clockwise.
+const getRotation = (stream) => {
+    let rotation = toNumber(stream.tags?.rotate);
+    if (rotation === null) {
+        const matrix = (stream.side_data_list || []).find(data => data.rotation !== undefined);
+        rotation = matrix ? -toNumber(matrix.rotation) : 0;
+    }
+    return ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+};
+
+// Frames per second from an ffprobe rate like "30000/1001". Streams without
+// a known average rate report "0/0", so the base rate is the fallback.
+const getFrameRate = (stream) => {
+    for (const rate of [stream.avg_frame_rate, stream.r_frame_rate]) {
+        const [num, den = 1] = String(rate).split('/').map(Number);
+        const fps = num / den;
+        if (Number.isFinite(fps) && fps > 0) return Math.round(fps * 1000) / 1000;
+    }
+    return null;
+};
+
+// Recording time from container tags. Apple devices write the local time with
+// its offset; everything else writes creation_time in UTC. Cameras without a
+// clock leave zeroed or epoch dates, which are ignored.
+const getCaptureTime = (tags = {}) => {
+    const value = tags['com.apple.quicktime.creationdate'] || tags.creation_time;
+    const date = value ? new Date(value) : null;
+    if (!date || isNaN(date.getTime()) || date.getUTCFullYear() < 1990) return null;
+
+    const local = String(value).match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.\d+)?([+-]\d{2}):?(\d{2})$/);
+    return local ? `${local[1]}${local[2]}:${local[3]}` : date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+};
+
+// Reduce `ffprobe -print_format json` output to the fields stored on the media row.
+// Width and height are the displayed dimensions, i.e. after rotation.
+export const parseProbeOutput = (probe) => {
+    const video = (probe.streams || []).find(stream => stream.codec_type === 'video');
+    if (!video) throw new Error('No video stream found');
+
+    const rotation = getRotation(video);
+    const swap = rotation === 90 || rotation === 270;
+    const duration = toNumber(probe.format?.duration) ?? toNumber(video.duration);
+
+    return {
+        duration: duration !== null ? Math.round(duration * 1000) / 1000 : null,
+        width: swap ? video.height : video.width,
+        height: swap ? video.width : video.height,
+        codec: video.codec_name || null,
+        fps: getFrameRate(video),
+        rotation,
+        takenAt: getCaptureTime(probe.format?.tags),
+        cameraMake: probe.format?.tags?.['com.apple.quicktime.make'] || null,
+        cameraModel: probe.format?.tags?.['com.apple.quicktime.model'] || null
+    };
+};
+
+export const probeVideo = async (inputPath) => {
+    const output = await runProcess('ffprobe', [
+        '-v', 'error',
+        '-print_format', 'json',
+        '-show_format',
+        '-show_streams',
+        inputPath
+    ]);
+    return parseProbeOutput(JSON.parse(output));
+};
+
+// Where to grab the poster frame: far enough in to skip fade-ins and black
+// leader frames, but never past the middle of short clips
+export const getPosterOffset = (duration) => {
+    if (!duration || duration <= 0) return 0;
+    return Math.round(Math.min(Math.max(duration * 0.1, 1), 5, duration / 2) * 1000) / 1000;
+};
+
+const renderPosterFrame = (inputPath, outputPath, offset) => runProcess('ffmpeg', [
+    '-ss', String(offset),
+    '-i', inputPath,
+    // Pick the most representative frame of the next few instead of a possibly blurry keyframe
+    '-vf', "thumbnail=30,scale='min(1280,iw)':-2",
+    '-frames:v', '1',
+    '-q:v', '3',
+    '-y',
+    outputPath
+]);
+
+// Write a JPEG poster frame for the video. ffmpeg applies the rotation itself.
+export const extractPosterFrame = async (inputPath, outputPath, offset = 0) => {
+    await renderPosterFrame(inputPath, outputPath, offset);
+
+    // Seeking past the last frame produces no output - fall back to the first frame
+    const written = fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0;
+    if (!written && offset > 0) {
+        await renderPosterFrame(inputPath, outputPath, 0);
+    }
+    if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+        throw new Error('ffmpeg produced no poster frame');
+    }
+    return outputPath;
+};
+
+// 720p H.264 preview used for playback in the gallery
+export const transcodePreview = (inputPath, outputPath) => runProcess('ffmpeg', [
+    '-i', inputPath,
+    '-vf', 'scale=-2:720',
+    '-c:v', 'libx264',
+    '-crf', '23',
+    '-preset', 'fast',
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-movflags', '+faststart',
+    '-y',
+    outputPath
+]);
+
+// --- HLS ---
+
+// Adaptive bitrate ladder, keyed by the short side of the video so portrait
+// clips get the same quality steps as landscape ones. Bitrates in kbps.
+export const HLS_RENDITIONS = [
+    { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+    { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+    { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+    { name: '2160p', height: 2160, videoBitrate: 14000, audioBitrate: 192 }
+];
+
+const HLS_SEGMENT_SECONDS = 4;
+const HLS_GOP_SECONDS = 2;
+const DEFAULT_GOP_FRAMES = 48;
+
+const toEven = (value) => Math.max(2, Math.round(value / 2) * 2);
+
+// Renditions worth encoding for this source - never upscale past the source
+// or the tier's limit. Sources smaller than the lowest step get a single
+// rendition at their own size.
+export const selectHlsRenditions = (videoInfo, maxHeight = 1080) => {
+    const shortSide = Math.min(videoInfo.width, videoInfo.height);
+    const renditions = HLS_RENDITIONS.filter(r => r.height <= shortSide && r.height <= maxHeight);
+    if (renditions.length > 0) return renditions;
+
+    const height = toEven(Math.min(shortSide, maxHeight));
+    return [{ ...HLS_RENDITIONS[0], name: `${height}p`, height }];
+};
+
+// Output frame size for a rendition, keeping the source aspect ratio
+export const getRenditionSize = (videoInfo, height) => {
+    const { width: sourceWidth, height: sourceHeight } = videoInfo;
+    if (sourceWidth >= sourceHeight) {
+        return { width: toEven(height * sourceWidth / sourceHeight), height };
+    }
+    return { width: height, height: toEven(height * sourceHeight / sourceWidth) };
+};
+
+// Keyframe interval in frames - a fixed number of seconds at the source frame
+// rate, so every segment starts on a keyframe whatever the fps
+export const getGopSize = (fps) => fps ? Math.max(1, Math.round(fps * HLS_GOP_SECONDS)) : DEFAULT_GOP_FRAMES;
+
+export const buildMasterPlaylist = (variants) => [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    ...variants.flatMap(({ rendition, size }) => [
+        // H.264 High profile - level 4.0 up to 1080p, 5.1 for 4K
+        `#EXT-X-STREAM-INF:BANDWIDTH=${(rendition.videoBitrate + rendition.audioBitrate) * 1000},RESOLUTION=${size.width}x${size.height},CODECS="${rendition.height > 1080 ? 'avc1.640033' : 'avc1.640028'},mp4a.40.2"`,
+        `${rendition.name}/index.m3u8`
+    ]),
+    ''
+].join('\n');
+
+const transcodeHlsRendition = (inputPath, outputDir, rendition, size, gopSize) => runProcess('ffmpeg', [
+    '-i', inputPath,
+    '-map', '0:v:0',
+    '-map', '0:a:0?',
+    '-vf', `scale=${size.width}:${size.height}`,
+    '-c:v', 'libx264',
+    '-profile:v', 'high',
+    '-preset', 'fast',
+    '-b:v', `${rendition.videoBitrate}k`,
+    '-maxrate', `${Math.round(rendition.videoBitrate * 1.07)}k`,
+    '-bufsize', `${rendition.videoBitrate * 2}k`,
+    // Fixed GOP so segment boundaries line up across renditions
+    '-g', String(gopSize),
+    '-keyint_min', String(gopSize),
+    '-sc_threshold', '0',
+    '-c:a', 'aac',
+    '-b:a', `${rendition.audioBitrate}k`,
+    '-ac', '2',
+    '-f', 'hls',
+    '-hls_time', String(HLS_SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', `${outputDir}/seg_%03d.ts`,
+    '-y',
+    `${outputDir}/index.m3u8`
+]);
+
+// Encode the ladder into `outputDir` as {rendition}/index.m3u8 + segments,
+// with master.m3u8 at the top. Renditions are encoded one at a time to keep
+// CPU usage predictable alongside other uploads.
+export const createHlsLadder = async (inputPath, outputDir, videoInfo, { maxHeight = 1080 } = {}) => {
+    const variants = selectHlsRenditions(videoInfo, maxHeight).map(rendition => ({
+        rendition,
+        size: getRenditionSize(videoInfo, rendition.height)
+    }));
+
+    const gopSize = getGopSize(videoInfo.fps);
+    for (const { rendition, size } of variants) {
+        const renditionDir = `${outputDir}/${rendition.name}`;
+        await fs.promises.mkdir(renditionDir, { recursive: true });
+        await transcodeHlsRendition(inputPath, renditionDir, rendition, size, gopSize);
+    }
+
+    await fs.promises.writeFile(`${outputDir}/master.m3u8`, buildMasterPlaylist(variants));
+    return variants.map(({ rendition }) => rendition.name);
+};
+
+// --- Highlight reels ---
+
+export const REEL_WIDTH = 1920;
+export const REEL_HEIGHT = 1080;
+const REEL_FPS = 30;
+export const REEL_CROSSFADE_SECONDS = 0.75;
+// How far photos zoom in (or out from) over their time on screen
+const KEN_BURNS_ZOOM = 0.15;
+// Where each photo drifts towards while zooming, as fractions of the room to pan
+const KEN_BURNS_TARGETS = [[0.5, 0.5], [0, 0], [1, 1], [1, 0], [0, 1]];
+
+const seconds = (value) => String(Math.round(value * 1000) / 1000);
+
+// Length of the reel: segments overlap by the crossfade
+export const getReelDuration = (segments) =>
+    segments.reduce((total, segment) => total + segment.duration, 0) - REEL_CROSSFADE_SECONDS * Math.max(0, segments.length - 1);
+
+// Photos fill the frame over a blurred copy of themselves, so portrait shots
+// aren't cropped to their middle, then zoom slowly towards one of the corners
+const photoFilter = (input, index, duration) => {
+    const width = REEL_WIDTH * 2;
+    const height = REEL_HEIGHT * 2;
+    const frames = Math.round(duration * REEL_FPS);
+    const zoom = index % 2 === 0
+        ? `1+${KEN_BURNS_ZOOM}*on/${frames}`
+        : `${1 + KEN_BURNS_ZOOM}-${KEN_BURNS_ZOOM}*on/${frames}`;
+    const [panX, panY] = KEN_BURNS_TARGETS[index % KEN_BURNS_TARGETS.length];
+    return `[${input}:v]split[bg${index}][fg${index}];`
+        + `[bg${index}]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=40[blur${index}];`
+        + `[fg${index}]scale=${width}:${height}:force_original_aspect_ratio=decrease[fit${index}];`
+        + `[blur${index}][fit${index}]overlay=(W-w)/2:(H-h)/2,`
+        + `zoompan=z='${zoom}':x='(iw-iw/zoom)*${panX}':y='(ih-ih/zoom)*${panY}':d=${frames}:s=${REEL_WIDTH}x${REEL_HEIGHT}:fps=${REEL_FPS},`
+        + `setsar=1,format=yuv420p[v${index}]`;
+};
+
+// Clips are letterboxed to the frame; their own sound is dropped for the reel's track
+const clipFilter = (input, index) => `[${input}:v]scale=${REEL_WIDTH}:${REEL_HEIGHT}:force_original_aspect_ratio=decrease,`
+    + `pad=${REEL_WIDTH}:${REEL_HEIGHT}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${REEL_FPS},format=yuv420p,setpts=PTS-STARTPTS[v${index}]`;
+
+// ffmpeg arguments rendering `segments` - { type: 'image' | 'video', path, duration, start }
+// in order - into a 1080p MP4 with crossfades. `overlayPath` is a full-frame PNG drawn
+// over the whole reel (the watermark); `audioPath` is looped or cut to the reel's length.
+export const buildReelArgs = (segments, outputPath, { overlayPath = null, audioPath = null } = {}) => {
+    if (segments.length === 0) throw new Error('Nothing to render');
+    const duration = getReelDuration(segments);
+    const inputs = [];
+    const filters = [];
+
+    segments.forEach((segment, index) => {
+        if (segment.type === 'video') {
+            inputs.push('-ss', seconds(segment.start || 0), '-t', seconds(segment.duration), '-i', segment.path);
+            filters.push(clipFilter(index, index));
+        } else {
+            inputs.push('-i', segment.path);
+            filters.push(photoFilter(index, index, segment.duration));
+        }
+    });
+
+    let video = 'v0';
+    let offset = 0;
+    for (let index = 1; index < segments.length; index++) {
+        offset += segments[index - 1].duration - REEL_CROSSFADE_SECONDS;
+        filters.push(`[${video}][v${index}]xfade=transition=fade:duration=${REEL_CROSSFADE_SECONDS}:offset=${seconds(offset)}[x${index}]`);
+        video = `x${index}`;
+    }
+
+    let nextInput = segments.length;
+    if (overlayPath) {
+        inputs.push('-i', overlayPath);
+        filters.push(`[${video}][${nextInput++}:v]overlay=0:0,format=yuv420p[marked]`);
+        video = 'marked';
+    }
+
+    const audio = [];
+    if (audioPath) {
+        inputs.push('-stream_loop', '-1', '-i', audioPath);
+        const fadeOut = Math.min(2, duration / 2);
+        filters.push(`[${nextInput}:a]atrim=duration=${seconds(duration)},asetpts=PTS-STARTPTS,`
+            + `afade=t=in:d=1,afade=t=out:st=${seconds(duration - fadeOut)}:d=${seconds(fadeOut)}[track]`);
+        audio.push('-map', '[track]', '-c:a', 'aac', '-b:a', '192k');
+    } else {
+        audio.push('-an');
+    }
+
+    return [
+        ...inputs,
+        '-filter_complex', filters.join(';'),
+        '-map', `[${video}]`,
+        ...audio,
+        '-c:v', 'libx264',
+        '-profile:v', 'high',
+        '-preset', 'medium',
+        '-crf', '20',
+        '-pix_fmt', 'yuv420p',
+        '-t', seconds(duration),
+        '-movflags', '+faststart',
+        '-progress', 'pipe:1',
+        '-nostats',
+        '-y',
+        outputPath
+    ];
+};
+
+// Render a highlight reel (see buildReelArgs). `onProgress` is called with 0-1
+// as ffmpeg reports how much of the reel it has written.
+export const renderReel = (segments, outputPath, options = {}, onProgress = null) => {
+    const duration = getReelDuration(segments);
+    return runProcess('ffmpeg', buildReelArgs(segments, outputPath, options), (output) => {
+        const times = [...output.matchAll(/out_time_us=(\d+)/g)];
+        if (onProgress && times.length > 0 && duration > 0) {
+            onProgress(Math.min(1, Number(times[times.length - 1][1]) / 1e6 / duration));
+        }
+    });
+};
@@ -0,0 +1,258 @@
+// Watermark Service - Renders studio text/logo watermarks onto images with sharp
+// Layout mirrors the live preview in StudioSettingsModal (percent based)
+
+import dns from 'dns';
+import net from 'net';
+import sharp from 'sharp';
+import { getS3ObjectBuffer } from './storage.js';
+
+// Same defaults StudioSettingsModal falls back to
+export const DEFAULT_WATERMARK_SETTINGS = {
+    text: null,
+    logoUrl: null,
+    opacity: 0.85,
+    size: 20,
+    position: 'bottom-right',
+    offsetX: 2,
+    offsetY: 2
+};
+
+// Branding stamped on downloads from free tier events
+export const FREE_TIER_WATERMARK = {
+    ...DEFAULT_WATERMARK_SETTINGS,
+    text: 'SnapifY',
+    opacity: 0.5,
+    size: 30,
+    position: 'center',
+    offsetX: 0,
+    offsetY: 0
+};
+
+// Build watermark settings from a users row
+export const getWatermarkSettings = (user) => {
+    if (!user) return null;
+    const text = user.watermarkText || user.studioName || null;
+    if (!text && !user.logoUrl) return null;
+
+    return {
+        text,
+        logoUrl: user.logoUrl || null,
+        opacity: user.watermarkOpacity ?? DEFAULT_WATERMARK_SETTINGS.opacity,
+        size: user.watermarkSize ?? DEFAULT_WATERMARK_SETTINGS.size,
+        position: user.watermarkPosition || DEFAULT_WATERMARK_SETTINGS.position,
+        offsetX: user.watermarkOffsetX ?? DEFAULT_WATERMARK_SETTINGS.offsetX,
+        offsetY: user.watermarkOffsetY ?? DEFAULT_WATERMARK_SETTINGS.offsetY
+    };
+};
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+// Calculate the top-left corner of the overlay inside the image.
+// Offsets are percentages of the image, except for 'center' where
+// the preview uses a CSS translate (percent of the overlay itself).
+export const computeWatermarkPlacement = (imageWidth, imageHeight, overlayWidth, overlayHeight, settings) => {
+    const { position, offsetX, offsetY } = { ...DEFAULT_WATERMARK_SETTINGS, ...settings };
+    const dx = (imageWidth * offsetX) / 100;
+    const dy = (imageHeight * offsetY) / 100;
+
+    let left;
+    let top;
+    switch (position) {
+        case 'top-left':
+            left = dx;
+            top = dy;
+            break;
+        case 'top-right':
+            left = imageWidth - overlayWidth - dx;
+            top = dy;
+            break;
+        case 'bottom-left':
+            left = dx;
+            top = imageHeight - overlayHeight - dy;
+            break;
+        case 'center':
+            left = (imageWidth - overlayWidth) / 2 + (overlayWidth * offsetX) / 100;
+            top = (imageHeight - overlayHeight) / 2 + (overlayHeight * offsetY) / 100;
+            break;
+        case 'bottom-right':
+        default:
+            left = imageWidth - overlayWidth - dx;
+            top = imageHeight - overlayHeight - dy;
+            break;
+    }
+
+    return {
+        left: Math.round(clamp(left, 0, Math.max(0, imageWidth - overlayWidth))),
+        top: Math.round(clamp(top, 0, Math.max(0, imageHeight - overlayHeight)))
+    };
+};
+
+const escapeXml = (text) => text.replace(/[<>&'"]/g, (c) => ({
+    '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;'
+}[c]));
+
+// Render the watermark text as an SVG sized to `size`% of the image width
+const renderTextOverlay = (text, boxWidth, opacity) => {
+    const fontSize = Math.max(10, Math.round(boxWidth / (text.length * 0.6)));
+    const height = Math.round(fontSize * 1.4);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${boxWidth}" height="${height}">
+        <text x="50%" y="${Math.round(fontSize * 1.05)}" text-anchor="middle"
+            font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="${fontSize}"
+            fill="#ffffff" fill-opacity="${opacity}" stroke="#000000" stroke-opacity="${opacity * 0.35}"
+            stroke-width="${Math.max(1, Math.round(fontSize / 24))}"
+            textLength="${Math.round(boxWidth * 0.96)}" lengthAdjust="spacingAndGlyphs">${escapeXml(text)}</text>
+    </svg>`;
+    return { input: Buffer.from(svg), width: boxWidth, height };
+};
+
+const renderLogoOverlay = async (logoBuffer, boxWidth, opacity) => {
+    const { data, info } = await sharp(logoBuffer)
+        .resize({ width: boxWidth, withoutEnlargement: false })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    // Scale the alpha channel by the requested opacity
+    for (let i = 3; i < data.length; i += 4) {
+        data[i] = Math.round(data[i] * opacity);
+    }
+
+    const input = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+    return { input, width: info.width, height: info.height };
+};
+
+// Remote logos are fetched from the host's own URL, so they're held to a short
+// timeout and a size cap, and never from this network
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]]) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped addresses (::ffff:a.b.c.d) are refused outright rather than unwrapped
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10]]) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPrivateAddress = ({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+const fetchRemoteLogo = async (logoUrl) => {
+    const { hostname } = new URL(logoUrl);
+    const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) throw new Error('Logo host is not allowed');
+
+    // Redirects could lead back into the private network, so they're refused
+    const res = await fetch(logoUrl, { redirect: 'error', signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+    if (!res.ok) throw new Error(`Failed to fetch logo: ${res.status}`);
+    if (Number(res.headers.get('content-length')) > MAX_LOGO_BYTES) throw new Error('Logo is too large');
+
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of res.body) {
+        size += chunk.length;
+        if (size > MAX_LOGO_BYTES) {
+            await res.body.cancel().catch(() => {});
+            throw new Error('Logo is too large');
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+};
+
+// Stored logos live under logos/<userId>/. Every other key in the bucket is
+// event media, which must never be drawn into someone's branding.
+const LOGO_KEY_PATTERN = /^logos\/[\w-]+\/[\w.-]+$/;
+
+const getLogoKey = (logoUrl) => logoUrl.startsWith('/api/proxy-media')
+    ? new URL(logoUrl, 'http://localhost').searchParams.get('key') || ''
+    : logoUrl;
+
+const isRemoteLogoUrl = (logoUrl) => {
+    try {
+        const url = new URL(logoUrl);
+        return ['http:', 'https:'].includes(url.protocol) && !url.username && !url.password;
+    } catch {
+        return false;
+    }
+};
+
+// Whether `logoUrl` may be saved as the logo of user `userId`: an image data
+// URL, an http(s) URL, or a stored logo under the user's own prefix
+export const isAllowedLogoUrl = (logoUrl, userId) => {
+    if (/^data:image\/[\w.+-]+;base64,/.test(logoUrl)) return true;
+    if (/^https?:\/\//.test(logoUrl)) return isRemoteLogoUrl(logoUrl);
+
+    const key = getLogoKey(logoUrl);
+    return key.startsWith(`logos/${userId}/`) && LOGO_KEY_PATTERN.test(key);
+};
+
+// Resolve a logo reference to raw bytes. Logos are saved from
+// StudioSettingsModal as data URLs, but older records may hold an
+// S3 key, a proxy URL or an absolute URL.
+export const loadLogo = async (logoUrl) => {
+    if (!logoUrl) return null;
+
+    if (logoUrl.startsWith('data:')) {
+        const base64 = logoUrl.split(',')[1];
+        return base64 ? Buffer.from(base64, 'base64') : null;
+    }
+
+    if (/^https?:\/\//.test(logoUrl)) return fetchRemoteLogo(logoUrl);
+
+    const key = getLogoKey(logoUrl);
+    if (!LOGO_KEY_PATTERN.test(key)) throw new Error('Logo key is not allowed');
+    return getS3ObjectBuffer(key);
+};
+
+// The watermark overlay for a width x height picture, placed per the settings:
+// { input, left, top }, or null when there's nothing to draw
+const renderOverlay = async (width, height, merged, logoBuffer) => {
+    const boxWidth = Math.max(1, Math.min(width, Math.round((width * merged.size) / 100)));
+    const opacity = clamp(Number(merged.opacity), 0, 1);
+
+    let overlay = null;
+    if (logoBuffer) {
+        try {
+            overlay = await renderLogoOverlay(logoBuffer, boxWidth, opacity);
+        } catch (error) {
+            console.warn('⚠️ Could not render watermark logo, falling back to text:', error.message);
+        }
+    }
+    if (!overlay && merged.text) {
+        overlay = renderTextOverlay(merged.text, boxWidth, opacity);
+    }
+    if (!overlay) return null;
+
+    // Never let the overlay exceed the image - sharp rejects that
+    if (overlay.height > height) {
+        const input = await sharp(overlay.input).resize({ height, fit: 'inside' }).png().toBuffer();
+        const meta = await sharp(input).metadata();
+        overlay = { input, width: meta.width, height: meta.height };
+    }
+
+    const { left, top } = computeWatermarkPlacement(width, height, overlay.width, overlay.height, merged);
+    return { input: overlay.input, left, top };
+};
+
+// Apply the watermark to an image (path or buffer) and return a JPEG buffer.
+// The image is auto-oriented first so the mark lands in the corner the viewer sees.
+export const renderWatermark = async (input, settings, logoBuffer = null) => {
+    const merged = { ...DEFAULT_WATERMARK_SETTINGS, ...settings };
+    const base = await sharp(input).rotate().toBuffer({ resolveWithObject: true });
+    const overlay = await renderOverlay(base.info.width, base.info.height, merged, logoBuffer);
+
+    const image = sharp(base.data);
+    if (overlay) image.composite([overlay]);
+    return image.jpeg({ quality: 90 }).toBuffer();
+};
+
+// The watermark alone on a transparent width x height PNG, for videos to overlay
+export const renderWatermarkFrame = async (width, height, settings, logoBuffer = null) => {
+    const merged = { ...DEFAULT_WATERMARK_SETTINGS, ...settings };
+    const overlay = await renderOverlay(width, height, merged, logoBuffer);
+
+    const frame = sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } });
+    if (overlay) frame.composite([overlay]);
+    return frame.png().toBuffer();
+};
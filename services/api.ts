@@ -1,4 +1,4 @@
-import { User, Event, MediaItem, GuestbookEntry, Comment, Vendor } from '../types';
+import { User, Event, MediaItem, GuestbookEntry, NewGuestbookEntry, Comment, NewComment, Vendor, UploadJob, UploadJobStatus, LikeResult, MediaLike, ReactionResult, Language, Person, HighlightVideoJob, CollageOptions } from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -7,6 +7,55 @@ const getAuthHeaders = () => {
     return token ? { 'Authorization': `Bearer ${token}` } : {};
 };
 
+// Issued by validate-pin for PIN-protected events, kept for the browser session
+const getEventAccessKey = (eventId: string) => `snapify_event_access_${eventId}`;
+
+export const getEventAccessToken = (eventId: string): string | null => sessionStorage.getItem(getEventAccessKey(eventId));
+
+const getEventAccessHeaders = (eventId?: string): Record<string, string> => {
+    const token = eventId ? getEventAccessToken(eventId) : null;
+    return token ? { 'X-Event-Access': token } : {};
+};
+
+// Plain download links can't send the Authorization header, so signed-in users get a
+// short-lived token for that one path (?dl=) - the login token never goes in a URL
+const getDownloadUrl = async (path: string, params: URLSearchParams = new URLSearchParams()): Promise<string> => {
+    if (localStorage.getItem('snapify_token')) {
+        const res = await fetch(`${API_URL}/api/auth/download-token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ path })
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'Failed to prepare download');
+        params.set('dl', data.token);
+    }
+    const query = params.toString();
+    return `${API_URL}${path}${query ? `?${query}` : ''}`;
+};
+
+// Guests are told apart (one like per photo) by a random id this browser keeps
+const getGuestHeaders = (): Record<string, string> => {
+    let guestId = localStorage.getItem('snapify_guest_id');
+    if (!guestId) {
+        guestId = crypto.randomUUID();
+        localStorage.setItem('snapify_guest_id', guestId);
+    }
+    return { 'X-Guest-Id': guestId };
+};
+
+// Shared events load their newest media page first, the gallery fetches the rest while scrolling
+const MEDIA_PAGE_SIZE = 100;
+
+export interface MediaPageOptions {
+    cursor?: string | null;
+    limit?: number;
+    sort?: 'uploaded' | 'taken';
+    type?: 'image' | 'video';
+    uploaderId?: string;
+    privacy?: 'public' | 'private';
+}
+
 export const api = {
     // ... existing methods (User, Auth, etc.) ...
     fetchUsers: async (): Promise<User[]> => {
@@ -74,7 +123,9 @@ export const api = {
     },
 
     fetchEventById: async (eventId: string): Promise<Event> => {
-        const res = await fetch(`${API_URL}/api/events/${eventId}?_t=${Date.now()}`);
+        const res = await fetch(`${API_URL}/api/events/${eventId}?mediaLimit=${MEDIA_PAGE_SIZE}&_t=${Date.now()}`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
         if (!res.ok) throw new Error(`Failed to fetch event`);
         const data = await res.json();
         return {
@@ -83,6 +134,177 @@ export const api = {
         };
     },
 
+    // One page of an event's media - pass nextCursor back for the next page (null after the last)
+    fetchEventMedia: async (eventId: string, options: MediaPageOptions = {}): Promise<{ media: MediaItem[]; nextCursor: string | null }> => {
+        const params = new URLSearchParams({ limit: String(options.limit || MEDIA_PAGE_SIZE) });
+        for (const key of ['cursor', 'sort', 'type', 'uploaderId', 'privacy'] as const) {
+            if (options[key]) params.set(key, options[key]!);
+        }
+        const res = await fetch(`${API_URL}/api/events/${eventId}/media?${params}`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to fetch media');
+        const data = await res.json();
+        return {
+            media: data.media.map((m: any) => ({ ...m, isWatermarked: !!m.isWatermarked })),
+            nextCursor: data.nextCursor || null
+        };
+    },
+
+    // Ranked full-text search over captions, uploader names, comments and AI tags
+    searchEventMedia: async (eventId: string, query: string, options: { limit?: number; offset?: number } = {}): Promise<MediaItem[]> => {
+        const params = new URLSearchParams({ q: query });
+        if (options.limit) params.set('limit', String(options.limit));
+        if (options.offset) params.set('offset', String(options.offset));
+        const res = await fetch(`${API_URL}/api/events/${eventId}/media/search?${params}`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to search media');
+        const data = await res.json();
+        return data.media.map((m: any) => ({ ...m, isWatermarked: !!m.isWatermarked }));
+    },
+
+    // The event's best photos, best first
+    getEventHighlights: async (eventId: string, limit?: number): Promise<MediaItem[]> => {
+        const params = limit ? `?limit=${limit}` : '';
+        const res = await fetch(`${API_URL}/api/events/${eventId}/highlights${params}`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to load highlights');
+        const data = await res.json();
+        return data.media.map((m: any) => ({ ...m, isWatermarked: !!m.isWatermarked }));
+    },
+
+    // Find Me: the event's photos of the person in the selfie, or null when no face was found in it
+    findMe: async (eventId: string, selfie: Blob): Promise<MediaItem[] | null> => {
+        const body = new FormData();
+        body.append('selfie', selfie);
+        const res = await fetch(`${API_URL}/api/events/${eventId}/find-me`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() },
+            body
+        });
+        if (res.status === 422) return null;
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to find your photos');
+        return data.media.map((m: any) => ({ ...m, isWatermarked: !!m.isWatermarked }));
+    },
+
+    getFindMeOptOut: async (eventId: string): Promise<boolean> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/find-me/opt-out`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) return false;
+        return (await res.json()).optedOut;
+    },
+
+    // Keeps the face in the selfie out of Find Me; false when no face was found in it
+    optOutOfFindMe: async (eventId: string, selfie: Blob): Promise<boolean> => {
+        const body = new FormData();
+        body.append('selfie', selfie);
+        const res = await fetch(`${API_URL}/api/events/${eventId}/find-me/opt-out`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() },
+            body
+        });
+        if (res.status === 422) return false;
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to opt out');
+        return true;
+    },
+
+    cancelFindMeOptOut: async (eventId: string): Promise<void> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/find-me/opt-out`, {
+            method: 'DELETE',
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error((await res.json()).error || 'Failed to cancel opt-out');
+    },
+
+    // Print-ready collage JPEG, made from photos straight from the camera or from the event's own (mediaIds)
+    createCollage: async (eventId: string, options: CollageOptions): Promise<Blob> => {
+        const body = new FormData();
+        body.append('template', options.template);
+        body.append('lang', options.lang);
+        if (options.size) body.append('size', options.size);
+        (options.photos || []).forEach(photo => body.append('photos', photo));
+        if (options.mediaIds && options.mediaIds.length > 0) body.append('mediaIds', JSON.stringify(options.mediaIds));
+        const res = await fetch(`${API_URL}/api/events/${eventId}/collage`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId), ...getGuestHeaders() },
+            body
+        });
+        if (!res.ok) throw new Error((await res.json()).error || 'Failed to create collage');
+        return res.blob();
+    },
+
+    // People albums (hosts only): faces in the event's photos grouped by person
+    getPeople: async (eventId: string): Promise<Person[]> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/people`, { headers: getAuthHeaders() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load people');
+        return data;
+    },
+
+    reclusterPeople: async (eventId: string): Promise<Person[]> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/people/recluster`, { method: 'POST', headers: getAuthHeaders() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to group people');
+        return data;
+    },
+
+    getPersonMedia: async (eventId: string, personId: string): Promise<MediaItem[]> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/people/${personId}/media`, { headers: getAuthHeaders() });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load photos');
+        return data.media.map((m: any) => ({ ...m, isWatermarked: !!m.isWatermarked }));
+    },
+
+    renamePerson: async (eventId: string, personId: string, name: string): Promise<void> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/people/${personId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ name })
+        });
+        if (!res.ok) throw new Error((await res.json()).error || 'Failed to rename person');
+    },
+
+    // Folds sourceIds into targetId; resolves with the updated people
+    mergePeople: async (eventId: string, targetId: string, sourceIds: string[]): Promise<Person[]> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/people/${targetId}/merge`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ sourceIds })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to merge people');
+        return data;
+    },
+
+    // Highlight video: renders in the background, mediaIds (in playing order) default to the event's highlights
+    renderHighlightVideo: async (eventId: string, options: { mediaIds?: string[]; audio?: File | null } = {}): Promise<HighlightVideoJob> => {
+        const body = new FormData();
+        if (options.mediaIds && options.mediaIds.length > 0) body.append('mediaIds', JSON.stringify(options.mediaIds));
+        if (options.audio) body.append('audio', options.audio);
+        const res = await fetch(`${API_URL}/api/events/${eventId}/highlight-video`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders() },
+            body
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to start highlight video');
+        return data;
+    },
+
+    getHighlightVideos: async (eventId: string): Promise<HighlightVideoJob[]> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/highlight-video`, {
+            headers: { ...getAuthHeaders() }
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load highlight videos');
+        return data;
+    },
+
     createEvent: async (event: Event): Promise<Event> => {
         const res = await fetch(`${API_URL}/api/events`, {
             method: 'POST',
@@ -111,9 +333,37 @@ export const api = {
             body: JSON.stringify({ pin })
         });
         const data = await res.json();
-        return data.success;
+        if (data.success && data.accessToken) sessionStorage.setItem(getEventAccessKey(id), data.accessToken);
+        return !!data.success;
+    },
+
+    rerenderWatermarks: async (eventId: string): Promise<number> => {
+        const res = await fetch(`${API_URL}/api/events/${eventId}/watermarks/rerender`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to re-apply watermarks');
+        const data = await res.json();
+        return data.queued || 0;
+    },
+
+    // The archive is streamed by the server, so this is used as a plain download link
+    // source 'highlights' exports the event's best photos instead, ignoring the other filters
+    getEventExportUrl: (eventId: string, filters: { type?: 'image' | 'video'; uploaderId?: string; ids?: string[]; source?: 'highlights' } = {}): Promise<string> => {
+        const params = new URLSearchParams();
+        if (filters.source) params.set('source', filters.source);
+        if (filters.type) params.set('type', filters.type);
+        if (filters.uploaderId) params.set('uploaderId', filters.uploaderId);
+        if (filters.ids && filters.ids.length > 0) params.set('ids', filters.ids.join(','));
+        const accessToken = getEventAccessToken(eventId);
+        if (accessToken) params.set('access', accessToken);
+        return getDownloadUrl(`/api/events/${eventId}/export.zip`, params);
     },
 
+    // Printable guestbook keepsake for the host - a plain download link, like the event export
+    getGuestbookPdfUrl: (eventId: string, lang: Language = 'en'): Promise<string> =>
+        getDownloadUrl(`/api/events/${eventId}/guestbook.pdf`, new URLSearchParams({ lang })),
+
     // --- VENDORS (NEW) ---
     fetchVendors: async (city?: string): Promise<Vendor[]> => {
         let url = `${API_URL}/api/vendors`;
@@ -124,72 +374,56 @@ export const api = {
     },
 
     // --- MEDIA & AI ---
+    // Resumable chunked upload. Progress covers the byte transfer (0-90%) and then server processing (90-100%).
     uploadMedia: async (file: File, metadata: Partial<MediaItem>, eventId: string, onProgress?: (percent: number) => void): Promise<MediaItem> => {
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('id', metadata.id!);
-        formData.append('eventId', eventId);
-        formData.append('type', metadata.type!);
-        formData.append('caption', metadata.caption || '');
-        formData.append('uploadedAt', metadata.uploadedAt!);
-        formData.append('uploaderName', metadata.uploaderName!);
-        formData.append('uploaderId', metadata.uploaderId || '');
-        formData.append('isWatermarked', String(metadata.isWatermarked));
-        formData.append('watermarkText', metadata.watermarkText || '');
-        formData.append('privacy', metadata.privacy || 'public');
-
-        return new Promise((resolve, reject) => {
-            const xhr = new XMLHttpRequest();
-            xhr.open('POST', `${API_URL}/api/media`);
-            const token = localStorage.getItem('snapify_token');
-            if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-
-            xhr.onload = () => {
-                console.log('Upload response - status:', xhr.status, 'response:', xhr.responseText);
-                if (xhr.status >= 200 && xhr.status < 300) {
-                    try {
-                        const result = JSON.parse(xhr.responseText);
-                        console.log('Upload queued:', result);
-
-                        // Poll for completion status
-                        pollUploadStatus(result.uploadId, resolve, reject, onProgress);
-                    } catch (e) {
-                        console.error('JSON parse error:', e, 'response:', xhr.responseText);
-                        reject(new Error('Invalid JSON response'));
-                    }
-                } else {
-                    console.error('Upload failed - status:', xhr.status, 'statusText:', xhr.statusText, 'response:', xhr.responseText);
-                    reject(new Error(`Upload failed: ${xhr.status} ${xhr.statusText}`));
-                }
-            };
-
-            xhr.onerror = () => {
-                console.error('Upload network error');
-                reject(new Error('Network error during upload'));
-            };
+        // Re-selecting the same file after a reload picks up the earlier session
+        const resumeKey = `snapify_upload_${eventId}_${file.name}_${file.size}_${file.lastModified}`;
+        const savedUploadId = localStorage.getItem(resumeKey);
 
-            xhr.ontimeout = () => {
-                console.error('Upload timeout');
-                reject(new Error('Upload timeout'));
-            };
-
-            xhr.timeout = 300000; // 5 minute timeout
+        let session: UploadSession;
+        try {
+            session = await startUploadSession(file, { ...metadata, id: savedUploadId || metadata.id }, eventId);
+        } catch (error) {
+            if (!savedUploadId) throw error;
+            // The saved session is gone or already finished - start over
+            localStorage.removeItem(resumeKey);
+            session = await startUploadSession(file, metadata, eventId);
+        }
+        localStorage.setItem(resumeKey, session.uploadId);
+
+        let failures = 0;
+        while (!session.completed) {
+            const offset = session.offset;
+            try {
+                session = await uploadChunk(session.uploadId, file.slice(offset, offset + UPLOAD_CHUNK_SIZE), offset, (sent) => {
+                    onProgress?.(Math.round(((offset + sent) / file.size) * 90));
+                });
+                failures = 0;
+            } catch (error) {
+                if (++failures > MAX_CHUNK_RETRIES) throw error;
+                console.warn(`Chunk upload failed (attempt ${failures}), retrying:`, error);
+                await new Promise(resolve => setTimeout(resolve, Math.min(30000, 1000 * 2 ** failures)));
+                // The server keeps whatever arrived before the drop - continue from its offset
+                session = await getUploadSession(session.uploadId).catch(() => session);
+            }
+        }
+        localStorage.removeItem(resumeKey);
 
-            console.log('Starting upload to:', `${API_URL}/api/media`);
-            xhr.send(formData);
+        return new Promise((resolve, reject) => {
+            pollUploadStatus(session.uploadId, eventId, resolve, reject, onProgress && ((percent) => onProgress(90 + Math.round(percent / 10))));
         });
     },
 
     // Check upload status
-    getUploadStatus: async (uploadId: string): Promise<{ status: string; progress: number; error?: string }> => {
+    getUploadStatus: async (uploadId: string): Promise<{ status: string; progress: number; error?: string; duplicateOf?: string }> => {
         const res = await fetch(`${API_URL}/api/media/upload/${uploadId}/status`, { headers: { ...getAuthHeaders() } });
         if (!res.ok) throw new Error('Failed to get upload status');
         return res.json();
     },
 
     // Fetch media item by ID
-    getMediaById: async (mediaId: string): Promise<MediaItem> => {
-        const res = await fetch(`${API_URL}/api/media/${mediaId}`, { headers: { ...getAuthHeaders() } });
+    getMediaById: async (mediaId: string, eventId?: string): Promise<MediaItem> => {
+        const res = await fetch(`${API_URL}/api/media/${mediaId}`, { headers: { ...getAuthHeaders(), ...getEventAccessHeaders(eventId) } });
         if (!res.ok) throw new Error('Failed to fetch media item');
         return res.json();
     },
@@ -250,7 +484,38 @@ Example structure:
         return data.reviews || [];
     },
 
-    likeMedia: async (id: string): Promise<void> => { await fetch(`${API_URL}/api/media/${id}/like`, { method: 'PUT' }); },
+    // Untouched HEIC/RAW file behind a converted image - a plain download link, like the event export
+    getOriginalDownloadUrl: (mediaId: string): Promise<string> => getDownloadUrl(`/api/media/${mediaId}/original`),
+
+    // Likes the item, or unlikes it when this user or guest already did
+    likeMedia: async (item: MediaItem): Promise<LikeResult> => {
+        const res = await fetch(`${API_URL}/api/media/${item.id}/like`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getEventAccessHeaders(item.eventId), ...getGuestHeaders() },
+            body: JSON.stringify({ name: localStorage.getItem('snapify_guest_name') || undefined })
+        });
+        if (!res.ok) throw new Error('Failed to like media');
+        return res.json();
+    },
+
+    // Reacts with the emoji, switches to it, or takes it back when it's already this person's reaction
+    reactToMedia: async (item: MediaItem, emoji: string): Promise<ReactionResult> => {
+        const res = await fetch(`${API_URL}/api/media/${item.id}/reaction`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getEventAccessHeaders(item.eventId), ...getGuestHeaders() },
+            body: JSON.stringify({ emoji })
+        });
+        if (!res.ok) throw new Error('Failed to react to media');
+        return res.json();
+    },
+
+    fetchMediaLikes: async (item: MediaItem): Promise<MediaLike[]> => {
+        const res = await fetch(`${API_URL}/api/media/${item.id}/likes`, {
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(item.eventId), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to fetch likes');
+        return res.json();
+    },
     deleteMedia: async (id: string): Promise<void> => { await fetch(`${API_URL}/api/media/${id}`, { method: 'DELETE', headers: { ...getAuthHeaders() } }); },
 
     bulkDeleteMedia: async (mediaIds: string[]): Promise<{ success: boolean; deletedCount: number }> => {
@@ -263,22 +528,95 @@ Example structure:
         return { success: data.success || false, deletedCount: data.deletedCount || 0 };
     },
 
-    addGuestbookEntry: async (entry: GuestbookEntry): Promise<GuestbookEntry> => {
+    // Host review of near-duplicates: keep one item per group and delete the rest
+    mergeDuplicates: async (groups: { keepId: string; mediaIds: string[] }[]): Promise<{ success: boolean; deletedCount: number }> => {
+        const res = await fetch(`${API_URL}/api/media/duplicates/merge`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ groups })
+        });
+        if (!res.ok) throw new Error('Failed to merge duplicates');
+        const data = await res.json();
+        return { success: data.success || false, deletedCount: data.deletedCount || 0 };
+    },
+
+    dismissDuplicates: async (mediaIds: string[]): Promise<void> => {
+        const res = await fetch(`${API_URL}/api/media/duplicates/dismiss`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ mediaIds })
+        });
+        if (!res.ok) throw new Error('Failed to dismiss duplicates');
+    },
+
+    // Multipart, so a photo or voice note can come along
+    addGuestbookEntry: async (entry: NewGuestbookEntry): Promise<GuestbookEntry> => {
+        const body = new FormData();
+        body.append('eventId', entry.eventId);
+        body.append('senderName', entry.senderName);
+        body.append('message', entry.message);
+        if (entry.attachment) body.append('attachment', entry.attachment);
         const res = await fetch(`${API_URL}/api/guestbook`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(entry)
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(entry.eventId), ...getGuestHeaders() },
+            body
         });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to sign guestbook");
+        return data;
+    },
+
+    // Hosts and admins approve or hide entries
+    moderateGuestbookEntry: async (entry: GuestbookEntry, status: 'approved' | 'hidden'): Promise<GuestbookEntry> => {
+        const res = await fetch(`${API_URL}/api/guestbook/${entry.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+            body: JSON.stringify({ status })
+        });
+        if (!res.ok) throw new Error('Failed to update guestbook entry');
         return res.json();
     },
 
-    addComment: async (comment: Comment): Promise<Comment> => {
+    deleteGuestbookEntry: async (entry: GuestbookEntry): Promise<void> => {
+        const res = await fetch(`${API_URL}/api/guestbook/${entry.id}`, {
+            method: 'DELETE',
+            headers: { ...getAuthHeaders(), ...getGuestHeaders() }
+        });
+        if (!res.ok) throw new Error('Failed to delete guestbook entry');
+    },
+
+    // Guests comment under their guest id and senderName, signed-in users under their account
+    addComment: async (comment: NewComment): Promise<Comment> => {
         const res = await fetch(`${API_URL}/api/comments`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getEventAccessHeaders(comment.eventId), ...getGuestHeaders() },
             body: JSON.stringify(comment)
         });
-        return res.json();
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to add comment");
+        return data;
+    },
+
+    updateComment: async (comment: Comment, text: string): Promise<Comment> => {
+        const res = await fetch(`${API_URL}/api/comments/${comment.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getEventAccessHeaders(comment.eventId), ...getGuestHeaders() },
+            body: JSON.stringify({ text })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to edit comment");
+        return data;
+    },
+
+    // By its author, the event host or an admin - replies go with it
+    deleteComment: async (comment: Comment): Promise<{ ids: string[] }> => {
+        const res = await fetch(`${API_URL}/api/comments/${comment.id}`, {
+            method: 'DELETE',
+            headers: { ...getAuthHeaders(), ...getEventAccessHeaders(comment.eventId), ...getGuestHeaders() }
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to delete comment");
+        return data;
     },
 
 
@@ -341,12 +679,120 @@ Example structure:
         });
         if (!res.ok) throw new Error("Failed to clear users database");
         return res.json();
+    },
+
+    // --- UPLOAD JOBS ---
+    getUploadJobs: async (status?: UploadJobStatus | 'all' | 'stuck'): Promise<UploadJob[]> => {
+        const query = status ? `?status=${status}` : '';
+        const res = await fetch(`${API_URL}/api/admin/upload-jobs${query}`, { headers: { ...getAuthHeaders() } });
+        if (!res.ok) throw new Error("Failed to get upload jobs");
+        const data = await res.json();
+        return data.jobs;
+    },
+
+    retryUploadJob: async (jobId: string): Promise<UploadJob> => {
+        const res = await fetch(`${API_URL}/api/admin/upload-jobs/${jobId}/retry`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders() }
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Failed to retry upload job");
+        return data.job;
+    },
+
+    cancelUploadJob: async (jobId: string): Promise<UploadJob> => {
+        const res = await fetch(`${API_URL}/api/admin/upload-jobs/${jobId}/cancel`, {
+            method: 'POST',
+            headers: { ...getAuthHeaders() }
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || "Failed to cancel upload job");
+        return data.job;
+    }
+};
+
+// --- Resumable upload helpers ---
+interface UploadSession {
+    uploadId: string;
+    offset: number;
+    size: number;
+    completed: boolean;
+}
+
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+const MAX_CHUNK_RETRIES = 8;
+
+const startUploadSession = async (file: File, metadata: Partial<MediaItem>, eventId: string): Promise<UploadSession> => {
+    const res = await fetch(`${API_URL}/api/media/uploads`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getEventAccessHeaders(eventId) },
+        body: JSON.stringify({
+            id: metadata.id,
+            eventId,
+            filename: file.name,
+            mimeType: file.type,
+            size: file.size,
+            type: metadata.type,
+            caption: metadata.caption || '',
+            uploadedAt: metadata.uploadedAt,
+            uploaderName: metadata.uploaderName,
+            uploaderId: metadata.uploaderId || '',
+            isWatermarked: String(metadata.isWatermarked),
+            watermarkText: metadata.watermarkText || '',
+            privacy: metadata.privacy || 'public'
+        })
+    });
+    if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Upload failed: ${res.status}`);
     }
+    return res.json();
+};
+
+const getUploadSession = async (uploadId: string): Promise<UploadSession> => {
+    const res = await fetch(`${API_URL}/api/media/uploads/${uploadId}`, { headers: { ...getAuthHeaders() } });
+    if (!res.ok) throw new Error('Failed to get upload session');
+    return res.json();
+};
+
+// XHR rather than fetch so we get upload progress events
+const uploadChunk = (uploadId: string, chunk: Blob, offset: number, onChunkProgress: (sentBytes: number) => void): Promise<UploadSession> => {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('PATCH', `${API_URL}/api/media/uploads/${uploadId}?offset=${offset}`);
+        const token = localStorage.getItem('snapify_token');
+        if (token) xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+        xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+
+        xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+        xhr.onload = () => {
+            // An offset mismatch carries the server's current offset, so it is handled like a
+            // success. Other 409s (a chunk still being written) fail, so the caller backs off.
+            if ((xhr.status >= 200 && xhr.status < 300) || xhr.status === 409) {
+                let data;
+                try {
+                    data = JSON.parse(xhr.responseText);
+                } catch (e) {
+                    return reject(new Error('Invalid JSON response'));
+                }
+                if (xhr.status === 409 && data.error !== 'Offset mismatch') reject(new Error(data.error || 'Chunk upload conflict'));
+                else resolve(data);
+            } else {
+                reject(new Error(`Chunk upload failed: ${xhr.status} ${xhr.statusText}`));
+            }
+        };
+        xhr.onerror = () => reject(new Error('Network error during upload'));
+        xhr.ontimeout = () => reject(new Error('Upload timeout'));
+        xhr.timeout = 120000; // 2 minutes per chunk
+
+        xhr.send(chunk);
+    });
 };
 
 // Polling function for upload status
 const pollUploadStatus = async (
     uploadId: string,
+    eventId: string,
     resolve: (value: MediaItem) => void,
     reject: (reason: Error) => void,
     onProgress?: (percent: number) => void,
@@ -368,14 +814,14 @@ const pollUploadStatus = async (
             if (status.status === 'completed') {
                 // Fetch the actual media item from the database
                 try {
-                    const mediaItem = await api.getMediaById(uploadId);
+                    const mediaItem = await api.getMediaById(uploadId, eventId);
                     resolve(mediaItem);
                 } catch (fetchError) {
                     console.error('Failed to fetch completed media item:', fetchError);
                     // Fallback to placeholder if fetch fails
                     const placeholderItem: MediaItem = {
                         id: uploadId,
-                        eventId: '',
+                        eventId,
                         type: 'image',
                         url: '',
                         caption: '',
@@ -385,6 +831,9 @@ const pollUploadStatus = async (
                     };
                     resolve(placeholderItem);
                 }
+            } else if (status.status === 'duplicate') {
+                // The exact same file is already in the event, so nothing new was stored
+                reject(new Error('Duplicate upload'));
             } else if (status.status === 'failed') {
                 reject(new Error(status.error || 'Upload failed'));
             } else if (attempts >= maxAttempts) {
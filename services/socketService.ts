@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { getEventAccessToken } from './api';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -47,7 +48,8 @@ class SocketService {
 
     joinEvent(eventId: string) {
         if (this.socket) {
-            this.socket.emit('join_event', eventId);
+            // PIN-protected events only admit guests holding the PIN access token
+            this.socket.emit('join_event', eventId, getEventAccessToken(eventId));
         }
     }
 
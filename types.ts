@@ -16,8 +16,10 @@ export interface TierConfig {
   maxDurationHours?: number;
   maxDurationDays?: number | null;
   allowVideo: boolean;
+  allow4k: boolean; // 2160p HLS rendition for videos
   allowBranding: boolean;
   allowWatermark: boolean;
+  allowOriginalDownloads: boolean; // HEIC/RAW files as uploaded
 }
 
 export const TIER_CONFIG: Record<TierLevel, TierConfig> = {
@@ -25,29 +27,37 @@ export const TIER_CONFIG: Record<TierLevel, TierConfig> = {
     storageLimitMb: 100,
     maxDurationHours: 7,
     allowVideo: false,
+    allow4k: false,
     allowBranding: false,
-    allowWatermark: false
+    allowWatermark: false,
+    allowOriginalDownloads: false
   },
   [TierLevel.BASIC]: {
     storageLimitMb: 10240, // 10GB
     maxDurationDays: 30,
     allowVideo: false,
+    allow4k: false,
     allowBranding: false,
-    allowWatermark: false
+    allowWatermark: false,
+    allowOriginalDownloads: false
   },
   [TierLevel.PRO]: {
     storageLimitMb: 30720, // 30GB
     maxDurationDays: 30,
-    allowVideo: true, // 4K Support
+    allowVideo: true,
+    allow4k: true, // 4K Support
     allowBranding: true,
-    allowWatermark: true
+    allowWatermark: true,
+    allowOriginalDownloads: false
   },
   [TierLevel.STUDIO]: {
     storageLimitMb: 102400, // 100GB+
     maxDurationDays: null, // Unlimited
     allowVideo: true,
+    allow4k: true,
     allowBranding: true,
-    allowWatermark: true
+    allowWatermark: true,
+    allowOriginalDownloads: true
   }
 };
 
@@ -57,8 +67,10 @@ export const getTierConfigForUser = (user: User | null): TierConfig => {
       storageLimitMb: Infinity,
       maxDurationDays: null, // Unlimited
       allowVideo: true,
+      allow4k: true,
       allowBranding: true,
-      allowWatermark: true
+      allowWatermark: true,
+      allowOriginalDownloads: true
     };
   }
   return TIER_CONFIG[user?.tier || TierLevel.FREE];
@@ -94,9 +106,30 @@ export interface Comment {
   id: string;
   mediaId: string;
   eventId: string;
+  parentId?: string | null; // replies point at the thread's top-level comment
   senderName: string;
+  userId?: string | null;
   text: string;
+  mentions?: string[]; // names @mentioned in text
   createdAt: string;
+  editedAt?: string | null;
+  isMine?: boolean; // written by the signed-in user, or this browser's guest id
+}
+
+// Sent for a new comment; the server fills in the rest
+export interface NewComment {
+  mediaId: string;
+  eventId: string;
+  text: string;
+  parentId?: string | null;
+  senderName?: string;
+}
+
+// srcset strings ("<url> 400w, <url> 1080w") of a photo's responsive variants, per format
+export interface MediaVariants {
+  avif?: string;
+  webp?: string;
+  jpeg?: string;
 }
 
 export interface MediaItem {
@@ -113,9 +146,48 @@ export interface MediaItem {
   isWatermarked?: boolean;
   watermarkText?: string;
   likes?: number;
+  likedByMe?: boolean; // by the signed-in user, or this browser's guest id
+  reactions?: Record<string, number>; // emoji -> count, see REACTIONS
+  myReaction?: string | null; // one per person, like likedByMe
   comments?: Comment[];
   privacy: 'public' | 'private';
-  orientation?: number; // EXIF orientation (1-8)
+  // Capture details from EXIF (container tags for videos). takenAt is ISO 8601,
+  // without an offset when the camera didn't record one (local wall-clock time).
+  takenAt?: string | null;
+  cameraMake?: string | null;
+  cameraModel?: string | null;
+  lensModel?: string | null;
+  orientation?: number | null; // EXIF orientation as captured - stored images are already upright
+  latitude?: number | null; // coarse (~1 km), only for events that keep locations
+  longitude?: number | null;
+  sourceFormat?: string | null; // e.g. 'heic' or 'cr2' when the displayed image is a conversion
+  variants?: MediaVariants | null;
+  duplicateOf?: string | null; // earlier upload this one looks like, until the host reviews it
+  highlightScore?: number; // 0-1, only on highlights
+  // Video only - poster frame and probed stream metadata
+  posterUrl?: string | null;
+  duration?: number | null; // seconds
+  width?: number | null; // displayed size, after rotation
+  height?: number | null;
+  videoCodec?: string | null;
+  rotation?: number | null; // degrees clockwise
+  hlsUrl?: string | null; // adaptive stream master playlist, when encoded
+}
+
+export interface LikeResult {
+  liked: boolean;
+  likes: number;
+}
+
+export interface ReactionResult {
+  reaction: string | null; // null when the reaction was taken back
+  reactions: Record<string, number>;
+}
+
+export interface MediaLike {
+  name: string;
+  likedAt: string;
+  isYou: boolean;
 }
 
 export interface GuestbookEntry {
@@ -124,6 +196,60 @@ export interface GuestbookEntry {
   senderName: string;
   message: string;
   createdAt: string;
+  status?: 'approved' | 'pending' | 'hidden'; // pending and hidden entries only reach hosts and their author
+  attachmentType?: 'image' | 'audio' | null; // a photo or short voice note
+  attachmentUrl?: string | null;
+  isMine?: boolean; // signed by the signed-in user, or this browser's guest id
+}
+
+// Sent to sign the guestbook; the server fills in the rest
+export interface NewGuestbookEntry {
+  eventId: string;
+  senderName: string;
+  message: string;
+  attachment?: Blob | null;
+}
+
+// A group of similar faces in an event's photos, shown to hosts as a people album
+export interface Person {
+  id: string;
+  name: string | null; // set by the host
+  photoCount: number;
+  cover: {
+    mediaId: string;
+    previewUrl: string;
+    box: { x: number; y: number; width: number; height: number } | null; // the face, in fractions of the photo
+    width: number | null; // of the photo, when known
+    height: number | null;
+  };
+}
+
+export type HighlightVideoStatus = 'pending' | 'rendering' | 'completed' | 'failed';
+
+// A highlight video render the host asked for; the finished video is added to the event as mediaId
+export interface HighlightVideoJob {
+  id: string;
+  eventId: string;
+  status: HighlightVideoStatus;
+  progress: number; // 0-100
+  mediaId?: string | null;
+  isSelection?: boolean; // made from media the host picked rather than the highlights
+  error?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CollageTemplate = 'grid' | 'strip' | 'polaroid' | 'magazine';
+
+export type PrintSize = '4x6' | '2x6'; // inches, portrait
+
+// Sent to make a collage - photos from the camera, or mediaIds of the event's own, in frame order
+export interface CollageOptions {
+  template: CollageTemplate;
+  size?: PrintSize; // the template's first size when left out
+  photos?: Blob[];
+  mediaIds?: string[];
+  lang: Language;
 }
 
 export interface Event {
@@ -136,11 +262,16 @@ export interface Event {
   code: string; 
   media: MediaItem[];
   guestbook?: GuestbookEntry[];
+  mediaCount?: number; // all media the viewer can see, when media holds only the first page
+  mediaCursor?: string | null; // for api.fetchEventMedia - null when media is complete
   coverImage?: string;
   coverMediaType?: 'image' | 'video';
   expiresAt: string | null; 
   pin?: string; 
   hasPin?: boolean; 
+  isLocked?: boolean; // PIN-protected and not unlocked by this viewer - media and guestbook are withheld
+  keepLocation?: boolean; // photos keep their GPS data; stripped on upload and download otherwise
+  guestbookApproval?: boolean; // guestbook entries wait for the host's approval
   views?: number;
   downloads?: number;
   hostTier?: TierLevel;
@@ -171,6 +302,28 @@ export interface PricingTier {
   limit: string;
 }
 
+export type UploadJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// Background processing job for an uploaded file (admin view)
+export interface UploadJob {
+  id: string;
+  eventId: string;
+  userId: string | null;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  status: UploadJobStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  isRunning: boolean;
+  isStuck: boolean;
+}
+
 export type Language = 'en' | 'mk' | 'tr' | 'sq';
 
 export type TranslateFn = (key: string) => string;
\ No newline at end of file
@@ -116,6 +116,14 @@ describe('Validation Utilities', () => {
             expect(validateFileType(exeFile)).toBe(false);
         });
 
+        test('should accept HEIC and RAW photos, recognizing RAW files by extension', () => {
+            expect(validateFileType({ type: 'image/heic', name: 'IMG_0001.HEIC', size: 1024 })).toBe(true);
+            expect(validateFileType({ type: '', name: 'DSC_0001.NEF', size: 1024 })).toBe(true);
+            expect(validateFileType({ type: 'application/octet-stream', name: 'IMG_0001.cr2', size: 1024 })).toBe(true);
+            expect(validateFileType({ type: '', name: 'setup.exe', size: 1024 })).toBe(false);
+            expect(validateFileType({ type: 'application/x-msdownload', name: 'photo.dng', size: 1024 })).toBe(false);
+        });
+
         test('should reject files that are too large', () => {
             const largeFile = { type: 'image/jpeg', size: 201 * 1024 * 1024 }; // 201MB
             expect(validateFileType(largeFile)).toBe(false);
@@ -0,0 +1,11 @@
+// Display formatting helpers shared by gallery views
+
+// Video duration as m:ss, or h:mm:ss for anything an hour or longer
+export const formatDuration = (seconds?: number | null): string => {
+  if (seconds === undefined || seconds === null || !Number.isFinite(seconds) || seconds < 0) return '';
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
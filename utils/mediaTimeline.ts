@@ -0,0 +1,35 @@
+import { MediaItem } from '../types';
+
+// When a photo or video was captured, falling back to when it was uploaded.
+// takenAt without an offset is the camera's wall-clock time, which Date
+// parses as local time - the time guests remember from the event.
+export const getCaptureTime = (item: MediaItem): number => {
+  const taken = item.takenAt ? new Date(item.takenAt).getTime() : NaN;
+  return Number.isNaN(taken) ? new Date(item.uploadedAt).getTime() : taken;
+};
+
+// Oldest first, so the gallery reads like the event unfolded
+export const sortByCaptureTime = (media: MediaItem[]): MediaItem[] =>
+  [...media].sort((a, b) => getCaptureTime(a) - getCaptureTime(b));
+
+export interface CaptureDay {
+  key: string; // YYYY-MM-DD, local time
+  label: string;
+  items: MediaItem[];
+}
+
+// Consecutive runs of media captured on the same local day
+export const groupByCaptureDay = (media: MediaItem[], locale?: string): CaptureDay[] => {
+  const days: CaptureDay[] = [];
+  for (const item of media) {
+    const date = new Date(getCaptureTime(item));
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const last = days[days.length - 1];
+    if (last && last.key === key) {
+      last.items.push(item);
+    } else {
+      days.push({ key, label: date.toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }), items: [item] });
+    }
+  }
+  return days;
+};
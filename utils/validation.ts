@@ -82,13 +82,28 @@ export const getSecurityHeaders = () => ({
   'Content-Security-Policy': "default-src 'self'; script-src 'self' 'unsafe-inline' https://accounts.google.com; style-src 'self' 'unsafe-inline'; img-src 'self' data: https:; connect-src 'self' wss: https:;"
 });
 
+// HEIC/HEIF and camera RAW files - accepted, and converted to JPEG on the server
+export const CONVERTED_IMAGE_EXTENSIONS = ['.heic', '.heif', '.cr2', '.nef', '.arw', '.dng'];
+const CONVERTED_IMAGE_MIMES = [
+  'image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence',
+  'image/x-canon-cr2', 'image/x-nikon-nef', 'image/x-sony-arw', 'image/x-adobe-dng', 'image/dng'
+];
+
+// Browsers report RAW files (and HEIC on some platforms) without a usable
+// MIME type, so the extension decides for those
+export const isConvertedImage = (file: File): boolean => {
+  if (CONVERTED_IMAGE_MIMES.includes(file.type)) return true;
+  const extension = (file.name?.match(/\.[^.]+$/)?.[0] || '').toLowerCase();
+  return (file.type === '' || file.type === 'application/octet-stream') && CONVERTED_IMAGE_EXTENSIONS.includes(extension);
+};
+
 // File validation
 export const validateFileType = (file: File): boolean => {
   const allowedMimes = [
     'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp',
     'video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo', 'video/webm'
   ];
-  return allowedMimes.includes(file.type) && file.size <= 200 * 1024 * 1024; // 200MB max
+  return (allowedMimes.includes(file.type) || isConvertedImage(file)) && file.size <= 200 * 1024 * 1024; // 200MB max
 };
 
 export const validateFileName = (filename: string): string => {
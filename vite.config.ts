@@ -86,6 +86,25 @@ export default defineConfig({
                 }
               }
             }
+          },
+          {
+            // Public media is immutable (re-renders get new keys), so images are kept locally.
+            // Private media is served with a different Cache-Control and never matches here.
+            urlPattern: ({ url, request }) => url.pathname.startsWith('/api/proxy-media') &&
+              request.destination === 'image',
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'snapify-media-cache',
+              expiration: {
+                maxEntries: 500,
+                maxAgeSeconds: 60 * 60 * 24 * 30, // 30 days
+                purgeOnQuotaError: true
+              },
+              cacheableResponse: {
+                statuses: [200],
+                headers: { 'Cache-Control': 'public, max-age=31536000, immutable' }
+              }
+            }
           }
         ]
       }